@@ -1,4 +1,13 @@
-import { app, shell, BrowserWindow, protocol, dialog, ipcMain } from 'electron'
+import {
+  app,
+  shell,
+  BrowserWindow,
+  protocol,
+  dialog,
+  ipcMain,
+  nativeImage,
+  Notification
+} from 'electron'
 import { join, normalize, extname, sep } from 'path'
 import { createServer, Server } from 'http'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
@@ -12,7 +21,16 @@ import updateService from './services/updateService'
 import logsService from './services/logsService'
 import mirrorService from './services/mirrorService'
 import wifiBookmarksService from './services/wifiBookmarksService'
+import deviceProfilesService from './services/deviceProfilesService'
+import gameUpdatesService from './services/gameUpdatesService'
+import backupService from './services/backupService'
+import deviceFilesService from './services/deviceFilesService'
+import mediaService from './services/mediaService'
+import screenMirrorService from './services/screenMirrorService'
+import localLibraryService from './services/localLibraryService'
+import thumbnailService from './services/thumbnailService'
 import { typedIpcMain } from '@shared/ipc-utils'
+import { GameInfo } from '@shared/types'
 import settingsService from './services/settingsService'
 import { typedWebContentsSend } from '@shared/ipc-utils'
 import log from 'electron-log/main'
@@ -147,6 +165,29 @@ downloadService.on('installation:success', (deviceId) => {
   }
 })
 
+// A sync that reached the server may bring a new mirror address or archive password
+gameService.on('vrp-config:updated', (vrpConfig: { baseUri?: string; password?: string }) => {
+  downloadService.setVrpConfig(vrpConfig)
+})
+
+// Announce new releases of watched games and queue them when auto-download is on
+gameService.on('watchlist:new-releases', (games: GameInfo[]) => {
+  const autoDownload = settingsService.getAutoDownloadWatchlist()
+  if (Notification.isSupported()) {
+    new Notification({
+      title: games.length === 1 ? 'New release of a watched game' : 'New releases of watched games',
+      body: `${games.map((game) => `${game.name} v${game.version}`).join(', ')}${
+        autoDownload ? ' - added to downloads' : ''
+      }`
+    }).show()
+  }
+  if (autoDownload) {
+    for (const game of games) {
+      void downloadService.addToQueue(game)
+    }
+  }
+})
+
 // Function to send dependency progress to renderer
 function sendDependencyProgress(
   status: DependencyStatus,
@@ -203,14 +244,14 @@ async function createWindow(): Promise<void> {
             console.log(`Game Service initialization status: ${gameServiceStatus}`)
             const vrpConfig = await gameService.getVrpConfig()
             // Initialize Download Service (needs VRP config from gameService)
-            if (vrpConfig) {
-              await downloadService.initialize(vrpConfig) // Pass VRP config
-              console.log('Download Service initialized.')
-            } else {
+            if (!vrpConfig) {
+              // Installs of finished downloads work without it, new downloads wait for a sync
               console.warn(
-                'vrpConfig did not initialize correctly, skipping download service initialization.'
+                'vrpConfig did not initialize correctly, downloads need a catalogue sync.'
               )
             }
+            await downloadService.initialize(vrpConfig)
+            console.log('Download Service initialized.')
             // Initialize Upload Service
             await uploadService.initialize()
             console.log('Upload Service initialized.')
@@ -222,6 +263,22 @@ async function createWindow(): Promise<void> {
             // Initialize WiFi Bookmarks Service
             await wifiBookmarksService.initialize()
             console.log('WiFi Bookmarks Service initialized.')
+
+            // Initialize Device Profiles Service
+            await deviceProfilesService.initialize()
+            console.log('Device Profiles Service initialized.')
+
+            // Initialize Game Updates Service
+            gameUpdatesService.initialize()
+            console.log('Game Updates Service initialized.')
+
+            // Initialize Backup Service
+            await backupService.initialize()
+            console.log('Backup Service initialized.')
+
+            // Initialize Local Library Service
+            await localLibraryService.initialize()
+            console.log('Local Library Service initialized.')
             dependencyService.setDependencyServiceStatus('INITIALIZED')
 
             // Initialize Update Service
@@ -299,6 +356,13 @@ app.whenReady().then(async () => {
     callback(pathname)
   })
 
+  // Downscaled thumbnails for the game lists, generated on first use
+  try {
+    await thumbnailService.initialize()
+  } catch (error) {
+    console.error('[Thumbnails] Failed to set up the thumbnail cache:', error)
+  }
+
   // Default open or close DevTools by F12 in development
   // and ignore CommandOrControl + R in production.
   // see https://github.com/alex8088/electron-toolkit/tree/master/packages/utils
@@ -350,6 +414,24 @@ app.whenReady().then(async () => {
   typedIpcMain.handle('adb:ping-device', async (_event, ipAddress) => {
     return adbService.pingDevice(ipAddress)
   })
+  typedIpcMain.handle('adb:get-device-telemetry', async (_event, serial) => {
+    return await adbService.getDeviceTelemetry(serial)
+  })
+  typedIpcMain.handle('adb:get-storage-breakdown', async (_event, serial) => {
+    return await adbService.getStorageBreakdown(serial)
+  })
+  typedIpcMain.handle('adb:get-installed-apps', async (_event, serial) => {
+    return await adbService.getInstalledApps(serial)
+  })
+  typedIpcMain.handle('adb:clear-app-data', async (_event, serial, packageName) => {
+    return await adbService.clearAppData(serial, packageName)
+  })
+  typedIpcMain.handle('adb:force-stop-app', async (_event, serial, packageName) => {
+    return await adbService.forceStopApp(serial, packageName)
+  })
+  typedIpcMain.handle('adb:launch-app', async (_event, serial, packageName) => {
+    return await adbService.launchApp(serial, packageName)
+  })
 
   // --- Game Handlers ---
   typedIpcMain.handle('games:get-games', async () => gameService.getGames())
@@ -374,6 +456,20 @@ app.whenReady().then(async () => {
   typedIpcMain.handle('games:get-trailer-video-id', async (_event, gameName) => {
     return gameService.getTrailerVideoId(gameName)
   })
+  typedIpcMain.handle('games:get-catalogue-changes', async () => {
+    return gameService.getCatalogueChanges()
+  })
+  typedIpcMain.handle('games:get-catalogue-status', async () => gameService.getCatalogueStatus())
+  typedIpcMain.handle('games:get-watchlist', async () => gameService.getWatchlist())
+  typedIpcMain.handle('games:add-to-watchlist', async (_event, packageName) => {
+    return gameService.addToWatchlist(packageName)
+  })
+  typedIpcMain.handle('games:remove-from-watchlist', async (_event, packageName) => {
+    return gameService.removeFromWatchlist(packageName)
+  })
+  typedIpcMain.handle('games:dismiss-watchlist-release', async (_event, packageName) => {
+    return gameService.dismissWatchlistRelease(packageName)
+  })
 
   // --- Download Handlers ---
   typedIpcMain.handle('download:get-queue', () => downloadService.getQueue())
@@ -394,6 +490,18 @@ app.whenReady().then(async () => {
       )
     })
   })
+  typedIpcMain.handle('download:install-to-devices', (_event, releaseName, deviceIds) =>
+    downloadService.installToDevices(releaseName, deviceIds)
+  )
+  typedIpcMain.handle('download:preview-install-script', (_event, releaseName) =>
+    downloadService.previewInstallScript(releaseName)
+  )
+  typedIpcMain.handle('download:move', (_event, releaseName, toIndex) =>
+    downloadService.moveItem(releaseName, toIndex)
+  )
+  typedIpcMain.handle('download:set-priority', (_event, releaseName, priority) =>
+    downloadService.setPriority(releaseName, priority)
+  )
 
   // --- Upload Handlers ---
   typedIpcMain.handle(
@@ -526,6 +634,56 @@ app.whenReady().then(async () => {
   typedIpcMain.handle('settings:set-color-scheme', (_event, scheme) =>
     settingsService.setColorScheme(scheme)
   )
+  typedIpcMain.handle('settings:get-pipeline-concurrency', () =>
+    settingsService.getPipelineConcurrency()
+  )
+  typedIpcMain.handle('settings:set-pipeline-concurrency', (_event, concurrency) =>
+    settingsService.setPipelineConcurrency(concurrency)
+  )
+  typedIpcMain.handle('settings:get-bandwidth-schedule', () =>
+    settingsService.getBandwidthSchedule()
+  )
+  typedIpcMain.handle('settings:set-bandwidth-schedule', (_event, schedule) =>
+    settingsService.setBandwidthSchedule(schedule)
+  )
+
+  typedIpcMain.handle('settings:get-save-data-preservation', () =>
+    settingsService.getSaveDataPreservation()
+  )
+
+  typedIpcMain.handle('settings:set-save-data-preservation', (_event, mode) =>
+    settingsService.setSaveDataPreservation(mode)
+  )
+
+  typedIpcMain.handle('settings:get-auto-download-watchlist', () =>
+    settingsService.getAutoDownloadWatchlist()
+  )
+
+  typedIpcMain.handle('settings:set-auto-download-watchlist', (_event, enabled) =>
+    settingsService.setAutoDownloadWatchlist(enabled)
+  )
+
+  typedIpcMain.handle('settings:get-auto-update-on-connect', () =>
+    settingsService.getAutoUpdateOnConnect()
+  )
+
+  typedIpcMain.handle('settings:set-auto-update-on-connect', (_event, enabled) =>
+    settingsService.setAutoUpdateOnConnect(enabled)
+  )
+
+  typedIpcMain.handle('settings:get-saved-game-queries', () =>
+    settingsService.getSavedGameQueries()
+  )
+
+  typedIpcMain.handle('settings:set-saved-game-queries', (_event, queries) =>
+    settingsService.setSavedGameQueries(queries)
+  )
+
+  typedIpcMain.handle('settings:get-games-view-mode', () => settingsService.getGamesViewMode())
+
+  typedIpcMain.handle('settings:set-games-view-mode', (_event, mode) =>
+    settingsService.setGamesViewMode(mode)
+  )
 
   // --- Logs Handlers ---
   typedIpcMain.handle('logs:upload-current', async () => {
@@ -557,6 +715,151 @@ app.whenReady().then(async () => {
     await wifiBookmarksService.updateLastConnected(id)
   })
 
+  // --- Device Profile Handlers ---
+  typedIpcMain.handle('profiles:get-all', async () => {
+    return await deviceProfilesService.getAllProfiles()
+  })
+
+  typedIpcMain.handle('profiles:add', async (_event, name, apps) => {
+    console.log(`[IPC] Adding device profile: ${name}`)
+    return await deviceProfilesService.addProfile(name, apps)
+  })
+
+  typedIpcMain.handle('profiles:update', async (_event, id, name, apps) => {
+    console.log(`[IPC] Updating device profile: ${id}`)
+    return await deviceProfilesService.updateProfile(id, name, apps)
+  })
+
+  typedIpcMain.handle('profiles:remove', async (_event, id) => {
+    console.log(`[IPC] Removing device profile: ${id}`)
+    return await deviceProfilesService.removeProfile(id)
+  })
+
+  typedIpcMain.handle('profiles:capture-from-device', async (_event, name, deviceId) => {
+    console.log(`[IPC] Capturing device profile ${name} from ${deviceId}`)
+    return await deviceProfilesService.captureFromDevice(name, deviceId)
+  })
+
+  typedIpcMain.handle('profiles:get-diff', async (_event, id, deviceId) => {
+    return await deviceProfilesService.getProfileDiff(id, deviceId)
+  })
+
+  typedIpcMain.handle('profiles:apply', async (_event, id, deviceId, options) => {
+    console.log(`[IPC] Applying device profile ${id} to ${deviceId}`)
+    return await deviceProfilesService.applyProfile(id, deviceId, options)
+  })
+
+  // --- Game Update Handlers ---
+  typedIpcMain.handle('game-updates:update-all', async (_event, deviceId) => {
+    console.log(`[IPC] Updating all outdated games on ${deviceId}`)
+    return await gameUpdatesService.updateAll(deviceId)
+  })
+
+  // --- Backup Handlers ---
+  typedIpcMain.handle('backups:get-all', async () => {
+    return await backupService.getAllBackups()
+  })
+
+  typedIpcMain.handle('backups:create', async (_event, deviceId, packageName) => {
+    console.log(`[IPC] Backing up ${packageName} from ${deviceId}`)
+    return await backupService.createBackup(deviceId, packageName)
+  })
+
+  typedIpcMain.handle('backups:restore', async (_event, id, deviceId, parts) => {
+    console.log(`[IPC] Restoring backup ${id} to ${deviceId}`)
+    return await backupService.restoreBackup(id, deviceId, parts)
+  })
+
+  typedIpcMain.handle('backups:remove', async (_event, id) => {
+    console.log(`[IPC] Removing backup: ${id}`)
+    return await backupService.removeBackup(id)
+  })
+
+  // --- Device File Handlers ---
+  typedIpcMain.handle('device-files:list', async (_event, serial, path) => {
+    return await deviceFilesService.list(serial, path)
+  })
+
+  typedIpcMain.handle('device-files:upload', async (_event, serial, localPaths, remoteDir) => {
+    console.log(`[IPC] Uploading ${localPaths.length} items to ${serial}:${remoteDir}`)
+    return await deviceFilesService.upload(serial, localPaths, remoteDir)
+  })
+
+  typedIpcMain.handle('device-files:download', async (_event, serial, remotePaths, localDir) => {
+    console.log(`[IPC] Downloading ${remotePaths.length} items from ${serial} to ${localDir}`)
+    return await deviceFilesService.download(serial, remotePaths, localDir)
+  })
+
+  typedIpcMain.handle('device-files:rename', async (_event, serial, path, newName) => {
+    return await deviceFilesService.rename(serial, path, newName)
+  })
+
+  typedIpcMain.handle('device-files:remove', async (_event, serial, paths) => {
+    return await deviceFilesService.remove(serial, paths)
+  })
+
+  typedIpcMain.handle('device-files:create-folder', async (_event, serial, parentPath, name) => {
+    return await deviceFilesService.createFolder(serial, parentPath, name)
+  })
+
+  // The OS drag needs the files on disk, so they are pulled before the user starts dragging
+  typedIpcMain.handle('device-files:prepare-drag', async (_event, serial, paths) => {
+    console.log(`[IPC] Preparing ${paths.length} items of ${serial} for dragging`)
+    return await deviceFilesService.pullForDrag(serial, paths)
+  })
+
+  // Sent from dragstart, the drag only takes over while the mouse button is still held
+  typedIpcMain.on('device-files:start-drag', (event) => {
+    const files = deviceFilesService.getDragFiles()
+    if (files.length === 0) return
+    event.sender.startDrag({
+      file: files[0],
+      files,
+      icon: nativeImage.createFromPath(icon).resize({ width: 32, height: 32 })
+    })
+  })
+
+  // --- Media Handlers ---
+  typedIpcMain.handle('media:list', async (_event, serial) => {
+    return await mediaService.list(serial)
+  })
+
+  typedIpcMain.handle('media:get-preview-path', async (_event, serial, path) => {
+    return await mediaService.getPreviewPath(serial, path)
+  })
+
+  // --- Screen Mirror Handlers ---
+  typedIpcMain.handle('screen-mirror:start', async (_event, serial, options) => {
+    return await screenMirrorService.start(serial, options)
+  })
+
+  typedIpcMain.handle('screen-mirror:stop', async () => {
+    await screenMirrorService.stop()
+  })
+
+  // --- Local Library Handlers ---
+  typedIpcMain.handle('local-library:get-folders', async () => {
+    return await localLibraryService.getFolders()
+  })
+
+  typedIpcMain.handle('local-library:add-folder', async (_event, folderPath) => {
+    console.log(`[IPC] Adding local library folder: ${folderPath}`)
+    return await localLibraryService.addFolder(folderPath)
+  })
+
+  typedIpcMain.handle('local-library:remove-folder', async (_event, folderPath) => {
+    console.log(`[IPC] Removing local library folder: ${folderPath}`)
+    return await localLibraryService.removeFolder(folderPath)
+  })
+
+  typedIpcMain.handle('local-library:get-entries', async () => {
+    return await localLibraryService.getEntries()
+  })
+
+  typedIpcMain.handle('local-library:rescan', async () => {
+    return await localLibraryService.rescan()
+  })
+
   // --- Mirror Handlers ---
   typedIpcMain.handle('mirrors:get-mirrors', async () => {
     return await mirrorService.getMirrors()
@@ -698,12 +1001,14 @@ app.whenReady().then(async () => {
     return filePaths[0]
   })
 
-  typedIpcMain.handle('dialog:show-folder-picker', async () => {
+  typedIpcMain.handle('dialog:show-folder-picker', async (_event, options) => {
     if (!mainWindow) return null
 
     const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
-      properties: ['openDirectory'],
-      title: 'Select folder to install'
+      properties: options?.createDirectory
+        ? ['openDirectory', 'createDirectory']
+        : ['openDirectory'],
+      title: options?.title ?? 'Select folder to install'
     })
 
     if (canceled || filePaths.length === 0) {
@@ -755,6 +1060,7 @@ app.on('window-all-closed', () => {
 // Clean up ADB tracking when app is quitting
 app.on('will-quit', () => {
   adbService.stopTrackingDevices()
+  downloadService.stopBandwidthSchedule()
   if (rendererServer) {
     rendererServer.close().catch((error) => {
       console.warn('Failed to close renderer server:', error)
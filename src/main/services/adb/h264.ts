@@ -0,0 +1,113 @@
+const START_CODE = Buffer.from([0, 0, 0, 1])
+const START_CODE_PATTERN = Buffer.from([0, 0, 1])
+
+// NAL unit types that matter for splitting the stream
+const NAL_SLICE = 1
+const NAL_IDR_SLICE = 5
+const NAL_SEI = 6
+const NAL_SPS = 7
+const NAL_AUD = 9
+
+export interface H264AccessUnit {
+  // Annex B encoded NAL units of one frame, key frames carry the SPS and PPS in front
+  data: Buffer
+  isKey: boolean
+  // WebCodecs codec string of the last SPS, e.g. 'avc1.640028'
+  codec: string | null
+}
+
+// profile_idc, constraint flags and level_idc follow the NAL header of an SPS
+function getCodecString(sps: Buffer): string | null {
+  if (sps.length < 4) return null
+  const hex = (value: number): string => value.toString(16).padStart(2, '0')
+  return `avc1.${hex(sps[1])}${hex(sps[2])}${hex(sps[3])}`
+}
+
+function isSlice(type: number): boolean {
+  return type === NAL_SLICE || type === NAL_IDR_SLICE
+}
+
+/**
+ * Splits a raw H.264 byte stream, as written by `screenrecord --output-format=h264`, into
+ * access units that can be decoded one by one. A NAL unit only ends where the next one starts,
+ * so a frame is handed out once the first bytes of the following frame have arrived.
+ */
+export class H264StreamReader {
+  private buffer: Buffer = Buffer.alloc(0)
+  // Whether the buffer starts with the header of a NAL unit
+  private synced = false
+  private headerRead = false
+  // Where to continue looking for the end of the current NAL unit
+  private searchFrom = 1
+  private nalUnits: Buffer[] = []
+  private hasSlice = false
+  private isKey = false
+  private codec: string | null = null
+
+  push(chunk: Buffer): H264AccessUnit[] {
+    const units: H264AccessUnit[] = []
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk
+
+    for (;;) {
+      if (!this.synced) {
+        const start = this.buffer.indexOf(START_CODE_PATTERN)
+        if (start === -1) {
+          // Anything in front of the first start code is dropped, a partial one is kept
+          this.buffer = this.buffer.subarray(Math.max(0, this.buffer.length - 2))
+          return units
+        }
+        this.buffer = this.buffer.subarray(start + START_CODE_PATTERN.length)
+        this.synced = true
+        this.headerRead = false
+        this.searchFrom = 1
+      }
+
+      // The header and first slice byte tell whether this NAL unit begins a new frame
+      if (!this.headerRead) {
+        if (this.buffer.length < 2) return units
+        const type = this.buffer[0] & 0x1f
+        // first_mb_in_slice is 0 for the first slice of a frame, its exp-Golomb code is a single 1 bit
+        const startsFrame =
+          (type >= NAL_SEI && type <= NAL_AUD) || (isSlice(type) && (this.buffer[1] & 0x80) !== 0)
+        if (startsFrame && this.hasSlice) {
+          units.push(this.takeAccessUnit())
+        }
+        this.headerRead = true
+      }
+
+      const next = this.buffer.indexOf(START_CODE_PATTERN, this.searchFrom)
+      if (next === -1) {
+        this.searchFrom = Math.max(1, this.buffer.length - 2)
+        return units
+      }
+      // Zero bytes in front of the start code belong to it, not to the NAL unit
+      let end = next
+      while (end > 0 && this.buffer[end - 1] === 0) end--
+      this.addNalUnit(Buffer.from(this.buffer.subarray(0, end)))
+
+      this.buffer = this.buffer.subarray(next + START_CODE_PATTERN.length)
+      this.headerRead = false
+      this.searchFrom = 1
+    }
+  }
+
+  private addNalUnit(nal: Buffer): void {
+    const type = nal[0] & 0x1f
+    if (type === NAL_SPS) this.codec = getCodecString(nal) ?? this.codec
+    if (type === NAL_IDR_SLICE) this.isKey = true
+    if (isSlice(type)) this.hasSlice = true
+    this.nalUnits.push(nal)
+  }
+
+  private takeAccessUnit(): H264AccessUnit {
+    const unit: H264AccessUnit = {
+      data: Buffer.concat(this.nalUnits.flatMap((nal) => [START_CODE, nal])),
+      isKey: this.isKey,
+      codec: this.codec
+    }
+    this.nalUnits = []
+    this.hasSlice = false
+    this.isKey = false
+    return unit
+  }
+}
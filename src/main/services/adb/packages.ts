@@ -0,0 +1,53 @@
+export const PACKAGE_NAME_PATTERN = /^[A-Za-z][\w]*(\.[\w]+)+$/
+
+// Package names end up in shell commands, anything else is refused before that
+export function isPackageName(value: string): boolean {
+  return PACKAGE_NAME_PATTERN.test(value)
+}
+
+export interface PackageDumpInfo {
+  versionName: string | null
+  firstInstallTime: number | null
+  lastUpdateTime: number | null
+}
+
+// Shell loop printing a 'package:<name>' marker followed by the interesting lines of
+// `dumpsys package` for each package, one adb round trip for the whole list
+export function packageDumpCommand(packageNames: string[]): string {
+  return (
+    `for p in ${packageNames.filter(isPackageName).join(' ')}; do echo "package:$p"; ` +
+    `dumpsys package $p | grep -E 'versionName=|firstInstallTime=|lastUpdateTime='; done`
+  )
+}
+
+// Times are printed in device local time, e.g. 'firstInstallTime=2024-03-02 18:04:11'
+function parseDumpTime(value: string | undefined): number | null {
+  if (!value) return null
+  const time = Date.parse(value.trim().replace(' ', 'T'))
+  return isNaN(time) ? null : time
+}
+
+// Parses the output of packageDumpCommand. The first match wins, later ones belong to the
+// system copy of an updated package.
+export function parsePackageDump(output: string): Map<string, PackageDumpInfo> {
+  const packages = new Map<string, PackageDumpInfo>()
+  let current: PackageDumpInfo | null = null
+  for (const line of output.split('\n')) {
+    const marker = line.match(/^package:(\S+)/)
+    if (marker) {
+      current = { versionName: null, firstInstallTime: null, lastUpdateTime: null }
+      packages.set(marker[1], current)
+      continue
+    }
+    if (!current) continue
+    const field = line.trim().match(/^(versionName|firstInstallTime|lastUpdateTime)=(.*)$/)
+    if (!field) continue
+    const [, name, value] = field
+    if (name === 'versionName') {
+      current.versionName ??= value.trim() || null
+    } else {
+      current[name as 'firstInstallTime' | 'lastUpdateTime'] ??= parseDumpTime(value)
+    }
+  }
+  return packages
+}
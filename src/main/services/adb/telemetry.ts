@@ -0,0 +1,121 @@
+import { ChargingSource, ControllerInfo, PackageStorageUsage } from '@shared/types'
+import { isPackageName } from './packages'
+
+export interface BatteryState {
+  level: number | null
+  isCharging: boolean
+  chargingSource: ChargingSource | null
+  temperature: number | null
+}
+
+// Android battery status codes for charging and full
+const CHARGING_STATUSES = [2, 5]
+
+function readField(output: string, name: string): string | null {
+  const match = output.match(new RegExp(`^\\s*${name}:\\s*(.+)$`, 'mi'))
+  return match ? match[1].trim() : null
+}
+
+// Parses `dumpsys battery`, e.g. 'AC powered: false', 'level: 85', 'temperature: 290'
+export function parseBatteryDump(output: string): BatteryState {
+  const level = parseInt(readField(output, 'level') ?? '', 10)
+  const status = parseInt(readField(output, 'status') ?? '', 10)
+  const temperature = parseInt(readField(output, 'temperature') ?? '', 10)
+
+  let chargingSource: ChargingSource | null = null
+  if (readField(output, 'AC powered') === 'true') chargingSource = 'ac'
+  else if (readField(output, 'USB powered') === 'true') chargingSource = 'usb'
+  else if (readField(output, 'Wireless powered') === 'true') chargingSource = 'wireless'
+
+  return {
+    level: isNaN(level) ? null : level,
+    isCharging: chargingSource !== null || CHARGING_STATUSES.includes(status),
+    chargingSource,
+    // Reported in tenths of a degree
+    temperature: isNaN(temperature) ? null : temperature / 10
+  }
+}
+
+// Parses `df -k <path>`, sizes are in 1K blocks
+export function parseDiskFree(output: string): { totalBytes: number; freeBytes: number } | null {
+  const lines = output.trim().split('\n')
+  if (lines.length < 2) return null
+  const columns = lines[lines.length - 1].trim().split(/\s+/)
+  const total = parseInt(columns[1], 10)
+  const available = parseInt(columns[3], 10)
+  if (isNaN(total) || isNaN(available)) return null
+  return { totalBytes: total * 1024, freeBytes: available * 1024 }
+}
+
+// Controller lines of `dumpsys OVRRemoteService` name the hand and the battery level, e.g.
+// 'Paired device: 1WMH..., Type: Left, Started: true, Battery: 80%'
+export function parseControllers(output: string): ControllerInfo[] {
+  const controllers = new Map<ControllerInfo['side'], ControllerInfo>()
+  for (const line of output.split('\n')) {
+    const battery = line.match(/battery\D{0,5}(\d{1,3})\s*%/i)
+    if (!battery) continue
+    const side = /\bleft\b/i.test(line) ? 'left' : /\bright\b/i.test(line) ? 'right' : 'unknown'
+    if (!controllers.has(side)) {
+      controllers.set(side, { side, batteryLevel: parseInt(battery[1], 10) })
+    }
+  }
+  return [...controllers.values()]
+}
+
+// Shell loop printing '<package> <bytes>' for every APK file of each package, split APKs included.
+// /data/app cannot be listed without root, the files `pm path` points to are readable though.
+export function apkSizeCommand(packageNames: string[]): string {
+  return (
+    `for p in ${packageNames.filter(isPackageName).join(' ')}; do ` +
+    `for f in $(pm path $p | sed 's/^package://'); do echo "$p $(stat -c %s "$f")"; done; ` +
+    'done 2>/dev/null'
+  )
+}
+
+// Parses the output of apkSizeCommand into bytes per package
+export function parseApkSizes(output: string): Map<string, number> {
+  const sizes = new Map<string, number>()
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(/^(\S+)\s+(\d+)$/)
+    if (!match || !isPackageName(match[1])) continue
+    sizes.set(match[1], (sizes.get(match[1]) ?? 0) + parseInt(match[2], 10))
+  }
+  return sizes
+}
+
+// Parses `du -k` output, '<kilobytes>\t<path>' per line, into bytes per package. OBB and data
+// folders are named after their package.
+export function parseDiskUsage(output: string): Map<string, number> {
+  const usage = new Map<string, number>()
+  for (const line of output.split('\n')) {
+    const match = line.trim().match(/^(\d+)\s+(.+)$/)
+    if (!match) continue
+    const packageName = match[2].replace(/\/+$/, '').split('/').pop() ?? ''
+    if (!isPackageName(packageName)) continue
+    usage.set(packageName, (usage.get(packageName) ?? 0) + parseInt(match[1], 10) * 1024)
+  }
+  return usage
+}
+
+// Combines the APK sizes and the two du listings, largest packages first
+export function combineStorageUsage(
+  apk: Map<string, number>,
+  obb: Map<string, number>,
+  data: Map<string, number>
+): PackageStorageUsage[] {
+  const packageNames = new Set([...apk.keys(), ...obb.keys(), ...data.keys()])
+  return [...packageNames]
+    .map((packageName) => {
+      const apkBytes = apk.get(packageName) ?? 0
+      const obbBytes = obb.get(packageName) ?? 0
+      const dataBytes = data.get(packageName) ?? 0
+      return {
+        packageName,
+        apkBytes,
+        obbBytes,
+        dataBytes,
+        totalBytes: apkBytes + obbBytes + dataBytes
+      }
+    })
+    .sort((a, b) => b.totalBytes - a.totalBytes)
+}
@@ -1,13 +1,34 @@
 import { Adb, DeviceClient } from '@devicefarmer/adbkit'
 import Tracker from '@devicefarmer/adbkit/dist/src/adb/tracker'
-import { BrowserWindow } from 'electron'
+import { app, BrowserWindow, dialog } from 'electron'
 import { EventEmitter } from 'events'
+import { Duplex } from 'stream'
 import dependencyService from './dependencyService'
+import settingsService from './settingsService'
 import fs, { Dirent } from 'fs'
 import path from 'path'
 import ping from 'pingman'
-import { AdbAPI, DeviceInfo, PackageInfo, ServiceStatus } from '@shared/types'
+import {
+  AdbAPI,
+  DeviceInfo,
+  DeviceTelemetry,
+  InstalledApp,
+  PackageInfo,
+  PackageStorageUsage,
+  SaveDataReport,
+  ServiceStatus
+} from '@shared/types'
 import { typedWebContentsSend } from '@shared/ipc-utils'
+import {
+  apkSizeCommand,
+  combineStorageUsage,
+  parseApkSizes,
+  parseBatteryDump,
+  parseControllers,
+  parseDiskFree,
+  parseDiskUsage
+} from './adb/telemetry'
+import { isPackageName, packageDumpCommand, parsePackageDump } from './adb/packages'
 
 const QUEST_MODELS = ['monterey', 'hollywood', 'seacliff', 'eureka', 'panther', 'sekiu'] as const
 type QuestModel = (typeof QUEST_MODELS)[number]
@@ -475,7 +496,7 @@ class AdbService extends EventEmitter implements AdbAPI {
   async installPackage(
     serial: string,
     apkPath: string,
-    options?: { flags?: string[] }
+    options?: { flags?: string[]; onSaveDataReport?: (report: SaveDataReport) => void }
   ): Promise<boolean> {
     if (!this.client) {
       throw new Error('[ADB Service] adb service not initialized!')
@@ -519,8 +540,15 @@ class AdbService extends EventEmitter implements AdbAPI {
           if (packageNameMatch && packageNameMatch[1]) {
             const packageName = packageNameMatch[1]
             console.log(`[ADB Service] Extracted package name for uninstall: ${packageName}`)
-            const uninstallSuccess = await this.uninstallPackage(serial, packageName)
-            if (uninstallSuccess) {
+            // Uninstalling wipes /sdcard/Android/data/<pkg>, copy it off the device first
+            let saveDataReport = await this.backUpSaveData(serial, packageName)
+            let uninstalled = false
+            if (saveDataReport.outcome === 'failed') {
+              console.error(
+                `[ADB Service] Not uninstalling ${packageName} because its save data could not be copied.`
+              )
+            } else if (await this.uninstallPackage(serial, packageName)) {
+              uninstalled = true
               console.log(
                 `[ADB Service] Successfully uninstalled ${packageName}. Retrying installation...`
               )
@@ -530,6 +558,12 @@ class AdbService extends EventEmitter implements AdbAPI {
                 `[ADB Service] Failed to uninstall ${packageName}. Installation will likely still fail.`
               )
             }
+            if (saveDataReport.localPath) {
+              saveDataReport = uninstalled
+                ? await this.restoreSaveData(serial, saveDataReport, !!output?.includes('Success'))
+                : await this.dropSaveDataCopy(saveDataReport)
+            }
+            options.onSaveDataReport?.(saveDataReport)
           } else {
             console.warn(
               '[ADB Service] Could not extract package name from incompatibility error. Cannot attempt uninstall.'
@@ -619,6 +653,148 @@ class AdbService extends EventEmitter implements AdbAPI {
     }
   }
 
+  // Follows the save data setting, asking the user first when it is set to 'ask'
+  private async shouldPreserveSaveData(packageName: string): Promise<boolean> {
+    const mode = settingsService.getSaveDataPreservation()
+    if (mode !== 'ask') return mode === 'always'
+
+    const messageOptions = {
+      type: 'question' as const,
+      buttons: ['Keep Save Data', 'Discard Save Data'],
+      defaultId: 0,
+      cancelId: 0,
+      title: 'Reinstall Required',
+      message: `${packageName} has to be uninstalled before this version can be installed.`,
+      detail:
+        'The installed copy is signed differently. Keep its save data and put it back after the reinstall?'
+    }
+    const mainWindow = BrowserWindow.getAllWindows()[0]
+    const { response } =
+      mainWindow && !mainWindow.isDestroyed()
+        ? await dialog.showMessageBox(mainWindow, messageOptions)
+        : await dialog.showMessageBox(messageOptions)
+    return response === 0
+  }
+
+  /**
+   * Copies /sdcard/Android/data/<pkg> to a local folder before a forced uninstall.
+   * The returned report carries the local path when there is a copy to put back.
+   */
+  private async backUpSaveData(serial: string, packageName: string): Promise<SaveDataReport> {
+    const report = (
+      outcome: SaveDataReport['outcome'],
+      message: string,
+      fileCount = 0,
+      localPath?: string
+    ): SaveDataReport => ({
+      deviceId: serial,
+      packageName,
+      outcome,
+      fileCount,
+      message,
+      localPath,
+      timestamp: Date.now()
+    })
+
+    const remoteDataPath = `/sdcard/Android/data/${packageName}`
+    const existsOutput = await this.runShellCommand(
+      serial,
+      `[ -d "${remoteDataPath}" ] && echo "EXISTS" || echo ""`
+    )
+    if (!existsOutput || !existsOutput.includes('EXISTS')) {
+      return report('not-found', 'The app had no save data to keep')
+    }
+
+    if (!(await this.shouldPreserveSaveData(packageName))) {
+      console.log(`[ADB Service] Discarding save data of ${packageName} as configured`)
+      return report('discarded', 'Save data was discarded during the reinstall')
+    }
+
+    const localPath = path.join(
+      app.getPath('userData'),
+      'save-data',
+      `${packageName}-${serial.replace(/[^a-zA-Z0-9]/g, '_')}-${Date.now()}`
+    )
+    try {
+      const fileCount = await this.pullDirectory(serial, remoteDataPath, localPath)
+      if (fileCount === 0) {
+        await fs.promises.rm(localPath, { recursive: true, force: true })
+        return report('not-found', 'The app had no save data to keep')
+      }
+      console.log(`[ADB Service] Copied ${fileCount} save data files of ${packageName}`)
+      const versionCode = (await this.getInstalledPackages(serial)).find(
+        (pkg) => pkg.packageName === packageName
+      )?.versionCode
+      return {
+        ...report('preserved', `Copied ${fileCount} files off the device`, fileCount, localPath),
+        versionCode
+      }
+    } catch (error) {
+      console.error(`[ADB Service] Error copying save data of ${packageName}:`, error)
+      await fs.promises.rm(localPath, { recursive: true, force: true }).catch(() => {})
+      return report(
+        'failed',
+        'Save data could not be copied, so the installed app was left untouched'
+      )
+    }
+  }
+
+  // The app stayed installed with its save data when the uninstall failed, the copy is not needed
+  private async dropSaveDataCopy(saveData: SaveDataReport): Promise<SaveDataReport> {
+    if (saveData.localPath) {
+      await fs.promises.rm(saveData.localPath, { recursive: true, force: true }).catch((error) => {
+        console.warn('[ADB Service] Could not remove local save data copy:', error)
+      })
+    }
+    return {
+      ...saveData,
+      outcome: 'preserved',
+      message: 'The app could not be uninstalled, it was left in place with its save data',
+      localPath: undefined
+    }
+  }
+
+  // Puts save data copied by backUpSaveData back, the local copy is only removed once it is back
+  private async restoreSaveData(
+    serial: string,
+    saveData: SaveDataReport,
+    installSucceeded: boolean
+  ): Promise<SaveDataReport> {
+    const { localPath, packageName, fileCount } = saveData
+    if (!localPath) return saveData
+    if (!installSucceeded) {
+      return {
+        ...saveData,
+        outcome: 'failed',
+        message: `The reinstall failed, ${fileCount} save data files were kept`
+      }
+    }
+
+    const restored = await this.pushFileOrFolder(
+      serial,
+      localPath,
+      `/sdcard/Android/data/${packageName}`
+    )
+    if (!restored) {
+      return {
+        ...saveData,
+        outcome: 'failed',
+        message: `Save data could not be put back, ${fileCount} files were kept`
+      }
+    }
+
+    await fs.promises.rm(localPath, { recursive: true, force: true }).catch((error) => {
+      console.warn(`[ADB Service] Could not remove local save data copy ${localPath}:`, error)
+    })
+    console.log(`[ADB Service] Restored ${fileCount} save data files of ${packageName}`)
+    return {
+      ...saveData,
+      outcome: 'preserved',
+      message: `Kept ${fileCount} save data files through the reinstall`,
+      localPath: undefined
+    }
+  }
+
   async runShellCommand(serial: string, command: string): Promise<string | null> {
     if (!this.client) {
       throw new Error('[ADB Service] adb service not initialized!')
@@ -640,6 +816,15 @@ class AdbService extends EventEmitter implements AdbAPI {
     }
   }
 
+  // Output stream of a long running command, ending the stream stops the command
+  async openShellStream(serial: string, command: string): Promise<Duplex> {
+    if (!this.client) {
+      throw new Error('[ADB Service] adb service not initialized!')
+    }
+    console.log(`[ADB Service] Streaming command on ${serial}: ${command}`)
+    return await this.client.getDevice(serial).shell(command)
+  }
+
   private async _pushDirectoryRecursive(
     serial: string,
     localDirPath: string,
@@ -732,7 +917,13 @@ class AdbService extends EventEmitter implements AdbAPI {
     return true
   }
 
-  async pushFileOrFolder(serial: string, localPath: string, remotePath: string): Promise<boolean> {
+  // onProgress reports the bytes sent so far when a single file is pushed
+  async pushFileOrFolder(
+    serial: string,
+    localPath: string,
+    remotePath: string,
+    onProgress?: (transferredBytes: number) => void
+  ): Promise<boolean> {
     if (!this.client) {
       throw new Error('[ADB Service] adb service not initialized!')
     }
@@ -785,6 +976,9 @@ class AdbService extends EventEmitter implements AdbAPI {
           `[ADB Service] Pushing file ${localPath} to ${serial}:${finalRemotePath}... (original remote: ${remotePath.replace(/\\/g, '/') /* Log normalized path here too for clarity */})`
         )
         const transfer = await deviceClient.push(localPath, finalRemotePath)
+        if (onProgress) {
+          transfer.on('progress', (stats) => onProgress(stats.bytesTransferred))
+        }
         return new Promise<boolean>((resolve, reject) => {
           transfer.on('end', () => {
             console.log(
@@ -821,7 +1015,12 @@ class AdbService extends EventEmitter implements AdbAPI {
     }
   }
 
-  async pullFile(serial: string, remotePath: string, localPath: string): Promise<boolean> {
+  async pullFile(
+    serial: string,
+    remotePath: string,
+    localPath: string,
+    onProgress?: (transferredBytes: number) => void
+  ): Promise<boolean> {
     if (!this.client) {
       throw new Error('[ADB Service] adb service not initialized!')
     }
@@ -829,6 +1028,9 @@ class AdbService extends EventEmitter implements AdbAPI {
     try {
       const deviceClient = this.client.getDevice(serial)
       const transfer = await deviceClient.pull(remotePath)
+      if (onProgress) {
+        transfer.on('progress', (stats) => onProgress(stats.bytesTransferred))
+      }
       const stream = fs.createWriteStream(localPath)
       await new Promise((resolve, reject) => {
         transfer.pipe(stream)
@@ -836,13 +1038,124 @@ class AdbService extends EventEmitter implements AdbAPI {
         transfer.on('error', reject)
       })
       console.log(`[ADB Service] Successfully pulled ${remotePath} to ${localPath}.`)
-      return false // Return false until fully implemented
+      return true
     } catch (error) {
       console.error(`[ADB Service] Error pulling ${remotePath} from ${serial}:`, error)
       return false
     }
   }
 
+  // Every APK of an installed package, split APKs are listed after the base APK
+  async getApkPaths(serial: string, packageName: string): Promise<string[]> {
+    const output = await this.runShellCommand(serial, `pm path ${packageName}`)
+    if (!output) return []
+    return output
+      .trim()
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith('package:'))
+      .map((line) => line.replace('package:', ''))
+  }
+
+  /**
+   * Pulls every file below a device folder into a local folder, keeping the directory structure.
+   * Returns the number of files pulled, 0 when the folder does not exist on the device.
+   */
+  async pullDirectory(
+    serial: string,
+    remoteDirPath: string,
+    localDirPath: string,
+    onProgress?: (pulledBytes: number, totalBytes: number) => void
+  ): Promise<number> {
+    const existsOutput = await this.runShellCommand(
+      serial,
+      `[ -d "${remoteDirPath}" ] && echo "EXISTS" || echo ""`
+    )
+    if (!existsOutput || !existsOutput.includes('EXISTS')) {
+      console.log(`[ADB Service] No folder found at ${remoteDirPath}`)
+      return 0
+    }
+    // The folder is created even when it is empty, some apps expect it to be there
+    await fs.promises.mkdir(localDirPath, { recursive: true })
+
+    // List all files in the folder recursively with their sizes
+    const filesListOutput = await this.runShellCommand(
+      serial,
+      `find "${remoteDirPath}" -type f -printf "%s %p\\n"`
+    )
+    if (!filesListOutput || !filesListOutput.trim()) {
+      console.log(`[ADB Service] Folder ${remoteDirPath} is empty`)
+      return 0
+    }
+
+    const fileEntries = filesListOutput
+      .trim()
+      .split('\n')
+      .map((line) => line.trim().match(/^(\d+)\s+(.+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => ({ size: parseInt(match[1], 10), path: match[2] }))
+
+    const totalSize = fileEntries.reduce((sum, entry) => sum + entry.size, 0)
+    let pulledSize = 0
+    console.log(
+      `[ADB Service] Pulling ${fileEntries.length} files (${totalSize} bytes) from ${remoteDirPath}`
+    )
+
+    for (const { path: remotePath, size } of fileEntries) {
+      // Relative path from the folder root, +1 for the slash
+      const relPath = remotePath.substring(remoteDirPath.length + 1)
+      const localPath = path.join(localDirPath, ...relPath.split('/'))
+      await fs.promises.mkdir(path.dirname(localPath), { recursive: true })
+
+      if (!(await this.pullFile(serial, remotePath, localPath))) {
+        throw new Error(`Failed to pull ${remotePath}`)
+      }
+      pulledSize += size
+      onProgress?.(pulledSize, totalSize)
+    }
+
+    return fileEntries.length
+  }
+
+  /**
+   * Installs a base APK together with its split APKs in one pm install call.
+   * The APKs are pushed to /data/local/tmp first and removed again afterwards.
+   */
+  async installSplitPackage(serial: string, apkPaths: string[], flags: string[]): Promise<boolean> {
+    if (!this.client) {
+      throw new Error('[ADB Service] adb service not initialized!')
+    }
+    const deviceClient = this.client.getDevice(serial)
+    const remotePaths = apkPaths.map((apkPath) => `/data/local/tmp/${path.basename(apkPath)}`)
+    const quotedPaths = remotePaths.map((remotePath) => `"${remotePath}"`).join(' ')
+    console.log(`[ADB Service] Installing ${apkPaths.length} APKs on ${serial}: ${apkPaths}`)
+
+    try {
+      for (let i = 0; i < apkPaths.length; i++) {
+        const pushTransfer = await deviceClient.push(apkPaths[i], remotePaths[i])
+        await new Promise<void>((resolve, reject) => {
+          pushTransfer.on('end', resolve)
+          pushTransfer.on('error', reject)
+        })
+      }
+      const output = await this.runShellCommand(
+        serial,
+        `pm install ${flags.join(' ')} ${quotedPaths}`
+      )
+      if (output?.includes('Success')) {
+        console.log(`[ADB Service] Successfully installed ${apkPaths.length} APKs on ${serial}`)
+        return true
+      }
+      console.error(`[ADB Service] Split APK install failed. Output: ${output || 'No output'}`)
+      return false
+    } catch (error) {
+      console.error(`[ADB Service] Error installing split APKs on ${serial}:`, error)
+      return false
+    } finally {
+      await this.runShellCommand(serial, `rm -f ${quotedPaths}`)
+    }
+  }
+
   async uninstallPackage(serial: string, packageName: string): Promise<boolean> {
     if (!this.client) {
       throw new Error('[ADB Service] adb service not initialized!')
@@ -964,6 +1277,136 @@ class AdbService extends EventEmitter implements AdbAPI {
     }
   }
 
+  // Runs a command without logging its output, which can be long for du and dumpsys
+  private async readShell(serial: string, command: string): Promise<string> {
+    if (!this.client) {
+      throw new Error('adb service not initialized!')
+    }
+    const stream = await this.client.getDevice(serial).shell(command)
+    return (await Adb.util.readAll(stream)).toString()
+  }
+
+  async getDeviceTelemetry(serial: string): Promise<DeviceTelemetry | null> {
+    try {
+      const [battery, diskFree, properties, controllers] = await Promise.all([
+        this.readShell(serial, 'dumpsys battery'),
+        this.readShell(serial, 'df -k /data'),
+        this.readShell(
+          serial,
+          'getprop ro.product.model; getprop ro.build.display.id; getprop ro.build.version.release'
+        ),
+        // Only Quest devices have this service, other devices report no controllers
+        this.readShell(serial, 'dumpsys OVRRemoteService 2>/dev/null').catch(() => '')
+      ])
+      const batteryState = parseBatteryDump(battery)
+      const storage = parseDiskFree(diskFree)
+      const [model, osBuild, androidVersion] = properties
+        .split('\n')
+        .map((value) => value.trim() || null)
+
+      return {
+        batteryLevel: batteryState.level,
+        isCharging: batteryState.isCharging,
+        chargingSource: batteryState.chargingSource,
+        temperature: batteryState.temperature,
+        storageTotalBytes: storage?.totalBytes ?? null,
+        storageFreeBytes: storage?.freeBytes ?? null,
+        model: model ?? null,
+        osBuild: osBuild ?? null,
+        androidVersion: androidVersion ?? null,
+        controllers: parseControllers(controllers),
+        updatedAt: Date.now()
+      }
+    } catch (error) {
+      console.error(`[ADB Service] Error reading telemetry for ${serial}:`, error)
+      return null
+    }
+  }
+
+  // Measures the APKs of each installed package and walks the OBB and data folders with du, this
+  // takes a few seconds on a full device
+  async getStorageBreakdown(serial: string): Promise<PackageStorageUsage[]> {
+    console.log(`[ADB Service] Measuring storage per package on ${serial}...`)
+    try {
+      const packageNames = (await this.getInstalledPackages(serial)).map((pkg) => pkg.packageName)
+      const [apk, obb, data] = await Promise.all([
+        packageNames.length > 0 ? this.readShell(serial, apkSizeCommand(packageNames)) : '',
+        this.readShell(serial, 'du -k -d 1 /sdcard/Android/obb 2>/dev/null'),
+        this.readShell(serial, 'du -k -d 1 /sdcard/Android/data 2>/dev/null')
+      ])
+      return combineStorageUsage(parseApkSizes(apk), parseDiskUsage(obb), parseDiskUsage(data))
+    } catch (error) {
+      console.error(`[ADB Service] Error measuring storage on ${serial}:`, error)
+      return []
+    }
+  }
+
+  // Installed packages with their version name and install dates. Sizes take a lot longer to
+  // measure and come from getStorageBreakdown.
+  async getInstalledApps(serial: string): Promise<InstalledApp[]> {
+    const packages = await this.getInstalledPackages(serial)
+    if (packages.length === 0) return []
+
+    const dump = await this.readShell(
+      serial,
+      packageDumpCommand(packages.map((pkg) => pkg.packageName))
+    ).catch((error) => {
+      console.warn(`[ADB Service] Could not read package details on ${serial}:`, error)
+      return ''
+    })
+    const details = parsePackageDump(dump)
+
+    return packages.map((pkg) => {
+      const info = details.get(pkg.packageName)
+      return {
+        ...pkg,
+        versionName: info?.versionName ?? null,
+        firstInstallTime: info?.firstInstallTime ?? null,
+        lastUpdateTime: info?.lastUpdateTime ?? null
+      }
+    })
+  }
+
+  async clearAppData(serial: string, packageName: string): Promise<boolean> {
+    if (!isPackageName(packageName)) return false
+    console.log(`[ADB Service] Clearing data of ${packageName} on ${serial}...`)
+    try {
+      const output = await this.readShell(serial, `pm clear ${packageName}`)
+      return output.trim() === 'Success'
+    } catch (error) {
+      console.error(`[ADB Service] Error clearing data of ${packageName}:`, error)
+      return false
+    }
+  }
+
+  async forceStopApp(serial: string, packageName: string): Promise<boolean> {
+    if (!isPackageName(packageName)) return false
+    console.log(`[ADB Service] Force stopping ${packageName} on ${serial}...`)
+    try {
+      await this.readShell(serial, `am force-stop ${packageName}`)
+      return true
+    } catch (error) {
+      console.error(`[ADB Service] Error force stopping ${packageName}:`, error)
+      return false
+    }
+  }
+
+  // monkey starts the launcher activity without having to know its name
+  async launchApp(serial: string, packageName: string): Promise<boolean> {
+    if (!isPackageName(packageName)) return false
+    console.log(`[ADB Service] Launching ${packageName} on ${serial}...`)
+    try {
+      const output = await this.readShell(
+        serial,
+        `monkey -p ${packageName} -c android.intent.category.LAUNCHER 1`
+      )
+      return output.includes('Events injected: 1')
+    } catch (error) {
+      console.error(`[ADB Service] Error launching ${packageName}:`, error)
+      return false
+    }
+  }
+
   public async pingDevice(
     ipAddress: string
   ): Promise<{ reachable: boolean; responseTime?: number }> {
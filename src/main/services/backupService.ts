@@ -0,0 +1,399 @@
+import { app, BrowserWindow } from 'electron'
+import { promises as fs, existsSync } from 'fs'
+import { basename, join } from 'path'
+import SevenZip from 'node-7z'
+import adbService from './adbService'
+import dependencyService from './dependencyService'
+import gameService from './gameService'
+import { BackupContents, BackupEntry, BackupProgress, SaveDataReport } from '@shared/types'
+import { typedWebContentsSend } from '@shared/ipc-utils'
+
+// Layout of a backup archive, split APKs sit next to the base APK under their device names
+const APK_FILE_NAME = 'base.apk'
+const OBB_FOLDER_NAME = 'obb'
+const DATA_FOLDER_NAME = 'data'
+const MANIFEST_FILE_NAME = 'backup.json'
+
+class BackupService {
+  private backupsBasePath: string
+  private stagingPath: string
+  private activeOperation: string | null = null
+
+  constructor() {
+    this.backupsBasePath = join(app.getPath('userData'), 'backups')
+    this.stagingPath = join(this.backupsBasePath, '.staging')
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await fs.mkdir(this.backupsBasePath, { recursive: true })
+      // Leftovers of a backup or restore that was interrupted by quitting the app
+      await fs.rm(this.stagingPath, { recursive: true, force: true })
+      console.log('[Backups] Service initialized')
+    } catch (error) {
+      console.error('[Backups] Error initializing service:', error)
+    }
+  }
+
+  private emitProgress(
+    packageName: string,
+    operation: BackupProgress['operation'],
+    stage: string,
+    progress: number
+  ): void {
+    const mainWindow = BrowserWindow.getAllWindows()[0]
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      typedWebContentsSend.send(mainWindow, 'backups:progress', {
+        packageName,
+        operation,
+        stage,
+        progress: Math.min(Math.round(progress), 100)
+      })
+    }
+  }
+
+  // Every package has its own folder holding <id>.zip archives, each described by an <id>.json file
+  async getAllBackups(): Promise<BackupEntry[]> {
+    const backups: BackupEntry[] = []
+    try {
+      const packageFolders = await fs.readdir(this.backupsBasePath, { withFileTypes: true })
+      for (const folder of packageFolders) {
+        if (!folder.isDirectory() || folder.name.startsWith('.')) continue
+        const folderPath = join(this.backupsBasePath, folder.name)
+        for (const fileName of await fs.readdir(folderPath)) {
+          if (!fileName.endsWith('.json')) continue
+          try {
+            const entry: BackupEntry = JSON.parse(
+              await fs.readFile(join(folderPath, fileName), 'utf-8')
+            )
+            if (existsSync(this.getArchivePath(entry))) backups.push(entry)
+          } catch (error) {
+            console.warn(`[Backups] Skipping unreadable backup description ${fileName}:`, error)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[Backups] Error listing backups:', error)
+    }
+    return backups.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  private getArchivePath(entry: BackupEntry): string {
+    return join(this.backupsBasePath, entry.packageName, `${entry.id}.zip`)
+  }
+
+  private getManifestPath(entry: BackupEntry): string {
+    return join(this.backupsBasePath, entry.packageName, `${entry.id}.json`)
+  }
+
+  private async findBackup(id: string): Promise<BackupEntry | undefined> {
+    return (await this.getAllBackups()).find((entry) => entry.id === id)
+  }
+
+  private async resolveGameName(deviceId: string, packageName: string): Promise<string> {
+    const game = (await gameService.getGames()).find((g) => g.packageName === packageName)
+    if (game) return game.name
+    return (await adbService.getApplicationLabel(deviceId, packageName)) || packageName
+  }
+
+  // Pulls the APK, OBB folder and save data of an installed app into a new versioned archive
+  async createBackup(deviceId: string, packageName: string): Promise<BackupEntry | null> {
+    if (this.activeOperation) {
+      console.warn(`[Backups] Cannot back up ${packageName}, ${this.activeOperation} is running`)
+      return null
+    }
+    this.activeOperation = `backup of ${packageName}`
+
+    const createdAt = Date.now()
+    const stamp = new Date(createdAt).toISOString().replace(/[:.]/g, '-')
+    let stagingFolder: string | null = null
+
+    try {
+      this.emitProgress(packageName, 'backup', 'Setting up', 0)
+      const installed = (await adbService.getInstalledPackages(deviceId)).find(
+        (pkg) => pkg.packageName === packageName
+      )
+      if (!installed) {
+        throw new Error(`${packageName} is not installed on ${deviceId}`)
+      }
+      const device = (await adbService.listDevices()).find((d) => d.id === deviceId)
+
+      const id = `${packageName}_v${installed.versionCode}_${stamp}`
+      stagingFolder = join(this.stagingPath, id)
+      await fs.rm(stagingFolder, { recursive: true, force: true })
+      await fs.mkdir(stagingFolder, { recursive: true })
+
+      // --- APK (0-10%) ---
+      this.emitProgress(packageName, 'backup', 'Pulling APK', 0)
+      const [baseApkPath, ...splitApkPaths] = await adbService.getApkPaths(deviceId, packageName)
+      if (!baseApkPath) {
+        throw new Error(`Could not find APK for ${packageName} on device`)
+      }
+      for (const remotePath of [baseApkPath, ...splitApkPaths]) {
+        const fileName = remotePath === baseApkPath ? APK_FILE_NAME : basename(remotePath)
+        if (!(await adbService.pullFile(deviceId, remotePath, join(stagingFolder, fileName)))) {
+          throw new Error(`Failed to pull ${fileName} for ${packageName}`)
+        }
+      }
+
+      // --- OBB (10-50%) ---
+      this.emitProgress(packageName, 'backup', 'Pulling OBB files', 10)
+      const obbFileCount = await adbService.pullDirectory(
+        deviceId,
+        `/sdcard/Android/obb/${packageName}`,
+        join(stagingFolder, OBB_FOLDER_NAME),
+        (pulled, total) =>
+          this.emitProgress(packageName, 'backup', 'Pulling OBB files', 10 + (pulled / total) * 40)
+      )
+
+      // --- Save data (50-80%) ---
+      this.emitProgress(packageName, 'backup', 'Pulling save data', 50)
+      const dataFileCount = await adbService.pullDirectory(
+        deviceId,
+        `/sdcard/Android/data/${packageName}`,
+        join(stagingFolder, DATA_FOLDER_NAME),
+        (pulled, total) =>
+          this.emitProgress(packageName, 'backup', 'Pulling save data', 50 + (pulled / total) * 30)
+      )
+
+      const entry: BackupEntry = {
+        id,
+        packageName,
+        gameName: await this.resolveGameName(deviceId, packageName),
+        versionCode: installed.versionCode,
+        sourceDeviceId: deviceId,
+        sourceDeviceName: device?.friendlyModelName ?? device?.model ?? undefined,
+        createdAt,
+        size: 0,
+        contents: { apk: true, obb: obbFileCount > 0, data: dataFileCount > 0 }
+      }
+      // Keep a copy inside the archive so it still describes itself when moved elsewhere
+      await fs.writeFile(
+        join(stagingFolder, MANIFEST_FILE_NAME),
+        JSON.stringify(entry, null, 2),
+        'utf-8'
+      )
+
+      // --- Archive (80-100%) ---
+      this.emitProgress(packageName, 'backup', 'Creating archive', 80)
+      const archivePath = this.getArchivePath(entry)
+      await fs.mkdir(join(this.backupsBasePath, packageName), { recursive: true })
+      await this.compress(stagingFolder, archivePath, (percent) =>
+        this.emitProgress(packageName, 'backup', 'Creating archive', 80 + percent * 0.2)
+      )
+
+      entry.size = (await fs.stat(archivePath)).size
+      await fs.writeFile(this.getManifestPath(entry), JSON.stringify(entry, null, 2), 'utf-8')
+
+      this.emitProgress(packageName, 'backup', 'Complete', 100)
+      console.log(
+        `[Backups] Backed up ${packageName} v${installed.versionCode} from ${deviceId} to ${archivePath}`
+      )
+      return entry
+    } catch (error) {
+      console.error(`[Backups] Error backing up ${packageName} from ${deviceId}:`, error)
+      this.emitProgress(packageName, 'backup', 'Error', 0)
+      return null
+    } finally {
+      if (stagingFolder) {
+        await fs.rm(stagingFolder, { recursive: true, force: true }).catch(() => {})
+      }
+      this.activeOperation = null
+    }
+  }
+
+  // Turns save data that a forced reinstall could not put back into a save data only backup, so
+  // it can be restored from the Backups view. The local copy is removed once it is archived.
+  async importSaveData(report: SaveDataReport): Promise<BackupEntry | null> {
+    const { deviceId, packageName, localPath } = report
+    if (!localPath) return null
+
+    const createdAt = Date.now()
+    const versionCode = report.versionCode ?? 0
+    const stamp = new Date(createdAt).toISOString().replace(/[:.]/g, '-')
+    const id = `${packageName}_v${versionCode}_${stamp}`
+    const stagingFolder = join(this.stagingPath, id)
+
+    try {
+      await fs.mkdir(stagingFolder, { recursive: true })
+      await fs.cp(localPath, join(stagingFolder, DATA_FOLDER_NAME), { recursive: true })
+      const device = (await adbService.listDevices()).find((d) => d.id === deviceId)
+
+      const entry: BackupEntry = {
+        id,
+        packageName,
+        gameName: await this.resolveGameName(deviceId, packageName),
+        versionCode,
+        sourceDeviceId: deviceId,
+        sourceDeviceName: device?.friendlyModelName ?? device?.model ?? undefined,
+        createdAt,
+        size: 0,
+        contents: { apk: false, obb: false, data: true }
+      }
+      await fs.writeFile(
+        join(stagingFolder, MANIFEST_FILE_NAME),
+        JSON.stringify(entry, null, 2),
+        'utf-8'
+      )
+
+      const archivePath = this.getArchivePath(entry)
+      await fs.mkdir(join(this.backupsBasePath, packageName), { recursive: true })
+      await this.compress(stagingFolder, archivePath, () => {})
+
+      entry.size = (await fs.stat(archivePath)).size
+      await fs.writeFile(this.getManifestPath(entry), JSON.stringify(entry, null, 2), 'utf-8')
+      await fs.rm(localPath, { recursive: true, force: true })
+      console.log(`[Backups] Kept save data of ${packageName} from ${localPath} as ${archivePath}`)
+      return entry
+    } catch (error) {
+      console.error(`[Backups] Error archiving save data of ${packageName}:`, error)
+      return null
+    } finally {
+      await fs.rm(stagingFolder, { recursive: true, force: true }).catch(() => {})
+    }
+  }
+
+  // Installs the APK and copies OBB files and save data of a backup to a device, each part optional
+  async restoreBackup(id: string, deviceId: string, parts: BackupContents): Promise<boolean> {
+    if (this.activeOperation) {
+      console.warn(`[Backups] Cannot restore ${id}, ${this.activeOperation} is running`)
+      return false
+    }
+
+    const entry = await this.findBackup(id)
+    if (!entry) {
+      console.log(`[Backups] No backup found with id: ${id}`)
+      return false
+    }
+    const { packageName } = entry
+    this.activeOperation = `restore of ${packageName}`
+    const stagingFolder = join(this.stagingPath, `restore-${id}`)
+
+    try {
+      this.emitProgress(packageName, 'restore', 'Extracting archive', 0)
+      await fs.rm(stagingFolder, { recursive: true, force: true })
+      await fs.mkdir(stagingFolder, { recursive: true })
+      await this.extract(this.getArchivePath(entry), stagingFolder, (percent) =>
+        this.emitProgress(packageName, 'restore', 'Extracting archive', percent * 0.3)
+      )
+
+      if (parts.apk && entry.contents.apk) {
+        this.emitProgress(packageName, 'restore', 'Installing APK', 30)
+        // -d allows going back to the backed up version when a newer one is installed
+        const flags = ['-r', '-d', '-g']
+        const splitApkPaths = (await fs.readdir(stagingFolder))
+          .filter((name) => name.toLowerCase().endsWith('.apk') && name !== APK_FILE_NAME)
+          .map((name) => join(stagingFolder, name))
+        const baseApkPath = join(stagingFolder, APK_FILE_NAME)
+        const installed =
+          splitApkPaths.length > 0
+            ? await adbService.installSplitPackage(deviceId, [baseApkPath, ...splitApkPaths], flags)
+            : await adbService.installPackage(deviceId, baseApkPath, { flags })
+        if (!installed) {
+          throw new Error(`Failed to install APK of ${packageName}`)
+        }
+      }
+
+      if (parts.obb && entry.contents.obb) {
+        this.emitProgress(packageName, 'restore', 'Copying OBB files', 60)
+        const pushed = await adbService.pushFileOrFolder(
+          deviceId,
+          join(stagingFolder, OBB_FOLDER_NAME),
+          `/sdcard/Android/obb/${packageName}`
+        )
+        if (!pushed) {
+          throw new Error(`Failed to copy OBB files of ${packageName}`)
+        }
+      }
+
+      if (parts.data && entry.contents.data) {
+        this.emitProgress(packageName, 'restore', 'Copying save data', 85)
+        const pushed = await adbService.pushFileOrFolder(
+          deviceId,
+          join(stagingFolder, DATA_FOLDER_NAME),
+          `/sdcard/Android/data/${packageName}`
+        )
+        if (!pushed) {
+          throw new Error(`Failed to copy save data of ${packageName}`)
+        }
+      }
+
+      this.emitProgress(packageName, 'restore', 'Complete', 100)
+      console.log(`[Backups] Restored ${id} to ${deviceId}`)
+      return true
+    } catch (error) {
+      console.error(`[Backups] Error restoring ${id} to ${deviceId}:`, error)
+      this.emitProgress(packageName, 'restore', 'Error', 0)
+      return false
+    } finally {
+      await fs.rm(stagingFolder, { recursive: true, force: true }).catch(() => {})
+      this.activeOperation = null
+    }
+  }
+
+  async removeBackup(id: string): Promise<boolean> {
+    const entry = await this.findBackup(id)
+    if (!entry) {
+      console.log(`[Backups] No backup found with id: ${id}`)
+      return false
+    }
+
+    try {
+      await fs.rm(this.getArchivePath(entry), { force: true })
+      await fs.rm(this.getManifestPath(entry), { force: true })
+      const packageFolder = join(this.backupsBasePath, entry.packageName)
+      if ((await fs.readdir(packageFolder)).length === 0) {
+        await fs.rmdir(packageFolder)
+      }
+      console.log(`[Backups] Removed backup: ${id}`)
+      return true
+    } catch (error) {
+      console.error(`[Backups] Error removing backup ${id}:`, error)
+      return false
+    }
+  }
+
+  private compress(
+    sourceFolder: string,
+    archivePath: string,
+    onProgress: (percent: number) => void
+  ): Promise<void> {
+    const sevenZipPath = dependencyService.get7zPath()
+    if (!sevenZipPath) {
+      throw new Error('7zip not found. Cannot create backup archive.')
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const stream = SevenZip.add(archivePath, `${sourceFolder}/*`, {
+        $bin: sevenZipPath,
+        $progress: true
+      })
+      stream.on('progress', (progress) => onProgress(progress.percent))
+      stream.on('end', () => resolve())
+      stream.on('error', (error) => reject(error))
+    })
+  }
+
+  private extract(
+    archivePath: string,
+    targetFolder: string,
+    onProgress: (percent: number) => void
+  ): Promise<void> {
+    const sevenZipPath = dependencyService.get7zPath()
+    if (!sevenZipPath) {
+      throw new Error('7zip not found. Cannot extract backup archive.')
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const stream = SevenZip.extractFull(archivePath, targetFolder, {
+        $bin: sevenZipPath,
+        $progress: true
+      })
+      stream.on('progress', (progress) => onProgress(progress.percent))
+      stream.on('end', () => resolve())
+      stream.on('error', (error) => reject(error))
+    })
+  }
+}
+
+export default new BackupService()
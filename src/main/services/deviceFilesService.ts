@@ -0,0 +1,290 @@
+import { app, BrowserWindow } from 'electron'
+import { promises as fs, existsSync } from 'fs'
+import path from 'path'
+import adbService from './adbService'
+import { DeviceFileEntry, DeviceFilesAPI, FileTransferProgress } from '@shared/types'
+import { typedWebContentsSend } from '@shared/ipc-utils'
+
+// Shared storage only, app and system folders stay out of reach of the browser
+const ROOT_PATH = '/sdcard'
+// Transfers report progress for every chunk, the renderer gets at most one update per interval
+const PROGRESS_INTERVAL = 200
+// Folders created per mkdir call when uploading a folder tree
+const MKDIR_BATCH_SIZE = 50
+// Temporary copies of files dragged out of the window
+const DRAG_FOLDER_NAME = 'apprenticevr-drag'
+
+interface TransferFile {
+  source: string
+  target: string
+  // Shown in the progress, relative to the folder the file is copied into
+  name: string
+  size: number
+}
+
+// Quotes a value for the device shell
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// Absolute device path below ROOT_PATH, throws for anything outside of it
+function resolveDevicePath(remotePath: string): string {
+  const resolved = path.posix.resolve(ROOT_PATH, remotePath)
+  if (resolved !== ROOT_PATH && !resolved.startsWith(`${ROOT_PATH}/`)) {
+    throw new Error(`${remotePath} is outside of ${ROOT_PATH}`)
+  }
+  return resolved
+}
+
+function isValidName(name: string): boolean {
+  return name.length > 0 && name !== '.' && name !== '..' && !name.includes('/')
+}
+
+// Parses the find -printf output of list(), '<type>\t<size>\t<mtime>\t<name>' per line
+function parseListing(output: string, directory: string): DeviceFileEntry[] {
+  const entries: DeviceFileEntry[] = []
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\w)\t(\d+)\t([\d.]+)\t(.+)$/)
+    if (!match) continue
+    const [, type, size, modifiedAt, name] = match
+    const isDirectory = type === 'd'
+    entries.push({
+      name,
+      path: path.posix.join(directory, name),
+      isDirectory,
+      size: isDirectory ? 0 : parseInt(size, 10),
+      modifiedAt: Math.round(parseFloat(modifiedAt) * 1000)
+    })
+  }
+  return entries
+}
+
+class DeviceFilesService implements DeviceFilesAPI {
+  private lastProgressAt = 0
+  private dragFiles: string[] = []
+
+  private emitProgress(progress: FileTransferProgress, force = false): void {
+    const now = Date.now()
+    if (!force && now - this.lastProgressAt < PROGRESS_INTERVAL) return
+    this.lastProgressAt = now
+    const mainWindow = BrowserWindow.getAllWindows()[0]
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      typedWebContentsSend.send(mainWindow, 'device-files:progress', progress)
+    }
+  }
+
+  // Runs a command that prints OK when it succeeded
+  private async runChecked(serial: string, command: string): Promise<boolean> {
+    const output = await adbService.runShellCommand(serial, `${command} && echo OK`)
+    return output?.split('\n').pop()?.trim() === 'OK'
+  }
+
+  async list(serial: string, remotePath: string): Promise<DeviceFileEntry[] | null> {
+    try {
+      const directory = resolveDevicePath(remotePath)
+      // The trailing slash makes find follow /sdcard, which is a symlink on most devices.
+      // %Y reports the type a symlink points to.
+      const quoted = shellQuote(`${directory}/`)
+      const output = await adbService.runShellCommand(
+        serial,
+        `if [ -d ${quoted} ]; then find ${quoted} -mindepth 1 -maxdepth 1 ` +
+          `-printf '%Y\\t%s\\t%T@\\t%f\\n' 2>/dev/null; else echo MISSING; fi`
+      )
+      if (output === null || output === 'MISSING') return null
+      return parseListing(output, directory)
+    } catch (error) {
+      console.error(`[DeviceFiles] Error listing ${remotePath} on ${serial}:`, error)
+      return null
+    }
+  }
+
+  private async collectLocal(
+    localPath: string,
+    remotePath: string,
+    name: string,
+    files: TransferFile[],
+    folders: string[]
+  ): Promise<void> {
+    const stats = await fs.stat(localPath)
+    if (stats.isDirectory()) {
+      folders.push(remotePath)
+      for (const entry of await fs.readdir(localPath)) {
+        await this.collectLocal(
+          path.join(localPath, entry),
+          path.posix.join(remotePath, entry),
+          `${name}/${entry}`,
+          files,
+          folders
+        )
+      }
+    } else if (stats.isFile()) {
+      files.push({ source: localPath, target: remotePath, name, size: stats.size })
+    }
+  }
+
+  // Copies files and folders into remoteDir, folders keep their structure
+  async upload(serial: string, localPaths: string[], remoteDir: string): Promise<boolean> {
+    try {
+      const directory = resolveDevicePath(remoteDir)
+      const files: TransferFile[] = []
+      const folders: string[] = []
+      for (const localPath of localPaths) {
+        const name = path.basename(localPath)
+        await this.collectLocal(localPath, path.posix.join(directory, name), name, files, folders)
+      }
+      console.log(`[DeviceFiles] Uploading ${files.length} files to ${serial}:${directory}`)
+
+      // Pushing a file creates its parent folders, empty ones have to be made up front
+      for (let i = 0; i < folders.length; i += MKDIR_BATCH_SIZE) {
+        const batch = folders.slice(i, i + MKDIR_BATCH_SIZE).map(shellQuote)
+        if (!(await this.runChecked(serial, `mkdir -p ${batch.join(' ')}`))) {
+          throw new Error('Could not create the folders')
+        }
+      }
+
+      return await this.transfer('upload', files, (file, onProgress) =>
+        adbService.pushFileOrFolder(serial, file.source, file.target, onProgress)
+      )
+    } catch (error) {
+      console.error(`[DeviceFiles] Error uploading to ${remoteDir} on ${serial}:`, error)
+      return false
+    }
+  }
+
+  // Copies files and folders into localDir, folders keep their structure
+  async download(serial: string, remotePaths: string[], localDir: string): Promise<boolean> {
+    try {
+      const files: TransferFile[] = []
+      for (const remotePath of remotePaths) {
+        const resolved = resolveDevicePath(remotePath)
+        const parent = path.posix.dirname(resolved)
+        const output = await adbService.runShellCommand(
+          serial,
+          `find ${shellQuote(resolved)} -type f -printf '%s\\t%p\\n' 2>/dev/null`
+        )
+        for (const line of (output ?? '').split('\n')) {
+          const match = line.match(/^(\d+)\t(.+)$/)
+          if (!match) continue
+          const name = path.posix.relative(parent, match[2])
+          files.push({
+            source: match[2],
+            target: path.join(localDir, ...name.split('/')),
+            name,
+            size: parseInt(match[1], 10)
+          })
+        }
+      }
+      console.log(`[DeviceFiles] Downloading ${files.length} files from ${serial} to ${localDir}`)
+
+      return await this.transfer('download', files, async (file, onProgress) => {
+        await fs.mkdir(path.dirname(file.target), { recursive: true })
+        return adbService.pullFile(serial, file.source, file.target, onProgress)
+      })
+    } catch (error) {
+      console.error(`[DeviceFiles] Error downloading from ${serial}:`, error)
+      return false
+    }
+  }
+
+  // Pulls files and folders into a fresh temporary folder to drag them out of the window. The
+  // copies of the previous drag are removed first, the drop has been handled by then.
+  async pullForDrag(serial: string, remotePaths: string[]): Promise<string[] | null> {
+    const dragPath = path.join(app.getPath('temp'), DRAG_FOLDER_NAME)
+    const localDir = path.join(dragPath, String(Date.now()))
+    this.dragFiles = []
+    try {
+      await fs.rm(dragPath, { recursive: true, force: true })
+      await fs.mkdir(localDir, { recursive: true })
+    } catch (error) {
+      console.error(`[DeviceFiles] Error preparing ${localDir} for dragging:`, error)
+      return null
+    }
+    if (!(await this.download(serial, remotePaths, localDir))) return null
+
+    const localPaths: string[] = []
+    for (const remotePath of remotePaths) {
+      const localPath = path.join(localDir, path.posix.basename(remotePath))
+      // download() only creates folders that hold files, empty ones are made here
+      if (!existsSync(localPath)) await fs.mkdir(localPath, { recursive: true })
+      localPaths.push(localPath)
+    }
+    this.dragFiles = localPaths
+    return localPaths
+  }
+
+  // Local copies made by the last pullForDrag, the only files a drag can hand out
+  getDragFiles(): string[] {
+    return this.dragFiles
+  }
+
+  // Moves the files one after the other, stops at the first failure
+  private async transfer(
+    operation: FileTransferProgress['operation'],
+    files: TransferFile[],
+    move: (file: TransferFile, onProgress: (bytes: number) => void) => Promise<boolean>
+  ): Promise<boolean> {
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0)
+    let doneBytes = 0
+    for (const [index, file] of files.entries()) {
+      const progress = (bytes: number, force = false): void =>
+        this.emitProgress(
+          {
+            operation,
+            fileName: file.name,
+            transferredBytes: doneBytes + bytes,
+            totalBytes,
+            completedFiles: index,
+            totalFiles: files.length
+          },
+          force
+        )
+      progress(0, true)
+      if (!(await move(file, (bytes) => progress(bytes)))) {
+        console.error(`[DeviceFiles] Failed to ${operation} ${file.name}`)
+        return false
+      }
+      doneBytes += file.size
+    }
+    return true
+  }
+
+  async rename(serial: string, remotePath: string, newName: string): Promise<boolean> {
+    try {
+      const source = resolveDevicePath(remotePath)
+      if (source === ROOT_PATH || !isValidName(newName)) return false
+      const target = path.posix.join(path.posix.dirname(source), newName)
+      return await this.runChecked(
+        serial,
+        `[ ! -e ${shellQuote(target)} ] && mv ${shellQuote(source)} ${shellQuote(target)}`
+      )
+    } catch (error) {
+      console.error(`[DeviceFiles] Error renaming ${remotePath} on ${serial}:`, error)
+      return false
+    }
+  }
+
+  async remove(serial: string, remotePaths: string[]): Promise<boolean> {
+    try {
+      const targets = remotePaths.map(resolveDevicePath)
+      if (targets.length === 0 || targets.includes(ROOT_PATH)) return false
+      console.log(`[DeviceFiles] Deleting ${targets.join(', ')} on ${serial}`)
+      return await this.runChecked(serial, `rm -rf ${targets.map(shellQuote).join(' ')}`)
+    } catch (error) {
+      console.error(`[DeviceFiles] Error deleting files on ${serial}:`, error)
+      return false
+    }
+  }
+
+  async createFolder(serial: string, parentPath: string, name: string): Promise<boolean> {
+    try {
+      if (!isValidName(name)) return false
+      const target = path.posix.join(resolveDevicePath(parentPath), name)
+      return await this.runChecked(serial, `mkdir ${shellQuote(target)}`)
+    } catch (error) {
+      console.error(`[DeviceFiles] Error creating ${name} in ${parentPath} on ${serial}:`, error)
+      return false
+    }
+  }
+}
+
+export default new DeviceFilesService()
@@ -0,0 +1,290 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { app } from 'electron'
+import { randomUUID } from 'crypto'
+import {
+  DeviceProfile,
+  DeviceProfileApp,
+  ProfileApplyOptions,
+  ProfileApplyResult,
+  ProfileDiff,
+  ProfileDiffEntry
+} from '@shared/types'
+import adbService from './adbService'
+import gameService from './gameService'
+import downloadService from './downloadService'
+
+class DeviceProfilesService {
+  private profilesFilePath: string
+  private profiles: DeviceProfile[] = []
+
+  constructor() {
+    const userDataPath = app.getPath('userData')
+    this.profilesFilePath = path.join(userDataPath, 'device-profiles.json')
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.loadProfiles()
+      console.log('[Device Profiles] Service initialized')
+    } catch (error) {
+      console.error('[Device Profiles] Error initializing service:', error)
+    }
+  }
+
+  private async loadProfiles(): Promise<void> {
+    try {
+      const fileContent = await fs.readFile(this.profilesFilePath, 'utf-8')
+      const data: unknown[] = JSON.parse(fileContent)
+      this.profiles = data.map((profile: unknown) => {
+        const p = profile as Record<string, unknown>
+        return {
+          id: p.id as string,
+          name: p.name as string,
+          apps: this.sanitizeApps(Array.isArray(p.apps) ? p.apps : []),
+          dateAdded: new Date(p.dateAdded as string),
+          dateModified: p.dateModified ? new Date(p.dateModified as string) : undefined
+        }
+      })
+      console.log(`[Device Profiles] Loaded ${this.profiles.length} profiles`)
+    } catch (error) {
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+        console.log('[Device Profiles] No existing profiles file, starting fresh')
+        this.profiles = []
+      } else {
+        console.error('[Device Profiles] Error loading profiles:', error)
+        this.profiles = []
+      }
+    }
+  }
+
+  private async saveProfiles(): Promise<void> {
+    try {
+      await fs.writeFile(this.profilesFilePath, JSON.stringify(this.profiles, null, 2))
+      console.log('[Device Profiles] Profiles saved successfully')
+    } catch (error) {
+      console.error('[Device Profiles] Error saving profiles:', error)
+      throw error
+    }
+  }
+
+  // Drops blank and duplicate package names, the first entry for a package wins
+  private sanitizeApps(apps: unknown[]): DeviceProfileApp[] {
+    const seen = new Set<string>()
+    const result: DeviceProfileApp[] = []
+    for (const entry of apps) {
+      const a = entry as Record<string, unknown>
+      const packageName = typeof a.packageName === 'string' ? a.packageName.trim() : ''
+      if (!packageName || seen.has(packageName)) continue
+      seen.add(packageName)
+      const minVersionCode = Number(a.minVersionCode)
+      result.push(
+        Number.isFinite(minVersionCode) && minVersionCode > 0
+          ? { packageName, minVersionCode: Math.floor(minVersionCode) }
+          : { packageName }
+      )
+    }
+    return result
+  }
+
+  async getAllProfiles(): Promise<DeviceProfile[]> {
+    return [...this.profiles]
+  }
+
+  async addProfile(name: string, apps: DeviceProfileApp[]): Promise<DeviceProfile | null> {
+    try {
+      const trimmedName = name.trim()
+      if (!trimmedName) {
+        console.log('[Device Profiles] Cannot add a profile without a name')
+        return null
+      }
+
+      const newProfile: DeviceProfile = {
+        id: randomUUID(),
+        name: trimmedName,
+        apps: this.sanitizeApps(apps),
+        dateAdded: new Date()
+      }
+
+      this.profiles.push(newProfile)
+      await this.saveProfiles()
+      console.log(
+        `[Device Profiles] Added profile: ${trimmedName} (${newProfile.apps.length} apps)`
+      )
+      return newProfile
+    } catch (error) {
+      console.error('[Device Profiles] Error adding profile:', error)
+      return null
+    }
+  }
+
+  async updateProfile(id: string, name: string, apps: DeviceProfileApp[]): Promise<boolean> {
+    try {
+      const profile = this.profiles.find((p) => p.id === id)
+      if (!profile) {
+        console.log(`[Device Profiles] No profile found with id: ${id}`)
+        return false
+      }
+
+      profile.name = name.trim() || profile.name
+      profile.apps = this.sanitizeApps(apps)
+      profile.dateModified = new Date()
+      await this.saveProfiles()
+      console.log(`[Device Profiles] Updated profile: ${profile.name}`)
+      return true
+    } catch (error) {
+      console.error('[Device Profiles] Error updating profile:', error)
+      return false
+    }
+  }
+
+  async removeProfile(id: string): Promise<boolean> {
+    try {
+      const initialLength = this.profiles.length
+      this.profiles = this.profiles.filter((profile) => profile.id !== id)
+
+      if (this.profiles.length < initialLength) {
+        await this.saveProfiles()
+        console.log(`[Device Profiles] Removed profile with id: ${id}`)
+        return true
+      } else {
+        console.log(`[Device Profiles] No profile found with id: ${id}`)
+        return false
+      }
+    } catch (error) {
+      console.error('[Device Profiles] Error removing profile:', error)
+      return false
+    }
+  }
+
+  // Creates a profile from the apps currently installed on a device, pinned to their versions
+  async captureFromDevice(name: string, deviceId: string): Promise<DeviceProfile | null> {
+    try {
+      const packages = await adbService.getInstalledPackages(deviceId)
+      console.log(`[Device Profiles] Capturing ${packages.length} packages from ${deviceId}`)
+      return await this.addProfile(
+        name,
+        packages.map((pkg) => ({ packageName: pkg.packageName, minVersionCode: pkg.versionCode }))
+      )
+    } catch (error) {
+      console.error(`[Device Profiles] Error capturing profile from ${deviceId}:`, error)
+      return null
+    }
+  }
+
+  async getProfileDiff(id: string, deviceId: string): Promise<ProfileDiff | null> {
+    const profile = this.profiles.find((p) => p.id === id)
+    if (!profile) {
+      console.log(`[Device Profiles] No profile found with id: ${id}`)
+      return null
+    }
+
+    try {
+      const [installedPackages, latestReleases] = await Promise.all([
+        adbService.getInstalledPackages(deviceId),
+        gameService.getLatestReleases()
+      ])
+      const installed = new Map(installedPackages.map((pkg) => [pkg.packageName, pkg.versionCode]))
+      const profilePackages = new Set(profile.apps.map((a) => a.packageName))
+
+      const diff: ProfileDiff = {
+        profileId: id,
+        deviceId,
+        missing: [],
+        outdated: [],
+        extra: installedPackages.filter((pkg) => !profilePackages.has(pkg.packageName)),
+        upToDate: 0
+      }
+
+      for (const profileApp of profile.apps) {
+        const release = latestReleases.get(profileApp.packageName)
+        const installedVersionCode = installed.get(profileApp.packageName)
+        const entry: ProfileDiffEntry = {
+          packageName: profileApp.packageName,
+          gameName: release?.name,
+          minVersionCode: profileApp.minVersionCode,
+          installedVersionCode,
+          releaseName: release?.releaseName,
+          availableVersionCode: release ? parseInt(release.version, 10) || 0 : undefined
+        }
+        if (installedVersionCode === undefined) {
+          diff.missing.push(entry)
+        } else if (profileApp.minVersionCode && installedVersionCode < profileApp.minVersionCode) {
+          diff.outdated.push(entry)
+        } else {
+          diff.upToDate++
+        }
+      }
+
+      console.log(
+        `[Device Profiles] Diff of ${profile.name} on ${deviceId}: ${diff.missing.length} missing, ${diff.outdated.length} outdated, ${diff.extra.length} extra`
+      )
+      return diff
+    } catch (error) {
+      console.error(`[Device Profiles] Error computing diff for ${deviceId}:`, error)
+      return null
+    }
+  }
+
+  // Queues downloads for missing and outdated apps, installs releases that are already downloaded
+  // and optionally removes apps the profile does not list
+  async applyProfile(
+    id: string,
+    deviceId: string,
+    options: ProfileApplyOptions
+  ): Promise<ProfileApplyResult | null> {
+    const diff = await this.getProfileDiff(id, deviceId)
+    if (!diff) return null
+
+    const result: ProfileApplyResult = {
+      queued: [],
+      installing: [],
+      alreadyQueued: [],
+      unavailable: [],
+      uninstalled: [],
+      failed: []
+    }
+
+    try {
+      const latestReleases = await gameService.getLatestReleases()
+
+      for (const entry of [...diff.missing, ...diff.outdated]) {
+        const release = latestReleases.get(entry.packageName)
+        if (
+          !release ||
+          (entry.minVersionCode && (entry.availableVersionCode ?? 0) < entry.minVersionCode)
+        ) {
+          result.unavailable.push(entry.packageName)
+          continue
+        }
+
+        result[await downloadService.queueForDevice(release, deviceId)].push(entry.packageName)
+      }
+
+      if (options.uninstallExtra) {
+        for (const pkg of diff.extra) {
+          try {
+            if (await adbService.uninstallPackage(deviceId, pkg.packageName)) {
+              result.uninstalled.push(pkg.packageName)
+            } else {
+              result.failed.push(pkg.packageName)
+            }
+          } catch (error) {
+            console.error(`[Device Profiles] Error uninstalling ${pkg.packageName}:`, error)
+            result.failed.push(pkg.packageName)
+          }
+        }
+      }
+
+      console.log(
+        `[Device Profiles] Applied profile ${id} to ${deviceId}: ${result.queued.length} queued, ${result.installing.length} installing, ${result.uninstalled.length} uninstalled, ${result.failed.length} failed`
+      )
+      return result
+    } catch (error) {
+      console.error(`[Device Profiles] Error applying profile ${id} to ${deviceId}:`, error)
+      return null
+    }
+  }
+}
+
+export default new DeviceProfilesService()
@@ -3,6 +3,7 @@ import { promises as fs, createReadStream, createWriteStream, promises as fsProm
 import { execa, ExecaError } from 'execa'
 import crypto from 'crypto'
 import { tmpdir } from 'os'
+import { createServer } from 'net'
 import { QueueManager } from './queueManager'
 import dependencyService from '../dependencyService'
 import mirrorService from '../mirrorService'
@@ -10,6 +11,7 @@ import settingsService from '../settingsService'
 import { DownloadItem } from '@shared/types'
 import { DownloadStatus } from '@shared/types'
 import { getAvailableDiskSpace, parseSizeToBytes, formatBytes } from './utils'
+import { getActiveScheduleRule } from '@shared/bandwidth-schedule'
 
 // Type for VRP config - adjust if needed elsewhere
 interface VrpConfig {
@@ -21,6 +23,42 @@ interface VrpConfig {
 interface DownloadController {
   cancel: () => void // Cancel the download streams
   mountProcess?: ReturnType<typeof execa> // Optional mount process to kill
+  // Changes the limit of a running rclone copy, which reads --bwlimit only once at start
+  setSpeedLimit?: (speedLimit: number) => Promise<void>
+  speedLimit?: number // Limit last applied through setSpeedLimit
+}
+
+// Free local port for the remote control API of an rclone process
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer()
+    server.unref()
+    server.on('error', reject)
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address()
+      const port = typeof address === 'object' && address ? address.port : 0
+      server.close(() => (port ? resolve(port) : reject(new Error('No free port'))))
+    })
+  })
+}
+
+// Address and per-process credentials of the remote control API of a running rclone copy
+interface RcloneRemote {
+  port: number
+  user: string
+  pass: string
+}
+
+async function setRcloneSpeedLimit(remote: RcloneRemote, speedLimit: number): Promise<void> {
+  const credentials = Buffer.from(`${remote.user}:${remote.pass}`).toString('base64')
+  const response = await fetch(`http://127.0.0.1:${remote.port}/core/bwlimit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Basic ${credentials}` },
+    body: JSON.stringify({ rate: speedLimit > 0 ? `${speedLimit}k` : 'off' })
+  })
+  if (!response.ok) {
+    throw new Error(`rclone rc answered ${response.status}`)
+  }
 }
 
 export class DownloadProcessor {
@@ -43,6 +81,31 @@ export class DownloadProcessor {
     return this.vrpConfig
   }
 
+  // Speed limit in KB/s (0 = unlimited). A matching schedule rule overrides the static limit;
+  // paused rules never reach this point because the service stops downloads while they apply.
+  private getCurrentSpeedLimit(): number {
+    const rule = getActiveScheduleRule(settingsService.getBandwidthSchedule(), new Date())
+    return rule ? rule.speedLimit : settingsService.getDownloadSpeedLimit()
+  }
+
+  // Pushes the current speed limit to running rclone copies when a schedule rule or the setting
+  // changes it. Mount based downloads re-read the limit every second on their own.
+  public applySpeedLimit(): void {
+    const speedLimit = this.getCurrentSpeedLimit()
+    for (const [releaseName, controller] of this.activeDownloads) {
+      if (!controller.setSpeedLimit || controller.speedLimit === speedLimit) continue
+      console.log(
+        `[DownProc] Changing speed limit of ${releaseName} to ${speedLimit > 0 ? `${speedLimit} KB/s` : 'unlimited'}`
+      )
+      controller.speedLimit = speedLimit
+      controller.setSpeedLimit(speedLimit).catch((error: unknown) => {
+        console.warn(`[DownProc] Could not change the speed limit of ${releaseName}:`, error)
+        // Tried again on the next call
+        controller.speedLimit = undefined
+      })
+    }
+  }
+
   // Centralized update method using QueueManager and emitting update
   private updateItemStatus(
     releaseName: string,
@@ -125,7 +188,7 @@ export class DownloadProcessor {
     } else {
       console.warn(`[DownProc] Item ${releaseName} not found in queue during cancellation.`)
     }
-    // The main service will handle resetting isProcessing and calling processQueue
+    // The main service will free the pipeline slot and call processQueue
   }
 
   public async startDownload(
@@ -280,6 +343,28 @@ export class DownloadProcessor {
       '1s',
       '--stats-one-line'
     ]
+    const speedLimit = this.getCurrentSpeedLimit()
+    if (speedLimit > 0) {
+      rcloneArgs.push('--bwlimit', `${speedLimit}k`)
+    }
+    // The remote control API lets later schedule changes reach the running copy. rclone cannot
+    // restrict it to single calls, so it is locked with credentials only this process knows.
+    const rcRemote = await getFreePort()
+      .then((port): RcloneRemote => ({
+        port,
+        user: crypto.randomBytes(16).toString('hex'),
+        pass: crypto.randomBytes(32).toString('hex')
+      }))
+      .catch((error: unknown) => {
+        console.warn(
+          '[DownProc] No port for the rclone remote control, speed limit is fixed:',
+          error
+        )
+        return null
+      })
+    if (rcRemote) {
+      rcloneArgs.push('--rc', '--rc-addr', `127.0.0.1:${rcRemote.port}`)
+    }
 
     const rcloneLogTail: string[] = []
     const maxLogLines = 50
@@ -331,7 +416,9 @@ export class DownloadProcessor {
       const rcloneProcess = execa(rclonePath, rcloneArgs, {
         all: true,
         buffer: false,
-        windowsHide: true
+        windowsHide: true,
+        // Passed in the environment to keep the credentials out of the process list
+        env: rcRemote ? { RCLONE_RC_USER: rcRemote.user, RCLONE_RC_PASS: rcRemote.pass } : {}
       })
 
       if (rcloneProcess.all) {
@@ -342,7 +429,9 @@ export class DownloadProcessor {
         cancel: () => {
           rcloneProcess.kill('SIGTERM')
         },
-        mountProcess: rcloneProcess
+        mountProcess: rcloneProcess,
+        setSpeedLimit: rcRemote ? (limit) => setRcloneSpeedLimit(rcRemote, limit) : undefined,
+        speedLimit
       })
 
       console.log(
@@ -1005,8 +1094,8 @@ export class DownloadProcessor {
       const readStream = createReadStream(sourcePath, { start: startOffset })
       const writeStream = createWriteStream(destPath, { flags: startOffset > 0 ? 'a' : 'w' })
 
-      // Handle bandwidth limiting
-      const downloadSpeedLimit = settingsService.getDownloadSpeedLimit()
+      // Handle bandwidth limiting, re-read every second so schedule changes apply mid-file
+      let downloadSpeedLimit = this.getCurrentSpeedLimit()
       let lastProgressTime = Date.now()
       let bytesInSecond = 0
 
@@ -1023,13 +1112,15 @@ export class DownloadProcessor {
 
         // Bandwidth limiting
         const now = Date.now()
-        if (downloadSpeedLimit > 0 && now - lastProgressTime >= 1000) {
+        if (now - lastProgressTime >= 1000) {
           const maxBytesPerSecond = downloadSpeedLimit * 1024 // Convert KB/s to B/s
-          if (bytesInSecond > maxBytesPerSecond) {
+          if (downloadSpeedLimit > 0 && bytesInSecond > maxBytesPerSecond) {
             const delay = (bytesInSecond / maxBytesPerSecond - 1) * 1000
+            readStream.pause()
             setTimeout(() => {
               if (!cancellationToken.cancelled) {
                 onProgress(copiedBytes - startOffset)
+                readStream.resume()
               }
             }, delay)
           } else {
@@ -1037,6 +1128,7 @@ export class DownloadProcessor {
           }
           bytesInSecond = 0
           lastProgressTime = now
+          downloadSpeedLimit = this.getCurrentSpeedLimit()
         } else {
           onProgress(copiedBytes - startOffset)
         }
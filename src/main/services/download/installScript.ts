@@ -0,0 +1,235 @@
+import { basename, join, resolve, sep } from 'path'
+import { existsSync } from 'fs'
+import { InstallScriptAction, InstallScriptActionKind } from '@shared/types'
+
+// Names VRP releases use for their install script, checked in this order
+const SCRIPT_NAMES = ['install.txt', 'Install.txt', 'install.cmd', 'Install.cmd', 'install.bat']
+
+// Batch built-ins that only affect the console, listed in a plan but never executed
+const IGNORED_COMMANDS = new Set([
+  'echo',
+  'pause',
+  'cls',
+  'timeout',
+  'exit',
+  'title',
+  'color',
+  'chcp',
+  'cd',
+  'setlocal',
+  'endlocal',
+  'goto'
+])
+
+export function findInstallScript(downloadPath: string): string | null {
+  for (const name of SCRIPT_NAMES) {
+    const scriptPath = join(downloadPath, name)
+    if (existsSync(scriptPath)) return scriptPath
+  }
+  return null
+}
+
+// Splits a command line on whitespace the way cmd.exe does, double quotes group and are removed
+function tokenize(line: string): string[] {
+  const tokens: string[] = []
+  let current = ''
+  let inQuotes = false
+  let hasToken = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+      hasToken = true
+    } else if (/\s/.test(char) && !inQuotes) {
+      if (hasToken) tokens.push(current)
+      current = ''
+      hasToken = false
+    } else {
+      current += char
+      hasToken = true
+    }
+  }
+  if (hasToken) tokens.push(current)
+  return tokens
+}
+
+// Expands %~dp0 to the script folder and %NAME% to variables set earlier in the script.
+// Unknown variables are left untouched, like cmd.exe does in scripts.
+function expandVariables(line: string, scriptDir: string, variables: Map<string, string>): string {
+  return line.replace(/%~dp0|%%|%([^%\s]+)%/gi, (match, name?: string) => {
+    if (match.toLowerCase() === '%~dp0') return scriptDir + sep
+    if (match === '%%') return '%'
+    return variables.get(name!.toUpperCase()) ?? match
+  })
+}
+
+// Local paths must stay inside the release folder, null for anything that points outside of it
+function resolveLocalPath(path: string, scriptDir: string): string | null {
+  const resolved = resolve(scriptDir, path.replace(/[\\/]/g, sep))
+  return resolved.startsWith(resolve(scriptDir) + sep) ? resolved : null
+}
+
+function resolveRemotePath(path: string): string {
+  return path.replace(/\\/g, '/')
+}
+
+function action(
+  line: number,
+  raw: string,
+  kind: InstallScriptActionKind,
+  args: string[],
+  description: string,
+  critical = false
+): InstallScriptAction {
+  return { line, raw, kind, args, description, critical }
+}
+
+// Turns an adb invocation (without the leading adb token) into an action
+function parseAdbCommand(
+  line: number,
+  raw: string,
+  tokens: string[],
+  scriptDir: string
+): InstallScriptAction {
+  // Skip global options, the target device is always chosen by the app
+  let index = 0
+  while (index < tokens.length && tokens[index].startsWith('-')) {
+    const option = tokens[index]
+    index += option === '-s' || option === '-t' || option === '-H' || option === '-P' ? 2 : 1
+  }
+  const command = tokens[index]?.toLowerCase()
+  const args = tokens.slice(index + 1)
+
+  switch (command) {
+    case 'install': {
+      const flags = args.filter((arg) => arg.startsWith('-'))
+      const apk = args.find((arg) => !arg.startsWith('-'))
+      if (!apk) return action(line, raw, 'unsupported', args, 'install without an APK file')
+      const apkPath = resolveLocalPath(apk, scriptDir)
+      if (!apkPath) return action(line, raw, 'unsupported', args, `${apk} is outside the release`)
+      return action(
+        line,
+        raw,
+        'install',
+        [apkPath, ...flags],
+        `Install ${basename(apkPath)}${flags.length > 0 ? ` (${flags.join(' ')})` : ''}`,
+        true
+      )
+    }
+    case 'uninstall': {
+      const keepData = args.includes('-k')
+      const packageName = args.find((arg) => !arg.startsWith('-'))
+      if (!packageName) return action(line, raw, 'unsupported', args, 'uninstall without a package')
+      return action(
+        line,
+        raw,
+        'uninstall',
+        keepData ? [packageName, '-k'] : [packageName],
+        `Uninstall ${packageName}${keepData ? ' (keep data)' : ''}`
+      )
+    }
+    case 'push': {
+      const paths = args.filter((arg) => !arg.startsWith('-'))
+      if (paths.length !== 2) {
+        return action(line, raw, 'unsupported', args, 'push expects a local and a device path')
+      }
+      const localPath = resolveLocalPath(paths[0], scriptDir)
+      if (!localPath) {
+        return action(line, raw, 'unsupported', args, `${paths[0]} is outside the release`)
+      }
+      const remotePath = resolveRemotePath(paths[1])
+      return action(
+        line,
+        raw,
+        'push',
+        [localPath, remotePath],
+        `Copy ${basename(localPath)} to ${remotePath}`,
+        true
+      )
+    }
+    case 'pull': {
+      const paths = args.filter((arg) => !arg.startsWith('-'))
+      if (paths.length === 0) return action(line, raw, 'unsupported', args, 'pull without a path')
+      const remotePath = resolveRemotePath(paths[0])
+      const localPath = resolveLocalPath(paths[1] ?? basename(remotePath), scriptDir)
+      if (!localPath) {
+        return action(line, raw, 'unsupported', args, `${paths[1]} is outside the release`)
+      }
+      return action(
+        line,
+        raw,
+        'pull',
+        [remotePath, localPath],
+        `Copy ${remotePath} from the device`
+      )
+    }
+    case 'shell': {
+      // adb joins its arguments with spaces once the local shell has removed the quotes
+      const shellCommand = args.join(' ').trim()
+      if (!shellCommand) return action(line, raw, 'unsupported', args, 'shell without a command')
+      if (args[0] === 'pm' && args[1] === 'grant' && args.length >= 4) {
+        return action(line, raw, 'grant', [shellCommand], `Grant ${args[3]} to ${args[2]}`)
+      }
+      if (args[0] === 'settings' && args[1] === 'put' && args.length >= 5) {
+        return action(
+          line,
+          raw,
+          'setting',
+          [shellCommand],
+          `Set ${args[2]} setting ${args[3]} to ${args.slice(4).join(' ')}`
+        )
+      }
+      return action(line, raw, 'shell', [shellCommand], `Run "${shellCommand}" on the device`)
+    }
+    default:
+      return action(line, raw, 'unsupported', args, `Unsupported adb command: ${command ?? ''}`)
+  }
+}
+
+// Resolves a .cmd-style install script into the actions it would run, without touching a device
+export function parseInstallScript(content: string, scriptDir: string): InstallScriptAction[] {
+  const variables = new Map<string, string>()
+  const actions: InstallScriptAction[] = []
+
+  content.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+    const line = lineIndex + 1
+    const raw = rawLine.trim()
+    if (!raw || raw.startsWith('#') || raw.startsWith('::')) return
+
+    const expanded = expandVariables(raw.replace(/^@/, ''), scriptDir, variables)
+    const tokens = tokenize(expanded)
+    if (tokens.length === 0) return
+    const first = tokens[0].toLowerCase()
+    if (first === 'rem') return
+
+    if (first === 'set') {
+      const assignment = expanded.slice(expanded.toLowerCase().indexOf('set') + 3).trim()
+      const match = assignment.replace(/^"(.*)"$/, '$1').match(/^([^=\s/]+)=(.*)$/)
+      if (!match) {
+        actions.push(action(line, raw, 'unsupported', [assignment], 'Unsupported set command'))
+        return
+      }
+      variables.set(match[1].toUpperCase(), match[2])
+      actions.push(action(line, raw, 'set', [match[1], match[2]], `${match[1]} = ${match[2]}`))
+      return
+    }
+
+    if (IGNORED_COMMANDS.has(first)) {
+      actions.push(action(line, raw, 'ignored', [], `Console command ${first}`))
+      return
+    }
+
+    if (
+      basename(tokens[0].replace(/\\/g, '/'))
+        .toLowerCase()
+        .replace(/\.exe$/, '') !== 'adb'
+    ) {
+      actions.push(action(line, raw, 'unsupported', [], `Unsupported command: ${tokens[0]}`))
+      return
+    }
+
+    actions.push(parseAdbCommand(line, raw, tokens.slice(1), scriptDir))
+  })
+
+  return actions
+}
@@ -1,8 +1,25 @@
-import { basename, join } from 'path'
+import { basename, dirname, join } from 'path'
 import { promises as fs, existsSync } from 'fs'
-import { DownloadItem, DownloadStatus } from '@shared/types'
+import {
+  DownloadItem,
+  DownloadStatus,
+  InstallScriptAction,
+  InstallScriptCommandResult,
+  InstallScriptPlan,
+  SaveDataReport
+} from '@shared/types'
 import { QueueManager } from './queueManager'
+import { findInstallScript, parseInstallScript } from './installScript'
 import adbService from '../adbService'
+import backupService from '../backupService'
+
+// Receives the status of a single installation. By default it is written to the queue item, a
+// multi-device install routes it to the per-device state instead.
+export type InstallStatusReporter = (
+  status: DownloadStatus,
+  progress: number,
+  error?: string
+) => void
 
 export class InstallationProcessor {
   private queueManager: QueueManager
@@ -39,60 +56,99 @@ export class InstallationProcessor {
     }
   }
 
-  public async startInstallation(item: DownloadItem, deviceId: string): Promise<boolean> {
+  public async startInstallation(
+    item: DownloadItem,
+    deviceId: string,
+    reporter?: InstallStatusReporter
+  ): Promise<boolean> {
     console.log(
       `[InstallProc] Starting installation process for ${item.releaseName} on device ${deviceId}`
     )
+    let reportedError = false
+    const onStatus: InstallStatusReporter = (status, progress, error) => {
+      if (status === 'InstallError') reportedError = true
+      if (reporter) {
+        reporter(status, progress, error)
+      } else {
+        this.updateItemStatus(item.releaseName, status, progress, error, 100)
+      }
+    }
     if (!item.downloadPath || !existsSync(item.downloadPath)) {
       console.error(
         `[InstallProc] Download path invalid for ${item.releaseName}: ${item.downloadPath}`
       )
-      this.updateItemStatus(
-        item.releaseName,
-        'InstallError',
-        100,
-        'Download path missing or invalid',
-        100
-      )
+      onStatus('InstallError', 100, 'Download path missing or invalid')
       return false
     }
-    this.updateItemStatus(item.releaseName, 'Installing', 100, undefined, 100)
-    const installScriptPathTxt = join(item.downloadPath, 'install.txt')
-    const installScriptPathTxtUpper = join(item.downloadPath, 'Install.txt')
-    let installScriptPath: string | null = null
-    if (existsSync(installScriptPathTxt)) {
-      installScriptPath = installScriptPathTxt
-    } else if (existsSync(installScriptPathTxtUpper)) {
-      installScriptPath = installScriptPathTxtUpper
+    onStatus('Installing', 100)
+    // A library folder may hold many unrelated games, only its indexed APK and OBB are installed
+    const installScriptPath = item.localApkPath ? null : findInstallScript(item.downloadPath)
+    // Per-command results are kept on the item for single-device installs only
+    const onScriptResults = reporter
+      ? undefined
+      : (results: InstallScriptCommandResult[]): void => {
+          if (this.queueManager.updateItem(item.releaseName, { installScriptResults: results })) {
+            this.debouncedEmitUpdate()
+          }
+        }
+    onScriptResults?.([])
+    // Save data kept or lost through forced reinstalls is reported on the item, for every device
+    if (!reporter) this.queueManager.updateItem(item.releaseName, { saveDataReports: [] })
+    const setSaveDataReport = (report: SaveDataReport): void => {
+      const current = (this.queueManager.findItem(item.releaseName)?.saveDataReports ?? []).filter(
+        (other) => other.deviceId !== report.deviceId || other.timestamp !== report.timestamp
+      )
+      if (
+        this.queueManager.updateItem(item.releaseName, {
+          saveDataReports: [...current, report]
+        })
+      ) {
+        this.debouncedEmitUpdate()
+      }
+    }
+    const onSaveDataReport = (report: SaveDataReport): void => {
+      setSaveDataReport(report)
+      // A copy that could not be put back is offered in the Backups view
+      if (!report.localPath) return
+      backupService.importSaveData(report).then((entry) =>
+        setSaveDataReport(
+          entry
+            ? {
+                ...report,
+                message: `${report.message}, restore them from Backups`,
+                localPath: undefined
+              }
+            : { ...report, message: `${report.message} at ${report.localPath}` }
+        )
+      )
     }
     let success = false
     try {
       if (installScriptPath) {
         console.log(`[InstallProc] Found install script: ${installScriptPath}`)
-        success = await this.executeInstallScript(item, deviceId, installScriptPath)
+        success = await this.executeInstallScript(
+          deviceId,
+          installScriptPath,
+          onStatus,
+          onSaveDataReport,
+          onScriptResults
+        )
       } else {
         console.log(
           `[InstallProc] No install script found for ${item.releaseName}. Proceeding with standard install.`
         )
-        success = await this.executeStandardInstall(item, deviceId)
+        success = await this.executeStandardInstall(item, deviceId, onStatus, onSaveDataReport)
       }
       if (success) {
         console.log(`[InstallProc] Installation completed successfully for ${item.releaseName}.`)
-        this.updateItemStatus(item.releaseName, 'Completed', 100, undefined, 100)
+        onStatus('Completed', 100)
         // TODO: Trigger game list refresh?
       } else {
         console.error(`[InstallProc] Installation failed for ${item.releaseName}.`)
         // Status already set to InstallError by specific failure points if critical
         // If not critical, ensure it's marked as error here
-        const currentItem = this.queueManager.findItem(item.releaseName)
-        if (currentItem?.status !== 'InstallError') {
-          this.updateItemStatus(
-            item.releaseName,
-            'InstallError',
-            100,
-            'Installation failed (see logs)',
-            100
-          )
+        if (!reportedError) {
+          onStatus('InstallError', 100, 'Installation failed (see logs)')
         }
       }
       return success
@@ -102,178 +158,183 @@ export class InstallationProcessor {
         error
       )
       const errorMsg = error instanceof Error ? error.message : String(error)
-      this.updateItemStatus(
-        item.releaseName,
-        'InstallError',
-        100,
-        `Unexpected install error: ${errorMsg.substring(0, 300)}`,
-        100
-      )
+      onStatus('InstallError', 100, `Unexpected install error: ${errorMsg.substring(0, 300)}`)
       return false
     }
   }
 
+  // Lists what the install script of a release would do, without touching a device
+  public async previewInstallScript(item: DownloadItem): Promise<InstallScriptPlan> {
+    const scriptPath = item.downloadPath ? findInstallScript(item.downloadPath) : null
+    if (!scriptPath) {
+      return { releaseName: item.releaseName, scriptName: null, actions: [] }
+    }
+    const content = await fs.readFile(scriptPath, 'utf-8')
+    return {
+      releaseName: item.releaseName,
+      scriptName: basename(scriptPath),
+      actions: parseInstallScript(content, dirname(scriptPath))
+    }
+  }
+
   private async executeInstallScript(
-    item: DownloadItem,
     deviceId: string,
-    scriptPath: string
+    scriptPath: string,
+    onStatus: InstallStatusReporter,
+    onSaveDataReport: (report: SaveDataReport) => void,
+    onScriptResults?: (results: InstallScriptCommandResult[]) => void
   ): Promise<boolean> {
-    let overallSuccess = true
+    let actions: InstallScriptAction[]
     try {
       const scriptContent = await fs.readFile(scriptPath, 'utf-8')
-      const commands = scriptContent
-        .split(/\r?\n/)
-        .map((cmd) => cmd.trim())
-        .filter((cmd) => cmd.length > 0 && !cmd.startsWith('#'))
-      console.log(`[InstallProc] Executing ${commands.length} commands from script...`)
-      for (const command of commands) {
-        console.log(`[InstallProc] Running: ${command}`)
-        const parts =
-          command
-            .match(/(?:[^\s"]+"([^"]*)")|[^\s"]+/g)
-            ?.map((part) => part.replace(/^"|"$/g, '')) || []
-        if (parts.length === 0 || parts[0].toLowerCase() !== 'adb') {
-          console.warn(`[InstallProc] Skipping invalid/non-adb command: ${command}`)
-          continue
-        }
-        const adbCommand = parts[1]?.toLowerCase()
-        const args = parts.slice(2)
-        let commandSuccess = false
-        let errorMessage = ''
-        try {
-          switch (adbCommand) {
-            case 'shell':
-              if (args.length > 0) {
-                const shellCmd = args.join(' ')
-                console.log(`[InstallProc]   Executing shell: ${shellCmd}`)
-                await this.adbService.runShellCommand(deviceId, shellCmd)
-                commandSuccess = true
-              } else {
-                errorMessage = 'Missing shell command argument'
-              }
-              break
-            case 'install': {
-              const apkArg = args.find((arg) => arg.toLowerCase().endsWith('.apk'))
-              if (apkArg) {
-                const apkPath = join(item.downloadPath!, apkArg)
-                if (existsSync(apkPath)) {
-                  const installArgs = args.filter((arg) => arg !== apkArg)
-                  console.log(
-                    `[InstallProc]   Installing ${apkPath} with flags: ${installArgs.join(' ')}`
-                  )
-                  // Use the simplified installPackage which handles push+install
-                  // We will now pass the installArgs to allow for flags like -r, -g
-                  // Ensure -r and -g are included for compatibility and permissions.
-                  const combinedFlags = Array.from(new Set(['-r', '-g', ...installArgs]))
-
-                  await this.adbService.installPackage(deviceId, apkPath, { flags: combinedFlags })
-                  commandSuccess = true // Assuming installPackage throws on error
-                  // if (output?.includes('Success')) {
-                  //   commandSuccess = true
-                  // } else {
-                  //   errorMessage = `Install command failed. Output: ${output || 'No output'}`
-                  // }
-                } else {
-                  errorMessage = `APK file not found: ${apkPath}`
-                }
-              } else {
-                errorMessage = 'Missing APK file argument for install command'
-              }
-              // Install failure is critical
-              if (!commandSuccess) overallSuccess = false
-              break
-            }
-            case 'push': {
-              if (args.length === 2) {
-                const localPathRelative = args[0]
-                const devicePath = args[1]
-                const localPathAbsolute = join(item.downloadPath!, localPathRelative)
-                if (existsSync(localPathAbsolute)) {
-                  console.log(`[InstallProc]   Pushing ${localPathAbsolute} to ${devicePath}`)
-                  await this.adbService.pushFileOrFolder(deviceId, localPathAbsolute, devicePath)
-                  commandSuccess = true
-                } else {
-                  errorMessage = `Local file/folder not found for push: ${localPathAbsolute}`
-                }
-              } else {
-                errorMessage = 'Invalid arguments for push command (expected 2)'
-              }
-              break
-            }
-            case 'pull': {
-              if (args.length === 1) {
-                const devicePath = args[0]
-                const localTargetPath = join(item.downloadPath!, basename(devicePath))
-                console.log(`[InstallProc]   Pulling ${devicePath} to ${localTargetPath}`)
-                await this.adbService.pullFile(deviceId, devicePath, localTargetPath)
-                commandSuccess = true
-              } else {
-                errorMessage = 'Invalid arguments for pull command (expected 1)'
-              }
-              break
-            }
-            default: {
-              console.warn(`[InstallProc] Skipping unsupported adb command: ${adbCommand}`)
-              commandSuccess = true
-              break
-            }
-          }
-        } catch (execError: unknown) {
-          errorMessage = execError instanceof Error ? execError.message : String(execError)
-          console.error(`[InstallProc] Error executing '${command}': ${errorMessage}`)
-          if (adbCommand === 'install') overallSuccess = false
-        }
-        if (!commandSuccess) {
-          console.error(`[InstallProc] Command failed: '${command}'. Reason: ${errorMessage}`)
-          if (adbCommand === 'install') overallSuccess = false
-        }
-        if (!overallSuccess) {
-          console.error(`[InstallProc] Critical command failed. Aborting script execution.`)
-          this.updateItemStatus(
-            item.releaseName,
-            'InstallError',
-            100,
-            `Script execution failed on command: ${command}. Reason: ${errorMessage.substring(0, 200)}`,
-            100
-          )
-          return false
-        }
-      }
-      console.log(`[InstallProc] Finished executing script.`)
-      return overallSuccess
+      actions = parseInstallScript(scriptContent, dirname(scriptPath))
     } catch (error: unknown) {
       console.error(
         `[InstallProc] Error reading or processing install script ${scriptPath}:`,
         error
       )
       const errorMsg = error instanceof Error ? error.message : String(error)
-      this.updateItemStatus(
-        item.releaseName,
+      onStatus(
         'InstallError',
         100,
-        `Failed to process install script: ${errorMsg.substring(0, 250)}`,
-        100
+        `Failed to process install script: ${errorMsg.substring(0, 250)}`
       )
       return false
     }
+
+    console.log(`[InstallProc] Executing ${actions.length} commands from script...`)
+    const results: InstallScriptCommandResult[] = []
+    for (let i = 0; i < actions.length; i++) {
+      const scriptAction = actions[i]
+      console.log(`[InstallProc] Running line ${scriptAction.line}: ${scriptAction.raw}`)
+      const result = await this.runScriptAction(scriptAction, deviceId, onSaveDataReport)
+      results.push(result)
+      onScriptResults?.([...results])
+      onStatus('Installing', Math.floor(((i + 1) / actions.length) * 100))
+
+      if (result.status === 'failed') {
+        console.error(
+          `[InstallProc] Command failed: '${scriptAction.raw}'. Reason: ${result.message}`
+        )
+        if (scriptAction.critical) {
+          console.error(`[InstallProc] Critical command failed. Aborting script execution.`)
+          onScriptResults?.([
+            ...results,
+            ...actions.slice(i + 1).map((skipped): InstallScriptCommandResult => ({
+              line: skipped.line,
+              raw: skipped.raw,
+              kind: skipped.kind,
+              status: 'skipped',
+              message: 'Not run, an earlier command failed'
+            }))
+          ])
+          onStatus(
+            'InstallError',
+            100,
+            `Script execution failed on command: ${scriptAction.raw}. Reason: ${(result.message ?? '').substring(0, 200)}`
+          )
+          return false
+        }
+      }
+    }
+    console.log(`[InstallProc] Finished executing script.`)
+    return true
+  }
+
+  private async runScriptAction(
+    scriptAction: InstallScriptAction,
+    deviceId: string,
+    onSaveDataReport: (report: SaveDataReport) => void
+  ): Promise<InstallScriptCommandResult> {
+    const result = (
+      status: InstallScriptCommandResult['status'],
+      message?: string
+    ): InstallScriptCommandResult => ({
+      line: scriptAction.line,
+      raw: scriptAction.raw,
+      kind: scriptAction.kind,
+      status,
+      message: message?.substring(0, 500)
+    })
+
+    try {
+      switch (scriptAction.kind) {
+        case 'install': {
+          const [apkPath, ...flags] = scriptAction.args
+          if (!existsSync(apkPath)) return result('failed', `APK file not found: ${apkPath}`)
+          // Ensure -r and -g are included for compatibility and permissions.
+          const combinedFlags = Array.from(new Set(['-r', '-g', ...flags]))
+          const installed = await this.adbService.installPackage(deviceId, apkPath, {
+            flags: combinedFlags,
+            onSaveDataReport
+          })
+          return installed ? result('success') : result('failed', 'Install command failed')
+        }
+        case 'uninstall': {
+          const [packageName, keepData] = scriptAction.args
+          const output = await this.adbService.runShellCommand(
+            deviceId,
+            `pm uninstall ${keepData ? '-k ' : ''}${packageName}`
+          )
+          if (output?.includes('Success')) return result('success')
+          // Usually the package was not installed, which is what the script wants anyway
+          return result('failed', output || 'No output from pm uninstall')
+        }
+        case 'push': {
+          const [localPath, remotePath] = scriptAction.args
+          if (!existsSync(localPath)) {
+            return result('failed', `Local file/folder not found for push: ${localPath}`)
+          }
+          const pushed = await this.adbService.pushFileOrFolder(deviceId, localPath, remotePath)
+          return pushed ? result('success') : result('failed', `Failed to push ${localPath}`)
+        }
+        case 'pull': {
+          const [remotePath, localPath] = scriptAction.args
+          const pulled = await this.adbService.pullFile(deviceId, remotePath, localPath)
+          return pulled ? result('success') : result('failed', `Failed to pull ${remotePath}`)
+        }
+        case 'grant':
+        case 'setting':
+        case 'shell': {
+          const output = await this.adbService.runShellCommand(deviceId, scriptAction.args[0])
+          if (output === null) return result('failed', 'Shell command could not be run')
+          if (/^(Error|Failure)|Exception occurred|Security exception/im.test(output)) {
+            return result('failed', output)
+          }
+          return result('success', output || undefined)
+        }
+        case 'set':
+          return result('success', scriptAction.description)
+        case 'ignored':
+          return result('skipped', 'Console command, nothing to do')
+        default:
+          console.warn(`[InstallProc] Skipping unsupported command: ${scriptAction.raw}`)
+          return result('skipped', scriptAction.description)
+      }
+    } catch (error: unknown) {
+      const errorMsg = error instanceof Error ? error.message : String(error)
+      console.error(`[InstallProc] Error executing '${scriptAction.raw}': ${errorMsg}`)
+      return result('failed', errorMsg)
+    }
   }
 
-  private async executeStandardInstall(item: DownloadItem, deviceId: string): Promise<boolean> {
+  private async executeStandardInstall(
+    item: DownloadItem,
+    deviceId: string,
+    onStatus: InstallStatusReporter,
+    onSaveDataReport: (report: SaveDataReport) => void
+  ): Promise<boolean> {
     if (!item.downloadPath || !item.packageName) {
       console.error(
         `[InstallProc Standard] Missing downloadPath or packageName for ${item.releaseName}`
       )
-      this.updateItemStatus(
-        item.releaseName,
-        'InstallError',
-        100,
-        'Missing required info for standard install',
-        100
-      )
+      onStatus('InstallError', 100, 'Missing required info for standard install')
       return false
     }
     try {
-      const files = await fs.readdir(item.downloadPath)
+      const files = item.localApkPath
+        ? [basename(item.localApkPath)]
+        : await fs.readdir(item.downloadPath)
       const apks = files.filter((f) => f.toLowerCase().endsWith('.apk'))
       const obbDirName = item.packageName
       const potentialObbPath = join(item.downloadPath, obbDirName)
@@ -291,39 +352,30 @@ export class InstallationProcessor {
       }
       if (apks.length === 0) {
         console.error(`[InstallProc Standard] No APK files found in ${item.downloadPath}`)
-        this.updateItemStatus(
-          item.releaseName,
-          'InstallError',
-          100,
-          'No APK files found for standard install',
-          100
-        )
+        onStatus('InstallError', 100, 'No APK files found for standard install')
         return false
       }
       console.log(`[InstallProc Standard] Found ${apks.length} APK(s): ${apks.join(', ')}`)
-      this.updateItemStatus(item.releaseName, 'Installing', 0)
+      onStatus('Installing', 0)
       for (const apk of apks) {
         const apkPath = join(item.downloadPath, apk)
         console.log(`[InstallProc Standard] Installing ${apkPath}...`)
         try {
           // Use the simplified installPackage, now with flags for reinstall and granting permissions
-          await this.adbService.installPackage(deviceId, apkPath, { flags: ['-r', '-g'] })
+          await this.adbService.installPackage(deviceId, apkPath, {
+            flags: ['-r', '-g'],
+            onSaveDataReport
+          })
           console.log(`[InstallProc Standard] Successfully installed ${apk}`)
         } catch (installError: unknown) {
           const errorMsg =
             installError instanceof Error ? installError.message : String(installError)
           console.error(`[InstallProc Standard] Failed to install ${apk}: ${errorMsg}`)
-          this.updateItemStatus(
-            item.releaseName,
-            'InstallError',
-            100,
-            `Failed to install ${apk}: ${errorMsg.substring(0, 250)}`,
-            100
-          )
+          onStatus('InstallError', 100, `Failed to install ${apk}: ${errorMsg.substring(0, 250)}`)
           return false
         }
       }
-      this.updateItemStatus(item.releaseName, 'Installing', obbPath ? 50 : 100)
+      onStatus('Installing', obbPath ? 50 : 100)
       if (obbPath) {
         const deviceObbBasePath = '/sdcard/Android/obb'
         const deviceObbTargetPath = `${deviceObbBasePath}/${obbDirName}`
@@ -377,7 +429,7 @@ export class InstallationProcessor {
                 Math.floor((transferredSize / totalSize) * 100),
                 100
               )
-              this.updateItemStatus(item.releaseName, 'Installing', 50 + progressPercentage / 2)
+              onStatus('Installing', 50 + progressPercentage / 2)
             }
             console.log(`[InstallProc Standard] Successfully pushed all OBB files.`)
           }
@@ -386,13 +438,7 @@ export class InstallationProcessor {
         } catch (obbError: unknown) {
           const errorMsg = obbError instanceof Error ? obbError.message : String(obbError)
           console.error(`[InstallProc Standard] Failed to push OBB folder: ${errorMsg}`)
-          this.updateItemStatus(
-            item.releaseName,
-            'InstallError',
-            100,
-            `Failed to push OBB: ${errorMsg.substring(0, 250)}`,
-            100
-          )
+          onStatus('InstallError', 100, `Failed to push OBB: ${errorMsg.substring(0, 250)}`)
           return false
         }
       }
@@ -406,13 +452,7 @@ export class InstallationProcessor {
         error
       )
       const errorMsg = error instanceof Error ? error.message : String(error)
-      this.updateItemStatus(
-        item.releaseName,
-        'InstallError',
-        100,
-        `Standard install error: ${errorMsg.substring(0, 250)}`,
-        100
-      )
+      onStatus('InstallError', 100, `Standard install error: ${errorMsg.substring(0, 250)}`)
       return false
     }
   }
@@ -2,7 +2,9 @@ import { join } from 'path'
 import { promises as fs, existsSync } from 'fs'
 import { app } from 'electron'
 import { debounce } from './utils'
-import { DownloadItem } from '@shared/types'
+import { DownloadItem, DownloadPriority } from '@shared/types'
+
+const PRIORITY_RANK: Record<DownloadPriority, number> = { high: 2, normal: 1, low: 0 }
 
 export class QueueManager {
   private queue: DownloadItem[] = []
@@ -33,6 +35,9 @@ export class QueueManager {
         })
 
         this.queue = validQueue
+        // Queues saved before positions existed keep their insertion order
+        this.queue.sort((a, b) => (a.position ?? Infinity) - (b.position ?? Infinity))
+        this.renumberPositions()
 
         // If items were removed, save the cleaned queue
         if (this.queue.length !== loadedQueue.length) {
@@ -83,12 +88,22 @@ export class QueueManager {
     return this.queue.findIndex((i) => i.releaseName === releaseName)
   }
 
-  public findNextQueuedItem(): DownloadItem | undefined {
-    return this.queue.find((item) => item.status === 'Queued')
+  // Picks the highest priority 'Queued' item, falling back to queue position within a priority.
+  // Skips items that a pipeline stage has already claimed but not yet moved out of 'Queued'
+  public findNextQueuedItem(excluded?: Set<string>): DownloadItem | undefined {
+    let next: DownloadItem | undefined
+    for (const item of this.queue) {
+      if (item.status !== 'Queued' || excluded?.has(item.releaseName)) continue
+      if (!next || this.getPriorityRank(item) > this.getPriorityRank(next)) {
+        next = item
+      }
+    }
+    return next
   }
 
   public addItem(item: DownloadItem): void {
     // Basic add, assumes checks are done beforehand if needed
+    item.position = this.queue.length
     this.queue.push(item)
     this.debouncedSaveQueue()
   }
@@ -98,6 +113,7 @@ export class QueueManager {
     const index = this.findIndex(releaseName)
     if (index !== -1) {
       this.queue.splice(index, 1)
+      this.renumberPositions()
       this.debouncedSaveQueue()
       return true
     }
@@ -110,6 +126,7 @@ export class QueueManager {
     this.queue = this.queue.filter((item) => !predicate(item))
     const removed = this.queue.length < initialLength
     if (removed) {
+      this.renumberPositions()
       this.debouncedSaveQueue()
     }
     return removed
@@ -158,6 +175,31 @@ export class QueueManager {
     return changed
   }
 
+  // Moves an item to a new index in the queue order, returns false if the item is unknown
+  public moveItem(releaseName: string, toIndex: number): boolean {
+    const fromIndex = this.findIndex(releaseName)
+    if (fromIndex === -1) return false
+
+    const targetIndex = Math.max(0, Math.min(this.queue.length - 1, Math.floor(toIndex)))
+    if (targetIndex !== fromIndex) {
+      const [item] = this.queue.splice(fromIndex, 1)
+      this.queue.splice(targetIndex, 0, item)
+      this.renumberPositions()
+      this.debouncedSaveQueue()
+    }
+    return true
+  }
+
+  private getPriorityRank(item: DownloadItem): number {
+    return PRIORITY_RANK[item.priority ?? 'normal']
+  }
+
+  private renumberPositions(): void {
+    this.queue.forEach((item, index) => {
+      item.position = index
+    })
+  }
+
   public getQueuePath(): string {
     return this.queuePath
   }
@@ -0,0 +1,360 @@
+import { join } from 'path'
+import { promises as fs, createReadStream, existsSync } from 'fs'
+import { execa } from 'execa'
+import crypto from 'crypto'
+import { QueueManager } from './queueManager'
+import dependencyService from '../dependencyService'
+import mirrorService from '../mirrorService'
+import { DownloadItem, DownloadStatus } from '@shared/types'
+
+// Type for VRP config - reuse or import
+interface VrpConfig {
+  baseUri?: string
+  password?: string
+}
+
+type HashAlgorithm = 'md5' | 'sha1'
+
+// Expected hashes keyed by path relative to the release folder
+interface ChecksumManifest {
+  algorithm: HashAlgorithm
+  hashes: Map<string, string>
+}
+
+interface VerificationController {
+  cancelled: boolean
+  process?: ReturnType<typeof execa>
+}
+
+// Sidecar files shipped next to the archive parts (md5sum/sha1sum output format)
+const SIDECAR_EXTENSIONS = ['.md5', '.sha1']
+const RCLONE_HASH_NAMES: Record<HashAlgorithm, string> = { md5: 'MD5', sha1: 'SHA-1' }
+const MAX_REPAIR_ATTEMPTS = 2
+
+export class VerificationProcessor {
+  private activeVerifications: Map<string, VerificationController> = new Map()
+  private queueManager: QueueManager
+  private vrpConfig: VrpConfig | null = null
+  private debouncedEmitUpdate: () => void
+
+  constructor(queueManager: QueueManager, debouncedEmitUpdate: () => void) {
+    this.queueManager = queueManager
+    this.debouncedEmitUpdate = debouncedEmitUpdate
+  }
+
+  public setVrpConfig(config: VrpConfig | null): void {
+    this.vrpConfig = config
+  }
+
+  private updateItemStatus(
+    releaseName: string,
+    status: DownloadStatus,
+    verifyProgress?: number,
+    error?: string
+  ): void {
+    const updates: Partial<DownloadItem> = { status, progress: 100, verifyProgress, error }
+    const updated = this.queueManager.updateItem(releaseName, updates)
+    if (updated) {
+      this.debouncedEmitUpdate()
+    }
+  }
+
+  public cancelVerification(releaseName: string): void {
+    const controller = this.activeVerifications.get(releaseName)
+    if (!controller) {
+      console.log(`[VerifyProc] No active verification found for ${releaseName} to cancel.`)
+      return
+    }
+    console.log(`[VerifyProc] Cancelling verification: ${releaseName}`)
+    controller.cancelled = true
+    controller.process?.kill('SIGTERM')
+  }
+
+  public isVerificationActive(releaseName: string): boolean {
+    return this.activeVerifications.has(releaseName)
+  }
+
+  // Returns true when the download matches its checksums or none are available, the item's
+  // verified flag tells the two apart
+  public async startVerification(item: DownloadItem): Promise<boolean> {
+    console.log(`[VerifyProc] Starting verification: ${item.releaseName}`)
+    const controller: VerificationController = { cancelled: false }
+    this.activeVerifications.set(item.releaseName, controller)
+    this.updateItemStatus(item.releaseName, 'Verifying', 0)
+
+    try {
+      const manifest =
+        (await this.fetchRemoteManifest(item, controller)) ??
+        (await this.readSidecarManifest(item.downloadPath))
+      if (controller.cancelled) return false
+
+      // Public endpoint downloads come without hashes unless the release ships sidecar files
+      if (!manifest || manifest.hashes.size === 0) {
+        console.log(
+          `[VerifyProc] No checksums available for ${item.releaseName}, continuing unverified.`
+        )
+        this.queueManager.updateItem(item.releaseName, { verified: false })
+        this.updateItemStatus(item.releaseName, 'Verifying', 100)
+        return true
+      }
+
+      let corruptFiles = await this.findCorruptFiles(
+        item,
+        manifest,
+        [...manifest.hashes.keys()],
+        controller
+      )
+
+      for (
+        let attempt = 1;
+        attempt <= MAX_REPAIR_ATTEMPTS && corruptFiles.length > 0 && !controller.cancelled;
+        attempt++
+      ) {
+        console.warn(
+          `[VerifyProc] ${corruptFiles.length} corrupt part(s) in ${item.releaseName} (attempt ${attempt}/${MAX_REPAIR_ATTEMPTS}): ${corruptFiles.join(', ')}`
+        )
+        for (const file of corruptFiles) {
+          if (controller.cancelled) break
+          await this.redownloadFile(item, file, controller)
+        }
+        if (controller.cancelled) break
+        corruptFiles = await this.findCorruptFiles(item, manifest, corruptFiles, controller)
+      }
+
+      if (controller.cancelled) {
+        console.log(`[VerifyProc] Verification cancelled for ${item.releaseName}.`)
+        return false
+      }
+
+      if (corruptFiles.length > 0) {
+        const errorMsg = `Checksum mismatch after re-download: ${corruptFiles.join(', ')}`
+        console.error(`[VerifyProc] ${errorMsg} for ${item.releaseName}`)
+        this.updateItemStatus(item.releaseName, 'Error', undefined, errorMsg.substring(0, 500))
+        return false
+      }
+
+      console.log(
+        `[VerifyProc] All ${manifest.hashes.size} file(s) verified (${manifest.algorithm}) for ${item.releaseName}.`
+      )
+      this.queueManager.updateItem(item.releaseName, { verified: true })
+      this.updateItemStatus(item.releaseName, 'Verifying', 100)
+      return true
+    } catch (error: unknown) {
+      if (controller.cancelled) return false
+      const errorMsg = `Verification failed: ${error instanceof Error ? error.message : String(error)}`
+      console.error(`[VerifyProc] Error verifying ${item.releaseName}:`, error)
+      this.updateItemStatus(item.releaseName, 'Error', undefined, errorMsg.substring(0, 500))
+      return false
+    } finally {
+      this.activeVerifications.delete(item.releaseName)
+    }
+  }
+
+  // Hashes the given files and returns the ones that are missing or do not match the manifest
+  private async findCorruptFiles(
+    item: DownloadItem,
+    manifest: ChecksumManifest,
+    files: string[],
+    controller: VerificationController
+  ): Promise<string[]> {
+    const sizes = await Promise.all(
+      files.map(async (file) => {
+        try {
+          return (await fs.stat(join(item.downloadPath, file))).size
+        } catch {
+          return 0
+        }
+      })
+    )
+    const totalBytes = sizes.reduce((sum, size) => sum + size, 0)
+    let hashedBytes = 0
+    let lastProgress = -1
+    const corrupt: string[] = []
+
+    for (const file of files) {
+      if (controller.cancelled) break
+      const filePath = join(item.downloadPath, file)
+      if (!existsSync(filePath)) {
+        corrupt.push(file)
+        continue
+      }
+
+      const actual = await this.hashFile(filePath, manifest.algorithm, controller, (bytes) => {
+        hashedBytes += bytes
+        const progress = totalBytes > 0 ? Math.floor((hashedBytes / totalBytes) * 100) : 100
+        if (progress !== lastProgress) {
+          lastProgress = progress
+          this.updateItemStatus(item.releaseName, 'Verifying', progress)
+        }
+      })
+      if (actual !== null && actual !== manifest.hashes.get(file)) {
+        corrupt.push(file)
+      }
+    }
+    return corrupt
+  }
+
+  private hashFile(
+    filePath: string,
+    algorithm: HashAlgorithm,
+    controller: VerificationController,
+    onProgress: (bytes: number) => void
+  ): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash(algorithm)
+      const stream = createReadStream(filePath)
+      stream.on('data', (chunk) => {
+        if (controller.cancelled) {
+          stream.destroy()
+          resolve(null)
+          return
+        }
+        hash.update(chunk)
+        onProgress(chunk.length)
+      })
+      stream.on('end', () => resolve(hash.digest('hex')))
+      stream.on('error', reject)
+    })
+  }
+
+  // Asks the active mirror for hashes. Backends without native hashes (ftp/sftp) rely on the
+  // md5sum_command/sha1sum_command entries of the mirror config.
+  private async fetchRemoteManifest(
+    item: DownloadItem,
+    controller: VerificationController
+  ): Promise<ChecksumManifest | null> {
+    const activeMirror = await mirrorService.getActiveMirror()
+    const configFilePath = mirrorService.getActiveMirrorConfigPath()
+    const remoteName = mirrorService.getActiveMirrorRemoteName()
+    const rclonePath = dependencyService.getRclonePath()
+    if (!activeMirror || !configFilePath || !remoteName || !rclonePath) return null
+
+    const source = `${remoteName}:/Quest Games/${item.releaseName}`
+    for (const algorithm of ['md5', 'sha1'] as HashAlgorithm[]) {
+      if (controller.cancelled) return null
+      try {
+        const hashProcess = execa(
+          rclonePath,
+          ['hashsum', RCLONE_HASH_NAMES[algorithm], source, '--config', configFilePath],
+          { timeout: 120000, windowsHide: true }
+        )
+        controller.process = hashProcess
+        const { stdout } = await hashProcess
+        const manifest = this.parseChecksumList(stdout)
+        // rclone prints an empty hash for files the backend cannot hash
+        if (manifest?.algorithm === algorithm) {
+          console.log(
+            `[VerifyProc] Fetched ${manifest.hashes.size} ${algorithm} hash(es) from mirror ${activeMirror.name}`
+          )
+          return manifest
+        }
+      } catch (error: unknown) {
+        console.warn(
+          `[VerifyProc] rclone hashsum ${algorithm} failed for ${item.releaseName}:`,
+          error instanceof Error ? error.message : error
+        )
+      } finally {
+        controller.process = undefined
+      }
+    }
+    return null
+  }
+
+  private async readSidecarManifest(downloadPath: string): Promise<ChecksumManifest | null> {
+    let files: string[]
+    try {
+      files = await fs.readdir(downloadPath)
+    } catch {
+      return null
+    }
+
+    for (const file of files) {
+      if (!SIDECAR_EXTENSIONS.some((ext) => file.toLowerCase().endsWith(ext))) continue
+      try {
+        const content = await fs.readFile(join(downloadPath, file), 'utf-8')
+        const manifest = this.parseChecksumList(content)
+        if (manifest) {
+          console.log(`[VerifyProc] Using sidecar checksum file ${file} (${manifest.algorithm})`)
+          return manifest
+        }
+      } catch (error) {
+        console.warn(`[VerifyProc] Could not read sidecar checksum file ${file}:`, error)
+      }
+    }
+    return null
+  }
+
+  // Parses "<hash>  <file>" lines as written by md5sum, sha1sum and rclone hashsum. The hash
+  // length tells MD5 from SHA-1, the first hash decides and lines of the other kind are skipped.
+  private parseChecksumList(content: string): ChecksumManifest | null {
+    let algorithm: HashAlgorithm | null = null
+    const hashes = new Map<string, string>()
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(/^([0-9a-fA-F]{32}|[0-9a-fA-F]{40})\s+\*?(.+)$/)
+      if (!match) continue
+      const lineAlgorithm: HashAlgorithm = match[1].length === 32 ? 'md5' : 'sha1'
+      algorithm ??= lineAlgorithm
+      if (lineAlgorithm !== algorithm) continue
+      hashes.set(match[2].trim().replace(/\\/g, '/'), match[1].toLowerCase())
+    }
+    return algorithm && hashes.size > 0 ? { algorithm, hashes } : null
+  }
+
+  private async redownloadFile(
+    item: DownloadItem,
+    file: string,
+    controller: VerificationController
+  ): Promise<void> {
+    const rclonePath = dependencyService.getRclonePath()
+    if (!rclonePath) {
+      throw new Error('Rclone dependency not found')
+    }
+
+    const configFilePath = mirrorService.getActiveMirrorConfigPath()
+    const remoteName = mirrorService.getActiveMirrorRemoteName()
+    let args: string[]
+    if (configFilePath && remoteName) {
+      args = [
+        'copyto',
+        `${remoteName}:/Quest Games/${item.releaseName}/${file}`,
+        join(item.downloadPath, file),
+        '--config',
+        configFilePath,
+        '--no-check-certificate'
+      ]
+    } else {
+      if (!this.vrpConfig?.baseUri) {
+        throw new Error('Missing VRP configuration')
+      }
+      const gameNameHash = crypto
+        .createHash('md5')
+        .update(item.releaseName + '\n')
+        .digest('hex')
+      const nullConfigPath = process.platform === 'win32' ? 'NUL' : '/dev/null'
+      args = [
+        'copyto',
+        `:http:/${gameNameHash}/${file}`,
+        join(item.downloadPath, file),
+        '--config',
+        nullConfigPath,
+        '--http-url',
+        this.vrpConfig.baseUri,
+        '--no-check-certificate'
+      ]
+    }
+
+    console.log(`[VerifyProc] Re-downloading ${file} for ${item.releaseName}`)
+    await fs.rm(join(item.downloadPath, file), { force: true })
+    const copyProcess = execa(rclonePath, args, { windowsHide: true })
+    controller.process = copyProcess
+    try {
+      await copyProcess
+    } catch (error: unknown) {
+      if (controller.cancelled) return
+      // A failed re-download shows up as a missing part on the next check
+      console.error(`[VerifyProc] Failed to re-download ${file} for ${item.releaseName}:`, error)
+    } finally {
+      controller.process = undefined
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { BrowserWindow } from 'electron'
 import { promises as fs, existsSync } from 'fs'
+import { dirname } from 'path'
 import adbService from './adbService'
 import { EventEmitter } from 'events'
 import { debounce } from './download/utils'
@@ -7,22 +8,62 @@ import { QueueManager } from './download/queueManager'
 import { DownloadProcessor } from './download/downloadProcessor'
 import { ExtractionProcessor } from './download/extractionProcessor'
 import { InstallationProcessor } from './download/installationProcessor'
-import { DownloadAPI, GameInfo, DownloadItem, DownloadStatus } from '@shared/types'
+import { VerificationProcessor } from './download/verificationProcessor'
+import {
+  DownloadAPI,
+  GameInfo,
+  DownloadItem,
+  DownloadStatus,
+  DownloadPriority,
+  DeviceInstallState,
+  InstallScriptPlan
+} from '@shared/types'
 import settingsService from './settingsService'
 import { typedWebContentsSend } from '@shared/ipc-utils'
+import { isDownloadPausedBySchedule } from '@shared/bandwidth-schedule'
+
+const SCHEDULE_CHECK_INTERVAL_MS = 30 * 1000
 
 interface VrpConfig {
   baseUri?: string
   password?: string
 }
 
+// An item waiting for a free slot in a later pipeline stage, with the device it was queued for
+interface PendingStage {
+  releaseName: string
+  deviceId: string | null
+}
+
+// Installs on several devices queue one entry per device, done is called once that device is
+// finished or the entry is dropped
+interface PendingInstallation extends PendingStage {
+  done?: () => void
+}
+
+// What queueForDevice did with a release, named like the lists of the results it feeds
+export type DeviceQueueOutcome = 'queued' | 'installing' | 'alreadyQueued' | 'failed'
+
 class DownloadService extends EventEmitter implements DownloadAPI {
   private downloadsPath: string
   private isInitialized = false
-  private isProcessing = false
+  private activeDownloads = new Set<string>()
+  private activeVerifications = new Set<string>()
+  private activeExtractions = new Set<string>()
+  // Release names, or 'releaseName@deviceId' for the installs of a multi-device request
+  private activeInstallations = new Set<string>()
+  private pendingVerifications: PendingStage[] = []
+  private pendingExtractions: PendingStage[] = []
+  private pendingInstallations: PendingInstallation[] = []
+  // Downloads stopped by a paused schedule window, returned to 'Queued' once they wind down
+  private schedulePausedDownloads = new Set<string>()
+  // Paused downloads that were resumed, they continue from the files on disk once a slot frees up
+  private resumedDownloads = new Set<string>()
+  private scheduleTimer: NodeJS.Timeout | null = null
   private debouncedEmitUpdate: () => void
   private queueManager: QueueManager
   private downloadProcessor: DownloadProcessor
+  private verificationProcessor: VerificationProcessor
   private extractionProcessor: ExtractionProcessor
   private installationProcessor: InstallationProcessor
   private adbService: typeof adbService
@@ -36,11 +77,24 @@ class DownloadService extends EventEmitter implements DownloadAPI {
       this.setDownloadPath(path)
     })
     this.downloadsPath = downloadPath
+    settingsService.on('pipeline-concurrency-changed', () => {
+      this.processQueue()
+    })
+    settingsService.on('bandwidth-schedule-changed', () => {
+      this.applyBandwidthSchedule()
+    })
+    settingsService.on('download-speed-limit-changed', () => {
+      this.downloadProcessor.applySpeedLimit()
+    })
 
     this.queueManager = new QueueManager()
     this.adbService = adbService
     this.debouncedEmitUpdate = debounce(this.emitUpdate.bind(this), 100)
     this.downloadProcessor = new DownloadProcessor(this.queueManager, this.debouncedEmitUpdate)
+    this.verificationProcessor = new VerificationProcessor(
+      this.queueManager,
+      this.debouncedEmitUpdate
+    )
     this.extractionProcessor = new ExtractionProcessor(this.queueManager, this.debouncedEmitUpdate)
     this.installationProcessor = new InstallationProcessor(
       this.queueManager,
@@ -79,12 +133,11 @@ class DownloadService extends EventEmitter implements DownloadAPI {
     return this.appSelectedDevice
   }
 
-  async initialize(vrpConfig: VrpConfig): Promise<void> {
+  async initialize(vrpConfig: VrpConfig | null): Promise<void> {
     if (this.isInitialized) return
     console.log('Initializing DownloadService...')
 
-    this.downloadProcessor.setVrpConfig(vrpConfig)
-    this.extractionProcessor.setVrpConfig(vrpConfig)
+    this.setVrpConfig(vrpConfig)
 
     await fs.mkdir(this.downloadsPath, { recursive: true })
     await this.queueManager.loadQueue()
@@ -92,33 +145,47 @@ class DownloadService extends EventEmitter implements DownloadAPI {
     const changed = this.queueManager.updateAllItems(
       (item) =>
         item.status === 'Downloading' ||
+        item.status === 'Verifying' ||
         item.status === 'Extracting' ||
         item.status === 'Installing',
       {
         status: 'Queued',
         pid: undefined,
         progress: 0,
-        extractProgress: undefined
+        extractProgress: undefined,
+        deviceInstalls: undefined
       }
     )
 
     if (changed) {
       console.log(
-        'Reset status for items from Downloading/Extracting/Installing to Queued after restart.'
+        'Reset status for items from Downloading/Verifying/Extracting/Installing to Queued after restart.'
       )
     }
 
     this.isInitialized = true
     console.log('DownloadService initialized.')
+    this.scheduleTimer = setInterval(
+      () => this.applyBandwidthSchedule(),
+      SCHEDULE_CHECK_INTERVAL_MS
+    )
     this.emitUpdate()
     this.processQueue()
   }
 
+  // Null while the catalogue is offline, downloads fail until a sync brings the config
+  public setVrpConfig(vrpConfig: VrpConfig | null): void {
+    this.downloadProcessor.setVrpConfig(vrpConfig)
+    this.verificationProcessor.setVrpConfig(vrpConfig)
+    this.extractionProcessor.setVrpConfig(vrpConfig)
+  }
+
   public getQueue(): Promise<DownloadItem[]> {
     return Promise.resolve(this.queueManager.getQueue())
   }
 
-  public addToQueue(game: GameInfo): Promise<boolean> {
+  // targetDeviceId pins the install to one device, otherwise the app's selected device is used
+  public addToQueue(game: GameInfo, targetDeviceId?: string): Promise<boolean> {
     if (!this.isInitialized) {
       console.error('DownloadService not initialized. Cannot add to queue.')
       return Promise.resolve(false)
@@ -144,20 +211,31 @@ class DownloadService extends EventEmitter implements DownloadAPI {
       this.queueManager.removeItem(game.releaseName)
     }
 
+    // Local library games are already on disk and go straight to installation
+    const localApkPath = game.localApkPath
     const newItem: DownloadItem = {
       gameId: game.id,
       releaseName: game.releaseName,
       packageName: game.packageName,
       gameName: game.name,
-      status: 'Queued',
-      progress: 0,
+      status: localApkPath ? 'Completed' : 'Queued',
+      progress: localApkPath ? 100 : 0,
+      extractProgress: localApkPath ? 100 : undefined,
       addedDate: Date.now(),
       thumbnailPath: game.thumbnailPath,
-      downloadPath: this.downloadsPath,
-      size: game.size
+      downloadPath: localApkPath ? dirname(localApkPath) : this.downloadsPath,
+      size: game.size,
+      targetDeviceId,
+      localApkPath
     }
     this.queueManager.addItem(newItem)
     console.log(`Added ${game.releaseName} to download queue.`)
+    if (localApkPath) {
+      this.pendingInstallations.push({
+        releaseName: game.releaseName,
+        deviceId: targetDeviceId ?? this.getTargetDeviceForInstallation()
+      })
+    }
     this.emitUpdate()
     this.processQueue()
     return Promise.resolve(true)
@@ -167,9 +245,14 @@ class DownloadService extends EventEmitter implements DownloadAPI {
     const item = this.queueManager.findItem(releaseName)
     if (!item) return
 
+    this.removePendingStages(releaseName)
+
     if (item.status === 'Downloading') {
       console.log(`[Service] Requesting cancel download for ${releaseName}`)
       this.downloadProcessor.cancelDownload(releaseName, 'Cancelled')
+    } else if (item.status === 'Verifying') {
+      console.log(`[Service] Requesting cancel verification for ${releaseName}`)
+      this.verificationProcessor.cancelVerification(releaseName)
     } else if (item.status === 'Extracting') {
       console.log(`[Service] Requesting cancel extraction for ${releaseName}`)
       this.extractionProcessor.cancelExtraction(releaseName)
@@ -191,126 +274,215 @@ class DownloadService extends EventEmitter implements DownloadAPI {
     }
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing) {
-      // Safety check: if isProcessing is true but no active downloads/extractions exist,
-      // it might be stuck due to a race condition or error. Reset it.
-      const activeItems = this.queueManager
-        .getQueue()
-        .filter(
-          (item) =>
-            this.downloadProcessor.isDownloadActive(item.releaseName) ||
-            this.extractionProcessor.isExtractionActive(item.releaseName)
-        )
+  // Fills every free pipeline slot. Each stage hands the item to the next stage's
+  // pending list when it finishes and then calls back in here.
+  private processQueue(): void {
+    if (!this.isInitialized) return
 
-      console.log(
-        `[Service ProcessQueue] isProcessing=true, checking active operations:`,
-        activeItems.map((item) => `${item.releaseName}(${item.status})`)
-      )
+    const limits = settingsService.getPipelineConcurrency()
 
-      if (activeItems.length === 0) {
-        console.warn(
-          '[Service ProcessQueue] isProcessing was stuck with no active operations, resetting it'
-        )
-        this.isProcessing = false
-      } else {
-        console.log(
-          `[Service ProcessQueue] Found ${activeItems.length} active operations, staying in processing mode`
-        )
-        return
-      }
+    while (
+      this.activeInstallations.size < limits.installations &&
+      this.pendingInstallations.length > 0
+    ) {
+      const next = this.pendingInstallations.shift()!
+      void (next.done
+        ? this.runDeviceInstallation(next)
+        : this.runInstallation(next.releaseName, next.deviceId))
     }
 
-    const nextItem = this.queueManager.findNextQueuedItem()
-    if (!nextItem) {
-      this.isProcessing = false
-      console.log('[Service ProcessQueue] No queued items found, setting isProcessing=false')
-      return
+    while (this.activeExtractions.size < limits.extractions && this.pendingExtractions.length > 0) {
+      const next = this.pendingExtractions.shift()!
+      void this.runExtraction(next.releaseName, next.deviceId)
+    }
+
+    // Hashing reads the whole archive from disk like extraction does, so it shares that limit
+    while (
+      this.activeVerifications.size < limits.extractions &&
+      this.pendingVerifications.length > 0
+    ) {
+      const next = this.pendingVerifications.shift()!
+      void this.runVerification(next.releaseName, next.deviceId)
+    }
+
+    const downloadsPaused = this.isPausedBySchedule()
+    if (downloadsPaused) {
+      console.log('[Service ProcessQueue] Downloads are paused by the bandwidth schedule')
+    }
+    while (!downloadsPaused && this.activeDownloads.size < limits.downloads) {
+      const nextItem = this.queueManager.findNextQueuedItem(this.activeDownloads)
+      if (!nextItem) break
+      const isResume = this.resumedDownloads.delete(nextItem.releaseName)
+      void this.runDownload(nextItem, () =>
+        isResume
+          ? this.downloadProcessor.resumeDownload(nextItem)
+          : this.downloadProcessor.startDownload(nextItem)
+      )
     }
 
-    this.isProcessing = true
     console.log(
-      `[Service ProcessQueue] Processing next item: ${nextItem.releaseName}, setting isProcessing=true`
+      `[Service ProcessQueue] Active - downloads: ${this.activeDownloads.size}/${limits.downloads}, verifications: ${this.activeVerifications.size}/${limits.extractions}, extractions: ${this.activeExtractions.size}/${limits.extractions}, installations: ${this.activeInstallations.size}/${limits.installations}`
     )
+  }
 
-    const targetDeviceId = this.getTargetDeviceForInstallation()
+  private async runDownload(
+    item: DownloadItem,
+    download: () => Promise<{
+      success: boolean
+      startExtraction: boolean
+      finalState?: DownloadItem
+    }>
+  ): Promise<void> {
+    const releaseName = item.releaseName
+    this.activeDownloads.add(releaseName)
+    // Remember the device at download time so a device switch mid-pipeline skips the install
+    const deviceId = item.targetDeviceId ?? this.getTargetDeviceForInstallation()
 
     try {
-      const downloadResult = await this.downloadProcessor.startDownload(nextItem)
-      if (!downloadResult.success) {
+      const downloadResult = await download()
+      if (this.schedulePausedDownloads.has(releaseName)) {
         console.log(
-          `[Service ProcessQueue] Download failed/cancelled for ${nextItem.releaseName}. Status: ${downloadResult.finalState?.status}`
+          `[Service ProcessQueue] ${releaseName} was stopped by the bandwidth schedule, re-queueing.`
         )
-        this.isProcessing = false
-        this.processQueue()
-        return
-      }
-      const itemAfterDownload = downloadResult.finalState
-      if (!itemAfterDownload) {
+        this.queueManager.updateItem(releaseName, {
+          status: 'Queued',
+          pid: undefined,
+          speed: undefined,
+          eta: undefined,
+          error: undefined
+        })
+        this.debouncedEmitUpdate()
+      } else if (!downloadResult.success) {
         console.log(
-          `[Service ProcessQueue] Download successful but no final state for ${nextItem.releaseName}.`
+          `[Service ProcessQueue] Download failed/cancelled for ${releaseName}. Status: ${downloadResult.finalState?.status}`
         )
-        this.isProcessing = false
-        this.processQueue()
-        return
+      } else if (!downloadResult.finalState) {
+        console.log(
+          `[Service ProcessQueue] Download successful but no final state for ${releaseName}.`
+        )
+      } else if (!downloadResult.startExtraction) {
+        console.log(
+          `[Service ProcessQueue] Download successful but extraction flag not set for ${releaseName}.`
+        )
+      } else {
+        console.log(
+          `[Service ProcessQueue] Download successful for ${releaseName}. Waiting for a verification slot...`
+        )
+        this.queueManager.updateItem(releaseName, { status: 'Verifying', verifyProgress: 0 })
+        this.debouncedEmitUpdate()
+        this.pendingVerifications.push({ releaseName, deviceId })
       }
-      if (!downloadResult.startExtraction) {
+    } catch (error) {
+      this.handleUnexpectedError(releaseName, error)
+    } finally {
+      this.schedulePausedDownloads.delete(releaseName)
+      this.activeDownloads.delete(releaseName)
+      this.processQueue()
+    }
+  }
+
+  private async runVerification(releaseName: string, deviceId: string | null): Promise<void> {
+    const item = this.queueManager.findItem(releaseName)
+    if (!item || item.status !== 'Verifying') {
+      console.warn(`[Service ProcessQueue] ${releaseName} left the queue before verification.`)
+      this.processQueue()
+      return
+    }
+
+    this.activeVerifications.add(releaseName)
+    try {
+      console.log(`[Service ProcessQueue] Verifying checksums for ${releaseName}...`)
+      const verified = await this.verificationProcessor.startVerification(item)
+      if (!verified) {
         console.log(
-          `[Service ProcessQueue] Download successful but extraction flag not set for ${nextItem.releaseName}.`
+          `[Service ProcessQueue] Verification failed or was cancelled for ${releaseName}.`
         )
-        this.isProcessing = false
-        this.processQueue()
         return
       }
-
       console.log(
-        `[Service ProcessQueue] Download successful for ${itemAfterDownload.releaseName}. Starting extraction...`
+        `[Service ProcessQueue] Verification done for ${releaseName}. Waiting for an extraction slot...`
       )
-      const extractionSuccess = await this.extractionProcessor.startExtraction(itemAfterDownload)
+      this.pendingExtractions.push({ releaseName, deviceId })
+    } catch (error) {
+      this.handleUnexpectedError(releaseName, error)
+    } finally {
+      this.activeVerifications.delete(releaseName)
+      this.processQueue()
+    }
+  }
+
+  private async runExtraction(releaseName: string, deviceId: string | null): Promise<void> {
+    const item = this.queueManager.findItem(releaseName)
+    if (!item) {
+      console.warn(`[Service ProcessQueue] ${releaseName} left the queue before extraction.`)
+      this.processQueue()
+      return
+    }
+
+    this.activeExtractions.add(releaseName)
+    try {
+      console.log(`[Service ProcessQueue] Starting extraction for ${releaseName}...`)
+      const extractionSuccess = await this.extractionProcessor.startExtraction(item)
       if (!extractionSuccess) {
-        console.log(
-          `[Service ProcessQueue] Extraction failed or was cancelled for ${itemAfterDownload.releaseName}.`
-        )
-        this.isProcessing = false
-        this.processQueue()
+        console.log(`[Service ProcessQueue] Extraction failed or was cancelled for ${releaseName}.`)
         return
       }
-      const itemAfterExtraction = this.queueManager.findItem(itemAfterDownload.releaseName)
+      const itemAfterExtraction = this.queueManager.findItem(releaseName)
       if (!itemAfterExtraction || itemAfterExtraction.status !== 'Completed') {
         console.warn(
-          `[Service ProcessQueue] Extraction reported success for ${itemAfterDownload.releaseName}, but item status is now ${itemAfterExtraction?.status}. Skipping installation.`
+          `[Service ProcessQueue] Extraction reported success for ${releaseName}, but item status is now ${itemAfterExtraction?.status}. Skipping installation.`
         )
-        this.isProcessing = false
-        this.processQueue()
         return
       }
+      this.pendingInstallations.push({ releaseName, deviceId })
+    } catch (error) {
+      this.handleUnexpectedError(releaseName, error)
+    } finally {
+      this.activeExtractions.delete(releaseName)
+      this.processQueue()
+    }
+  }
 
-      // Re-check connection state before installation (device might have disconnected during extraction)
-      const finalTargetDeviceId = this.getTargetDeviceForInstallation()
-      if (!finalTargetDeviceId) {
-        console.warn(
-          `[Service ProcessQueue] Extraction successful for ${itemAfterExtraction.releaseName}, but app is no longer connected to a device. Skipping installation.`
-        )
-        // Mark as Completed (download/extract), installation skipped.
-        this.isProcessing = false
-        this.processQueue()
-        return
-      }
+  private async runInstallation(releaseName: string, deviceId: string | null): Promise<void> {
+    const item = this.queueManager.findItem(releaseName)
+    if (!item || item.status !== 'Completed') {
+      console.warn(
+        `[Service ProcessQueue] ${releaseName} is no longer ready for installation (status: ${item?.status}).`
+      )
+      this.processQueue()
+      return
+    }
 
-      if (targetDeviceId && targetDeviceId !== finalTargetDeviceId) {
-        console.warn(
-          `[Service ProcessQueue] Target device changed during processing. Was: ${targetDeviceId}, Now: ${finalTargetDeviceId}. Skipping installation.`
-        )
-        this.isProcessing = false
-        this.processQueue()
-        return
-      }
+    // Items pinned to a device install there whatever the app is connected to
+    if (item.targetDeviceId) {
+      return this.runPinnedInstallation(item, item.targetDeviceId)
+    }
+
+    // Re-check connection state before installation (device might have disconnected during extraction)
+    const finalTargetDeviceId = this.getTargetDeviceForInstallation()
+    if (!finalTargetDeviceId) {
+      console.warn(
+        `[Service ProcessQueue] Extraction successful for ${releaseName}, but app is no longer connected to a device. Skipping installation.`
+      )
+      this.processQueue()
+      return
+    }
+
+    if (deviceId && deviceId !== finalTargetDeviceId) {
+      console.warn(
+        `[Service ProcessQueue] Target device changed during processing. Was: ${deviceId}, Now: ${finalTargetDeviceId}. Skipping installation.`
+      )
+      this.processQueue()
+      return
+    }
 
+    this.activeInstallations.add(releaseName)
+    try {
       console.log(
-        `[Service ProcessQueue] Extraction successful for ${itemAfterExtraction.releaseName}. Starting installation on ${finalTargetDeviceId}...`
+        `[Service ProcessQueue] Starting installation of ${releaseName} on ${finalTargetDeviceId}...`
       )
       const installationSuccess = await this.installationProcessor.startInstallation(
-        itemAfterExtraction,
+        item,
         finalTargetDeviceId
       )
       if (installationSuccess) {
@@ -318,33 +490,166 @@ class DownloadService extends EventEmitter implements DownloadAPI {
         this.emit('installation:success', finalTargetDeviceId)
       } else {
         // Error is already logged by the installation processor
-        console.error(
-          `[Service ProcessQueue] Installation failed for ${itemAfterExtraction.releaseName}.`
+        console.error(`[Service ProcessQueue] Installation failed for ${releaseName}.`)
+      }
+    } catch (error) {
+      this.handleUnexpectedError(releaseName, error)
+    } finally {
+      this.activeInstallations.delete(releaseName)
+      this.processQueue()
+    }
+  }
+
+  private async runPinnedInstallation(item: DownloadItem, deviceId: string): Promise<void> {
+    const releaseName = item.releaseName
+    this.activeInstallations.add(releaseName)
+    try {
+      const devices = await this.adbService.listDevices()
+      if (!devices.some((d) => d.id === deviceId && d.type === 'device')) {
+        console.warn(
+          `[Service ProcessQueue] Target device ${deviceId} for ${releaseName} is not connected. Skipping installation.`
         )
-      } // No need for specific success log here, handled by processor
+        return
+      }
+      console.log(
+        `[Service ProcessQueue] Starting installation of ${releaseName} on ${deviceId}...`
+      )
+      const installationSuccess = await this.installationProcessor.startInstallation(item, deviceId)
+      if (installationSuccess) {
+        this.emit('installation:success', deviceId)
+      } else {
+        console.error(`[Service ProcessQueue] Installation failed for ${releaseName}.`)
+      }
+    } catch (error) {
+      this.handleUnexpectedError(releaseName, error)
+    } finally {
+      this.activeInstallations.delete(releaseName)
+      this.processQueue()
+    }
+  }
 
-      this.isProcessing = false
+  // One device of an installToDevices request, it reports into item.deviceInstalls
+  private async runDeviceInstallation(install: PendingInstallation): Promise<void> {
+    const { releaseName, deviceId, done } = install
+    const item = this.queueManager.findItem(releaseName)
+    if (!item || !deviceId) {
+      done?.()
       this.processQueue()
+      return
+    }
+
+    const key = `${releaseName}@${deviceId}`
+    this.activeInstallations.add(key)
+    try {
+      const success = await this.installationProcessor.startInstallation(
+        item,
+        deviceId,
+        (status, progress, error) =>
+          this.updateDeviceInstall(releaseName, deviceId, {
+            status: status === 'Completed' || status === 'InstallError' ? status : 'Installing',
+            progress,
+            error
+          })
+      )
+      if (success) {
+        this.emit('installation:success', deviceId)
+      }
     } catch (error) {
       console.error(
-        `[Service ProcessQueue] UNEXPECTED error in main processing loop for ${nextItem.releaseName}:`,
+        `[Service installToDevices] Error installing ${releaseName} on ${deviceId}:`,
         error
       )
-      const currentItem = this.queueManager.findItem(nextItem.releaseName)
-      this.updateItemStatus(
-        nextItem.releaseName,
-        'Error',
-        currentItem?.progress ?? 0,
-        'Unexpected processing error',
-        undefined,
-        undefined,
-        currentItem?.extractProgress
-      )
-      this.isProcessing = false
+      this.updateDeviceInstall(releaseName, deviceId, {
+        status: 'InstallError',
+        error:
+          `Failed to start installation: ${error instanceof Error ? error.message : String(error)}`.substring(
+            0,
+            200
+          )
+      })
+    } finally {
+      this.activeInstallations.delete(key)
+      done?.()
       this.processQueue()
     }
   }
 
+  // Running, or waiting for a slot as part of an installToDevices request
+  private isInstalling(releaseName: string): boolean {
+    return (
+      [...this.activeInstallations].some(
+        (key) => key === releaseName || key.startsWith(`${releaseName}@`)
+      ) || this.pendingInstallations.some((p) => p.releaseName === releaseName && p.done)
+    )
+  }
+
+  private isPausedBySchedule(): boolean {
+    return isDownloadPausedBySchedule(settingsService.getBandwidthSchedule(), new Date())
+  }
+
+  public stopBandwidthSchedule(): void {
+    if (this.scheduleTimer) {
+      clearInterval(this.scheduleTimer)
+      this.scheduleTimer = null
+    }
+  }
+
+  // Stops running downloads when a paused window starts and refills the slots once it ends.
+  // Running downloads also switch to the speed limit of the window.
+  private applyBandwidthSchedule(): void {
+    if (!this.isInitialized) return
+
+    this.downloadProcessor.applySpeedLimit()
+
+    if (!this.isPausedBySchedule()) {
+      this.processQueue()
+      return
+    }
+
+    for (const releaseName of this.activeDownloads) {
+      const item = this.queueManager.findItem(releaseName)
+      if (item?.status !== 'Downloading' || this.schedulePausedDownloads.has(releaseName)) {
+        continue
+      }
+      console.log(
+        `[Service Schedule] Paused window started, stopping ${releaseName} until the next window.`
+      )
+      this.schedulePausedDownloads.add(releaseName)
+      this.downloadProcessor.pauseDownload(releaseName)
+    }
+  }
+
+  private handleUnexpectedError(releaseName: string, error: unknown): void {
+    console.error(
+      `[Service ProcessQueue] UNEXPECTED error in processing pipeline for ${releaseName}:`,
+      error
+    )
+    const currentItem = this.queueManager.findItem(releaseName)
+    this.updateItemStatus(
+      releaseName,
+      'Error',
+      currentItem?.progress ?? 0,
+      'Unexpected processing error',
+      undefined,
+      undefined,
+      currentItem?.extractProgress
+    )
+  }
+
+  // Drops an item from the waiting lists of the later pipeline stages
+  private removePendingStages(releaseName: string): void {
+    this.resumedDownloads.delete(releaseName)
+    this.pendingVerifications = this.pendingVerifications.filter(
+      (p) => p.releaseName !== releaseName
+    )
+    this.pendingExtractions = this.pendingExtractions.filter((p) => p.releaseName !== releaseName)
+    this.pendingInstallations = this.pendingInstallations.filter((p) => {
+      if (p.releaseName !== releaseName) return true
+      p.done?.()
+      return false
+    })
+  }
+
   private updateItemStatus(
     releaseName: string,
     status: DownloadStatus,
@@ -399,35 +704,23 @@ class DownloadService extends EventEmitter implements DownloadAPI {
     }
 
     console.log(
-      `[Service cancelUserRequest] User requesting cancel for ${releaseName}, status: ${item.status}, isProcessing: ${this.isProcessing}`
+      `[Service cancelUserRequest] User requesting cancel for ${releaseName}, status: ${item.status}`
     )
 
     if (item.status === 'Downloading' || item.status === 'Queued') {
+      this.removePendingStages(releaseName)
       this.downloadProcessor.cancelDownload(releaseName, 'Cancelled')
-
-      // Only reset isProcessing if this was the only active operation
-      if (this.isProcessing) {
-        const allItems = this.queueManager.getQueue()
-        const otherActiveOperations = allItems.filter(
-          (queueItem) =>
-            queueItem.releaseName !== releaseName &&
-            (this.downloadProcessor.isDownloadActive(queueItem.releaseName) ||
-              this.extractionProcessor.isExtractionActive(queueItem.releaseName))
-        )
-
-        if (otherActiveOperations.length === 0) {
-          console.log(
-            `[Service cancelUserRequest] Resetting isProcessing flag - no other active operations after cancelling ${releaseName}`
-          )
-          this.isProcessing = false
-          // Continue processing the queue for other items
-          this.processQueue()
-        } else {
-          console.log(
-            `[Service cancelUserRequest] Not resetting isProcessing flag - ${otherActiveOperations.length} other operations are still active`
-          )
-        }
-      }
+      this.processQueue()
+    } else if (item.status === 'Verifying') {
+      this.removePendingStages(releaseName)
+      this.verificationProcessor.cancelVerification(releaseName)
+      const updated = this.queueManager.updateItem(releaseName, {
+        status: 'Cancelled',
+        progress: 0,
+        verifyProgress: undefined,
+        error: undefined
+      })
+      if (updated) this.debouncedEmitUpdate()
     } else if (item.status === 'Extracting') {
       this.extractionProcessor.cancelExtraction(releaseName)
       const updated = this.queueManager.updateItem(releaseName, {
@@ -437,30 +730,7 @@ class DownloadService extends EventEmitter implements DownloadAPI {
         error: undefined
       })
       if (updated) this.debouncedEmitUpdate()
-
-      // Only reset isProcessing if this was the only active operation
-      if (this.isProcessing) {
-        const allItems = this.queueManager.getQueue()
-        const otherActiveOperations = allItems.filter(
-          (queueItem) =>
-            queueItem.releaseName !== releaseName &&
-            (this.downloadProcessor.isDownloadActive(queueItem.releaseName) ||
-              this.extractionProcessor.isExtractionActive(queueItem.releaseName))
-        )
-
-        if (otherActiveOperations.length === 0) {
-          console.log(
-            `[Service cancelUserRequest] Resetting isProcessing flag - no other active operations after cancelling extraction of ${releaseName}`
-          )
-          this.isProcessing = false
-          // Continue processing the queue for other items
-          this.processQueue()
-        } else {
-          console.log(
-            `[Service cancelUserRequest] Not resetting isProcessing flag - ${otherActiveOperations.length} other operations are still active`
-          )
-        }
-      }
+      this.processQueue()
     } else if (item.status === 'Installing') {
       console.warn(
         `[Service cancelUserRequest] Cancellation requested for ${releaseName} during 'Installing' state - Not supported.`
@@ -481,6 +751,26 @@ class DownloadService extends EventEmitter implements DownloadAPI {
       (item.status === 'Cancelled' || item.status === 'Error' || item.status === 'InstallError')
     ) {
       console.log(`[Service] Retrying download: ${releaseName}`)
+      this.removePendingStages(releaseName)
+
+      if (item.localApkPath) {
+        // Nothing to download for a local library game, only the installation is retried
+        const updated = this.queueManager.updateItem(releaseName, {
+          status: 'Completed',
+          progress: 100,
+          extractProgress: 100,
+          error: undefined
+        })
+        if (updated) {
+          this.pendingInstallations.push({
+            releaseName,
+            deviceId: item.targetDeviceId ?? this.getTargetDeviceForInstallation()
+          })
+          this.emitUpdate()
+          this.processQueue()
+        }
+        return Promise.resolve()
+      }
 
       if (this.downloadProcessor.isDownloadActive(releaseName)) {
         console.warn(
@@ -494,12 +784,20 @@ class DownloadService extends EventEmitter implements DownloadAPI {
         )
         this.extractionProcessor.cancelExtraction(releaseName)
       }
+      if (this.verificationProcessor.isVerificationActive(releaseName)) {
+        console.warn(
+          `[Service Retry] Retrying item ${releaseName} with active verification - cancelling first.`
+        )
+        this.verificationProcessor.cancelVerification(releaseName)
+      }
 
       const updated = this.queueManager.updateItem(releaseName, {
         status: 'Queued',
         downloadPath: this.downloadsPath,
         progress: 0,
         extractProgress: undefined,
+        verifyProgress: undefined,
+        verified: undefined,
         error: undefined,
         pid: undefined,
         speed: undefined,
@@ -526,11 +824,38 @@ class DownloadService extends EventEmitter implements DownloadAPI {
 
   public resumeDownload(releaseName: string): void {
     const item = this.queueManager.findItem(releaseName)
-    if (item) {
-      this.downloadProcessor.resumeDownload(item)
+    if (item?.status === 'Paused' && !this.activeDownloads.has(releaseName)) {
+      // Resumed downloads wait for a free slot like any other queued item
+      console.log(`[Service] Re-queueing paused download: ${releaseName}`)
+      this.resumedDownloads.add(releaseName)
+      this.queueManager.updateItem(releaseName, { status: 'Queued', pid: undefined })
+      this.emitUpdate()
+      this.processQueue()
     }
   }
 
+  public moveItem(releaseName: string, toIndex: number): Promise<boolean> {
+    const moved = this.queueManager.moveItem(releaseName, toIndex)
+    if (!moved) {
+      console.warn(`[Service moveItem] Cannot move ${releaseName} - not found.`)
+      return Promise.resolve(false)
+    }
+    console.log(`[Service] Moved ${releaseName} to queue position ${toIndex}`)
+    this.emitUpdate()
+    return Promise.resolve(true)
+  }
+
+  public setPriority(releaseName: string, priority: DownloadPriority): Promise<boolean> {
+    const updated = this.queueManager.updateItem(releaseName, { priority })
+    if (!updated) {
+      console.warn(`[Service setPriority] Cannot set priority for ${releaseName} - not found.`)
+      return Promise.resolve(false)
+    }
+    console.log(`[Service] Set priority of ${releaseName} to ${priority}`)
+    this.emitUpdate()
+    return Promise.resolve(true)
+  }
+
   public async deleteDownloadedFiles(releaseName: string): Promise<boolean> {
     const item = this.queueManager.findItem(releaseName)
     if (!item) {
@@ -540,6 +865,14 @@ class DownloadService extends EventEmitter implements DownloadAPI {
 
     const downloadPath = item.downloadPath
 
+    // The folder of a local library game belongs to the user, only the item goes
+    if (item.localApkPath) {
+      console.log(`Keeping local library files of ${releaseName}, removing item.`)
+      const removed = this.queueManager.removeItem(releaseName)
+      if (removed) this.emitUpdate()
+      return Promise.resolve(true)
+    }
+
     if (!downloadPath) {
       console.log(`No download path for ${releaseName}, removing item.`)
       const removed = this.queueManager.removeItem(releaseName)
@@ -591,16 +924,11 @@ class DownloadService extends EventEmitter implements DownloadAPI {
       throw new Error(`Item ${releaseName} is not in 'Completed' state.`)
     }
 
-    if (this.isProcessing) {
+    if (this.isInstalling(releaseName)) {
       console.warn(
-        `[Service installFromCompleted] Queue is already processing. Installation for ${releaseName} will be handled if it becomes the next item.`
+        `[Service installFromCompleted] Installation for ${releaseName} is already in progress.`
       )
-      // Optionally, we could queue this specific action, but for now, let the main loop handle it
-      // Or force a status change back to Queued? Seems counter-intuitive.
-      // Let's just rely on the check within startInstallation to set status to Installing
-      // and proceed if not already processing.
-      // throw new Error('Queue is busy') // Maybe throw error?
-      return // Don't throw, just log and return. Main loop might pick it up later?
+      return
     }
 
     // Check if the app is connected to the target device
@@ -643,6 +971,9 @@ class DownloadService extends EventEmitter implements DownloadAPI {
 
     // Directly trigger the installation processor
     // The installationProcessor will handle setting the status to 'Installing'
+    this.removePendingStages(releaseName)
+    this.activeInstallations.add(releaseName)
+    this.queueManager.updateItem(releaseName, { deviceInstalls: undefined })
     try {
       const success = await this.installationProcessor.startInstallation(item, deviceId)
       // Log based on success
@@ -679,6 +1010,194 @@ class DownloadService extends EventEmitter implements DownloadAPI {
       )
       // Re-throw or just log?
       throw error // Re-throw so the IPC handler logs it
+    } finally {
+      this.activeInstallations.delete(releaseName)
+      this.processQueue()
+    }
+  }
+
+  // Gets a release onto one device whatever state its queue item is in. Downloaded releases are
+  // installed right away, items still on their way are pinned to the device and anything else
+  // is queued for it.
+  public async queueForDevice(game: GameInfo, deviceId: string): Promise<DeviceQueueOutcome> {
+    const item = game.releaseName ? this.queueManager.findItem(game.releaseName) : undefined
+    if (!item || item.status === 'Error' || item.status === 'Cancelled') {
+      return (await this.addToQueue(game, deviceId)) ? 'queued' : 'failed'
+    }
+
+    if (item.status === 'Completed' || item.status === 'InstallError') {
+      // Installs of several releases run side by side, the result shows up in the queue
+      this.installToDevices(item.releaseName, [deviceId]).catch((error) => {
+        console.error(`[Service] Installing ${item.releaseName} on ${deviceId} failed:`, error)
+      })
+      return 'installing'
+    }
+
+    let headedHere: boolean
+    if (item.status === 'Installing' && !item.targetDeviceId) {
+      // A running install without a pin goes to the devices it was started for
+      headedHere = item.deviceInstalls
+        ? deviceId in item.deviceInstalls
+        : this.appSelectedDevice === deviceId
+    } else {
+      headedHere = !item.targetDeviceId || item.targetDeviceId === deviceId
+    }
+    if (!headedHere) {
+      console.warn(
+        `[Service] ${item.releaseName} is already on its way to another device, not queueing it for ${deviceId}.`
+      )
+      return 'failed'
+    }
+    if (!item.targetDeviceId && item.status !== 'Installing') {
+      this.queueManager.updateItem(item.releaseName, { targetDeviceId: deviceId })
+      this.emitUpdate()
+    }
+    return 'alreadyQueued'
+  }
+
+  // Installs one extracted release on several devices, each device waits for an install slot
+  // like any other install. Every device reports into item.deviceInstalls, the item itself
+  // carries the overall progress and outcome.
+  public async installToDevices(
+    releaseName: string,
+    deviceIds: string[]
+  ): Promise<DeviceInstallState[]> {
+    const targetIds = [...new Set(deviceIds)]
+    console.log(
+      `[Service] Request to install ${releaseName} on ${targetIds.length} device(s): ${targetIds.join(', ')}`
+    )
+    const item = this.queueManager.findItem(releaseName)
+
+    if (!item) {
+      console.error(`[Service installToDevices] Item not found: ${releaseName}`)
+      throw new Error(`Item not found: ${releaseName}`)
+    }
+
+    // InstallError is accepted so the devices that failed last time can be retried
+    if (item.status !== 'Completed' && item.status !== 'InstallError') {
+      console.error(
+        `[Service installToDevices] Item ${releaseName} has status ${item.status}. Cannot start installation.`
+      )
+      throw new Error(`Item ${releaseName} is not in 'Completed' state.`)
+    }
+
+    if (targetIds.length === 0) {
+      throw new Error('No devices selected.')
+    }
+
+    if (this.isInstalling(releaseName)) {
+      console.warn(
+        `[Service installToDevices] Installation for ${releaseName} is already in progress.`
+      )
+      throw new Error(`Installation for ${releaseName} is already in progress.`)
+    }
+
+    let connectedIds: Set<string>
+    try {
+      const devices = await this.adbService.listDevices()
+      connectedIds = new Set(devices.filter((d) => d.type === 'device').map((d) => d.id))
+    } catch (err) {
+      console.error('[Service installToDevices] Error listing devices:', err)
+      throw new Error('Failed to verify target devices.')
+    }
+
+    const deviceInstalls: Record<string, DeviceInstallState> = {}
+    for (const deviceId of targetIds) {
+      deviceInstalls[deviceId] = connectedIds.has(deviceId)
+        ? { deviceId, status: 'Pending', progress: 0 }
+        : {
+            deviceId,
+            status: 'InstallError',
+            progress: 0,
+            error: 'Device not connected or not authorized'
+          }
+    }
+
+    this.removePendingStages(releaseName)
+    this.updateItemStatus(releaseName, 'Installing', 0, undefined, undefined, undefined, 100)
+    this.queueManager.updateItem(releaseName, { deviceInstalls, saveDataReports: [] })
+    this.emitUpdate()
+
+    await Promise.all(
+      targetIds
+        .filter((deviceId) => connectedIds.has(deviceId))
+        .map(
+          (deviceId) =>
+            new Promise<void>((resolve) => {
+              this.pendingInstallations.push({ releaseName, deviceId, done: resolve })
+              this.processQueue()
+            })
+        )
+    )
+
+    const results = Object.values(
+      this.queueManager.findItem(releaseName)?.deviceInstalls ?? deviceInstalls
+    )
+    const failed = results.filter((result) => result.status !== 'Completed')
+    if (failed.length === 0) {
+      console.log(
+        `[Service installToDevices] Installed ${releaseName} on all ${results.length} device(s).`
+      )
+      this.updateItemStatus(releaseName, 'Completed', 100, undefined, undefined, undefined, 100)
+    } else {
+      console.warn(
+        `[Service installToDevices] Installation of ${releaseName} failed on ${failed.length} of ${results.length} device(s).`
+      )
+      this.updateItemStatus(
+        releaseName,
+        'InstallError',
+        100,
+        `Installation failed on ${failed.length} of ${results.length} device(s)`,
+        undefined,
+        undefined,
+        100
+      )
+    }
+    this.processQueue()
+    return results
+  }
+
+  private updateDeviceInstall(
+    releaseName: string,
+    deviceId: string,
+    updates: Partial<DeviceInstallState>
+  ): void {
+    const item = this.queueManager.findItem(releaseName)
+    const current = item?.deviceInstalls?.[deviceId]
+    if (!item || !current) return
+
+    const deviceInstalls = { ...item.deviceInstalls, [deviceId]: { ...current, ...updates } }
+    const states = Object.values(deviceInstalls)
+    // Finished devices count as done whatever their outcome, so the overall bar keeps moving
+    const progress =
+      states.reduce(
+        (sum, state) =>
+          sum +
+          (state.status === 'Completed' || state.status === 'InstallError' ? 100 : state.progress),
+        0
+      ) / states.length
+    if (
+      this.queueManager.updateItem(releaseName, { deviceInstalls, progress: Math.floor(progress) })
+    ) {
+      this.debouncedEmitUpdate()
+    }
+  }
+
+  // Dry run of the install script, lists the resolved actions without running them
+  public async previewInstallScript(releaseName: string): Promise<InstallScriptPlan | null> {
+    const item = this.queueManager.findItem(releaseName)
+    if (!item || !item.downloadPath || !existsSync(item.downloadPath)) {
+      console.error(`[Service previewInstallScript] No downloaded files for ${releaseName}`)
+      return null
+    }
+    try {
+      return await this.installationProcessor.previewInstallScript(item)
+    } catch (error) {
+      console.error(
+        `[Service previewInstallScript] Error reading install script for ${releaseName}:`,
+        error
+      )
+      return null
     }
   }
 
@@ -0,0 +1,65 @@
+import SevenZip from 'node-7z'
+
+// Size and modification time of the remote meta.7z as reported by rclone lsjson
+export interface RemoteFileInfo {
+  size: number
+  modTime: string
+}
+
+// State of the extracted meta archive, saved after every successful extraction
+export interface MetaManifest {
+  remote: RemoteFileInfo | null
+  // CRC of every file in the archive by its path inside the archive
+  files: Record<string, string>
+}
+
+export const EMPTY_META_MANIFEST: MetaManifest = { remote: null, files: {} }
+
+export function isSameRemoteFile(a: RemoteFileInfo, b: RemoteFileInfo): boolean {
+  return a.size === b.size && Date.parse(a.modTime) === Date.parse(b.modTime)
+}
+
+// Reads the first entry of `rclone lsjson` output, null when it is not a file listing
+export function parseLsjson(output: string): RemoteFileInfo | null {
+  try {
+    const entries = JSON.parse(output) as { Size?: number; ModTime?: string; IsDir?: boolean }[]
+    const entry = entries.find((item) => !item.IsDir)
+    if (!entry || typeof entry.Size !== 'number' || !entry.ModTime) return null
+    return { size: entry.Size, modTime: entry.ModTime }
+  } catch {
+    return null
+  }
+}
+
+// Lists the files of an archive with their CRC, folders are left out
+export function listArchiveFiles(
+  archive: string,
+  options: { bin: string; password: string }
+): Promise<Record<string, string>> {
+  return new Promise((resolve, reject) => {
+    const files: Record<string, string> = {}
+    const stream = SevenZip.list(archive, {
+      $bin: options.bin,
+      password: options.password,
+      techInfo: true
+    })
+    stream.on('data', (data) => {
+      const techInfo = (data as { techInfo?: Map<string, string> }).techInfo
+      const crc = techInfo?.get('CRC')
+      if (techInfo?.get('Folder') === '+' || data.attributes?.startsWith('D')) return
+      files[data.file] = crc ?? ''
+    })
+    stream.on('end', () => resolve(files))
+    stream.on('error', reject)
+  })
+}
+
+// Files that are new or have a different CRC, and files no longer in the archive
+export function diffArchiveFiles(
+  previous: Record<string, string>,
+  next: Record<string, string>
+): { changed: string[]; removed: string[] } {
+  const changed = Object.keys(next).filter((file) => !next[file] || previous[file] !== next[file])
+  const removed = Object.keys(previous).filter((file) => !(file in next))
+  return { changed, removed }
+}
@@ -0,0 +1,153 @@
+import { GameMetadata } from '@shared/types'
+
+// Metadata as stored in the local cache or read from a note, any field may be missing
+export type PartialGameMetadata = Partial<GameMetadata>
+
+type MetadataField = Exclude<keyof GameMetadata, 'columns'>
+
+// Game list headers that feed a metadata field, compared in lower case. Any other column that
+// is not one of the fixed catalogue columns ends up in `columns`.
+const COLUMN_FIELDS: Record<string, MetadataField> = {
+  genre: 'genres',
+  genres: 'genres',
+  category: 'genres',
+  categories: 'genres',
+  description: 'description',
+  summary: 'description',
+  'release date': 'releaseDate',
+  released: 'releaseDate',
+  rating: 'rating',
+  'user rating': 'rating',
+  score: 'rating',
+  multiplayer: 'multiplayer',
+  player: 'multiplayer',
+  players: 'multiplayer',
+  'player modes': 'multiplayer',
+  'player mode': 'multiplayer',
+  'hand tracking': 'handTracking',
+  handtracking: 'handTracking'
+}
+
+// Labelled lines in release notes, e.g. 'Genre: Action, Shooter'
+const NOTE_LINE_PATTERN =
+  /^\s*(genres?|categor(?:y|ies)|release date|released|players?)\s*:\s*(.+)$/gim
+const NOTE_HAND_TRACKING_PATTERN = /\bhand[\s-]?tracking\b/i
+const NOTE_MULTIPLAYER_PATTERN = /\b(multi[\s-]?player|co-?op|pvp|online play)\b/i
+
+function parseList(value: string): string[] {
+  return value
+    .split(/[,|/]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+function parseFlag(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase()
+  if (!normalized) return undefined
+  if (/^(yes|y|true|1|supported)$/.test(normalized)) return true
+  if (/^(no|n|false|0|unsupported)$/.test(normalized)) return false
+  return undefined
+}
+
+// Player columns hold either a flag, a mode list ('Single, Multi') or a player count ('1-4')
+function parseMultiplayer(value: string): boolean | undefined {
+  const flag = parseFlag(value)
+  if (flag !== undefined) return flag
+  if (/multi|co-?op|pvp|online/i.test(value)) return true
+  if (/single|solo/i.test(value)) return false
+  const counts = value.match(/\d+/g)?.map(Number)
+  return counts ? Math.max(...counts) > 1 : undefined
+}
+
+// Ratings come as 0-100, 0-10 or 0-5 scores, or as fractions like '4.5/5'
+function parseRating(value: string): number | undefined {
+  const match = value.match(/([\d.]+)(?:\s*\/\s*([\d.]+))?/)
+  if (!match) return undefined
+  const score = parseFloat(match[1])
+  if (Number.isNaN(score)) return undefined
+  const scale = match[2] ? parseFloat(match[2]) : score <= 5 ? 5 : score <= 10 ? 10 : 100
+  return scale > 0 ? Math.round(Math.min(100, (score / scale) * 100)) : undefined
+}
+
+function applyField(metadata: PartialGameMetadata, field: MetadataField, value: string): void {
+  switch (field) {
+    case 'genres':
+      metadata.genres = parseList(value)
+      break
+    case 'rating':
+      metadata.rating = parseRating(value)
+      break
+    case 'multiplayer':
+      metadata.multiplayer = parseMultiplayer(value)
+      break
+    case 'handTracking':
+      metadata.handTracking = parseFlag(value)
+      break
+    default:
+      metadata[field] = value
+  }
+}
+
+// Reads every game list column that is not one of the fixed catalogue columns
+export function metadataFromColumns(
+  columns: string[],
+  parts: string[],
+  fixedColumns: Set<string>
+): PartialGameMetadata {
+  const metadata: PartialGameMetadata = {}
+  const otherColumns: Record<string, string> = {}
+  columns.forEach((column, index) => {
+    if (fixedColumns.has(column)) return
+    const value = parts[index]?.trim()
+    if (!value) return
+    const field = COLUMN_FIELDS[column.toLowerCase()]
+    if (field) {
+      applyField(metadata, field, value)
+    } else {
+      otherColumns[column] = value
+    }
+  })
+  return { ...metadata, columns: otherColumns }
+}
+
+export function metadataFromNote(note: string): PartialGameMetadata {
+  const metadata: PartialGameMetadata = {}
+  for (const [, label, value] of note.matchAll(NOTE_LINE_PATTERN)) {
+    const field = COLUMN_FIELDS[label.toLowerCase()]
+    if (field) applyField(metadata, field, value.trim())
+  }
+  if (metadata.handTracking === undefined && NOTE_HAND_TRACKING_PATTERN.test(note)) {
+    metadata.handTracking = true
+  }
+  if (metadata.multiplayer === undefined && NOTE_MULTIPLAYER_PATTERN.test(note)) {
+    metadata.multiplayer = true
+  }
+  return metadata
+}
+
+// Later sources win field by field, fields they leave undefined keep the earlier value
+export function mergeMetadata(...sources: (PartialGameMetadata | undefined)[]): GameMetadata {
+  const merged: GameMetadata = { genres: [], columns: {} }
+  for (const source of sources) {
+    if (!source) continue
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) continue
+      if (key === 'columns') {
+        merged.columns = { ...merged.columns, ...(value as Record<string, string>) }
+      } else if (key !== 'genres' || (value as string[]).length > 0) {
+        Object.assign(merged, { [key]: value })
+      }
+    }
+  }
+  return merged
+}
+
+export function isEmptyMetadata(metadata: GameMetadata): boolean {
+  return (
+    metadata.genres.length === 0 &&
+    Object.keys(metadata.columns).length === 0 &&
+    Object.entries(metadata).every(
+      ([key, value]) => key === 'genres' || key === 'columns' || value === undefined
+    )
+  )
+}
@@ -5,11 +5,38 @@ import { app, BrowserWindow } from 'electron'
 import { existsSync } from 'fs'
 import dependencyService from './dependencyService'
 import mirrorService from './mirrorService'
-import { GameInfo, ServiceStatus, GamesAPI, BlacklistEntry } from '@shared/types'
+import {
+  GameInfo,
+  ServiceStatus,
+  GamesAPI,
+  BlacklistEntry,
+  CatalogueChange,
+  CatalogueChanges,
+  CatalogueStatus,
+  CatalogueSyncProgress,
+  CatalogueSyncStage,
+  WatchlistEntry
+} from '@shared/types'
 import EventEmitter from 'events'
 import { typedWebContentsSend } from '@shared/ipc-utils'
 import yts from 'yt-search'
 import SevenZip from 'node-7z'
+import {
+  PartialGameMetadata,
+  isEmptyMetadata,
+  mergeMetadata,
+  metadataFromColumns,
+  metadataFromNote
+} from './game/metadata'
+import {
+  EMPTY_META_MANIFEST,
+  MetaManifest,
+  RemoteFileInfo,
+  diffArchiveFiles,
+  isSameRemoteFile,
+  listArchiveFiles,
+  parseLsjson
+} from './game/metaSync'
 
 interface VrpConfig {
   baseUri: string
@@ -17,7 +44,26 @@ interface VrpConfig {
   lastSync?: Date
 }
 
+type CatalogueSnapshotGame = Pick<GameInfo, 'name' | 'packageName' | 'releaseName' | 'version'>
+
+// Parsed game list as of one sync, stored as <syncedAt>.json in the history folder
+interface CatalogueSnapshot {
+  syncedAt: number
+  games: CatalogueSnapshotGame[]
+}
+
 const INTERNAL_BLACKLIST_GAMES = ['com.oculus.MiramarSetupRetail']
+const MAX_CATALOGUE_SNAPSHOTS = 20
+// Game list columns with a GameInfo field of their own, every other column is read as metadata
+const FIXED_GAME_LIST_COLUMNS = new Set([
+  'Game Name',
+  'Package Name',
+  'Version Code',
+  'Size (MB)',
+  'Last Updated',
+  'Release Name',
+  'Downloads'
+])
 
 class GameService extends EventEmitter implements GamesAPI {
   private dataPath: string
@@ -26,7 +72,15 @@ class GameService extends EventEmitter implements GamesAPI {
   private metaPath: string
   private blacklistGamesPath: string
   private customBlacklistPath: string
+  private catalogueHistoryPath: string
+  private catalogueChanges: CatalogueChanges | null = null
+  private watchlistPath: string
+  private watchlist: WatchlistEntry[] = []
+  private metadataCachePath: string
+  private metaManifestPath: string
   private vrpConfig: VrpConfig | null = null
+  // Why the last attempt to reach the server failed, null while the catalogue is up to date
+  private offlineError: string | null = null
   private games: GameInfo[] = []
   private blacklistGames: string[] = []
   private customBlacklistGames: BlacklistEntry[] = []
@@ -40,6 +94,10 @@ class GameService extends EventEmitter implements GamesAPI {
     this.metaPath = join(this.dataPath, '.meta')
     this.blacklistGamesPath = join(this.metaPath, 'nouns', 'blacklist.txt')
     this.customBlacklistPath = join(app.getPath('userData'), 'custom-blacklist.json')
+    this.catalogueHistoryPath = join(this.dataPath, 'catalogue-history')
+    this.watchlistPath = join(app.getPath('userData'), 'watchlist.json')
+    this.metadataCachePath = join(app.getPath('userData'), 'game-metadata.json')
+    this.metaManifestPath = join(this.dataPath, 'meta-manifest.json')
   }
 
   async initialize(force?: boolean): Promise<ServiceStatus> {
@@ -69,6 +127,11 @@ class GameService extends EventEmitter implements GamesAPI {
       await this.loadGameList()
       await this.loadBlacklistGames()
       await this.loadCustomBlacklistGames()
+      await this.loadWatchlist()
+      // Lists cached before history was kept become the baseline of the first diff
+      if ((await this.listCatalogueSnapshots()).length === 0 && this.games.length > 0) {
+        await this.saveCatalogueSnapshot(this.vrpConfig?.lastSync?.getTime() ?? Date.now())
+      }
       //}
     } catch (error) {
       console.error('Error initializing game service:', error)
@@ -100,7 +163,10 @@ class GameService extends EventEmitter implements GamesAPI {
         )
       } else {
         console.log('No config file found at', this.configPath)
-        await this.fetchVrpPublicInfo()
+        await this.fetchVrpPublicInfo().catch((error) => {
+          this.offlineError = errorMessage(error)
+          throw error
+        })
       }
     } catch (error) {
       console.error('Error loading configuration:', error)
@@ -147,47 +213,193 @@ class GameService extends EventEmitter implements GamesAPI {
 
   async syncGameData(): Promise<void> {
     try {
-      // First fetch the VRP public info
-      await this.fetchVrpPublicInfo()
+      const metaArchive = join(this.dataPath, 'meta.7z')
+      const manifest = await this.loadMetaManifest()
+      let remoteMeta: RemoteFileInfo | null = null
+      let metaUnchanged = false
+      try {
+        // First fetch the VRP public info, the config saved by the last sync is tried without it
+        await this.fetchVrpPublicInfo().catch((error) => {
+          if (!this.vrpConfig?.baseUri) throw error
+          console.warn('VRP public info unavailable, using the saved config')
+        })
 
-      if (!this.vrpConfig?.baseUri) {
-        throw new Error('Failed to get baseUri from VRP public info')
-      }
+        if (!this.vrpConfig?.baseUri) {
+          throw new Error('Failed to get baseUri from VRP public info')
+        }
 
-      if (!this.vrpConfig?.password) {
-        throw new Error('Failed to get password from VRP public info')
-      }
+        if (!this.vrpConfig?.password) {
+          throw new Error('Failed to get password from VRP public info')
+        }
 
-      console.log(
-        'Starting sync with valid config - baseUri:',
-        !!this.vrpConfig.baseUri,
-        'password:',
-        !!this.vrpConfig.password
-      )
+        console.log(
+          'Starting sync with valid config - baseUri:',
+          !!this.vrpConfig.baseUri,
+          'password:',
+          !!this.vrpConfig.password
+        )
 
-      // Download meta.7z using rclone
-      const metaArchive = join(this.dataPath, 'meta.7z')
-      await this.downloadMetaArchive(metaArchive)
+        // Nothing to download when the remote archive is the one extracted last time
+        this.sendSyncProgress('checking', null)
+        remoteMeta = await this.getRemoteMetaInfo()
+        metaUnchanged =
+          remoteMeta !== null &&
+          manifest.remote !== null &&
+          isSameRemoteFile(remoteMeta, manifest.remote) &&
+          (await fileExists(this.gameListPath))
+
+        if (metaUnchanged) {
+          console.log('meta.7z has not changed since the last sync, skipping download')
+        } else {
+          // Download meta.7z using rclone
+          await this.downloadMetaArchive(metaArchive)
+        }
+      } catch (error) {
+        await this.useCachedCatalogue(error)
+        return
+      }
 
-      // Extract the archive
-      await this.extractMetaArchive(metaArchive)
+      // Extract the files that changed
+      let changedFiles: number | undefined
+      if (!metaUnchanged) {
+        changedFiles = await this.applyMetaArchive(metaArchive, remoteMeta, manifest)
+      }
 
       // Load the game list
+      this.sendSyncProgress('loading', null)
       await this.loadGameList()
       await this.loadBlacklistGames()
       await this.loadCustomBlacklistGames()
 
       // Update last sync time
+      const syncedAt = new Date()
       if (this.vrpConfig) {
-        this.vrpConfig.lastSync = new Date()
+        this.vrpConfig.lastSync = syncedAt
         await this.saveConfig()
       }
+      this.offlineError = null
+      // An unchanged catalogue would only add an empty diff to the history
+      if (!metaUnchanged) {
+        await this.saveCatalogueSnapshot(syncedAt.getTime())
+        await this.checkWatchlist()
+      }
+      this.sendSyncProgress('done', null, { changedFiles, unchanged: metaUnchanged })
     } catch (error) {
       console.error('Error syncing game data:', error)
       throw error
     }
   }
 
+  private sendSyncProgress(
+    stage: CatalogueSyncStage,
+    progress: number | null,
+    details?: Omit<CatalogueSyncProgress, 'stage' | 'progress'>
+  ): void {
+    const mainWindow = BrowserWindow.getAllWindows()[0]
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      typedWebContentsSend.send(mainWindow, 'games:sync-progress', { stage, progress, ...details })
+    }
+  }
+
+  private async loadMetaManifest(): Promise<MetaManifest> {
+    try {
+      return JSON.parse(await fs.readFile(this.metaManifestPath, 'utf-8')) as MetaManifest
+    } catch {
+      return EMPTY_META_MANIFEST
+    }
+  }
+
+  // Size and time of the remote meta.7z, null when rclone cannot tell. The active mirror is
+  // asked first, like the download does.
+  private async getRemoteMetaInfo(): Promise<RemoteFileInfo | null> {
+    if (!this.vrpConfig?.baseUri) return null
+    const rclonePath = dependencyService.getRclonePath()
+    const targets: string[][] = []
+
+    const activeMirror = await mirrorService.getActiveMirror()
+    const configFilePath = mirrorService.getActiveMirrorConfigPath()
+    const remoteName = mirrorService.getActiveMirrorRemoteName()
+    if (activeMirror && configFilePath && remoteName) {
+      targets.push([`${remoteName}:/Quest Games/meta.7z`, '--config', configFilePath])
+    }
+    const nullConfigPath = process.platform === 'win32' ? 'NUL' : '/dev/null'
+    targets.push([
+      ':http:/meta.7z',
+      '--config',
+      nullConfigPath,
+      '--http-url',
+      this.vrpConfig.baseUri
+    ])
+
+    for (const target of targets) {
+      try {
+        const result = await execa(rclonePath, ['lsjson', ...target, '--no-check-certificate'], {
+          timeout: 30000
+        })
+        const info = parseLsjson(result.stdout)
+        if (info) return info
+      } catch (error) {
+        console.warn('Could not check the remote meta.7z:', error)
+      }
+    }
+    return null
+  }
+
+  // Extracts only the files whose CRC differs from the last extraction and removes the ones that
+  // left the archive. Without a manifest, or with the game list gone, everything is extracted.
+  // Returns the number of files written by a delta update.
+  private async applyMetaArchive(
+    archive: string,
+    remote: RemoteFileInfo | null,
+    previous: MetaManifest
+  ): Promise<number | undefined> {
+    this.sendSyncProgress('extracting', 0)
+    const files = await listArchiveFiles(archive, {
+      bin: dependencyService.get7zPath(),
+      password: this.getArchivePassword()
+    })
+
+    let changedFiles: number | undefined
+    const hasPrevious =
+      Object.keys(previous.files).length > 0 && (await fileExists(this.gameListPath))
+    if (hasPrevious) {
+      const { changed, removed } = diffArchiveFiles(previous.files, files)
+      console.log(`meta.7z: ${changed.length} changed and ${removed.length} removed files`)
+      if (changed.length > 0) {
+        await this.extractMetaArchive(archive, changed)
+      }
+      for (const file of removed) {
+        const filePath = join(this.dataPath, file)
+        if (!filePath.startsWith(this.dataPath)) continue
+        await fs.rm(filePath, { force: true })
+      }
+      changedFiles = changed.length
+    } else {
+      await this.extractMetaArchive(archive)
+    }
+
+    await fs.writeFile(this.metaManifestPath, JSON.stringify({ remote, files }), 'utf-8')
+    return changedFiles
+  }
+
+  private getArchivePassword(): string {
+    if (!this.vrpConfig?.password) {
+      throw new Error('Password not found in vrpConfig')
+    }
+    return Buffer.from(this.vrpConfig.password, 'base64').toString('utf-8')
+  }
+
+  // Keeps the last extracted meta directory and game list when the server cannot be reached.
+  // Without a cached list there is nothing to fall back to and the error is passed on.
+  private async useCachedCatalogue(error: unknown): Promise<void> {
+    if (!(await fileExists(this.gameListPath))) throw error
+    console.warn('Catalogue sync failed, using the cached catalogue:', error)
+    this.offlineError = errorMessage(error)
+    await this.loadGameList()
+    await this.loadBlacklistGames()
+    await this.loadCustomBlacklistGames()
+  }
+
   private async fetchVrpPublicInfo(): Promise<void> {
     try {
       const controller = new AbortController()
@@ -204,7 +416,12 @@ class GameService extends EventEmitter implements GamesAPI {
       }
 
       const data = await response.json()
-      this.vrpConfig = data as VrpConfig
+      // The public info has no sync time, keep the one of the cached catalogue
+      this.vrpConfig = { ...(data as VrpConfig), lastSync: this.vrpConfig?.lastSync }
+      this.emit('vrp-config:updated', {
+        baseUri: this.vrpConfig.baseUri,
+        password: this.vrpConfig.password
+      })
 
       console.log('VRP Config loaded - baseUri:', !!this.vrpConfig?.baseUri)
 
@@ -231,9 +448,6 @@ class GameService extends EventEmitter implements GamesAPI {
       // Get the appropriate rclone path based on platform
       const rclonePath = dependencyService.getRclonePath()
 
-      // Get the main window to send progress updates
-      const mainWindow = BrowserWindow.getAllWindows()[0]
-
       if (activeMirror) {
         console.log(`Using active mirror: ${activeMirror.name}`)
 
@@ -278,14 +492,7 @@ class GameService extends EventEmitter implements GamesAPI {
                 if (match && match[1]) {
                   const progressPercentage = parseInt(match[1], 10)
 
-                  // Send progress to renderer process if we have a valid window
-                  if (mainWindow && !mainWindow.isDestroyed()) {
-                    typedWebContentsSend.send(mainWindow, 'games:download-progress', {
-                      packageName: 'meta',
-                      stage: 'download',
-                      progress: progressPercentage
-                    })
-                  }
+                  this.sendSyncProgress('downloading', progressPercentage)
                 }
               })
             }
@@ -310,13 +517,7 @@ class GameService extends EventEmitter implements GamesAPI {
             console.log('Mirror download complete')
 
             // Send 100% progress on completion
-            if (mainWindow && !mainWindow.isDestroyed()) {
-              typedWebContentsSend.send(mainWindow, 'games:download-progress', {
-                packageName: 'meta',
-                stage: 'download',
-                progress: 100
-              })
-            }
+            this.sendSyncProgress('downloading', 100)
             return // Success with mirror
           } catch (error) {
             console.error('Failed to use mirror config file:', error)
@@ -367,14 +568,7 @@ class GameService extends EventEmitter implements GamesAPI {
           if (match && match[1]) {
             const progressPercentage = parseInt(match[1], 10)
 
-            // Send progress to renderer process if we have a valid window
-            if (mainWindow && !mainWindow.isDestroyed()) {
-              typedWebContentsSend.send(mainWindow, 'games:download-progress', {
-                packageName: 'meta',
-                stage: 'download',
-                progress: progressPercentage
-              })
-            }
+            this.sendSyncProgress('downloading', progressPercentage)
           }
         })
       }
@@ -396,22 +590,19 @@ class GameService extends EventEmitter implements GamesAPI {
       console.log('Download complete')
 
       // Send 100% progress on completion
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        typedWebContentsSend.send(mainWindow, 'games:download-progress', {
-          packageName: 'meta',
-          stage: 'download',
-          progress: 100
-        })
-      }
+      this.sendSyncProgress('downloading', 100)
     } catch (error) {
       console.error('Error downloading meta archive:', error)
       throw error
     }
   }
 
-  private async extractMetaArchive(archive: string): Promise<void> {
+  // Extracts the whole archive, or only the given files when a list is passed
+  private async extractMetaArchive(archive: string, files?: string[]): Promise<void> {
+    // Long file lists go through a list file, a command line has a length limit
+    const listFilePath = join(this.dataPath, 'meta-extract-list.txt')
     try {
-      console.log(`Extracting ${archive} to ${this.dataPath}...`)
+      console.log(`Extracting ${files ? `${files.length} files of ` : ''}${archive}...`)
 
       if (!this.vrpConfig?.password) {
         throw new Error('Password not found in vrpConfig')
@@ -419,27 +610,24 @@ class GameService extends EventEmitter implements GamesAPI {
 
       try {
         // Base64 decode the password
-        const decodedPassword = Buffer.from(this.vrpConfig.password, 'base64').toString('utf-8')
+        const decodedPassword = this.getArchivePassword()
         console.log('Successfully decoded password for extraction')
         console.log('Using node-7z to extract archive start')
 
-        const mainWindow = BrowserWindow.getAllWindows()[0]
+        if (files) {
+          await fs.writeFile(listFilePath, files.join('\n'), 'utf-8')
+        }
 
         await new Promise<void>((resolve, reject) => {
           const myStream = SevenZip.extractFull(archive, this.dataPath, {
             $bin: dependencyService.get7zPath(),
             password: decodedPassword,
-            $progress: true
+            $progress: true,
+            ...(files ? { include: [`@${listFilePath}`] } : {})
           })
 
-          myStream.on('progress', function (progress) {
-            if (mainWindow && !mainWindow.isDestroyed()) {
-              typedWebContentsSend.send(mainWindow, 'games:download-progress', {
-                packageName: 'meta',
-                stage: 'extract',
-                progress: progress.percent
-              })
-            }
+          myStream.on('progress', (progress) => {
+            this.sendSyncProgress('extracting', progress.percent, { changedFiles: files?.length })
           })
 
           myStream.on('end', function () {
@@ -456,13 +644,7 @@ class GameService extends EventEmitter implements GamesAPI {
         console.log('Extraction complete')
 
         // Send 100% progress on completion
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          typedWebContentsSend.send(mainWindow, 'games:download-progress', {
-            packageName: 'meta',
-            stage: 'extract',
-            progress: 100
-          })
-        }
+        this.sendSyncProgress('extracting', 100, { changedFiles: files?.length })
       } catch (decodeError: unknown) {
         console.error('Error decoding or using password:', decodeError)
         if (decodeError instanceof Error) {
@@ -474,6 +656,10 @@ class GameService extends EventEmitter implements GamesAPI {
     } catch (error) {
       console.error('Error extracting meta archive:', error)
       throw error
+    } finally {
+      if (files) {
+        await fs.rm(listFilePath, { force: true })
+      }
     }
   }
 
@@ -487,11 +673,57 @@ class GameService extends EventEmitter implements GamesAPI {
 
       const data = await fs.readFile(this.gameListPath, 'utf-8')
       this.parseGameList(data)
+      await this.loadGameMetadata()
     } catch (error) {
       console.error('Error loading game list:', error)
     }
   }
 
+  // Notes belong to a single release, the cache keeps what earlier releases of a package had so
+  // a new release without a note keeps its genres and flags. Notes win over list columns, which
+  // win over the cache.
+  private async loadGameMetadata(): Promise<void> {
+    let cache: Record<string, PartialGameMetadata> = {}
+    try {
+      if (existsSync(this.metadataCachePath)) {
+        cache = JSON.parse(await fs.readFile(this.metadataCachePath, 'utf-8'))
+      }
+    } catch (error) {
+      console.error('Error loading game metadata cache:', error)
+    }
+
+    const notesPath = join(this.metaPath, 'notes')
+    const noteFiles = new Set(existsSync(notesPath) ? await fs.readdir(notesPath) : [])
+    const updatedCache: Record<string, PartialGameMetadata> = { ...cache }
+
+    for (const game of this.games) {
+      let noteMetadata: PartialGameMetadata | undefined
+      if (game.releaseName && noteFiles.has(`${game.releaseName}.txt`)) {
+        try {
+          const note = await fs.readFile(join(notesPath, `${game.releaseName}.txt`), 'utf-8')
+          noteMetadata = metadataFromNote(note)
+        } catch (error) {
+          console.warn(`Could not read note for ${game.releaseName}:`, error)
+        }
+      }
+      const metadata = mergeMetadata(cache[game.packageName], game.metadata, noteMetadata)
+      game.metadata = isEmptyMetadata(metadata) ? undefined : metadata
+      if (game.metadata) {
+        updatedCache[game.packageName] = mergeMetadata(updatedCache[game.packageName], metadata)
+      }
+    }
+
+    const withMetadata = this.games.filter((game) => game.metadata).length
+    console.log(`Loaded metadata for ${withMetadata} of ${this.games.length} games`)
+    if (JSON.stringify(updatedCache) !== JSON.stringify(cache)) {
+      try {
+        await fs.writeFile(this.metadataCachePath, JSON.stringify(updatedCache), 'utf-8')
+      } catch (error) {
+        console.error('Error saving game metadata cache:', error)
+      }
+    }
+  }
+
   private async loadBlacklistGames(): Promise<void> {
     const exists = await fileExists(this.blacklistGamesPath)
     if (!exists) {
@@ -537,6 +769,163 @@ class GameService extends EventEmitter implements GamesAPI {
     }
   }
 
+  private async loadWatchlist(): Promise<void> {
+    try {
+      if (existsSync(this.watchlistPath)) {
+        this.watchlist = JSON.parse(await fs.readFile(this.watchlistPath, 'utf-8'))
+        console.log(`Loaded ${this.watchlist.length} games from watchlist`)
+      } else {
+        this.watchlist = []
+      }
+    } catch (error) {
+      console.error('Error loading watchlist:', error)
+      this.watchlist = []
+    }
+    app.setBadgeCount(this.watchlist.filter((entry) => entry.newRelease).length)
+  }
+
+  private async saveWatchlist(): Promise<void> {
+    try {
+      await fs.writeFile(this.watchlistPath, JSON.stringify(this.watchlist), 'utf-8')
+    } catch (error) {
+      console.error('Error saving watchlist:', error)
+    }
+    // The app badge counts watched games with a release the user has not looked at yet
+    app.setBadgeCount(this.watchlist.filter((entry) => entry.newRelease).length)
+    const mainWindow = BrowserWindow.getAllWindows()[0]
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      typedWebContentsSend.send(mainWindow, 'games:watchlist-updated', this.watchlist)
+    }
+  }
+
+  getWatchlist(): Promise<WatchlistEntry[]> {
+    return Promise.resolve(this.watchlist)
+  }
+
+  async addToWatchlist(packageName: string): Promise<boolean> {
+    if (!packageName || this.watchlist.some((entry) => entry.packageName === packageName)) {
+      return false
+    }
+    this.watchlist.push({ packageName, addedAt: Date.now() })
+    await this.saveWatchlist()
+    return true
+  }
+
+  async removeFromWatchlist(packageName: string): Promise<boolean> {
+    const count = this.watchlist.length
+    this.watchlist = this.watchlist.filter((entry) => entry.packageName !== packageName)
+    if (this.watchlist.length === count) return false
+    await this.saveWatchlist()
+    return true
+  }
+
+  async dismissWatchlistRelease(packageName: string): Promise<boolean> {
+    const entry = this.watchlist.find((e) => e.packageName === packageName)
+    if (!entry?.newRelease) return false
+    delete entry.newRelease
+    await this.saveWatchlist()
+    return true
+  }
+
+  // Marks watched games that got a new release or a higher version code in the latest sync and
+  // emits 'watchlist:new-releases' with the catalogue entries of those releases
+  private async checkWatchlist(): Promise<void> {
+    if (this.watchlist.length === 0) return
+    const { changes } = await this.getCatalogueChanges()
+    const released: GameInfo[] = []
+
+    for (const change of changes) {
+      const entry = this.watchlist.find((e) => e.packageName === change.packageName)
+      if (!entry || change.type === 'removed') continue
+      const versionDelta =
+        (parseInt(change.version, 10) || 0) - (parseInt(change.previousVersion ?? '', 10) || 0)
+      // A lower version code replacing the newest release is a rollback, not news
+      if (change.type === 'updated' && versionDelta < 0) continue
+
+      entry.newRelease = {
+        releaseName: change.releaseName,
+        version: change.version,
+        detectedAt: Date.now()
+      }
+      const game = this.games.find((g) => g.releaseName === change.releaseName)
+      if (game) released.push(game)
+    }
+
+    if (released.length > 0) {
+      console.log(`New releases of watched games: ${released.map((g) => g.releaseName).join(', ')}`)
+      await this.saveWatchlist()
+      this.emit('watchlist:new-releases', released)
+    }
+  }
+
+  // Snapshot file names sorted oldest first
+  private async listCatalogueSnapshots(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.catalogueHistoryPath)
+      return files
+        .filter((file) => /^\d+\.json$/.test(file))
+        .sort((a, b) => parseInt(a, 10) - parseInt(b, 10))
+    } catch {
+      return []
+    }
+  }
+
+  private async readCatalogueSnapshot(file: string): Promise<CatalogueSnapshot | null> {
+    try {
+      const data = await fs.readFile(join(this.catalogueHistoryPath, file), 'utf-8')
+      return JSON.parse(data)
+    } catch (error) {
+      console.error(`Error reading catalogue snapshot ${file}:`, error)
+      return null
+    }
+  }
+
+  private async saveCatalogueSnapshot(syncedAt: number): Promise<void> {
+    try {
+      await fs.mkdir(this.catalogueHistoryPath, { recursive: true })
+      const snapshot: CatalogueSnapshot = {
+        syncedAt,
+        games: this.games.map(({ name, packageName, releaseName, version }) => ({
+          name,
+          packageName,
+          releaseName,
+          version
+        }))
+      }
+      await fs.writeFile(
+        join(this.catalogueHistoryPath, `${syncedAt}.json`),
+        JSON.stringify(snapshot),
+        'utf-8'
+      )
+      this.catalogueChanges = null
+
+      const snapshots = await this.listCatalogueSnapshots()
+      for (const file of snapshots.slice(0, -MAX_CATALOGUE_SNAPSHOTS)) {
+        await fs.rm(join(this.catalogueHistoryPath, file), { force: true })
+      }
+      console.log(`Saved catalogue snapshot with ${snapshot.games.length} games`)
+    } catch (error) {
+      console.error('Error saving catalogue snapshot:', error)
+    }
+  }
+
+  async getCatalogueChanges(): Promise<CatalogueChanges> {
+    if (this.catalogueChanges) return this.catalogueChanges
+
+    const snapshots = await this.listCatalogueSnapshots()
+    const current =
+      snapshots.length > 0 ? await this.readCatalogueSnapshot(snapshots.at(-1)!) : null
+    const previous =
+      snapshots.length > 1 ? await this.readCatalogueSnapshot(snapshots.at(-2)!) : null
+
+    this.catalogueChanges = {
+      previousSyncedAt: previous?.syncedAt ?? null,
+      syncedAt: current?.syncedAt ?? null,
+      changes: current && previous ? diffCatalogueSnapshots(previous, current) : []
+    }
+    return this.catalogueChanges
+  }
+
   private parseGameList(data: string): void {
     const lines = data.split('\n')
     const games: GameInfo[] = []
@@ -585,6 +974,7 @@ class GameService extends EventEmitter implements GamesAPI {
         const lastUpdated = lastUpdatedIndex >= 0 ? parts[lastUpdatedIndex].trim() : ''
         const releaseName = releaseNameIndex >= 0 ? parts[releaseNameIndex].trim() : ''
         const downloads = downloadsIndex >= 0 ? parts[downloadsIndex].trim() : ''
+        const metadata = mergeMetadata(metadataFromColumns(columns, parts, FIXED_GAME_LIST_COLUMNS))
 
         if (gameName === 'Unknown') {
           console.warn(
@@ -619,7 +1009,8 @@ class GameService extends EventEmitter implements GamesAPI {
           downloads: parseFloat(downloads) || 0,
           thumbnailPath: thumbnailExists ? thumbnailPath : '',
           notePath,
-          isInstalled: false
+          isInstalled: false,
+          metadata: isEmptyMetadata(metadata) ? undefined : metadata
         }
 
         games.push(gameInfo)
@@ -641,6 +1032,19 @@ class GameService extends EventEmitter implements GamesAPI {
     return Promise.resolve(this.games)
   }
 
+  // The catalogue lists every release of a package, keep the one with the highest version code
+  getLatestReleases(): Promise<Map<string, GameInfo>> {
+    const latest = new Map<string, GameInfo>()
+    for (const game of this.games) {
+      if (!game.packageName || !game.releaseName) continue
+      const current = latest.get(game.packageName)
+      if (!current || (parseInt(game.version, 10) || 0) > (parseInt(current.version, 10) || 0)) {
+        latest.set(game.packageName, game)
+      }
+    }
+    return Promise.resolve(latest)
+  }
+
   getBlacklistGames(): Promise<BlacklistEntry[]> {
     return Promise.resolve(this.customBlacklistGames)
   }
@@ -649,6 +1053,19 @@ class GameService extends EventEmitter implements GamesAPI {
     return Promise.resolve(this.vrpConfig?.lastSync || null)
   }
 
+  // Lists cached before sync times were saved are dated by the game list file
+  async getCatalogueStatus(): Promise<CatalogueStatus> {
+    let catalogueDate = this.vrpConfig?.lastSync ?? null
+    if (!catalogueDate && (await fileExists(this.gameListPath))) {
+      catalogueDate = (await fs.stat(this.gameListPath)).mtime
+    }
+    return {
+      offline: this.offlineError !== null,
+      catalogueDate,
+      error: this.offlineError ?? undefined
+    }
+  }
+
   // Added method to expose VRP config needed by DownloadService
   getVrpConfig(): Promise<{ baseUri?: string; password?: string } | null> {
     if (!this.vrpConfig) {
@@ -802,6 +1219,56 @@ class GameService extends EventEmitter implements GamesAPI {
   }
 }
 
+// Newest release of every package, the highest version code wins
+function latestReleases(snapshot: CatalogueSnapshot): Map<string, CatalogueSnapshotGame> {
+  const latest = new Map<string, CatalogueSnapshotGame>()
+  for (const game of snapshot.games) {
+    const existing = latest.get(game.packageName)
+    if (!existing || (parseInt(game.version, 10) || 0) >= (parseInt(existing.version, 10) || 0)) {
+      latest.set(game.packageName, game)
+    }
+  }
+  return latest
+}
+
+// Games are matched by package name, a package counts as updated when its newest release
+// has a different version or release name than before
+function diffCatalogueSnapshots(
+  previous: CatalogueSnapshot,
+  current: CatalogueSnapshot
+): CatalogueChange[] {
+  const before = latestReleases(previous)
+  const after = latestReleases(current)
+  const changes: CatalogueChange[] = []
+
+  for (const [packageName, game] of after) {
+    const old = before.get(packageName)
+    if (!old) {
+      changes.push({ type: 'added', ...game })
+    } else if (old.version !== game.version || old.releaseName !== game.releaseName) {
+      changes.push({
+        type: 'updated',
+        ...game,
+        previousReleaseName: old.releaseName,
+        previousVersion: old.version
+      })
+    }
+  }
+  for (const [packageName, game] of before) {
+    if (!after.has(packageName)) {
+      changes.push({ type: 'removed', ...game })
+    }
+  }
+
+  const order: Record<CatalogueChange['type'], number> = { added: 0, updated: 1, removed: 2 }
+  return changes.sort((a, b) => order[a.type] - order[b.type] || a.name.localeCompare(b.name))
+}
+
+// Readable message of a caught error, shown as the reason the catalogue is offline
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
 // Helper function to check if a file exists
 async function fileExists(path: string): Promise<boolean> {
   try {
@@ -0,0 +1,86 @@
+import { Notification } from 'electron'
+import { DeviceInfo, GameUpdatesResult } from '@shared/types'
+import adbService from './adbService'
+import gameService from './gameService'
+import downloadService from './downloadService'
+import settingsService from './settingsService'
+
+class GameUpdatesService {
+  // Devices already updated since they connected. A device that comes online sends both an
+  // 'add' and a 'change' event, it is only updated once until it disconnects.
+  private updatedDevices = new Set<string>()
+
+  initialize(): void {
+    adbService.on('adb:device-added', (device: DeviceInfo) => void this.handleDeviceOnline(device))
+    adbService.on(
+      'adb:device-changed',
+      (device: DeviceInfo) => void this.handleDeviceOnline(device)
+    )
+    adbService.on('adb:device-removed', (device: DeviceInfo) => {
+      this.updatedDevices.delete(device.id)
+    })
+    console.log('[Game Updates] Service initialized')
+  }
+
+  private async handleDeviceOnline(device: DeviceInfo): Promise<void> {
+    // Offline and unauthorized devices come back through a 'change' event once they are usable
+    if (device.type !== 'device' || !settingsService.getAutoUpdateOnConnect()) return
+    if (this.updatedDevices.has(device.id)) return
+    this.updatedDevices.add(device.id)
+
+    console.log(`[Game Updates] ${device.id} connected, updating outdated games`)
+    const result = await this.updateAll(device.id)
+    const started = result ? result.queued.length + result.installing.length : 0
+    if (started > 0 && Notification.isSupported()) {
+      new Notification({
+        title: `Updating ${started} game${started === 1 ? '' : 's'}`,
+        body: `Outdated games on ${device.friendlyModelName || device.id} were added to downloads`
+      }).show()
+    }
+  }
+
+  // Queues the newest release of every installed game the catalogue has a higher version of.
+  // Releases that are already downloaded are installed right away, the rest are installed on this
+  // device as soon as their extraction finishes.
+  async updateAll(deviceId: string): Promise<GameUpdatesResult | null> {
+    const result: GameUpdatesResult = {
+      deviceId,
+      queued: [],
+      installing: [],
+      alreadyQueued: [],
+      blacklisted: [],
+      failed: []
+    }
+
+    try {
+      const [installedPackages, latestReleases] = await Promise.all([
+        adbService.getInstalledPackages(deviceId),
+        gameService.getLatestReleases()
+      ])
+
+      for (const pkg of installedPackages) {
+        const release = latestReleases.get(pkg.packageName)
+        const availableVersionCode = release ? parseInt(release.version, 10) || 0 : 0
+        if (!release || availableVersionCode <= pkg.versionCode) continue
+
+        // A blacklist entry with a version only holds back releases up to that version
+        if (gameService.isGameBlacklisted(pkg.packageName, availableVersionCode)) {
+          result.blacklisted.push(pkg.packageName)
+          continue
+        }
+
+        result[await downloadService.queueForDevice(release, deviceId)].push(pkg.packageName)
+      }
+
+      console.log(
+        `[Game Updates] Updated ${deviceId}: ${result.queued.length} queued, ${result.installing.length} installing, ${result.alreadyQueued.length} already queued, ${result.blacklisted.length} blacklisted, ${result.failed.length} failed`
+      )
+      return result
+    } catch (error) {
+      console.error(`[Game Updates] Error updating games on ${deviceId}:`, error)
+      return null
+    }
+  }
+}
+
+export default new GameUpdatesService()
@@ -0,0 +1,183 @@
+import yauzl from 'yauzl'
+
+export interface ApkManifestInfo {
+  packageName: string
+  versionCode: number
+  versionName: string
+  // Only set when the manifest holds the label inline, a @string reference needs resources.arsc
+  label: string
+}
+
+const RES_STRING_POOL_TYPE = 0x0001
+const RES_XML_TYPE = 0x0003
+const RES_XML_RESOURCE_MAP_TYPE = 0x0180
+const RES_XML_START_ELEMENT_TYPE = 0x0102
+const UTF8_FLAG = 0x100
+const NO_INDEX = 0xffffffff
+
+const TYPE_STRING = 0x03
+const TYPE_FIRST_INT = 0x10
+const TYPE_LAST_INT = 0x1f
+
+// android:label, android:versionCode and android:versionName. Compiled manifests may strip the
+// attribute name strings, the resource map still carries these ids.
+const ATTR_IDS: Record<number, string> = {
+  0x01010001: 'label',
+  0x0101021b: 'versionCode',
+  0x0101021c: 'versionName'
+}
+
+function readManifestBuffer(apkPath: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(apkPath, { lazyEntries: true, autoClose: true }, (openErr, zipfile) => {
+      if (openErr || !zipfile) {
+        reject(openErr ?? new Error(`Could not open ${apkPath}`))
+        return
+      }
+      let found = false
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        if (entry.fileName !== 'AndroidManifest.xml') {
+          zipfile.readEntry()
+          return
+        }
+        found = true
+        zipfile.openReadStream(entry, (streamErr, stream) => {
+          if (streamErr || !stream) {
+            zipfile.close()
+            reject(streamErr ?? new Error('Could not read AndroidManifest.xml'))
+            return
+          }
+          const chunks: Buffer[] = []
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+          stream.on('error', (err) => {
+            zipfile.close()
+            reject(err)
+          })
+          stream.on('end', () => {
+            zipfile.close()
+            resolve(Buffer.concat(chunks))
+          })
+        })
+      })
+      zipfile.on('end', () => {
+        if (!found) reject(new Error('APK has no AndroidManifest.xml'))
+      })
+      zipfile.on('error', reject)
+      zipfile.readEntry()
+    })
+  })
+}
+
+function readStringPool(buf: Buffer, offset: number): string[] {
+  const headerSize = buf.readUInt16LE(offset + 2)
+  const stringCount = buf.readUInt32LE(offset + 8)
+  const flags = buf.readUInt32LE(offset + 16)
+  const stringsStart = offset + buf.readUInt32LE(offset + 20)
+  const isUtf8 = (flags & UTF8_FLAG) !== 0
+  const strings: string[] = []
+
+  for (let i = 0; i < stringCount; i++) {
+    let pos = stringsStart + buf.readUInt32LE(offset + headerSize + i * 4)
+    if (isUtf8) {
+      // UTF-16 length first, then the UTF-8 byte length, each one or two bytes
+      pos += (buf[pos] & 0x80) !== 0 ? 2 : 1
+      let byteLength = buf[pos]
+      if ((byteLength & 0x80) !== 0) {
+        byteLength = ((byteLength & 0x7f) << 8) | buf[pos + 1]
+        pos += 2
+      } else {
+        pos += 1
+      }
+      strings.push(buf.toString('utf8', pos, pos + byteLength))
+    } else {
+      let charLength = buf.readUInt16LE(pos)
+      if ((charLength & 0x8000) !== 0) {
+        charLength = ((charLength & 0x7fff) << 16) | buf.readUInt16LE(pos + 2)
+        pos += 4
+      } else {
+        pos += 2
+      }
+      strings.push(buf.toString('utf16le', pos, pos + charLength * 2))
+    }
+  }
+  return strings
+}
+
+// Walks the binary XML chunks up to the <manifest> element and reads its attributes, plus the
+// label from <application>
+export function parseBinaryManifest(buf: Buffer): ApkManifestInfo {
+  if (buf.length < 8 || buf.readUInt16LE(0) !== RES_XML_TYPE) {
+    throw new Error('AndroidManifest.xml is not a compiled binary XML file')
+  }
+
+  let strings: string[] = []
+  let resourceIds: number[] = []
+  const info: ApkManifestInfo = { packageName: '', versionCode: 0, versionName: '', label: '' }
+
+  let offset = buf.readUInt16LE(2)
+  while (offset + 8 <= buf.length) {
+    const chunkType = buf.readUInt16LE(offset)
+    const chunkHeaderSize = buf.readUInt16LE(offset + 2)
+    const chunkSize = buf.readUInt32LE(offset + 4)
+    if (chunkSize < 8) break
+
+    if (chunkType === RES_STRING_POOL_TYPE) {
+      strings = readStringPool(buf, offset)
+    } else if (chunkType === RES_XML_RESOURCE_MAP_TYPE) {
+      resourceIds = []
+      for (let pos = offset + chunkHeaderSize; pos < offset + chunkSize; pos += 4) {
+        resourceIds.push(buf.readUInt32LE(pos))
+      }
+    } else if (chunkType === RES_XML_START_ELEMENT_TYPE) {
+      const ext = offset + chunkHeaderSize
+      const elementName = strings[buf.readUInt32LE(ext + 4)]
+      if (elementName === 'manifest' || elementName === 'application') {
+        const attributeStart = buf.readUInt16LE(ext + 8)
+        const attributeSize = buf.readUInt16LE(ext + 10)
+        const attributeCount = buf.readUInt16LE(ext + 12)
+
+        for (let i = 0; i < attributeCount; i++) {
+          const attr = ext + attributeStart + i * attributeSize
+          const nameIndex = buf.readUInt32LE(attr + 4)
+          const rawValue = buf.readUInt32LE(attr + 8)
+          const dataType = buf[attr + 15]
+          const data = buf.readUInt32LE(attr + 16)
+          const name = ATTR_IDS[resourceIds[nameIndex]] ?? strings[nameIndex]
+          const stringValue =
+            rawValue !== NO_INDEX
+              ? strings[rawValue]
+              : dataType === TYPE_STRING
+                ? strings[data]
+                : undefined
+
+          if (elementName === 'manifest') {
+            if (name === 'package' && stringValue) {
+              info.packageName = stringValue
+            } else if (name === 'versionCode') {
+              if (dataType >= TYPE_FIRST_INT && dataType <= TYPE_LAST_INT) {
+                info.versionCode = data
+              } else if (stringValue) {
+                info.versionCode = parseInt(stringValue, 10) || 0
+              }
+            } else if (name === 'versionName' && stringValue) {
+              info.versionName = stringValue
+            }
+          } else if (name === 'label' && stringValue) {
+            info.label = stringValue
+          }
+        }
+        if (elementName === 'application') break
+      }
+    }
+    offset += chunkSize
+  }
+
+  if (!info.packageName) {
+    throw new Error('AndroidManifest.xml has no package name')
+  }
+  return info
+}
+
+export async function readApkManifest(apkPath: string): Promise<ApkManifestInfo> {
+  return parseBinaryManifest(await readManifestBuffer(apkPath))
+}
@@ -0,0 +1,278 @@
+import { app, BrowserWindow } from 'electron'
+import { promises as fs, existsSync, watch, Dirent, FSWatcher } from 'fs'
+import { basename, dirname, join, resolve } from 'path'
+import { LocalLibraryEntry } from '@shared/types'
+import { typedWebContentsSend } from '@shared/ipc-utils'
+import { readApkManifest } from './localLibrary/apkManifest'
+
+// How deep below a library folder APKs are looked for
+const MAX_SCAN_DEPTH = 4
+// Copying a game into a watched folder fires many events, wait for them to settle
+const RESCAN_DELAY_MS = 2000
+
+interface LocalLibraryFile {
+  folders: string[]
+  entries: LocalLibraryEntry[]
+}
+
+class LocalLibraryService {
+  private libraryFilePath: string
+  private folders: string[] = []
+  private entries: LocalLibraryEntry[] = []
+  private watchers: Map<string, FSWatcher> = new Map()
+  private rescanTimer: NodeJS.Timeout | null = null
+  private activeScan: Promise<LocalLibraryEntry[]> | null = null
+  private rescanPending = false
+
+  constructor() {
+    this.libraryFilePath = join(app.getPath('userData'), 'local-library.json')
+  }
+
+  async initialize(): Promise<void> {
+    try {
+      await this.loadLibrary()
+      for (const folder of this.folders) this.watchFolder(folder)
+      // Catch up with changes made while the app was closed
+      void this.rescan()
+      console.log('[Local Library] Service initialized')
+    } catch (error) {
+      console.error('[Local Library] Error initializing service:', error)
+    }
+  }
+
+  private async loadLibrary(): Promise<void> {
+    try {
+      const data: Partial<LocalLibraryFile> = JSON.parse(
+        await fs.readFile(this.libraryFilePath, 'utf-8')
+      )
+      this.folders = Array.isArray(data.folders) ? data.folders : []
+      this.entries = Array.isArray(data.entries) ? data.entries : []
+      console.log(
+        `[Local Library] Loaded ${this.folders.length} folders with ${this.entries.length} APKs`
+      )
+    } catch (error) {
+      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+        console.log('[Local Library] No existing library file, starting fresh')
+      } else {
+        console.error('[Local Library] Error loading library:', error)
+      }
+      this.folders = []
+      this.entries = []
+    }
+  }
+
+  private async saveLibrary(): Promise<void> {
+    const data: LocalLibraryFile = { folders: this.folders, entries: this.entries }
+    try {
+      await fs.writeFile(this.libraryFilePath, JSON.stringify(data, null, 2))
+    } catch (error) {
+      console.error('[Local Library] Error saving library:', error)
+    }
+  }
+
+  private emitUpdate(): void {
+    const mainWindow = BrowserWindow.getAllWindows()[0]
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      typedWebContentsSend.send(mainWindow, 'local-library:updated', this.entries)
+    }
+  }
+
+  getFolders(): Promise<string[]> {
+    return Promise.resolve([...this.folders])
+  }
+
+  getEntries(): Promise<LocalLibraryEntry[]> {
+    return Promise.resolve(this.entries)
+  }
+
+  async addFolder(folderPath: string): Promise<boolean> {
+    const folder = resolve(folderPath)
+    try {
+      if (!(await fs.stat(folder)).isDirectory()) {
+        console.error(`[Local Library] Not a directory: ${folder}`)
+        return false
+      }
+    } catch (error) {
+      console.error(`[Local Library] Cannot add ${folder}:`, error)
+      return false
+    }
+    if (this.folders.includes(folder)) {
+      console.warn(`[Local Library] ${folder} is already in the library`)
+      return false
+    }
+
+    this.folders.push(folder)
+    await this.saveLibrary()
+    this.watchFolder(folder)
+    console.log(`[Local Library] Added folder ${folder}`)
+    await this.rescan()
+    return true
+  }
+
+  async removeFolder(folderPath: string): Promise<boolean> {
+    const folder = resolve(folderPath)
+    if (!this.folders.includes(folder)) return false
+
+    this.folders = this.folders.filter((f) => f !== folder)
+    this.watchers.get(folder)?.close()
+    this.watchers.delete(folder)
+    await this.saveLibrary()
+    console.log(`[Local Library] Removed folder ${folder}`)
+    await this.rescan()
+    return true
+  }
+
+  private watchFolder(folder: string): void {
+    if (this.watchers.has(folder) || !existsSync(folder)) return
+    try {
+      const watcher = watch(folder, { recursive: true }, () => this.scheduleRescan())
+      watcher.on('error', (error) => {
+        console.warn(`[Local Library] Stopped watching ${folder}:`, error)
+        watcher.close()
+        this.watchers.delete(folder)
+        this.scheduleRescan()
+      })
+      this.watchers.set(folder, watcher)
+    } catch (error) {
+      console.warn(
+        `[Local Library] Could not watch ${folder}, it is only indexed on rescan:`,
+        error
+      )
+    }
+  }
+
+  private scheduleRescan(): void {
+    if (this.rescanTimer) clearTimeout(this.rescanTimer)
+    this.rescanTimer = setTimeout(() => {
+      this.rescanTimer = null
+      void this.rescan()
+    }, RESCAN_DELAY_MS)
+  }
+
+  // Scans are never run side by side, a request during a scan runs once more when it finishes
+  async rescan(): Promise<LocalLibraryEntry[]> {
+    if (this.activeScan) {
+      this.rescanPending = true
+      return this.activeScan
+    }
+    this.activeScan = (async (): Promise<LocalLibraryEntry[]> => {
+      try {
+        do {
+          this.rescanPending = false
+          this.entries = await this.scanFolders()
+        } while (this.rescanPending)
+        await this.saveLibrary()
+        this.emitUpdate()
+      } catch (error) {
+        console.error('[Local Library] Error scanning folders:', error)
+      } finally {
+        this.activeScan = null
+      }
+      return this.entries
+    })()
+    return this.activeScan
+  }
+
+  private async scanFolders(): Promise<LocalLibraryEntry[]> {
+    const known = new Map(this.entries.map((entry) => [entry.apkPath, entry]))
+    const entries: LocalLibraryEntry[] = []
+    const seen = new Set<string>()
+
+    for (const folder of this.folders) {
+      // Folders on drives that are not plugged in are kept, their games just drop out of the list
+      if (!existsSync(folder)) {
+        console.warn(`[Local Library] Folder not found, skipping: ${folder}`)
+        continue
+      }
+      this.watchFolder(folder)
+      for (const apkPath of await this.findApks(folder, 0)) {
+        const entry = await this.indexApk(apkPath, known.get(apkPath))
+        if (!entry) continue
+        // The same release stored in two places is listed once
+        const key = `${entry.packageName}:${entry.versionCode}`
+        if (seen.has(key)) continue
+        seen.add(key)
+        entries.push(entry)
+      }
+    }
+
+    console.log(`[Local Library] Indexed ${entries.length} APKs in ${this.folders.length} folders`)
+    return entries.sort((a, b) =>
+      (a.label || a.packageName).localeCompare(b.label || b.packageName)
+    )
+  }
+
+  private async findApks(folder: string, depth: number): Promise<string[]> {
+    const apks: string[] = []
+    let dirents: Dirent[]
+    try {
+      dirents = await fs.readdir(folder, { withFileTypes: true })
+    } catch (error) {
+      console.warn(`[Local Library] Cannot read ${folder}:`, error)
+      return apks
+    }
+    for (const dirent of dirents) {
+      if (dirent.name.startsWith('.')) continue
+      const fullPath = join(folder, dirent.name)
+      if (dirent.isFile() && dirent.name.toLowerCase().endsWith('.apk')) {
+        apks.push(fullPath)
+      } else if (dirent.isDirectory() && depth < MAX_SCAN_DEPTH) {
+        apks.push(...(await this.findApks(fullPath, depth + 1)))
+      }
+    }
+    return apks
+  }
+
+  // APKs are read on this computer, the bundled aapt is an Android build that only runs on the
+  // headset. An unchanged APK keeps its earlier manifest details.
+  private async indexApk(
+    apkPath: string,
+    previous?: LocalLibraryEntry
+  ): Promise<LocalLibraryEntry | null> {
+    try {
+      const stats = await fs.stat(apkPath)
+      let manifest: Pick<LocalLibraryEntry, 'packageName' | 'versionCode' | 'versionName' | 'label'>
+      if (previous && previous.modifiedAt === stats.mtimeMs) {
+        manifest = previous
+      } else {
+        manifest = await readApkManifest(apkPath)
+        console.log(
+          `[Local Library] Indexed ${basename(apkPath)}: ${manifest.packageName} v${manifest.versionCode}`
+        )
+      }
+
+      // OBB files sit next to the APK in a folder named after the package
+      const obbPath = join(dirname(apkPath), manifest.packageName)
+      const hasObb = existsSync(obbPath) && (await fs.stat(obbPath)).isDirectory()
+
+      return {
+        apkPath,
+        obbPath: hasObb ? obbPath : undefined,
+        packageName: manifest.packageName,
+        versionCode: manifest.versionCode,
+        versionName: manifest.versionName,
+        label: manifest.label,
+        size: stats.size + (hasObb ? await this.getDirectorySize(obbPath) : 0),
+        modifiedAt: stats.mtimeMs
+      }
+    } catch (error) {
+      console.warn(`[Local Library] Skipping unreadable APK ${apkPath}:`, error)
+      return null
+    }
+  }
+
+  private async getDirectorySize(folder: string): Promise<number> {
+    let total = 0
+    for (const dirent of await fs.readdir(folder, { withFileTypes: true })) {
+      const fullPath = join(folder, dirent.name)
+      if (dirent.isDirectory()) {
+        total += await this.getDirectorySize(fullPath)
+      } else if (dirent.isFile()) {
+        total += (await fs.stat(fullPath)).size
+      }
+    }
+    return total
+  }
+}
+
+export default new LocalLibraryService()
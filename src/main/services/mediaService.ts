@@ -0,0 +1,137 @@
+import { app } from 'electron'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHash } from 'crypto'
+import adbService from './adbService'
+import { DeviceMediaItem, MediaAPI } from '@shared/types'
+
+// Where the headset saves the screenshots and recordings made from the system menu
+const MEDIA_FOLDERS: Record<DeviceMediaItem['kind'], string> = {
+  screenshot: '/sdcard/Oculus/Screenshots',
+  video: '/sdcard/Oculus/VideoShots'
+}
+
+function hash(value: string): string {
+  return createHash('sha1').update(value).digest('hex')
+}
+
+// Kind of media a device path belongs to, null for anything outside of the media folders
+function getMediaKind(remotePath: string): DeviceMediaItem['kind'] | null {
+  const resolved = path.posix.resolve(remotePath)
+  for (const [kind, folder] of Object.entries(MEDIA_FOLDERS)) {
+    if (resolved.startsWith(`${folder}/`)) return kind as DeviceMediaItem['kind']
+  }
+  return null
+}
+
+// Parses the find -printf output of list(), '<size>\t<mtime>\t<path>' per line
+function parseMediaListing(output: string): DeviceMediaItem[] {
+  const items: DeviceMediaItem[] = []
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(\d+)\t([\d.]+)\t(.+)$/)
+    if (!match) continue
+    const [, size, modifiedAt, remotePath] = match
+    const kind = getMediaKind(remotePath)
+    if (!kind) continue
+    items.push({
+      name: path.posix.basename(remotePath),
+      path: remotePath,
+      kind,
+      size: parseInt(size, 10),
+      modifiedAt: Math.round(parseFloat(modifiedAt) * 1000)
+    })
+  }
+  return items.sort((a, b) => b.modifiedAt - a.modifiedAt)
+}
+
+class MediaService implements MediaAPI {
+  private cachePath: string
+  // Previews being pulled, requests for the same file share the transfer
+  private pending = new Map<string, Promise<string | null>>()
+
+  constructor() {
+    this.cachePath = path.join(app.getPath('userData'), 'media-cache')
+  }
+
+  // Previews are kept per device, named after the device path they were pulled from
+  private getPreviewFile(serial: string, remotePath: string): string {
+    return path.join(
+      this.cachePath,
+      hash(serial),
+      `${hash(remotePath)}${path.posix.extname(remotePath).toLowerCase()}`
+    )
+  }
+
+  async list(serial: string): Promise<DeviceMediaItem[] | null> {
+    try {
+      // The trailing slashes make find follow /sdcard, which is a symlink on most devices
+      const folders = Object.values(MEDIA_FOLDERS).map((folder) => `${folder}/`)
+      const output = await adbService.runShellCommand(
+        serial,
+        `find ${folders.join(' ')} -type f -printf '%s\\t%T@\\t%p\\n' 2>/dev/null`
+      )
+      if (output === null) return null
+      const items = parseMediaListing(output)
+      await this.pruneCache(serial, items)
+      return items
+    } catch (error) {
+      console.error(`[Media] Error listing media on ${serial}:`, error)
+      return null
+    }
+  }
+
+  // Drops the previews of captures that have been deleted from the device
+  private async pruneCache(serial: string, items: DeviceMediaItem[]): Promise<void> {
+    const deviceCache = path.join(this.cachePath, hash(serial))
+    const kept = new Set(items.map((item) => path.basename(this.getPreviewFile(serial, item.path))))
+    const cached = await fs.readdir(deviceCache).catch(() => [] as string[])
+    for (const file of cached) {
+      // Temporary files belong to previews that are still being pulled
+      if (!kept.has(file) && !file.endsWith('.tmp')) {
+        await fs.rm(path.join(deviceCache, file), { force: true })
+      }
+    }
+  }
+
+  async getPreviewPath(serial: string, remotePath: string): Promise<string | null> {
+    if (!getMediaKind(remotePath)) {
+      console.warn(`[Media] ${remotePath} is not in a media folder`)
+      return null
+    }
+    const previewFile = this.getPreviewFile(serial, remotePath)
+    if (await fs.stat(previewFile).catch(() => null)) return previewFile
+
+    let pending = this.pending.get(previewFile)
+    if (!pending) {
+      pending = this.pullPreview(serial, remotePath, previewFile).finally(() =>
+        this.pending.delete(previewFile)
+      )
+      this.pending.set(previewFile, pending)
+    }
+    return pending
+  }
+
+  private async pullPreview(
+    serial: string,
+    remotePath: string,
+    previewFile: string
+  ): Promise<string | null> {
+    // Pulled under a temporary name so a half transferred file is never served
+    const tempFile = `${previewFile}.tmp`
+    try {
+      await fs.mkdir(path.dirname(previewFile), { recursive: true })
+      if (!(await adbService.pullFile(serial, remotePath, tempFile))) {
+        await fs.rm(tempFile, { force: true })
+        return null
+      }
+      await fs.rename(tempFile, previewFile)
+      return previewFile
+    } catch (error) {
+      console.error(`[Media] Error pulling a preview of ${remotePath} from ${serial}:`, error)
+      await fs.rm(tempFile, { force: true }).catch(() => undefined)
+      return null
+    }
+  }
+}
+
+export default new MediaService()
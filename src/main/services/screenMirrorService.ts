@@ -0,0 +1,118 @@
+import { BrowserWindow } from 'electron'
+import { Duplex } from 'stream'
+import adbService from './adbService'
+import { H264StreamReader } from './adb/h264'
+import { ScreenMirrorAPI, ScreenMirrorOptions, ScreenMirrorStatus } from '@shared/types'
+import { typedWebContentsSend } from '@shared/ipc-utils'
+
+// screenrecord stops on its own after at most three minutes, the recording is restarted when
+// it does so the view keeps running
+const RECORDING_TIME_LIMIT = 180
+const MAX_BIT_RATE = 40_000_000
+
+class ScreenMirrorService implements ScreenMirrorAPI {
+  private stream: Duplex | null = null
+  private status: ScreenMirrorStatus = { state: 'idle', serial: null, error: null }
+  private startedAt = 0
+  // Bumped by every start and stop, a recording of an older session is not restarted
+  private session = 0
+
+  private getMainWindow(): BrowserWindow | null {
+    const mainWindow = BrowserWindow.getAllWindows()[0]
+    return mainWindow && !mainWindow.isDestroyed() ? mainWindow : null
+  }
+
+  private setStatus(status: Partial<ScreenMirrorStatus>): void {
+    this.status = { ...this.status, ...status }
+    const mainWindow = this.getMainWindow()
+    if (mainWindow) typedWebContentsSend.send(mainWindow, 'screen-mirror:status', this.status)
+  }
+
+  async start(serial: string, options: ScreenMirrorOptions): Promise<boolean> {
+    await this.stop()
+    const bitRate = Math.round(options.bitRate)
+    if (!Number.isFinite(bitRate) || bitRate <= 0 || bitRate > MAX_BIT_RATE) {
+      console.error(`[ScreenMirror] Invalid bit rate ${options.bitRate}`)
+      return false
+    }
+    const session = ++this.session
+    this.startedAt = Date.now()
+    this.setStatus({ state: 'starting', serial, error: null })
+    console.log(`[ScreenMirror] Mirroring ${serial} at ${bitRate} bit/s`)
+    return this.record(session, serial, bitRate)
+  }
+
+  private async record(session: number, serial: string, bitRate: number): Promise<boolean> {
+    let stream: Duplex
+    try {
+      stream = await adbService.openShellStream(
+        serial,
+        `screenrecord --output-format=h264 --bit-rate ${bitRate} ` +
+          `--time-limit ${RECORDING_TIME_LIMIT} -`
+      )
+    } catch (error) {
+      console.error(`[ScreenMirror] Could not start screenrecord on ${serial}:`, error)
+      if (session === this.session) {
+        this.setStatus({ state: 'error', error: 'Could not start the screen recording' })
+      }
+      return false
+    }
+    // Stopped while the recording was starting
+    if (session !== this.session) {
+      stream.destroy()
+      return false
+    }
+
+    this.stream = stream
+    const reader = new H264StreamReader()
+    let frameCount = 0
+    stream.on('data', (chunk: Buffer) => {
+      const mainWindow = this.getMainWindow()
+      for (const unit of reader.push(chunk)) {
+        if (frameCount++ === 0 && this.status.state !== 'streaming') {
+          this.setStatus({ state: 'streaming' })
+        }
+        if (!mainWindow) continue
+        typedWebContentsSend.send(mainWindow, 'screen-mirror:frame', {
+          data: unit.data,
+          isKey: unit.isKey,
+          codec: unit.codec,
+          timestamp: (Date.now() - this.startedAt) * 1000
+        })
+      }
+    })
+    stream.on('error', (error) => {
+      console.error(`[ScreenMirror] Stream from ${serial} failed:`, error)
+    })
+    stream.on('close', () => {
+      if (session !== this.session) return
+      this.stream = null
+      // A recording that ends without a single frame would only fail again
+      if (frameCount === 0) {
+        console.error(`[ScreenMirror] ${serial} sent no video`)
+        this.setStatus({
+          state: 'error',
+          error: 'The headset did not send any video, it may be asleep or disconnected'
+        })
+        return
+      }
+      console.log(`[ScreenMirror] Recording on ${serial} ended, restarting`)
+      this.record(session, serial, bitRate)
+    })
+    return true
+  }
+
+  async stop(): Promise<void> {
+    this.session++
+    if (this.stream) {
+      console.log(`[ScreenMirror] Stopping mirroring of ${this.status.serial}`)
+      this.stream.destroy()
+      this.stream = null
+    }
+    if (this.status.state !== 'idle') {
+      this.setStatus({ state: 'idle', serial: null, error: null })
+    }
+  }
+}
+
+export default new ScreenMirrorService()
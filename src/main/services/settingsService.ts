@@ -1,4 +1,12 @@
-import { Settings, SettingsAPI } from '@shared/types'
+import {
+  BandwidthSchedule,
+  GamesViewMode,
+  PipelineConcurrency,
+  SaveDataPreservation,
+  SavedGameQuery,
+  Settings,
+  SettingsAPI
+} from '@shared/types'
 import { app, nativeTheme } from 'electron'
 import { join } from 'path'
 import { existsSync, readFileSync, writeFileSync } from 'fs'
@@ -18,7 +26,14 @@ class SettingsService extends EventEmitter implements SettingsAPI {
       downloadSpeedLimit: 0,
       uploadSpeedLimit: 0,
       hideAdultContent: true,
-      colorScheme: nativeTheme.shouldUseDarkColors ? 'dark' : 'light'
+      colorScheme: nativeTheme.shouldUseDarkColors ? 'dark' : 'light',
+      pipelineConcurrency: { downloads: 2, extractions: 1, installations: 1 },
+      bandwidthSchedule: { enabled: false, rules: [] },
+      saveDataPreservation: 'always',
+      autoDownloadWatchlist: false,
+      autoUpdateOnConnect: false,
+      savedGameQueries: [],
+      gamesViewMode: 'table'
     }
 
     // Load settings from disk
@@ -65,13 +80,101 @@ class SettingsService extends EventEmitter implements SettingsAPI {
     this.emit('color-scheme-changed', scheme)
   }
 
+  getPipelineConcurrency(): PipelineConcurrency {
+    return { ...this.settings.pipelineConcurrency }
+  }
+
+  setPipelineConcurrency(concurrency: PipelineConcurrency): void {
+    // Every stage needs at least one slot, otherwise the queue would stall
+    this.settings.pipelineConcurrency = {
+      downloads: Math.max(1, Math.floor(concurrency.downloads)),
+      extractions: Math.max(1, Math.floor(concurrency.extractions)),
+      installations: Math.max(1, Math.floor(concurrency.installations))
+    }
+    this.saveSettings()
+    this.emit('pipeline-concurrency-changed', this.getPipelineConcurrency())
+  }
+
+  getBandwidthSchedule(): BandwidthSchedule {
+    return {
+      enabled: this.settings.bandwidthSchedule.enabled,
+      rules: this.settings.bandwidthSchedule.rules.map((rule) => ({ ...rule }))
+    }
+  }
+
+  setBandwidthSchedule(schedule: BandwidthSchedule): void {
+    this.settings.bandwidthSchedule = {
+      enabled: schedule.enabled,
+      rules: schedule.rules.map((rule) => ({
+        ...rule,
+        days: [...new Set(rule.days)].filter((day) => day >= 0 && day <= 6),
+        speedLimit: Math.max(0, Math.round(rule.speedLimit))
+      }))
+    }
+    this.saveSettings()
+    this.emit('bandwidth-schedule-changed', this.getBandwidthSchedule())
+  }
+
+  getSaveDataPreservation(): SaveDataPreservation {
+    return this.settings.saveDataPreservation
+  }
+
+  setSaveDataPreservation(mode: SaveDataPreservation): void {
+    if (!['always', 'ask', 'never'].includes(mode)) return
+    this.settings.saveDataPreservation = mode
+    this.saveSettings()
+  }
+
+  getAutoDownloadWatchlist(): boolean {
+    return this.settings.autoDownloadWatchlist
+  }
+
+  setAutoDownloadWatchlist(enabled: boolean): void {
+    this.settings.autoDownloadWatchlist = enabled
+    this.saveSettings()
+  }
+
+  getAutoUpdateOnConnect(): boolean {
+    return this.settings.autoUpdateOnConnect
+  }
+
+  setAutoUpdateOnConnect(enabled: boolean): void {
+    this.settings.autoUpdateOnConnect = enabled
+    this.saveSettings()
+  }
+
+  getSavedGameQueries(): SavedGameQuery[] {
+    return this.settings.savedGameQueries
+  }
+
+  setSavedGameQueries(queries: SavedGameQuery[]): void {
+    this.settings.savedGameQueries = queries
+    this.saveSettings()
+  }
+
+  getGamesViewMode(): GamesViewMode {
+    return this.settings.gamesViewMode
+  }
+
+  setGamesViewMode(mode: GamesViewMode): void {
+    this.settings.gamesViewMode = mode
+    this.saveSettings()
+  }
+
   private loadSettings(): void {
     try {
       const exists = existsSync(this.settingsPath)
       if (exists) {
         const data = readFileSync(this.settingsPath, 'utf-8')
         const loadedSettings = JSON.parse(data)
-        this.settings = { ...this.settings, ...loadedSettings }
+        this.settings = {
+          ...this.settings,
+          ...loadedSettings,
+          pipelineConcurrency: {
+            ...this.settings.pipelineConcurrency,
+            ...loadedSettings.pipelineConcurrency
+          }
+        }
         console.log('Settings loaded successfully')
       } else {
         console.log('No settings file found, using defaults')
@@ -0,0 +1,110 @@
+import fs from 'fs/promises'
+import { join, extname } from 'path'
+import { createHash } from 'crypto'
+import { app, nativeImage, protocol } from 'electron'
+import { THUMBNAIL_SCHEME, getThumbnailWidth } from '@shared/thumbnails'
+
+const JPEG_QUALITY = 80
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+}
+
+// Has to run before the app is ready, the scheme needs fetch support to be used in <img>
+protocol.registerSchemesAsPrivileged([
+  { scheme: THUMBNAIL_SCHEME, privileges: { standard: true, secure: true, supportFetchAPI: true } }
+])
+
+class ThumbnailService {
+  private cachePath: string
+  // Variants being generated, requests for the same one share the work
+  private pending = new Map<string, Promise<void>>()
+  // Images are decoded one at a time so scrolling through the list does not stall the main process
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor() {
+    this.cachePath = join(app.getPath('userData'), 'thumbnail-cache')
+  }
+
+  // Called once the app is ready
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.cachePath, { recursive: true })
+    protocol.handle(THUMBNAIL_SCHEME, (request) => this.handleRequest(request))
+    console.log('[Thumbnails] Serving cached thumbnails from', this.cachePath)
+  }
+
+  private async handleRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const sourcePath = url.searchParams.get('path')
+    const width = getThumbnailWidth(parseInt(url.searchParams.get('width') ?? '', 10) || 0)
+    if (!sourcePath) return new Response(null, { status: 400 })
+
+    try {
+      const variantPath = await this.getVariant(sourcePath, width)
+      return await this.fileResponse(variantPath, 'image/jpeg')
+    } catch (error) {
+      // Fall back to the original image, a broken thumbnail is worse than a slow one
+      console.warn(`[Thumbnails] Could not create thumbnail for ${sourcePath}:`, error)
+      try {
+        const contentType = CONTENT_TYPES[extname(sourcePath).toLowerCase()]
+        return await this.fileResponse(sourcePath, contentType ?? 'application/octet-stream')
+      } catch {
+        return new Response(null, { status: 404 })
+      }
+    }
+  }
+
+  private async fileResponse(filePath: string, contentType: string): Promise<Response> {
+    const data = await fs.readFile(filePath)
+    return new Response(new Uint8Array(data), {
+      headers: { 'Content-Type': contentType, 'Cache-Control': 'max-age=86400' }
+    })
+  }
+
+  // Variants are named after the source path and kept while they are newer than the source
+  private async getVariant(sourcePath: string, width: number): Promise<string> {
+    const hash = createHash('sha1').update(sourcePath).digest('hex')
+    const variantPath = join(this.cachePath, `${hash}-${width}.jpg`)
+
+    const sourceStats = await fs.stat(sourcePath)
+    const variantStats = await fs.stat(variantPath).catch(() => null)
+    if (variantStats && variantStats.mtimeMs >= sourceStats.mtimeMs) return variantPath
+
+    let pending = this.pending.get(variantPath)
+    if (!pending) {
+      pending = this.enqueue(() => this.createVariant(sourcePath, width, variantPath)).finally(() =>
+        this.pending.delete(variantPath)
+      )
+      this.pending.set(variantPath, pending)
+    }
+    await pending
+    return variantPath
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private async createVariant(
+    sourcePath: string,
+    width: number,
+    variantPath: string
+  ): Promise<void> {
+    const image = nativeImage.createFromBuffer(await fs.readFile(sourcePath))
+    if (image.isEmpty()) {
+      throw new Error('Unsupported image format')
+    }
+    const resized = image.getSize().width > width ? image.resize({ width, quality: 'good' }) : image
+    // Written under a temporary name so a half written file is never served
+    const tempPath = `${variantPath}.tmp`
+    await fs.writeFile(tempPath, resized.toJPEG(JPEG_QUALITY))
+    await fs.rename(tempPath, variantPath)
+  }
+}
+
+export default new ThumbnailService()
@@ -1,6 +1,6 @@
 import { app, BrowserWindow } from 'electron'
 import { promises as fs, existsSync } from 'fs'
-import { join, dirname } from 'path'
+import { basename, join } from 'path'
 import { EventEmitter } from 'events'
 import crypto from 'crypto'
 import { execa } from 'execa'
@@ -355,107 +355,52 @@ class UploadService extends EventEmitter {
       // --- PULLING APK STAGE ---
       this.updateProgress(packageName, UploadStage.PullingApk, 0)
 
-      // Get the path to the APK on the device
-      const shellCmd = `pm path ${packageName}`
-      const apkPathOutput = await adbService.runShellCommand(deviceId, shellCmd)
+      // Get the paths to the APKs on the device, split APKs come after the base APK
+      const [apkPath, ...splitApkPaths] = await adbService.getApkPaths(deviceId, packageName)
 
-      if (!apkPathOutput || !apkPathOutput.includes('package:')) {
+      if (!apkPath) {
         throw new Error(`Could not find APK for ${packageName} on device`)
       }
 
-      // Extract the APK path from the output
-      const apkPath = apkPathOutput.trim().split('\n')[0].replace('package:', '')
-      const apkFileName = `${packageName}.apk`
-      const localApkPath = join(packageFolderPath, apkFileName)
-
-      // Pull the APK file
+      // Pull the APK files, split APKs keep their names
       this.updateProgress(packageName, UploadStage.PullingApk, 50)
-      console.log(`Pulling APK from ${apkPath} to ${localApkPath}...`)
-      await adbService.pullFile(deviceId, apkPath, localApkPath)
+      for (const remotePath of [apkPath, ...splitApkPaths]) {
+        const apkFileName = remotePath === apkPath ? `${packageName}.apk` : basename(remotePath)
+        const localApkPath = join(packageFolderPath, apkFileName)
+        console.log(`Pulling APK from ${remotePath} to ${localApkPath}...`)
+        if (!(await adbService.pullFile(deviceId, remotePath, localApkPath))) {
+          throw new Error(`Failed to pull ${apkFileName} for ${packageName}`)
+        }
+      }
       this.updateProgress(packageName, UploadStage.PullingApk, 100)
 
       // --- ANALYZING OBB STAGE ---
       this.updateProgress(packageName, UploadStage.AnalyzingObb, 0)
 
-      // Check if OBB folder exists
       const obbFolderPath = `/sdcard/Android/obb/${packageName}`
-      const obbCheckCmd = `[ -d "${obbFolderPath}" ] && echo "EXISTS" || echo ""`
-      const obbExists = await adbService.runShellCommand(deviceId, obbCheckCmd)
-      this.updateProgress(packageName, UploadStage.AnalyzingObb, 50)
+      const localObbFolder = join(packageFolderPath, packageFolderName)
+      this.updateProgress(packageName, UploadStage.AnalyzingObb, 100)
 
       // --- PULLING OBB STAGE ---
       this.updateProgress(packageName, UploadStage.PullingObb, 0)
 
-      // Pull OBB folder if it exists
-      if (obbExists && obbExists.includes('EXISTS')) {
-        console.log(`OBB folder found for ${packageName}, analyzing contents...`)
-
-        // Create the main OBB folder locally
-        const localObbFolder = join(packageFolderPath, packageFolderName)
-        await fs.mkdir(localObbFolder, { recursive: true })
-
-        // List all files in the OBB folder recursively with their sizes
-        const listFilesCmd = `find "${obbFolderPath}" -type f -printf "%s %p\\n"`
-        const filesListOutput = await adbService.runShellCommand(deviceId, listFilesCmd)
-        this.updateProgress(packageName, UploadStage.AnalyzingObb, 100)
-
-        if (!filesListOutput || !filesListOutput.trim()) {
-          console.log(`No files found in OBB folder for ${packageName}`)
-          this.updateProgress(packageName, UploadStage.PullingObb, 100)
-        } else {
-          // Parse the output to get files with their sizes
-          const fileEntries = filesListOutput
-            .trim()
-            .split('\n')
-            .filter((line) => line.trim())
-            .map((line) => {
-              const match = line.match(/^(\d+)\s+(.+)$/)
-              if (match) {
-                return {
-                  size: parseInt(match[1], 10),
-                  path: match[2]
-                }
-              }
-              return null
-            })
-            .filter((entry) => entry !== null) as { size: number; path: string }[]
-
-          const totalSize = fileEntries.reduce((sum, entry) => sum + entry.size, 0)
-          let downloadedSize = 0
-
-          console.log(
-            `Found ${fileEntries.length} files in OBB folder, total size: ${totalSize} bytes`
-          )
-
-          // Pull each file one by one, maintaining directory structure
-          for (let i = 0; i < fileEntries.length; i++) {
-            const { path: remotePath, size } = fileEntries[i]
-
-            // Create relative path from OBB folder root
-            const relPath = remotePath.substring(obbFolderPath.length + 1) // +1 for the slash
-            const localPath = join(localObbFolder, relPath)
-
-            // Ensure parent directory exists
-            const parentDir = dirname(localPath)
-            await fs.mkdir(parentDir, { recursive: true })
-
-            console.log(
-              `Pulling file ${i + 1}/${fileEntries.length}: ${remotePath} (${size} bytes)`
-            )
-            await adbService.pullFile(deviceId, remotePath, localPath)
-
-            // Update progress
-            downloadedSize += size
-            const progressPercentage = Math.min(Math.floor((downloadedSize / totalSize) * 100), 100)
-            this.updateProgress(packageName, UploadStage.PullingObb, progressPercentage)
-          }
-
-          console.log(`Successfully pulled all OBB files for ${packageName}`)
+      // Pull OBB folder if it exists, maintaining directory structure
+      const obbFileCount = await adbService.pullDirectory(
+        deviceId,
+        obbFolderPath,
+        localObbFolder,
+        (pulledSize, totalSize) => {
+          const progressPercentage = Math.min(Math.floor((pulledSize / totalSize) * 100), 100)
+          this.updateProgress(packageName, UploadStage.PullingObb, progressPercentage)
         }
+      )
+
+      if (obbFileCount > 0) {
+        console.log(`Successfully pulled ${obbFileCount} OBB files for ${packageName}`)
       } else {
-        console.log(`No OBB folder found for ${packageName}`)
-        this.updateProgress(packageName, UploadStage.PullingObb, 100)
+        console.log(`No OBB files found for ${packageName}`)
       }
+      this.updateProgress(packageName, UploadStage.PullingObb, 100)
 
       // --- CREATING METADATA STAGE ---
       this.updateProgress(packageName, UploadStage.CreatingMetadata, 0)
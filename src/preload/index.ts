@@ -1,11 +1,14 @@
-import { contextBridge, IpcRendererEvent, ipcRenderer } from 'electron'
+import { contextBridge, IpcRendererEvent, ipcRenderer, webUtils } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 import {
   GameInfo,
   DeviceInfo,
+  DeviceTelemetry,
+  PackageStorageUsage,
+  InstalledApp,
   DependencyStatus,
   DownloadItem,
-  DownloadProgress,
+  CatalogueSyncProgress,
   AdbAPIRenderer,
   GameAPIRenderer,
   DownloadAPIRenderer,
@@ -20,7 +23,38 @@ import {
   LogsAPIRenderer,
   MirrorAPIRenderer,
   Mirror,
-  WiFiBookmark
+  WiFiBookmark,
+  PipelineConcurrency,
+  DownloadPriority,
+  BandwidthSchedule,
+  DeviceInstallState,
+  InstallScriptPlan,
+  DeviceProfile,
+  DeviceProfileApp,
+  DeviceProfilesAPIRenderer,
+  ProfileApplyOptions,
+  GameUpdatesAPIRenderer,
+  SavedGameQuery,
+  GamesViewMode,
+  BackupEntry,
+  BackupContents,
+  BackupProgress,
+  BackupsAPIRenderer,
+  LocalLibraryEntry,
+  LocalLibraryAPIRenderer,
+  DeviceFileEntry,
+  DeviceFilesAPIRenderer,
+  DeviceMediaItem,
+  MediaAPIRenderer,
+  ScreenMirrorOptions,
+  ScreenMirrorStatus,
+  ScreenMirrorFrame,
+  ScreenMirrorAPIRenderer,
+  FileTransferProgress,
+  CatalogueChanges,
+  CatalogueStatus,
+  WatchlistEntry,
+  SaveDataPreservation
 } from '@shared/types'
 import { typedIpcRenderer } from '@shared/ipc-utils'
 
@@ -76,7 +110,19 @@ const api = {
     setUserName: (serial: string, name: string): Promise<void> =>
       typedIpcRenderer.invoke('adb:set-user-name', serial, name),
     getDeviceIp: (serial: string): Promise<string | null> =>
-      typedIpcRenderer.invoke('adb:get-device-ip', serial)
+      typedIpcRenderer.invoke('adb:get-device-ip', serial),
+    getDeviceTelemetry: (serial: string): Promise<DeviceTelemetry | null> =>
+      typedIpcRenderer.invoke('adb:get-device-telemetry', serial),
+    getStorageBreakdown: (serial: string): Promise<PackageStorageUsage[]> =>
+      typedIpcRenderer.invoke('adb:get-storage-breakdown', serial),
+    getInstalledApps: (serial: string): Promise<InstalledApp[]> =>
+      typedIpcRenderer.invoke('adb:get-installed-apps', serial),
+    clearAppData: (serial: string, packageName: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('adb:clear-app-data', serial, packageName),
+    forceStopApp: (serial: string, packageName: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('adb:force-stop-app', serial, packageName),
+    launchApp: (serial: string, packageName: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('adb:launch-app', serial, packageName)
   } satisfies AdbAPIRenderer,
   games: {
     getGames: (): Promise<GameInfo[]> => typedIpcRenderer.invoke('games:get-games'),
@@ -88,10 +134,28 @@ const api = {
     forceSync: (): Promise<GameInfo[]> => typedIpcRenderer.invoke('games:force-sync-games'),
     getTrailerVideoId: (gameName: string): Promise<string | null> =>
       typedIpcRenderer.invoke('games:get-trailer-video-id', gameName),
-    onDownloadProgress: (callback: (progress: DownloadProgress) => void): (() => void) => {
-      const listener = (_: IpcRendererEvent, progress: DownloadProgress): void => callback(progress)
-      typedIpcRenderer.on('games:download-progress', listener)
-      return () => typedIpcRenderer.removeListener('games:download-progress', listener)
+    getCatalogueChanges: (): Promise<CatalogueChanges> =>
+      typedIpcRenderer.invoke('games:get-catalogue-changes'),
+    getCatalogueStatus: (): Promise<CatalogueStatus> =>
+      typedIpcRenderer.invoke('games:get-catalogue-status'),
+    getWatchlist: (): Promise<WatchlistEntry[]> => typedIpcRenderer.invoke('games:get-watchlist'),
+    addToWatchlist: (packageName: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('games:add-to-watchlist', packageName),
+    removeFromWatchlist: (packageName: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('games:remove-from-watchlist', packageName),
+    dismissWatchlistRelease: (packageName: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('games:dismiss-watchlist-release', packageName),
+    onWatchlistUpdated: (callback: (watchlist: WatchlistEntry[]) => void): (() => void) => {
+      const listener = (_: IpcRendererEvent, watchlist: WatchlistEntry[]): void =>
+        callback(watchlist)
+      typedIpcRenderer.on('games:watchlist-updated', listener)
+      return () => typedIpcRenderer.removeListener('games:watchlist-updated', listener)
+    },
+    onSyncProgress: (callback: (progress: CatalogueSyncProgress) => void): (() => void) => {
+      const listener = (_: IpcRendererEvent, progress: CatalogueSyncProgress): void =>
+        callback(progress)
+      typedIpcRenderer.on('games:sync-progress', listener)
+      return () => typedIpcRenderer.removeListener('games:sync-progress', listener)
     },
     addToBlacklist: (packageName: string, version?: number | 'any'): Promise<boolean> =>
       typedIpcRenderer.invoke('games:add-to-blacklist', packageName, version),
@@ -118,6 +182,14 @@ const api = {
       typedIpcRenderer.invoke('download:delete-files', releaseName),
     installFromCompleted: (releaseName: string, deviceId: string): Promise<void> =>
       typedIpcRenderer.invoke('download:install-from-completed', releaseName, deviceId),
+    installToDevices: (releaseName: string, deviceIds: string[]): Promise<DeviceInstallState[]> =>
+      typedIpcRenderer.invoke('download:install-to-devices', releaseName, deviceIds),
+    previewInstallScript: (releaseName: string): Promise<InstallScriptPlan | null> =>
+      typedIpcRenderer.invoke('download:preview-install-script', releaseName),
+    moveItem: (releaseName: string, toIndex: number): Promise<boolean> =>
+      typedIpcRenderer.invoke('download:move', releaseName, toIndex),
+    setPriority: (releaseName: string, priority: DownloadPriority): Promise<boolean> =>
+      typedIpcRenderer.invoke('download:set-priority', releaseName, priority),
     installManualFile: (filePath: string, deviceId: string): Promise<boolean> =>
       typedIpcRenderer.invoke('downloads:install-manual', filePath, deviceId),
     copyObbFolder: (folderPath: string, deviceId: string): Promise<boolean> =>
@@ -202,7 +274,35 @@ const api = {
     getColorScheme: (): Promise<'light' | 'dark'> =>
       typedIpcRenderer.invoke('settings:get-color-scheme'),
     setColorScheme: (scheme: 'light' | 'dark'): Promise<void> =>
-      typedIpcRenderer.invoke('settings:set-color-scheme', scheme)
+      typedIpcRenderer.invoke('settings:set-color-scheme', scheme),
+    getPipelineConcurrency: (): Promise<PipelineConcurrency> =>
+      typedIpcRenderer.invoke('settings:get-pipeline-concurrency'),
+    setPipelineConcurrency: (concurrency: PipelineConcurrency): Promise<void> =>
+      typedIpcRenderer.invoke('settings:set-pipeline-concurrency', concurrency),
+    getBandwidthSchedule: (): Promise<BandwidthSchedule> =>
+      typedIpcRenderer.invoke('settings:get-bandwidth-schedule'),
+    setBandwidthSchedule: (schedule: BandwidthSchedule): Promise<void> =>
+      typedIpcRenderer.invoke('settings:set-bandwidth-schedule', schedule),
+    getSaveDataPreservation: (): Promise<SaveDataPreservation> =>
+      typedIpcRenderer.invoke('settings:get-save-data-preservation'),
+    setSaveDataPreservation: (mode: SaveDataPreservation): Promise<void> =>
+      typedIpcRenderer.invoke('settings:set-save-data-preservation', mode),
+    getAutoDownloadWatchlist: (): Promise<boolean> =>
+      typedIpcRenderer.invoke('settings:get-auto-download-watchlist'),
+    setAutoDownloadWatchlist: (enabled: boolean): Promise<void> =>
+      typedIpcRenderer.invoke('settings:set-auto-download-watchlist', enabled),
+    getAutoUpdateOnConnect: (): Promise<boolean> =>
+      typedIpcRenderer.invoke('settings:get-auto-update-on-connect'),
+    setAutoUpdateOnConnect: (enabled: boolean): Promise<void> =>
+      typedIpcRenderer.invoke('settings:set-auto-update-on-connect', enabled),
+    getSavedGameQueries: (): Promise<SavedGameQuery[]> =>
+      typedIpcRenderer.invoke('settings:get-saved-game-queries'),
+    setSavedGameQueries: (queries: SavedGameQuery[]): Promise<void> =>
+      typedIpcRenderer.invoke('settings:set-saved-game-queries', queries),
+    getGamesViewMode: (): Promise<GamesViewMode> =>
+      typedIpcRenderer.invoke('settings:get-games-view-mode'),
+    setGamesViewMode: (mode: GamesViewMode): Promise<void> =>
+      typedIpcRenderer.invoke('settings:set-games-view-mode', mode)
   } satisfies SettingsAPIRenderer,
   // Logs APIs
   logs: {
@@ -250,8 +350,10 @@ const api = {
       typedIpcRenderer.invoke('dialog:show-manual-install-picker'),
     showApkFilePicker: (): Promise<string | null> =>
       typedIpcRenderer.invoke('dialog:show-apk-file-picker'),
-    showFolderPicker: (): Promise<string | null> =>
-      typedIpcRenderer.invoke('dialog:show-folder-picker')
+    showFolderPicker: (options?: {
+      title?: string
+      createDirectory?: boolean
+    }): Promise<string | null> => typedIpcRenderer.invoke('dialog:show-folder-picker', options)
   },
   // WiFi bookmarks API
   wifiBookmarks: {
@@ -262,6 +364,97 @@ const api = {
     updateLastConnected: (id: string): Promise<void> =>
       typedIpcRenderer.invoke('wifi-bookmarks:update-last-connected', id)
   },
+  profiles: {
+    getAll: (): Promise<DeviceProfile[]> => typedIpcRenderer.invoke('profiles:get-all'),
+    add: (name: string, apps: DeviceProfileApp[]) =>
+      typedIpcRenderer.invoke('profiles:add', name, apps),
+    update: (id: string, name: string, apps: DeviceProfileApp[]): Promise<boolean> =>
+      typedIpcRenderer.invoke('profiles:update', id, name, apps),
+    remove: (id: string): Promise<boolean> => typedIpcRenderer.invoke('profiles:remove', id),
+    captureFromDevice: (name: string, deviceId: string) =>
+      typedIpcRenderer.invoke('profiles:capture-from-device', name, deviceId),
+    getDiff: (id: string, deviceId: string) =>
+      typedIpcRenderer.invoke('profiles:get-diff', id, deviceId),
+    apply: (id: string, deviceId: string, options: ProfileApplyOptions) =>
+      typedIpcRenderer.invoke('profiles:apply', id, deviceId, options)
+  } satisfies DeviceProfilesAPIRenderer,
+  gameUpdates: {
+    updateAll: (deviceId: string) => typedIpcRenderer.invoke('game-updates:update-all', deviceId)
+  } satisfies GameUpdatesAPIRenderer,
+  backups: {
+    getAll: (): Promise<BackupEntry[]> => typedIpcRenderer.invoke('backups:get-all'),
+    create: (deviceId: string, packageName: string) =>
+      typedIpcRenderer.invoke('backups:create', deviceId, packageName),
+    restore: (id: string, deviceId: string, parts: BackupContents): Promise<boolean> =>
+      typedIpcRenderer.invoke('backups:restore', id, deviceId, parts),
+    remove: (id: string): Promise<boolean> => typedIpcRenderer.invoke('backups:remove', id),
+    onProgress: (callback: (progress: BackupProgress) => void): (() => void) => {
+      const listener = (_: IpcRendererEvent, progress: BackupProgress): void => callback(progress)
+      typedIpcRenderer.on('backups:progress', listener)
+      return () => typedIpcRenderer.removeListener('backups:progress', listener)
+    }
+  } satisfies BackupsAPIRenderer,
+  localLibrary: {
+    getFolders: (): Promise<string[]> => typedIpcRenderer.invoke('local-library:get-folders'),
+    addFolder: (folderPath: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('local-library:add-folder', folderPath),
+    removeFolder: (folderPath: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('local-library:remove-folder', folderPath),
+    getEntries: (): Promise<LocalLibraryEntry[]> =>
+      typedIpcRenderer.invoke('local-library:get-entries'),
+    rescan: (): Promise<LocalLibraryEntry[]> => typedIpcRenderer.invoke('local-library:rescan'),
+    onUpdated: (callback: (entries: LocalLibraryEntry[]) => void): (() => void) => {
+      const listener = (_: IpcRendererEvent, entries: LocalLibraryEntry[]): void =>
+        callback(entries)
+      typedIpcRenderer.on('local-library:updated', listener)
+      return () => typedIpcRenderer.removeListener('local-library:updated', listener)
+    }
+  } satisfies LocalLibraryAPIRenderer,
+  deviceFiles: {
+    list: (serial: string, path: string): Promise<DeviceFileEntry[] | null> =>
+      typedIpcRenderer.invoke('device-files:list', serial, path),
+    upload: (serial: string, localPaths: string[], remoteDir: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('device-files:upload', serial, localPaths, remoteDir),
+    download: (serial: string, remotePaths: string[], localDir: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('device-files:download', serial, remotePaths, localDir),
+    rename: (serial: string, path: string, newName: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('device-files:rename', serial, path, newName),
+    remove: (serial: string, paths: string[]): Promise<boolean> =>
+      typedIpcRenderer.invoke('device-files:remove', serial, paths),
+    createFolder: (serial: string, parentPath: string, name: string): Promise<boolean> =>
+      typedIpcRenderer.invoke('device-files:create-folder', serial, parentPath, name),
+    prepareDrag: (serial: string, paths: string[]): Promise<string[] | null> =>
+      typedIpcRenderer.invoke('device-files:prepare-drag', serial, paths),
+    startDrag: (): void => typedIpcRenderer.send('device-files:start-drag'),
+    onProgress: (callback: (progress: FileTransferProgress) => void): (() => void) => {
+      const listener = (_: IpcRendererEvent, progress: FileTransferProgress): void =>
+        callback(progress)
+      typedIpcRenderer.on('device-files:progress', listener)
+      return () => typedIpcRenderer.removeListener('device-files:progress', listener)
+    },
+    getPathForFile: (file: File): string => webUtils.getPathForFile(file)
+  } satisfies DeviceFilesAPIRenderer,
+  media: {
+    list: (serial: string): Promise<DeviceMediaItem[] | null> =>
+      typedIpcRenderer.invoke('media:list', serial),
+    getPreviewPath: (serial: string, path: string): Promise<string | null> =>
+      typedIpcRenderer.invoke('media:get-preview-path', serial, path)
+  } satisfies MediaAPIRenderer,
+  screenMirror: {
+    start: (serial: string, options: ScreenMirrorOptions): Promise<boolean> =>
+      typedIpcRenderer.invoke('screen-mirror:start', serial, options),
+    stop: (): Promise<void> => typedIpcRenderer.invoke('screen-mirror:stop'),
+    onStatus: (callback: (status: ScreenMirrorStatus) => void): (() => void) => {
+      const listener = (_: IpcRendererEvent, status: ScreenMirrorStatus): void => callback(status)
+      typedIpcRenderer.on('screen-mirror:status', listener)
+      return () => typedIpcRenderer.removeListener('screen-mirror:status', listener)
+    },
+    onFrame: (callback: (frame: ScreenMirrorFrame) => void): (() => void) => {
+      const listener = (_: IpcRendererEvent, frame: ScreenMirrorFrame): void => callback(frame)
+      typedIpcRenderer.on('screen-mirror:frame', listener)
+      return () => typedIpcRenderer.removeListener('screen-mirror:frame', listener)
+    }
+  } satisfies ScreenMirrorAPIRenderer,
   // Dependency Status Listeners
   onDependencyProgress: (
     callback: (status: DependencyStatus, progress: { name: string; percentage: number }) => void
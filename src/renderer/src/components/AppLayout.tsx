@@ -6,6 +6,13 @@ import GamesView from './GamesView'
 import DownloadsView from './DownloadsView'
 import UploadsView from './UploadsView'
 import Settings from './Settings'
+import ProfilesView from './ProfilesView'
+import BackupsView from './BackupsView'
+import DeviceDashboardView from './DeviceDashboardView'
+import AppsView from './AppsView'
+import FilesView from './FilesView'
+import MediaView from './MediaView'
+import LiveView from './LiveView'
 import { UpdateNotification } from './UpdateNotification'
 import UploadGamesDialog from './UploadGamesDialog'
 import {
@@ -37,6 +44,13 @@ import {
   DismissRegular as CloseIcon,
   DesktopRegular,
   SettingsRegular,
+  PeopleTeamRegular,
+  ArchiveRegular,
+  HeadsetVrRegular,
+  AppsListRegular,
+  FolderRegular,
+  ImageMultipleRegular,
+  ShareScreenStartRegular,
   ArrowUploadRegular as UploadIcon
 } from '@fluentui/react-icons'
 import { UploadProvider } from '@renderer/context/UploadProvider'
@@ -50,7 +64,8 @@ enum AppView {
 }
 
 // Type for app tab navigation
-type ActiveTab = 'games' | 'settings'
+type ActiveTab =
+  'games' | 'device' | 'apps' | 'files' | 'media' | 'live' | 'profiles' | 'backups' | 'settings'
 
 const useStyles = makeStyles({
   root: {
@@ -136,6 +151,20 @@ const MainContent: React.FC<MainContentProps> = ({
     // Return the appropriate content based on active tab
     if (activeTab === 'settings') {
       return <Settings />
+    } else if (activeTab === 'device') {
+      return <DeviceDashboardView />
+    } else if (activeTab === 'apps') {
+      return <AppsView />
+    } else if (activeTab === 'files') {
+      return <FilesView />
+    } else if (activeTab === 'media') {
+      return <MediaView />
+    } else if (activeTab === 'live') {
+      return <LiveView />
+    } else if (activeTab === 'profiles') {
+      return <ProfilesView />
+    } else if (activeTab === 'backups') {
+      return <BackupsView />
     } else {
       return <GamesView onBackToDevices={onBackToDeviceList} />
     }
@@ -291,11 +320,13 @@ const AppLayout: React.FC = () => {
 
   const downloadQueueProgress = useMemo(() => {
     const activeDownloads = downloadQueue.filter((item) => item.status === 'Downloading')
+    const verifyingDownloads = downloadQueue.filter((item) => item.status === 'Verifying')
     const extractingDownloads = downloadQueue.filter((item) => item.status === 'Extracting')
     const installingDownloads = downloadQueue.filter((item) => item.status === 'Installing')
     const queuedDownloads = downloadQueue.filter((item) => item.status === 'Queued')
     return {
       activeDownloads,
+      verifyingDownloads,
       extractingDownloads,
       installingDownloads,
       queuedDownloads
@@ -314,8 +345,13 @@ const AppLayout: React.FC = () => {
   }, [uploadQueue])
 
   const getDownloadButtonContent = (): { icon: React.ReactNode; text: string } => {
-    const { activeDownloads, extractingDownloads, installingDownloads, queuedDownloads } =
-      downloadQueueProgress
+    const {
+      activeDownloads,
+      verifyingDownloads,
+      extractingDownloads,
+      installingDownloads,
+      queuedDownloads
+    } = downloadQueueProgress
 
     if (activeDownloads.length > 0) {
       const activeDownload = activeDownloads[0]
@@ -331,6 +367,16 @@ const AppLayout: React.FC = () => {
         icon: <Spinner size="tiny" style={{ animationDuration: '1s' }} />,
         text
       }
+    } else if (verifyingDownloads.length > 0) {
+      const verifyingDownload = verifyingDownloads[0]
+      let text = `Verifying ${verifyingDownload.gameName} (${verifyingDownload.verifyProgress || 0}%)...`
+      if (queuedDownloads.length > 0) {
+        text += ` (+${queuedDownloads.length})`
+      }
+      return {
+        icon: <Spinner size="tiny" style={{ animationDuration: '1s' }} />,
+        text
+      }
     } else if (extractingDownloads.length > 0) {
       const extractingDownload = extractingDownloads[0]
       const extractingDownloadName = extractingDownload.gameName
@@ -457,6 +503,27 @@ const AppLayout: React.FC = () => {
                         <Tab value="games" icon={<DesktopRegular />}>
                           Games
                         </Tab>
+                        <Tab value="device" icon={<HeadsetVrRegular />}>
+                          Device
+                        </Tab>
+                        <Tab value="apps" icon={<AppsListRegular />}>
+                          Apps
+                        </Tab>
+                        <Tab value="files" icon={<FolderRegular />}>
+                          Files
+                        </Tab>
+                        <Tab value="media" icon={<ImageMultipleRegular />}>
+                          Media
+                        </Tab>
+                        <Tab value="live" icon={<ShareScreenStartRegular />}>
+                          Live View
+                        </Tab>
+                        <Tab value="profiles" icon={<PeopleTeamRegular />}>
+                          Profiles
+                        </Tab>
+                        <Tab value="backups" icon={<ArchiveRegular />}>
+                          Backups
+                        </Tab>
                         <Tab value="settings" icon={<SettingsRegular />}>
                           Settings
                         </Tab>
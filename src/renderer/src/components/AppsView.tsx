@@ -0,0 +1,419 @@
+import React, { useCallback, useMemo, useState } from 'react'
+import {
+  Badge,
+  Button,
+  Checkbox,
+  Input,
+  Spinner,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableHeaderCell,
+  TableRow,
+  Text,
+  Title2,
+  makeStyles,
+  tokens
+} from '@fluentui/react-components'
+import {
+  ArchiveRegular,
+  ArrowClockwiseRegular,
+  DeleteRegular,
+  EraserRegular,
+  PlayRegular,
+  SearchRegular,
+  StopRegular
+} from '@fluentui/react-icons'
+import { InstalledApp } from '@shared/types'
+import { useAdb } from '../hooks/useAdb'
+import { useGames } from '../hooks/useGames'
+import { AppAction, AppActionResult, useInstalledApps } from '../hooks/useInstalledApps'
+
+type SortColumn = 'name' | 'version' | 'size' | 'installed'
+
+const ACTION_LABELS: Record<AppAction, string> = {
+  launch: 'Launched',
+  'force-stop': 'Force stopped',
+  'clear-data': 'Cleared data of',
+  backup: 'Backed up',
+  uninstall: 'Uninstalled'
+}
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL,
+    position: 'relative',
+    height: 'calc(100vh - 90px)', // Account for header height
+    overflowY: 'auto',
+    padding: tokens.spacingVerticalXL,
+    backgroundColor: tokens.colorNeutralBackground1
+  },
+  contentContainer: {
+    maxWidth: '1200px',
+    width: '100%',
+    margin: '0 auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalM
+  },
+  headerSubtitle: {
+    color: tokens.colorNeutralForeground2,
+    display: 'block'
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS
+  },
+  search: {
+    minWidth: '240px',
+    flexGrow: 1,
+    maxWidth: '360px'
+  },
+  checkboxCell: {
+    width: '44px'
+  },
+  sizeCell: {
+    textAlign: 'right'
+  },
+  muted: {
+    color: tokens.colorNeutralForeground2
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1
+  },
+  success: {
+    color: tokens.colorPaletteGreenForeground1
+  }
+})
+
+const formatSize = (bytes: number | null): string => {
+  if (bytes === null) return '–'
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
+
+const formatDate = (time: number | null): string =>
+  time === null ? '–' : new Date(time).toLocaleDateString()
+
+const describeResult = (result: AppActionResult, describe: (name: string) => string): string => {
+  const parts: string[] = []
+  if (result.succeeded.length > 0) {
+    parts.push(`${ACTION_LABELS[result.action]} ${result.succeeded.map(describe).join(', ')}`)
+  }
+  if (result.failed.length > 0) {
+    parts.push(`Failed for ${result.failed.map(describe).join(', ')}`)
+  }
+  return parts.join('. ')
+}
+
+const AppsView: React.FC = () => {
+  const styles = useStyles()
+  const { selectedDevice, loadPackages } = useAdb()
+  const { games } = useGames()
+
+  const gameNames = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const game of games) {
+      if (game.packageName) names.set(game.packageName, game.name)
+    }
+    return names
+  }, [games])
+  const cataloguePackages = useMemo(() => new Set(gameNames.keys()), [gameNames])
+
+  const {
+    apps,
+    labels,
+    sizes,
+    isLoading,
+    isMeasuringSizes,
+    error,
+    busyPackage,
+    loadApps,
+    runAction
+  } = useInstalledApps(selectedDevice, cataloguePackages)
+
+  const [search, setSearch] = useState('')
+  const [sideloadedOnly, setSideloadedOnly] = useState(false)
+  const [sortColumn, setSortColumn] = useState<SortColumn>('name')
+  const [sortAscending, setSortAscending] = useState(true)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [result, setResult] = useState<AppActionResult | null>(null)
+
+  // Catalogue name first, then the label from the APK
+  const getName = useCallback(
+    (packageName: string): string =>
+      gameNames.get(packageName) || labels.get(packageName) || packageName,
+    [gameNames, labels]
+  )
+
+  const visibleApps = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    const filtered = apps.filter((app) => {
+      if (sideloadedOnly && cataloguePackages.has(app.packageName)) return false
+      if (!query) return true
+      return (
+        getName(app.packageName).toLowerCase().includes(query) ||
+        app.packageName.toLowerCase().includes(query)
+      )
+    })
+    const compare = (a: InstalledApp, b: InstalledApp): number => {
+      switch (sortColumn) {
+        case 'version':
+          return a.versionCode - b.versionCode
+        case 'size':
+          return (sizes.get(a.packageName) ?? -1) - (sizes.get(b.packageName) ?? -1)
+        case 'installed':
+          return (a.firstInstallTime ?? 0) - (b.firstInstallTime ?? 0)
+        default:
+          return getName(a.packageName).localeCompare(getName(b.packageName))
+      }
+    }
+    return filtered.sort((a, b) => (sortAscending ? compare(a, b) : compare(b, a)))
+  }, [apps, sizes, getName, cataloguePackages, search, sideloadedOnly, sortColumn, sortAscending])
+
+  // Selection only covers apps still on the device and visible
+  const selectedApps = visibleApps.filter((app) => selected.has(app.packageName))
+  const allSelected = visibleApps.length > 0 && selectedApps.length === visibleApps.length
+  const isBusy = busyPackage !== null
+
+  const toggleSort = (column: SortColumn): void => {
+    if (sortColumn === column) {
+      setSortAscending(!sortAscending)
+    } else {
+      setSortColumn(column)
+      // Biggest and newest first is what you look for when freeing up space
+      setSortAscending(column === 'name')
+    }
+  }
+
+  const toggleSelected = (packageName: string): void => {
+    setSelected((previous) => {
+      const next = new Set(previous)
+      if (next.has(packageName)) next.delete(packageName)
+      else next.add(packageName)
+      return next
+    })
+  }
+
+  const handleAction = async (action: AppAction): Promise<void> => {
+    const packageNames = selectedApps.map((app) => app.packageName)
+    if (packageNames.length === 0) return
+    const names = selectedApps.map((app) => getName(app.packageName)).join(', ')
+    if (action === 'uninstall' && !window.confirm(`Uninstall ${names}? Save data is removed.`)) {
+      return
+    }
+    if (action === 'clear-data' && !window.confirm(`Clear all data of ${names}?`)) {
+      return
+    }
+    setResult(null)
+    const actionResult = await runAction(action, packageNames)
+    setResult(actionResult)
+    if (action === 'uninstall') {
+      setSelected(new Set())
+      // Keeps the installed state of the games list in step
+      await loadPackages()
+    }
+  }
+
+  const sortDirection = (column: SortColumn): 'ascending' | 'descending' | undefined =>
+    sortColumn === column ? (sortAscending ? 'ascending' : 'descending') : undefined
+
+  if (!selectedDevice) {
+    return (
+      <div className={styles.root}>
+        <div className={styles.contentContainer}>
+          <Title2>Apps</Title2>
+          <Text className={styles.muted}>Connect a device to manage its apps.</Text>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.contentContainer}>
+        <div>
+          <Title2>Apps</Title2>
+          <Text className={styles.headerSubtitle}>
+            Every third-party app on {selectedDevice}, including sideloaded apps that are not in the
+            catalogue.
+          </Text>
+        </div>
+
+        <div className={styles.toolbar}>
+          <Input
+            className={styles.search}
+            contentBefore={<SearchRegular />}
+            placeholder="Search apps..."
+            value={search}
+            onChange={(_, data) => setSearch(data.value)}
+          />
+          <Switch
+            label="Not in catalogue only"
+            checked={sideloadedOnly}
+            onChange={(_, data) => setSideloadedOnly(data.checked)}
+          />
+          <Button
+            icon={<ArrowClockwiseRegular />}
+            onClick={loadApps}
+            disabled={isLoading || isBusy}
+          >
+            Refresh
+          </Button>
+        </div>
+
+        <div className={styles.toolbar}>
+          <Text className={styles.muted}>{selectedApps.length} selected</Text>
+          <Button
+            icon={<PlayRegular />}
+            onClick={() => handleAction('launch')}
+            disabled={isBusy || selectedApps.length !== 1}
+            title="Launch works on one app at a time"
+          >
+            Launch
+          </Button>
+          <Button
+            icon={<StopRegular />}
+            onClick={() => handleAction('force-stop')}
+            disabled={isBusy || selectedApps.length === 0}
+          >
+            Force Stop
+          </Button>
+          <Button
+            icon={<EraserRegular />}
+            onClick={() => handleAction('clear-data')}
+            disabled={isBusy || selectedApps.length === 0}
+          >
+            Clear Data
+          </Button>
+          <Button
+            icon={<ArchiveRegular />}
+            onClick={() => handleAction('backup')}
+            disabled={isBusy || selectedApps.length === 0}
+          >
+            Back Up
+          </Button>
+          <Button
+            icon={<DeleteRegular />}
+            onClick={() => handleAction('uninstall')}
+            disabled={isBusy || selectedApps.length === 0}
+          >
+            Uninstall
+          </Button>
+          {busyPackage && <Spinner size="tiny" label={`Working on ${getName(busyPackage)}`} />}
+        </div>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+        {result && (
+          <Text className={result.failed.length > 0 ? styles.error : styles.success}>
+            {describeResult(result, getName)}
+          </Text>
+        )}
+
+        {isLoading && apps.length === 0 ? (
+          <Spinner size="small" label="Reading installed apps..." />
+        ) : visibleApps.length === 0 ? (
+          <Text className={styles.muted}>No apps match.</Text>
+        ) : (
+          <Table size="small" sortable>
+            <TableHeader>
+              <TableRow>
+                <TableHeaderCell className={styles.checkboxCell}>
+                  <Checkbox
+                    checked={allSelected ? true : selectedApps.length > 0 ? 'mixed' : false}
+                    onChange={() =>
+                      setSelected(
+                        allSelected ? new Set() : new Set(visibleApps.map((app) => app.packageName))
+                      )
+                    }
+                    aria-label="Select all apps"
+                  />
+                </TableHeaderCell>
+                <TableHeaderCell
+                  sortDirection={sortDirection('name')}
+                  onClick={() => toggleSort('name')}
+                >
+                  App
+                </TableHeaderCell>
+                <TableHeaderCell
+                  sortDirection={sortDirection('version')}
+                  onClick={() => toggleSort('version')}
+                >
+                  Version
+                </TableHeaderCell>
+                <TableHeaderCell
+                  sortDirection={sortDirection('size')}
+                  onClick={() => toggleSort('size')}
+                >
+                  Size
+                </TableHeaderCell>
+                <TableHeaderCell
+                  sortDirection={sortDirection('installed')}
+                  onClick={() => toggleSort('installed')}
+                >
+                  Installed
+                </TableHeaderCell>
+                <TableHeaderCell>Catalogue</TableHeaderCell>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleApps.map((app) => (
+                <TableRow key={app.packageName} onClick={() => toggleSelected(app.packageName)}>
+                  <TableCell className={styles.checkboxCell}>
+                    <Checkbox
+                      checked={selected.has(app.packageName)}
+                      onClick={(event) => event.stopPropagation()}
+                      onChange={() => toggleSelected(app.packageName)}
+                      aria-label={`Select ${getName(app.packageName)}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Text weight="semibold" block>
+                      {getName(app.packageName)}
+                    </Text>
+                    <Text size={200} className={styles.muted}>
+                      {app.packageName}
+                    </Text>
+                  </TableCell>
+                  <TableCell>
+                    {app.versionName ? `${app.versionName} (${app.versionCode})` : app.versionCode}
+                  </TableCell>
+                  <TableCell className={styles.sizeCell}>
+                    {isMeasuringSizes && !sizes.has(app.packageName) ? (
+                      <Spinner size="extra-tiny" />
+                    ) : (
+                      formatSize(sizes.get(app.packageName) ?? null)
+                    )}
+                  </TableCell>
+                  <TableCell title={`Last updated ${formatDate(app.lastUpdateTime)}`}>
+                    {formatDate(app.firstInstallTime)}
+                  </TableCell>
+                  <TableCell>
+                    {cataloguePackages.has(app.packageName) ? (
+                      <Badge appearance="tint" color="brand">
+                        In catalogue
+                      </Badge>
+                    ) : (
+                      <Badge appearance="tint" color="informative">
+                        Sideloaded
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default AppsView
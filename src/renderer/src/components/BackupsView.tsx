@@ -0,0 +1,393 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Card,
+  CardHeader,
+  Text,
+  Button,
+  makeStyles,
+  tokens,
+  Title2,
+  Subtitle1,
+  Dropdown,
+  Option,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+  Switch,
+  Spinner,
+  ProgressBar,
+  mergeClasses
+} from '@fluentui/react-components'
+import { ArchiveRegular, ArrowUploadRegular, DeleteRegular } from '@fluentui/react-icons'
+import { BackupContents, BackupEntry } from '@shared/types'
+import { useBackups } from '../hooks/useBackups'
+import { useAdb } from '../hooks/useAdb'
+import { useGames } from '../hooks/useGames'
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL,
+    position: 'relative',
+    height: 'calc(100vh - 90px)', // Account for header height
+    overflowY: 'auto',
+    padding: tokens.spacingVerticalXL,
+    backgroundColor: tokens.colorNeutralBackground1
+  },
+  contentContainer: {
+    maxWidth: '1200px',
+    width: '100%',
+    margin: '0 auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL
+  },
+  headerSubtitle: {
+    color: tokens.colorNeutralForeground2,
+    display: 'block'
+  },
+  card: {
+    width: '100%',
+    boxShadow: tokens.shadow4,
+    borderRadius: tokens.borderRadiusMedium
+  },
+  cardContent: {
+    padding: tokens.spacingHorizontalL,
+    paddingBottom: tokens.spacingVerticalXL
+  },
+  formRow: {
+    display: 'flex',
+    alignItems: 'center',
+    marginTop: tokens.spacingVerticalM,
+    gap: tokens.spacingHorizontalM,
+    width: '100%',
+    maxWidth: '800px'
+  },
+  input: {
+    flexGrow: 1
+  },
+  backupRow: {
+    cursor: 'pointer'
+  },
+  selectedRow: {
+    backgroundColor: tokens.colorNeutralBackground1Selected
+  },
+  progress: {
+    marginTop: tokens.spacingVerticalM,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXS,
+    maxWidth: '800px'
+  },
+  muted: {
+    color: tokens.colorNeutralForeground2
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1,
+    marginTop: tokens.spacingVerticalXS
+  },
+  success: {
+    color: tokens.colorPaletteGreenForeground1,
+    marginTop: tokens.spacingVerticalXS
+  }
+})
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
+
+const describeContents = (contents: BackupContents): string => {
+  const parts: string[] = []
+  if (contents.apk) parts.push('APK')
+  if (contents.obb) parts.push('OBB')
+  if (contents.data) parts.push('Save data')
+  return parts.join(', ')
+}
+
+const BackupsView: React.FC = () => {
+  const styles = useStyles()
+  const { backups, isLoading, error, progress, createBackup, restoreBackup, removeBackup } =
+    useBackups()
+  const { devices, selectedDevice, packages, loadingPackages } = useAdb()
+  const { games } = useGames()
+
+  const [packageToBackup, setPackageToBackup] = useState<string | null>(null)
+  const [selectedBackupId, setSelectedBackupId] = useState<string | null>(null)
+  const [targetDevice, setTargetDevice] = useState<string | null>(null)
+  const [parts, setParts] = useState<BackupContents>({ apk: true, obb: true, data: true })
+  const [message, setMessage] = useState<string | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const selectedBackup = backups.find((backup) => backup.id === selectedBackupId) ?? null
+  const connectedDevices = useMemo(
+    () => devices.filter((device) => device.type === 'device'),
+    [devices]
+  )
+  const gameNames = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const game of games) {
+      if (game.packageName) names.set(game.packageName, game.name)
+    }
+    return names
+  }, [games])
+  const sortedPackages = useMemo(
+    () =>
+      [...packages].sort((a, b) =>
+        (gameNames.get(a.packageName) ?? a.packageName).localeCompare(
+          gameNames.get(b.packageName) ?? b.packageName
+        )
+      ),
+    [packages, gameNames]
+  )
+
+  useEffect(() => {
+    if (!targetDevice && selectedDevice) setTargetDevice(selectedDevice)
+  }, [selectedDevice, targetDevice])
+
+  // Only offer the parts the picked backup actually contains
+  useEffect(() => {
+    if (selectedBackup) setParts({ ...selectedBackup.contents })
+    setMessage(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedBackupId])
+
+  const describePackage = (packageName: string): string => {
+    const name = gameNames.get(packageName)
+    return name ? `${name} (${packageName})` : packageName
+  }
+
+  const describeDevice = (deviceId: string): string => {
+    const device = connectedDevices.find((d) => d.id === deviceId)
+    return device?.friendlyModelName ? `${device.friendlyModelName} (${device.id})` : deviceId
+  }
+
+  const handleBackup = async (): Promise<void> => {
+    if (!selectedDevice || !packageToBackup) return
+    setIsBusy(true)
+    setMessage(null)
+    const backup = await createBackup(selectedDevice, packageToBackup)
+    setIsBusy(false)
+    if (backup) {
+      setSelectedBackupId(backup.id)
+      setMessage(`Backed up ${backup.gameName} (${formatSize(backup.size)})`)
+    }
+  }
+
+  const handleRestore = async (): Promise<void> => {
+    if (!selectedBackup || !targetDevice) return
+    setIsBusy(true)
+    setMessage(null)
+    const success = await restoreBackup(selectedBackup.id, targetDevice, parts)
+    setIsBusy(false)
+    if (success) {
+      setMessage(`Restored ${selectedBackup.gameName} to ${describeDevice(targetDevice)}`)
+    }
+  }
+
+  const handleDelete = async (backup: BackupEntry): Promise<void> => {
+    if (
+      !window.confirm(
+        `Delete the backup of ${backup.gameName} v${backup.versionCode} from ${new Date(backup.createdAt).toLocaleString()}?`
+      )
+    ) {
+      return
+    }
+    if ((await removeBackup(backup.id)) && backup.id === selectedBackupId) {
+      setSelectedBackupId(null)
+    }
+  }
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.contentContainer}>
+        <div>
+          <Title2>Backups</Title2>
+          <Text className={styles.headerSubtitle}>
+            Save an installed app with its OBB files and save data, then restore it to any connected
+            device.
+          </Text>
+        </div>
+
+        <Card className={styles.card}>
+          <CardHeader header={<Subtitle1>Create Backup</Subtitle1>} />
+          <div className={styles.cardContent}>
+            {!selectedDevice ? (
+              <Text className={styles.muted}>Connect a device to back up its apps.</Text>
+            ) : (
+              <div className={styles.formRow}>
+                <Dropdown
+                  className={styles.input}
+                  placeholder={loadingPackages ? 'Loading installed apps...' : 'Select an app'}
+                  value={packageToBackup ? describePackage(packageToBackup) : ''}
+                  selectedOptions={packageToBackup ? [packageToBackup] : []}
+                  onOptionSelect={(_, data) => setPackageToBackup(data.optionValue ?? null)}
+                  disabled={loadingPackages}
+                >
+                  {sortedPackages.map((pkg) => (
+                    <Option
+                      key={pkg.packageName}
+                      value={pkg.packageName}
+                      text={describePackage(pkg.packageName)}
+                    >
+                      {`${describePackage(pkg.packageName)} v${pkg.versionCode}`}
+                    </Option>
+                  ))}
+                </Dropdown>
+                <Button
+                  appearance="primary"
+                  icon={<ArchiveRegular />}
+                  onClick={handleBackup}
+                  disabled={!packageToBackup || isBusy}
+                >
+                  Back Up
+                </Button>
+              </div>
+            )}
+            {progress && (
+              <div className={styles.progress}>
+                <Text size={200}>
+                  {progress.operation === 'backup' ? 'Backing up' : 'Restoring'}{' '}
+                  {describePackage(progress.packageName)}: {progress.stage}
+                </Text>
+                <ProgressBar value={progress.progress / 100} />
+              </div>
+            )}
+            {message && <Text className={styles.success}>{message}</Text>}
+            {error && <Text className={styles.error}>{error}</Text>}
+          </div>
+        </Card>
+
+        <Card className={styles.card}>
+          <CardHeader header={<Subtitle1>Saved Backups</Subtitle1>} />
+          <div className={styles.cardContent}>
+            {isLoading ? (
+              <Spinner size="small" />
+            ) : backups.length === 0 ? (
+              <Text block className={styles.muted}>
+                No backups yet.
+              </Text>
+            ) : (
+              <Table size="small">
+                <TableHeader>
+                  <TableRow>
+                    <TableHeaderCell>Game</TableHeaderCell>
+                    <TableHeaderCell>Version</TableHeaderCell>
+                    <TableHeaderCell>Created</TableHeaderCell>
+                    <TableHeaderCell>From</TableHeaderCell>
+                    <TableHeaderCell>Contents</TableHeaderCell>
+                    <TableHeaderCell>Size</TableHeaderCell>
+                    <TableHeaderCell />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {backups.map((backup) => (
+                    <TableRow
+                      key={backup.id}
+                      className={mergeClasses(
+                        styles.backupRow,
+                        backup.id === selectedBackupId && styles.selectedRow
+                      )}
+                      onClick={() => setSelectedBackupId(backup.id)}
+                    >
+                      <TableCell title={backup.packageName}>{backup.gameName}</TableCell>
+                      <TableCell>{backup.versionCode}</TableCell>
+                      <TableCell>{new Date(backup.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{backup.sourceDeviceName ?? backup.sourceDeviceId}</TableCell>
+                      <TableCell>{describeContents(backup.contents)}</TableCell>
+                      <TableCell>{formatSize(backup.size)}</TableCell>
+                      <TableCell>
+                        <Button
+                          icon={<DeleteRegular />}
+                          appearance="subtle"
+                          aria-label="Delete backup"
+                          disabled={isBusy}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleDelete(backup)
+                          }}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </Card>
+
+        {selectedBackup && (
+          <Card className={styles.card}>
+            <CardHeader
+              header={
+                <Subtitle1>
+                  Restore {selectedBackup.gameName} v{selectedBackup.versionCode}
+                </Subtitle1>
+              }
+            />
+            <div className={styles.cardContent}>
+              <Text className={styles.muted}>
+                Installing the APK replaces the version on the device, even when it is newer.
+              </Text>
+              <div className={styles.formRow}>
+                <Switch
+                  label="APK"
+                  checked={parts.apk}
+                  disabled={!selectedBackup.contents.apk}
+                  onChange={(_, data) => setParts({ ...parts, apk: data.checked })}
+                />
+                <Switch
+                  label="OBB files"
+                  checked={parts.obb}
+                  disabled={!selectedBackup.contents.obb}
+                  onChange={(_, data) => setParts({ ...parts, obb: data.checked })}
+                />
+                <Switch
+                  label="Save data"
+                  checked={parts.data}
+                  disabled={!selectedBackup.contents.data}
+                  onChange={(_, data) => setParts({ ...parts, data: data.checked })}
+                />
+              </div>
+              <div className={styles.formRow}>
+                <Dropdown
+                  className={styles.input}
+                  placeholder="Select a device"
+                  value={targetDevice ? describeDevice(targetDevice) : ''}
+                  selectedOptions={targetDevice ? [targetDevice] : []}
+                  onOptionSelect={(_, data) => setTargetDevice(data.optionValue ?? null)}
+                >
+                  {connectedDevices.map((device) => (
+                    <Option key={device.id} value={device.id} text={describeDevice(device.id)}>
+                      {describeDevice(device.id)}
+                    </Option>
+                  ))}
+                </Dropdown>
+                <Button
+                  appearance="primary"
+                  icon={<ArrowUploadRegular />}
+                  onClick={handleRestore}
+                  disabled={
+                    !targetDevice ||
+                    !connectedDevices.some((device) => device.id === targetDevice) ||
+                    isBusy ||
+                    (!parts.apk && !parts.obb && !parts.data)
+                  }
+                >
+                  Restore
+                </Button>
+              </div>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default BackupsView
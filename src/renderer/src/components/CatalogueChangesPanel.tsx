@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react'
+import {
+  Badge,
+  Button,
+  Link,
+  Text,
+  makeStyles,
+  shorthands,
+  tokens
+} from '@fluentui/react-components'
+import { ChevronDownRegular, ChevronUpRegular, SparkleRegular } from '@fluentui/react-icons'
+import { CatalogueChange, CatalogueChanges, CatalogueChangeType } from '@shared/types'
+
+const CHANGE_BADGES: Record<
+  CatalogueChangeType,
+  { label: string; color: 'success' | 'brand' | 'danger' }
+> = {
+  added: { label: 'New', color: 'success' },
+  updated: { label: 'Updated', color: 'brand' },
+  removed: { label: 'Removed', color: 'danger' }
+}
+
+const useStyles = makeStyles({
+  root: {
+    marginBottom: tokens.spacingVerticalM,
+    ...shorthands.border(tokens.strokeWidthThin, 'solid', tokens.colorNeutralStroke2),
+    borderRadius: tokens.borderRadiusMedium,
+    backgroundColor: tokens.colorNeutralBackground2,
+    flexShrink: 0
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS,
+    ...shorthands.padding(tokens.spacingVerticalS, tokens.spacingHorizontalM)
+  },
+  title: {
+    flexGrow: 1,
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS
+  },
+  list: {
+    maxHeight: '220px',
+    overflowY: 'auto',
+    ...shorthands.padding(0, tokens.spacingHorizontalM, tokens.spacingVerticalS),
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXS
+  },
+  row: {
+    display: 'grid',
+    gridTemplateColumns: '90px 1fr auto',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS
+  },
+  version: {
+    color: tokens.colorNeutralForeground3
+  }
+})
+
+const formatVersion = (change: CatalogueChange): string =>
+  change.type === 'updated' && change.previousVersion !== change.version
+    ? `v${change.previousVersion} → v${change.version}`
+    : `v${change.version}`
+
+interface CatalogueChangesPanelProps {
+  catalogueChanges: CatalogueChanges | null
+  // Called with the game name when a change is clicked, to find it in the list
+  onSelect: (name: string) => void
+}
+
+const CatalogueChangesPanel: React.FC<CatalogueChangesPanelProps> = ({
+  catalogueChanges,
+  onSelect
+}) => {
+  const styles = useStyles()
+  const [expanded, setExpanded] = useState(false)
+
+  const counts = useMemo(() => {
+    const result: Record<CatalogueChangeType, number> = { added: 0, updated: 0, removed: 0 }
+    for (const change of catalogueChanges?.changes ?? []) result[change.type]++
+    return result
+  }, [catalogueChanges])
+
+  // Nothing to compare against before the second sync
+  if (!catalogueChanges?.previousSyncedAt) return null
+
+  const { changes, previousSyncedAt } = catalogueChanges
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.header}>
+        <div className={styles.title}>
+          <SparkleRegular />
+          <Text weight="semibold">What&apos;s new since last sync</Text>
+          {changes.length === 0 ? (
+            <Text className={styles.version}>
+              No changes since {new Date(previousSyncedAt).toLocaleString()}
+            </Text>
+          ) : (
+            (Object.keys(CHANGE_BADGES) as CatalogueChangeType[])
+              .filter((type) => counts[type] > 0)
+              .map((type) => (
+                <Badge key={type} appearance="tint" color={CHANGE_BADGES[type].color}>
+                  {counts[type]} {CHANGE_BADGES[type].label.toLowerCase()}
+                </Badge>
+              ))
+          )}
+        </div>
+        {changes.length > 0 && (
+          <Button
+            appearance="subtle"
+            size="small"
+            icon={expanded ? <ChevronUpRegular /> : <ChevronDownRegular />}
+            iconPosition="after"
+            onClick={() => setExpanded(!expanded)}
+          >
+            {expanded ? 'Hide' : 'Show'}
+          </Button>
+        )}
+      </div>
+      {expanded && changes.length > 0 && (
+        <div className={styles.list}>
+          {changes.map((change) => (
+            <div key={`${change.type}-${change.packageName}`} className={styles.row}>
+              <Badge appearance="outline" color={CHANGE_BADGES[change.type].color}>
+                {CHANGE_BADGES[change.type].label}
+              </Badge>
+              {change.type === 'removed' ? (
+                <Text>{change.name}</Text>
+              ) : (
+                <Link onClick={() => onSelect(change.name)}>{change.name}</Link>
+              )}
+              <Text size={200} className={styles.version}>
+                {formatVersion(change)}
+              </Text>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CatalogueChangesPanel
@@ -0,0 +1,319 @@
+import React, { useMemo } from 'react'
+import {
+  Card,
+  CardHeader,
+  Text,
+  Button,
+  makeStyles,
+  tokens,
+  Title2,
+  Subtitle1,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+  Spinner,
+  ProgressBar
+} from '@fluentui/react-components'
+import {
+  Battery10Regular,
+  BatteryChargeRegular,
+  HardDriveRegular,
+  HeadsetVrRegular,
+  XboxControllerRegular,
+  ArrowSyncRegular
+} from '@fluentui/react-icons'
+import { ChargingSource } from '@shared/types'
+import { useAdb } from '../hooks/useAdb'
+import { useGames } from '../hooks/useGames'
+import { useDeviceDashboard } from '../hooks/useDeviceDashboard'
+
+// Free space below this share of the disk is shown as a warning
+const LOW_STORAGE_RATIO = 0.1
+
+const CHARGING_SOURCE_LABELS: Record<ChargingSource, string> = {
+  ac: 'AC adapter',
+  usb: 'USB',
+  wireless: 'Wireless'
+}
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL,
+    position: 'relative',
+    height: 'calc(100vh - 90px)', // Account for header height
+    overflowY: 'auto',
+    padding: tokens.spacingVerticalXL,
+    backgroundColor: tokens.colorNeutralBackground1
+  },
+  contentContainer: {
+    maxWidth: '1200px',
+    width: '100%',
+    margin: '0 auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL
+  },
+  headerSubtitle: {
+    color: tokens.colorNeutralForeground2,
+    display: 'block'
+  },
+  statsGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(240px, 1fr))',
+    gap: tokens.spacingHorizontalL
+  },
+  card: {
+    width: '100%',
+    boxShadow: tokens.shadow4,
+    borderRadius: tokens.borderRadiusMedium
+  },
+  cardContent: {
+    padding: tokens.spacingHorizontalL,
+    paddingTop: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXS
+  },
+  value: {
+    fontSize: tokens.fontSizeHero700,
+    lineHeight: tokens.lineHeightHero700,
+    fontWeight: tokens.fontWeightSemibold
+  },
+  muted: {
+    color: tokens.colorNeutralForeground2
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1
+  },
+  breakdownHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalM,
+    marginBottom: tokens.spacingVerticalM
+  },
+  sizeCell: {
+    textAlign: 'right'
+  },
+  shareCell: {
+    width: '160px'
+  }
+})
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes === 0) return '–'
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
+
+const DeviceDashboardView: React.FC = () => {
+  const styles = useStyles()
+  const { selectedDevice, selectedDeviceDetails } = useAdb()
+  const { games } = useGames()
+  const { telemetry, error, storageUsage, isMeasuringStorage, measureStorage } =
+    useDeviceDashboard(selectedDevice)
+
+  const gameNames = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const game of games) {
+      if (game.packageName) names.set(game.packageName, game.name)
+    }
+    return names
+  }, [games])
+
+  const storageUsed =
+    telemetry?.storageTotalBytes != null && telemetry.storageFreeBytes != null
+      ? telemetry.storageTotalBytes - telemetry.storageFreeBytes
+      : null
+  const isStorageLow =
+    telemetry?.storageTotalBytes != null &&
+    telemetry.storageFreeBytes != null &&
+    telemetry.storageFreeBytes < telemetry.storageTotalBytes * LOW_STORAGE_RATIO
+  const largestPackage = storageUsage?.[0]?.totalBytes ?? 0
+
+  if (!selectedDevice) {
+    return (
+      <div className={styles.root}>
+        <div className={styles.contentContainer}>
+          <Title2>Device</Title2>
+          <Text className={styles.muted}>Connect a device to see its status.</Text>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.contentContainer}>
+        <div>
+          <Title2>{selectedDeviceDetails?.friendlyModelName ?? 'Device'}</Title2>
+          <Text className={styles.headerSubtitle}>
+            Live status of {selectedDevice}, refreshed every few seconds.
+          </Text>
+          {error && <Text className={styles.error}>{error}</Text>}
+        </div>
+
+        {!telemetry ? (
+          <Spinner size="small" label="Reading device status..." />
+        ) : (
+          <div className={styles.statsGrid}>
+            <Card className={styles.card}>
+              <CardHeader
+                image={telemetry.isCharging ? <BatteryChargeRegular /> : <Battery10Regular />}
+                header={<Subtitle1>Battery</Subtitle1>}
+              />
+              <div className={styles.cardContent}>
+                <Text className={styles.value}>
+                  {telemetry.batteryLevel != null ? `${telemetry.batteryLevel}%` : 'Unknown'}
+                </Text>
+                {telemetry.batteryLevel != null && (
+                  <ProgressBar
+                    value={telemetry.batteryLevel / 100}
+                    color={telemetry.batteryLevel <= 20 ? 'error' : 'brand'}
+                  />
+                )}
+                <Text className={styles.muted}>
+                  {telemetry.isCharging
+                    ? `Charging${telemetry.chargingSource ? ` via ${CHARGING_SOURCE_LABELS[telemetry.chargingSource]}` : ''}`
+                    : 'Not charging'}
+                  {telemetry.temperature != null && ` · ${telemetry.temperature.toFixed(1)} °C`}
+                </Text>
+              </div>
+            </Card>
+
+            <Card className={styles.card}>
+              <CardHeader image={<HardDriveRegular />} header={<Subtitle1>Storage</Subtitle1>} />
+              <div className={styles.cardContent}>
+                <Text className={styles.value}>
+                  {telemetry.storageFreeBytes != null
+                    ? `${formatSize(telemetry.storageFreeBytes)} free`
+                    : 'Unknown'}
+                </Text>
+                {storageUsed != null && telemetry.storageTotalBytes && (
+                  <>
+                    <ProgressBar
+                      value={storageUsed / telemetry.storageTotalBytes}
+                      color={isStorageLow ? 'error' : 'brand'}
+                    />
+                    <Text className={styles.muted}>
+                      {formatSize(storageUsed)} of {formatSize(telemetry.storageTotalBytes)} used
+                    </Text>
+                  </>
+                )}
+              </div>
+            </Card>
+
+            <Card className={styles.card}>
+              <CardHeader image={<HeadsetVrRegular />} header={<Subtitle1>Headset</Subtitle1>} />
+              <div className={styles.cardContent}>
+                <Text weight="semibold">{telemetry.model ?? 'Unknown model'}</Text>
+                <Text className={styles.muted}>Build: {telemetry.osBuild ?? 'unknown'}</Text>
+                <Text className={styles.muted}>
+                  Android {telemetry.androidVersion ?? 'unknown'}
+                </Text>
+              </div>
+            </Card>
+
+            <Card className={styles.card}>
+              <CardHeader
+                image={<XboxControllerRegular />}
+                header={<Subtitle1>Controllers</Subtitle1>}
+              />
+              <div className={styles.cardContent}>
+                {telemetry.controllers.length === 0 ? (
+                  <Text className={styles.muted}>No controllers reported</Text>
+                ) : (
+                  telemetry.controllers.map((controller) => (
+                    <Text key={controller.side}>
+                      {controller.side === 'unknown'
+                        ? 'Controller'
+                        : `${controller.side === 'left' ? 'Left' : 'Right'} controller`}
+                      :{' '}
+                      {controller.batteryLevel != null ? `${controller.batteryLevel}%` : 'unknown'}
+                    </Text>
+                  ))
+                )}
+              </div>
+            </Card>
+          </div>
+        )}
+
+        <Card className={styles.card}>
+          <CardHeader header={<Subtitle1>Storage by App</Subtitle1>} />
+          <div className={styles.cardContent}>
+            <div className={styles.breakdownHeader}>
+              <Button
+                icon={isMeasuringStorage ? <Spinner size="tiny" /> : <ArrowSyncRegular />}
+                onClick={measureStorage}
+                disabled={isMeasuringStorage}
+              >
+                {storageUsage ? 'Measure Again' : 'Measure Storage'}
+              </Button>
+              <Text className={styles.muted}>
+                Size of each app&apos;s APK, OBB files and data folder, largest first.
+              </Text>
+            </div>
+            {storageUsage &&
+              (storageUsage.length === 0 ? (
+                <Text className={styles.muted}>No app folders could be read on this device.</Text>
+              ) : (
+                <Table size="small">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHeaderCell>App</TableHeaderCell>
+                      <TableHeaderCell className={styles.sizeCell}>APK</TableHeaderCell>
+                      <TableHeaderCell className={styles.sizeCell}>OBB</TableHeaderCell>
+                      <TableHeaderCell className={styles.sizeCell}>Data</TableHeaderCell>
+                      <TableHeaderCell className={styles.sizeCell}>Total</TableHeaderCell>
+                      <TableHeaderCell className={styles.shareCell} />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {storageUsage.map((usage) => (
+                      <TableRow key={usage.packageName}>
+                        <TableCell>
+                          <Text weight="semibold">
+                            {gameNames.get(usage.packageName) ?? usage.packageName}
+                          </Text>
+                          {gameNames.has(usage.packageName) && (
+                            <Text size={200} className={styles.muted}>
+                              {' '}
+                              {usage.packageName}
+                            </Text>
+                          )}
+                        </TableCell>
+                        <TableCell className={styles.sizeCell}>
+                          {formatSize(usage.apkBytes)}
+                        </TableCell>
+                        <TableCell className={styles.sizeCell}>
+                          {formatSize(usage.obbBytes)}
+                        </TableCell>
+                        <TableCell className={styles.sizeCell}>
+                          {formatSize(usage.dataBytes)}
+                        </TableCell>
+                        <TableCell className={styles.sizeCell}>
+                          <Text weight="semibold">{formatSize(usage.totalBytes)}</Text>
+                        </TableCell>
+                        <TableCell className={styles.shareCell}>
+                          <ProgressBar
+                            value={largestPackage > 0 ? usage.totalBytes / largestPackage : 0}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ))}
+          </div>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default DeviceDashboardView
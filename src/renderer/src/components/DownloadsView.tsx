@@ -1,7 +1,8 @@
-import React, { useMemo, useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { useDownload } from '../hooks/useDownload'
 import { useAdb } from '../hooks/useAdb'
 import { DownloadItem } from '@shared/types'
+import { getThumbnailUrl } from '@shared/thumbnails'
 import {
   makeStyles,
   tokens,
@@ -12,19 +13,34 @@ import {
   Image,
   Badge,
   Dropdown,
-  Option
+  Option,
+  mergeClasses
 } from '@fluentui/react-components'
 import {
   DeleteRegular,
   DismissRegular as CloseIcon,
   ArrowCounterclockwiseRegular as RetryIcon,
   ArrowDownloadRegular as DownloadInstallIcon,
-  BroomRegular as UninstallIcon
+  BroomRegular as UninstallIcon,
+  FlagRegular,
+  FlagFilled,
+  ReOrderDotsVerticalRegular as DragHandleIcon,
+  ClockRegular as ScheduleIcon,
+  ArrowSplitRegular as InstallToDevicesIcon,
+  ScriptRegular as InstallScriptIcon
 } from '@fluentui/react-icons'
-import { formatDistanceToNow } from 'date-fns'
+import { format, formatDistanceToNow } from 'date-fns'
 import placeholderImage from '../assets/images/game-placeholder.png'
 import { useGames } from '@renderer/hooks/useGames'
 import { useGameDialog } from '@renderer/hooks/useGameDialog'
+import { useSettings } from '@renderer/hooks/useSettings'
+import InstallToDevicesDialog from './InstallToDevicesDialog'
+import InstallScriptDialog from './InstallScriptDialog'
+import {
+  getActiveScheduleRule,
+  getNextDownloadWindow,
+  getNextScheduleChange
+} from '@shared/bandwidth-schedule'
 
 const useStyles = makeStyles({
   root: {
@@ -56,6 +72,15 @@ const useStyles = makeStyles({
     paddingBottom: tokens.spacingVerticalM,
     borderBottom: `${tokens.strokeWidthThin} solid ${tokens.colorNeutralStroke2}`
   },
+  draggableRow: {
+    cursor: 'grab'
+  },
+  dropTargetRow: {
+    boxShadow: `inset 0 ${tokens.strokeWidthThick} 0 ${tokens.colorBrandStroke1}`
+  },
+  dragHandle: {
+    color: tokens.colorNeutralForeground3
+  },
   thumbnail: {
     width: '60px',
     height: '60px',
@@ -96,6 +121,14 @@ const useStyles = makeStyles({
     color: tokens.colorPaletteRedForeground1,
     fontSize: tokens.fontSizeBase200
   },
+  scheduleNotice: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS,
+    padding: `${tokens.spacingVerticalS} ${tokens.spacingHorizontalM}`,
+    borderRadius: tokens.borderRadiusMedium,
+    backgroundColor: tokens.colorNeutralBackground3
+  },
   statusText: {
     fontSize: tokens.fontSizeBase200,
     color: tokens.colorNeutralForeground2
@@ -108,12 +141,52 @@ interface DownloadsViewProps {
 
 const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
   const styles = useStyles()
-  const { queue, isLoading, error, removeFromQueue, cancelDownload, retryDownload } = useDownload()
+  const {
+    queue,
+    isLoading,
+    error,
+    removeFromQueue,
+    cancelDownload,
+    retryDownload,
+    moveItem,
+    setPriority
+  } = useDownload()
   const { selectedDevice, isConnected, loadPackages } = useAdb()
   const { games } = useGames()
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [_, setDialogGame] = useGameDialog()
-  const [sortBy, setSortBy] = useState<'date' | 'name' | 'size'>('date')
+  const { bandwidthSchedule } = useSettings()
+  const [now, setNow] = useState(() => new Date())
+  const [sortBy, setSortBy] = useState<'queue' | 'date' | 'name' | 'size'>('queue')
+  const [draggedRelease, setDraggedRelease] = useState<string | null>(null)
+  const [dropTargetRelease, setDropTargetRelease] = useState<string | null>(null)
+  const [installTargetRelease, setInstallTargetRelease] = useState<string | null>(null)
+  const [scriptPreviewRelease, setScriptPreviewRelease] = useState<string | null>(null)
+
+  // Re-evaluate the bandwidth schedule once a minute
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const scheduleNotice = useMemo((): string | null => {
+    if (!bandwidthSchedule.enabled || bandwidthSchedule.rules.length === 0) return null
+    const formatWindow = (date: Date): string =>
+      `${format(date, 'EEE HH:mm')} (${formatDistanceToNow(date, { addSuffix: true })})`
+
+    const activeRule = getActiveScheduleRule(bandwidthSchedule, now)
+    const nextChange = getNextScheduleChange(bandwidthSchedule, now)
+    if (activeRule?.speedLimit === 0) {
+      const nextWindow = getNextDownloadWindow(bandwidthSchedule, now)
+      return nextWindow
+        ? `Downloads paused by schedule. Next window opens ${formatWindow(nextWindow)}`
+        : 'Downloads paused by schedule. No download window this week'
+    }
+    if (activeRule) {
+      return `Scheduled limit ${activeRule.speedLimit} KB/s${nextChange ? ` until ${formatWindow(nextChange)}` : ''}`
+    }
+    return nextChange ? `Next scheduled window starts ${formatWindow(nextChange)}` : null
+  }, [bandwidthSchedule, now])
 
   const formatAddedTime = (timestamp: number): string => {
     try {
@@ -137,12 +210,15 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
     return map
   }, [games])
 
-  const resolveItemSize = (item: DownloadItem): string | undefined => {
-    if (item.size && item.size.trim().length > 0) {
-      return item.size
-    }
-    return gameSizeByRelease.get(item.releaseName) || gameSizeByRelease.get(item.packageName)
-  }
+  const resolveItemSize = useCallback(
+    (item: DownloadItem): string | undefined => {
+      if (item.size && item.size.trim().length > 0) {
+        return item.size
+      }
+      return gameSizeByRelease.get(item.releaseName) || gameSizeByRelease.get(item.packageName)
+    },
+    [gameSizeByRelease]
+  )
 
   const formatSize = (size?: string): string => {
     if (!size || size.trim().length === 0) return 'Unknown size'
@@ -173,6 +249,8 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
     const copy = [...queue]
     if (sortBy === 'name') {
       copy.sort((a, b) => a.gameName.localeCompare(b.gameName))
+    } else if (sortBy === 'queue') {
+      copy.sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
     } else if (sortBy === 'size') {
       copy.sort(
         (a, b) =>
@@ -182,7 +260,18 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
       copy.sort((a, b) => b.addedDate - a.addedDate)
     }
     return copy
-  }, [queue, sortBy, gameSizeByRelease])
+  }, [queue, sortBy, resolveItemSize])
+
+  // Reordering only makes sense while the list mirrors the actual queue order
+  const canReorder = sortBy === 'queue'
+
+  const handleDrop = (target: DownloadItem): void => {
+    const source = draggedRelease
+    setDraggedRelease(null)
+    setDropTargetRelease(null)
+    if (!source || source === target.releaseName || target.position === undefined) return
+    moveItem(source, target.position)
+  }
 
   const handleInstallFromCompleted = (releaseName: string): void => {
     if (!releaseName || !selectedDevice) {
@@ -248,6 +337,12 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
 
   return (
     <div className={styles.root}>
+      {scheduleNotice && (
+        <div className={styles.scheduleNotice}>
+          <ScheduleIcon />
+          <Text size={200}>{scheduleNotice}</Text>
+        </div>
+      )}
       {queue.length === 0 ? (
         <Text>Download queue is empty.</Text>
       ) : (
@@ -259,16 +354,25 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
               <Dropdown
                 className={styles.sortDropdown}
                 value={
-                  sortBy === 'name' ? 'Name' : sortBy === 'size' ? 'Size' : 'Date Added'
+                  sortBy === 'queue'
+                    ? 'Queue Order'
+                    : sortBy === 'name'
+                      ? 'Name'
+                      : sortBy === 'size'
+                        ? 'Size'
+                        : 'Date Added'
                 }
                 selectedOptions={[sortBy]}
                 onOptionSelect={(_, data) => {
                   if (data.optionValue) {
-                    setSortBy(data.optionValue as 'date' | 'name' | 'size')
+                    setSortBy(data.optionValue as 'queue' | 'date' | 'name' | 'size')
                   }
                 }}
                 placeholder="Sort by..."
               >
+                <Option value="queue" text="Queue Order">
+                  Queue Order
+                </Option>
                 <Option value="date" text="Date Added">
                   Date Added
                 </Option>
@@ -282,10 +386,38 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
             </div>
           </div>
           {sortedQueue.map((item) => (
-              <div key={item.releaseName} className={styles.itemRow}>
+              <div
+                key={item.releaseName}
+                className={mergeClasses(
+                  styles.itemRow,
+                  canReorder && styles.draggableRow,
+                  dropTargetRelease === item.releaseName && styles.dropTargetRow
+                )}
+                draggable={canReorder}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggedRelease(item.releaseName)
+                }}
+                onDragOver={(e) => {
+                  if (!draggedRelease) return
+                  e.preventDefault()
+                  setDropTargetRelease(item.releaseName)
+                }}
+                onDragLeave={() => setDropTargetRelease(null)}
+                onDrop={(e) => {
+                  e.preventDefault()
+                  handleDrop(item)
+                }}
+                onDragEnd={() => {
+                  setDraggedRelease(null)
+                  setDropTargetRelease(null)
+                }}
+              >
                 {/* Thumbnail */}
                 <Image
-                  src={item.thumbnailPath ? `file://${item.thumbnailPath}` : placeholderImage}
+                  src={
+                    item.thumbnailPath ? getThumbnailUrl(item.thumbnailPath, 120) : placeholderImage
+                  }
                   alt={`${item.gameName} thumbnail`}
                   className={styles.thumbnail}
                   shape="rounded"
@@ -307,7 +439,13 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
                   }}
                 >
                   <div className={styles.gameNameRow}>
+                    {canReorder && <DragHandleIcon className={styles.dragHandle} />}
                     <Text weight="semibold">{item.gameName}</Text>
+                    {item.priority === 'high' && (
+                      <Badge appearance="tint" color="important" size="small">
+                        Priority
+                      </Badge>
+                    )}
                     {isInstalled(item.releaseName) && (
                       <Badge
                         appearance="filled"
@@ -326,6 +464,25 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
                     Added: {formatAddedTime(item.addedDate)} · Size:{' '}
                     {formatSize(resolveItemSize(item))}
                   </Text>
+                  {item.saveDataReports
+                    ?.filter((report) => report.outcome !== 'not-found')
+                    .map((report) => (
+                      <Text
+                        key={`${report.deviceId}-${report.timestamp}`}
+                        size={200}
+                        title={report.localPath}
+                        style={{
+                          color:
+                            report.outcome === 'preserved'
+                              ? tokens.colorPaletteGreenForeground1
+                              : report.outcome === 'failed'
+                                ? tokens.colorPaletteRedForeground1
+                                : tokens.colorNeutralForeground3
+                        }}
+                      >
+                        Save data: {report.message}
+                      </Text>
+                    ))}
                 </div>
                 {/* Progress / Status */}
                 <div className={styles.progressStatus}>
@@ -346,6 +503,17 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
                         )}
                     </>
                   )}
+                  {item.status === 'Verifying' && (
+                    <>
+                      <ProgressBar
+                        value={(item.verifyProgress || 0) / 100}
+                        className={styles.progressBar}
+                      />
+                      <Text className={styles.statusText}>
+                        Verifying... {item.verifyProgress || 0}%
+                      </Text>
+                    </>
+                  )}
                   {/* Added Extraction Progress Display */}
                   {item.status === 'Extracting' && (
                     <>
@@ -358,13 +526,34 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
                       </Text>
                     </>
                   )}
-                  {item.status === 'Installing' && (
+                  {item.status === 'Installing' && !item.deviceInstalls && (
                     <Text className={styles.statusText}>Installing...</Text>
                   )}
+                  {item.status === 'Installing' && item.deviceInstalls && (
+                    <>
+                      <ProgressBar value={item.progress / 100} className={styles.progressBar} />
+                      <Text className={styles.statusText}>
+                        Installing on {Object.keys(item.deviceInstalls).length} devices...{' '}
+                        {item.progress}%
+                      </Text>
+                    </>
+                  )}
                   {item.status === 'Queued' && <Text className={styles.statusText}>Queued</Text>}
                   {item.status === 'Completed' && (
                     <Text style={{ color: tokens.colorPaletteGreenForeground1 }}>Completed</Text>
                   )}
+                  {item.verified === false &&
+                    (item.status === 'Extracting' ||
+                      item.status === 'Installing' ||
+                      item.status === 'Completed') && (
+                      <Text
+                        size={200}
+                        className={styles.statusText}
+                        title="No checksums were found for this release, its files could not be checked"
+                      >
+                        Not verified
+                      </Text>
+                    )}
                   {item.status === 'Cancelled' && (
                     <Text className={styles.statusText}>Cancelled</Text>
                   )}
@@ -429,6 +618,7 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
                   {/* Cancel Button */}
                   {(item.status === 'Queued' ||
                     item.status === 'Downloading' ||
+                    item.status === 'Verifying' ||
                     item.status === 'Extracting' ||
                     item.status === 'Installing') && (
                     <Button
@@ -441,6 +631,46 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
                     />
                   )}
 
+                  {/* Install to multiple devices */}
+                  {(item.status === 'Completed' ||
+                    item.status === 'InstallError' ||
+                    (item.status === 'Installing' && item.deviceInstalls)) && (
+                    <Button
+                      icon={<InstallToDevicesIcon />}
+                      aria-label="Install to devices"
+                      size="small"
+                      appearance="subtle"
+                      onClick={() => setInstallTargetRelease(item.releaseName)}
+                      title="Install to…"
+                    />
+                  )}
+
+                  {/* Install script dry run */}
+                  {(item.status === 'Completed' || item.status === 'InstallError') && (
+                    <Button
+                      icon={<InstallScriptIcon />}
+                      aria-label="Show install script"
+                      size="small"
+                      appearance="subtle"
+                      onClick={() => setScriptPreviewRelease(item.releaseName)}
+                      title="Install script"
+                    />
+                  )}
+
+                  {/* Priority Toggle */}
+                  {(item.status === 'Queued' || item.status === 'Paused') && (
+                    <Button
+                      icon={item.priority === 'high' ? <FlagFilled /> : <FlagRegular />}
+                      aria-label="Toggle high priority"
+                      size="small"
+                      appearance="subtle"
+                      onClick={() =>
+                        setPriority(item.releaseName, item.priority === 'high' ? 'normal' : 'high')
+                      }
+                      title={item.priority === 'high' ? 'Remove priority' : 'Download next'}
+                    />
+                  )}
+
                   {/* Retry Button */}
                   {(item.status === 'Cancelled' ||
                     item.status === 'Error' ||
@@ -475,6 +705,20 @@ const DownloadsView: React.FC<DownloadsViewProps> = ({ onClose }) => {
             ))}
         </div>
       )}
+      {installTargetRelease && (
+        <InstallToDevicesDialog
+          item={queue.find((item) => item.releaseName === installTargetRelease) ?? null}
+          onClose={() => setInstallTargetRelease(null)}
+        />
+      )}
+      {scriptPreviewRelease && (
+        <InstallScriptDialog
+          item={queue.find((item) => item.releaseName === scriptPreviewRelease) ?? null}
+          canInstall={isConnected && !!selectedDevice}
+          onInstall={handleInstallFromCompleted}
+          onClose={() => setScriptPreviewRelease(null)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,489 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Breadcrumb,
+  BreadcrumbButton,
+  BreadcrumbDivider,
+  BreadcrumbItem,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogContent,
+  DialogSurface,
+  DialogTitle,
+  Input,
+  ProgressBar,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableHeader,
+  TableHeaderCell,
+  TableRow,
+  Text,
+  Title2,
+  makeStyles,
+  mergeClasses,
+  shorthands,
+  tokens
+} from '@fluentui/react-components'
+import {
+  ArrowClockwiseRegular,
+  ArrowDownloadRegular,
+  ArrowExportLtrRegular,
+  ArrowUpRegular,
+  DeleteRegular,
+  DocumentRegular,
+  FolderAddRegular,
+  FolderRegular,
+  ImageRegular,
+  RenameRegular,
+  VideoRegular
+} from '@fluentui/react-icons'
+import { DeviceFileEntry } from '@shared/types'
+import { useAdb } from '../hooks/useAdb'
+import { DEVICE_FILES_ROOT, useDeviceFiles } from '../hooks/useDeviceFiles'
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif']
+const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.webm', '.mov']
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL,
+    position: 'relative',
+    height: 'calc(100vh - 90px)', // Account for header height
+    overflowY: 'auto',
+    padding: tokens.spacingVerticalXL,
+    backgroundColor: tokens.colorNeutralBackground1
+  },
+  contentContainer: {
+    maxWidth: '1200px',
+    width: '100%',
+    margin: '0 auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalM
+  },
+  headerSubtitle: {
+    color: tokens.colorNeutralForeground2,
+    display: 'block'
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS
+  },
+  dropZone: {
+    minHeight: '240px',
+    borderRadius: tokens.borderRadiusMedium,
+    ...shorthands.border(tokens.strokeWidthThick, 'dashed', 'transparent'),
+    padding: tokens.spacingHorizontalXS
+  },
+  dropZoneActive: {
+    ...shorthands.borderColor(tokens.colorBrandStroke1),
+    backgroundColor: tokens.colorBrandBackground2
+  },
+  checkboxCell: {
+    width: '44px'
+  },
+  nameCell: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS
+  },
+  folderRow: {
+    cursor: 'pointer'
+  },
+  preparedRow: {
+    cursor: 'grab',
+    backgroundColor: tokens.colorBrandBackground2
+  },
+  sizeCell: {
+    textAlign: 'right',
+    width: '120px'
+  },
+  dateCell: {
+    width: '200px'
+  },
+  progress: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXS
+  },
+  muted: {
+    color: tokens.colorNeutralForeground2
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1
+  }
+})
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
+
+const fileIcon = (entry: DeviceFileEntry): React.ReactElement => {
+  if (entry.isDirectory) return <FolderRegular />
+  const extension = entry.name.slice(entry.name.lastIndexOf('.')).toLowerCase()
+  if (IMAGE_EXTENSIONS.includes(extension)) return <ImageRegular />
+  if (VIDEO_EXTENSIONS.includes(extension)) return <VideoRegular />
+  return <DocumentRegular />
+}
+
+// Asks for a file or folder name, used to create and rename
+const NameDialog: React.FC<{
+  title: string
+  initialName: string
+  confirmLabel: string
+  onConfirm: (name: string) => void
+  onClose: () => void
+}> = ({ title, initialName, confirmLabel, onConfirm, onClose }) => {
+  const [name, setName] = useState(initialName)
+  const isValid = name.trim().length > 0 && !name.includes('/')
+  const submit = (): void => {
+    if (isValid) onConfirm(name.trim())
+  }
+
+  return (
+    <Dialog open onOpenChange={(_, data) => !data.open && onClose()}>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogContent>
+            <Input
+              value={name}
+              onChange={(_, data) => setName(data.value)}
+              onKeyDown={(event) => event.key === 'Enter' && submit()}
+              style={{ width: '100%' }}
+              autoFocus
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button appearance="primary" onClick={submit} disabled={!isValid}>
+              {confirmLabel}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  )
+}
+
+const FilesView: React.FC = () => {
+  const styles = useStyles()
+  const { selectedDevice } = useAdb()
+  const {
+    currentPath,
+    entries,
+    isLoading,
+    error,
+    progress,
+    isTransferring,
+    openFolder,
+    refresh,
+    upload,
+    download,
+    preparedPaths,
+    prepareDrag,
+    dragOut,
+    rename,
+    remove,
+    createFolder
+  } = useDeviceFiles(selectedDevice)
+
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isDragOver, setIsDragOver] = useState(false)
+  const [nameDialog, setNameDialog] = useState<'create' | 'rename' | null>(null)
+
+  // Folders first, then by name
+  const sortedEntries = useMemo(
+    () =>
+      [...entries].sort((a, b) =>
+        a.isDirectory !== b.isDirectory
+          ? a.isDirectory
+            ? -1
+            : 1
+          : a.name.localeCompare(b.name, undefined, { numeric: true })
+      ),
+    [entries]
+  )
+  const selectedEntries = sortedEntries.filter((entry) => selected.has(entry.path))
+  const allSelected = sortedEntries.length > 0 && selectedEntries.length === sortedEntries.length
+
+  useEffect(() => {
+    setSelected(new Set())
+  }, [currentPath, selectedDevice])
+
+  // Path segments below the root, each one a breadcrumb
+  const crumbs = useMemo(() => {
+    const relative = currentPath.slice(DEVICE_FILES_ROOT.length).split('/').filter(Boolean)
+    return relative.map((name, index) => ({
+      name,
+      path: `${DEVICE_FILES_ROOT}/${relative.slice(0, index + 1).join('/')}`
+    }))
+  }, [currentPath])
+
+  const goUp = (): void => {
+    if (currentPath === DEVICE_FILES_ROOT) return
+    openFolder(currentPath.slice(0, currentPath.lastIndexOf('/')) || DEVICE_FILES_ROOT)
+  }
+
+  const toggleSelected = (path: string): void => {
+    setSelected((previous) => {
+      const next = new Set(previous)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }
+
+  const handleDrop = async (event: React.DragEvent<HTMLDivElement>): Promise<void> => {
+    event.preventDefault()
+    setIsDragOver(false)
+    if (isTransferring) return
+    const localPaths = Array.from(event.dataTransfer.files)
+      .map((file) => window.api.deviceFiles.getPathForFile(file))
+      .filter(Boolean)
+    await upload(localPaths)
+  }
+
+  // The OS drag has to start right away, so it hands out the copies made by Prepare Drag.
+  // Dragging any prepared entry takes all of them along.
+  const handleDragStart = (event: React.DragEvent): void => {
+    event.preventDefault()
+    dragOut()
+  }
+
+  const handleDelete = async (): Promise<void> => {
+    const names = selectedEntries.map((entry) => entry.name).join(', ')
+    if (!window.confirm(`Delete ${names} from the device? This cannot be undone.`)) return
+    await remove(selectedEntries.map((entry) => entry.path))
+    setSelected(new Set())
+  }
+
+  const handleNameConfirm = async (name: string): Promise<void> => {
+    setNameDialog(null)
+    if (nameDialog === 'create') {
+      await createFolder(name)
+    } else if (nameDialog === 'rename' && selectedEntries.length === 1) {
+      await rename(selectedEntries[0].path, name)
+      setSelected(new Set())
+    }
+  }
+
+  if (!selectedDevice) {
+    return (
+      <div className={styles.root}>
+        <div className={styles.contentContainer}>
+          <Title2>Files</Title2>
+          <Text className={styles.muted}>Connect a device to browse its files.</Text>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.contentContainer}>
+        <div>
+          <Title2>Files</Title2>
+          <Text className={styles.headerSubtitle}>
+            Browse the shared storage of {selectedDevice}. Drop files or folders from your computer
+            onto the list to copy them into the open folder. To drag entries out of the list, select
+            them and use Prepare Drag first, they are copied to your computer before you drag them.
+          </Text>
+        </div>
+
+        <Breadcrumb aria-label="Current folder">
+          <BreadcrumbItem>
+            <BreadcrumbButton
+              onClick={() => openFolder(DEVICE_FILES_ROOT)}
+              current={crumbs.length === 0}
+            >
+              sdcard
+            </BreadcrumbButton>
+          </BreadcrumbItem>
+          {crumbs.map((crumb, index) => (
+            <React.Fragment key={crumb.path}>
+              <BreadcrumbDivider />
+              <BreadcrumbItem>
+                <BreadcrumbButton
+                  onClick={() => openFolder(crumb.path)}
+                  current={index === crumbs.length - 1}
+                >
+                  {crumb.name}
+                </BreadcrumbButton>
+              </BreadcrumbItem>
+            </React.Fragment>
+          ))}
+        </Breadcrumb>
+
+        <div className={styles.toolbar}>
+          <Button
+            icon={<ArrowUpRegular />}
+            onClick={goUp}
+            disabled={currentPath === DEVICE_FILES_ROOT}
+          >
+            Up
+          </Button>
+          <Button icon={<ArrowClockwiseRegular />} onClick={refresh} disabled={isLoading}>
+            Refresh
+          </Button>
+          <Button
+            icon={<FolderAddRegular />}
+            onClick={() => setNameDialog('create')}
+            disabled={isTransferring}
+          >
+            New Folder
+          </Button>
+          <Button
+            icon={<ArrowDownloadRegular />}
+            onClick={() => download(selectedEntries.map((entry) => entry.path))}
+            disabled={isTransferring || selectedEntries.length === 0}
+          >
+            Download
+          </Button>
+          <Button
+            icon={<ArrowExportLtrRegular />}
+            onClick={() => prepareDrag(selectedEntries.map((entry) => entry.path))}
+            disabled={isTransferring || selectedEntries.length === 0}
+          >
+            Prepare Drag
+          </Button>
+          <Button
+            icon={<RenameRegular />}
+            onClick={() => setNameDialog('rename')}
+            disabled={isTransferring || selectedEntries.length !== 1}
+          >
+            Rename
+          </Button>
+          <Button
+            icon={<DeleteRegular />}
+            onClick={handleDelete}
+            disabled={isTransferring || selectedEntries.length === 0}
+          >
+            Delete
+          </Button>
+        </div>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+        {isTransferring && (
+          <div className={styles.progress}>
+            <Text size={200}>
+              {progress
+                ? `${progress.operation === 'upload' ? 'Uploading' : 'Downloading'} ${progress.fileName} (${progress.completedFiles + 1} of ${progress.totalFiles}), ${formatSize(progress.transferredBytes)} of ${formatSize(progress.totalBytes)}`
+                : 'Preparing transfer...'}
+            </Text>
+            <ProgressBar
+              value={
+                progress && progress.totalBytes > 0
+                  ? progress.transferredBytes / progress.totalBytes
+                  : undefined
+              }
+            />
+          </div>
+        )}
+
+        <div
+          className={mergeClasses(styles.dropZone, isDragOver && styles.dropZoneActive)}
+          onDragOver={(event) => {
+            event.preventDefault()
+            event.dataTransfer.dropEffect = 'copy'
+            setIsDragOver(true)
+          }}
+          onDragLeave={() => setIsDragOver(false)}
+          onDrop={handleDrop}
+        >
+          {isLoading && entries.length === 0 ? (
+            <Spinner size="small" label="Reading folder..." />
+          ) : sortedEntries.length === 0 ? (
+            <Text className={styles.muted}>This folder is empty. Drop files here to upload.</Text>
+          ) : (
+            <Table size="small">
+              <TableHeader>
+                <TableRow>
+                  <TableHeaderCell className={styles.checkboxCell}>
+                    <Checkbox
+                      checked={allSelected ? true : selectedEntries.length > 0 ? 'mixed' : false}
+                      onChange={() =>
+                        setSelected(
+                          allSelected
+                            ? new Set()
+                            : new Set(sortedEntries.map((entry) => entry.path))
+                        )
+                      }
+                      aria-label="Select all"
+                    />
+                  </TableHeaderCell>
+                  <TableHeaderCell>Name</TableHeaderCell>
+                  <TableHeaderCell className={styles.sizeCell}>Size</TableHeaderCell>
+                  <TableHeaderCell className={styles.dateCell}>Modified</TableHeaderCell>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedEntries.map((entry) => (
+                  <TableRow
+                    key={entry.path}
+                    className={mergeClasses(
+                      entry.isDirectory && styles.folderRow,
+                      preparedPaths.includes(entry.path) && styles.preparedRow
+                    )}
+                    draggable={!isTransferring && preparedPaths.includes(entry.path)}
+                    onDragStart={handleDragStart}
+                    onDoubleClick={() => entry.isDirectory && openFolder(entry.path)}
+                  >
+                    <TableCell className={styles.checkboxCell}>
+                      <Checkbox
+                        checked={selected.has(entry.path)}
+                        onChange={() => toggleSelected(entry.path)}
+                        aria-label={`Select ${entry.name}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className={styles.nameCell}>
+                        {fileIcon(entry)}
+                        {entry.isDirectory ? (
+                          <Button appearance="transparent" onClick={() => openFolder(entry.path)}>
+                            {entry.name}
+                          </Button>
+                        ) : (
+                          <Text>{entry.name}</Text>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className={styles.sizeCell}>
+                      {entry.isDirectory ? '' : formatSize(entry.size)}
+                    </TableCell>
+                    <TableCell className={styles.dateCell}>
+                      {new Date(entry.modifiedAt).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+
+      {nameDialog && (
+        <NameDialog
+          title={nameDialog === 'create' ? 'New Folder' : 'Rename'}
+          initialName={nameDialog === 'rename' ? (selectedEntries[0]?.name ?? '') : ''}
+          confirmLabel={nameDialog === 'create' ? 'Create' : 'Rename'}
+          onConfirm={handleNameConfirm}
+          onClose={() => setNameDialog(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+export default FilesView
@@ -30,6 +30,10 @@ import {
   InfoRegular,
   CheckmarkCircleRegular,
   VideoRegular,
+  StarRegular,
+  StarFilled,
+  PeopleRegular,
+  HandRightRegular,
   BroomRegular as UninstallIcon
 } from '@fluentui/react-icons'
 import placeholderImage from '../assets/images/game-placeholder.png'
@@ -220,7 +224,12 @@ const GameDetailsDialog: React.FC<GameDetailsDialogProps> = ({
   isBusy
 }) => {
   const styles = useStyles()
-  const { getTrailerVideoId: getTrailerVideoIdFromContext } = useGames()
+  const {
+    getTrailerVideoId: getTrailerVideoIdFromContext,
+    watchlist,
+    toggleWatchlist,
+    dismissWatchlistRelease
+  } = useGames()
   const [currentGameNote, setCurrentGameNote] = useState<string | null>(null)
   const [loadingNote, setLoadingNote] = useState<boolean>(false)
   const [videoId, setVideoId] = useState<string | null>(null)
@@ -305,7 +314,11 @@ const GameDetailsDialog: React.FC<GameDetailsDialogProps> = ({
   // Helper function to render action buttons based on game state
   const renderActionButtons = (currentGame: GameInfo): React.ReactNode => {
     const status = downloadStatusMap.get(currentGame.releaseName || '')?.status
-    const canCancel = status === 'Downloading' || status === 'Extracting' || status === 'Queued'
+    const canCancel =
+      status === 'Downloading' ||
+      status === 'Verifying' ||
+      status === 'Extracting' ||
+      status === 'Queued'
     const isDownloaded = status === 'Completed'
     const isInstalled = currentGame.isInstalled
     const hasUpdate = currentGame.hasUpdate
@@ -439,7 +452,13 @@ const GameDetailsDialog: React.FC<GameDetailsDialogProps> = ({
     )
   }
 
+  const watchlistEntry = watchlist.find((entry) => entry.packageName === game?.packageName)
+
   const handleClose = (): void => {
+    // Having opened the game counts as seeing its new release
+    if (watchlistEntry?.newRelease) {
+      dismissWatchlistRelease(watchlistEntry.packageName)
+    }
     onClose()
   }
 
@@ -527,7 +546,26 @@ const GameDetailsDialog: React.FC<GameDetailsDialogProps> = ({
                             Update Available
                           </Badge>
                         )}
+                        {watchlistEntry?.newRelease && (
+                          <Badge shape="rounded" color="important" appearance="filled">
+                            New release v{watchlistEntry.newRelease.version}
+                          </Badge>
+                        )}
                       </div>
+                      <Button
+                        appearance="subtle"
+                        size="small"
+                        icon={watchlistEntry ? <StarFilled /> : <StarRegular />}
+                        onClick={() => toggleWatchlist(game.packageName)}
+                        disabled={!game.packageName}
+                        title={
+                          watchlistEntry
+                            ? 'Stop watching this game for new releases'
+                            : 'Get notified when this game gets a new release'
+                        }
+                      >
+                        {watchlistEntry ? 'Watching' : 'Watch'}
+                      </Button>
                       <div className={styles.inlineInfo}>
                         <DocumentDataRegular fontSize={16} />
                         <Text size={300}>{game.size || '-'}</Text>
@@ -565,6 +603,29 @@ const GameDetailsDialog: React.FC<GameDetailsDialogProps> = ({
                       <CalendarClockRegular fontSize={16} />
                       <Text>{game.lastUpdated || '-'}</Text>
                     </div>
+                    {game.metadata && (
+                      <div className={styles.badgeGroup} style={{ flexWrap: 'wrap' }}>
+                        {game.metadata.genres.map((genre) => (
+                          <Badge key={genre} appearance="tint" shape="rounded">
+                            {genre}
+                          </Badge>
+                        ))}
+                        {game.metadata.multiplayer && (
+                          <Badge appearance="outline" shape="rounded" icon={<PeopleRegular />}>
+                            Multiplayer
+                          </Badge>
+                        )}
+                        {game.metadata.handTracking && (
+                          <Badge appearance="outline" shape="rounded" icon={<HandRightRegular />}>
+                            Hand tracking
+                          </Badge>
+                        )}
+                        {game.metadata.releaseDate && (
+                          <Text size={200}>Released {game.metadata.releaseDate}</Text>
+                        )}
+                      </div>
+                    )}
+                    {game.metadata?.description && <Text>{game.metadata.description}</Text>}
                   </div>
                 </div>
               </div>
@@ -651,10 +712,11 @@ const GameDetailsDialog: React.FC<GameDetailsDialogProps> = ({
                     const status = downloadStatusMap.get(game.releaseName || '')?.status
                     const progress = downloadStatusMap.get(game.releaseName || '')?.progress || 0
                     const isDownloading = status === 'Downloading'
+                    const isVerifying = status === 'Verifying'
                     const isExtracting = status === 'Extracting'
                     const isInstalling = status === 'Installing'
 
-                    if (isDownloading || isExtracting || isInstalling) {
+                    if (isDownloading || isVerifying || isExtracting || isInstalling) {
                       return (
                         <>
                           <div
@@ -0,0 +1,159 @@
+import React, { useMemo } from 'react'
+import {
+  Button,
+  Dropdown,
+  Option,
+  ToggleButton,
+  makeStyles,
+  tokens
+} from '@fluentui/react-components'
+import { DismissRegular, HandRightRegular } from '@fluentui/react-icons'
+import { GameFacetFilters, GameInfo, PlayerModeFacet } from '@shared/types'
+import { EMPTY_GAME_FACETS, hasActiveFacets } from '@shared/game-facets'
+
+const PLAYER_MODES: { value: PlayerModeFacet; label: string }[] = [
+  { value: 'any', label: 'Any players' },
+  { value: 'single', label: 'Single player' },
+  { value: 'multi', label: 'Multiplayer' }
+]
+
+const SIZE_LIMITS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Any size' },
+  { value: 500, label: 'Under 500 MB' },
+  { value: 1024, label: 'Under 1 GB' },
+  { value: 2048, label: 'Under 2 GB' },
+  { value: 5120, label: 'Under 5 GB' },
+  { value: 10240, label: 'Under 10 GB' }
+]
+
+const RATING_LIMITS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Any rating' },
+  { value: 60, label: '3+ stars' },
+  { value: 80, label: '4+ stars' },
+  { value: 90, label: '4.5+ stars' }
+]
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS,
+    marginBottom: tokens.spacingVerticalS,
+    flexShrink: 0
+  },
+  dropdown: {
+    minWidth: '150px'
+  }
+})
+
+interface GameFacetsBarProps {
+  games: GameInfo[]
+  value: GameFacetFilters
+  onChange: (value: GameFacetFilters) => void
+}
+
+const GameFacetsBar: React.FC<GameFacetsBarProps> = ({ games, value, onChange }) => {
+  const styles = useStyles()
+
+  // Genres offered are the ones present in the list, most common first
+  const genres = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const game of games) {
+      for (const genre of game.metadata?.genres ?? []) {
+        counts.set(genre, (counts.get(genre) ?? 0) + 1)
+      }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  }, [games])
+
+  const hasRatings = useMemo(
+    () => games.some((game) => game.metadata?.rating !== undefined),
+    [games]
+  )
+
+  const update = (changes: Partial<GameFacetFilters>): void => onChange({ ...value, ...changes })
+
+  return (
+    <div className={styles.root}>
+      {genres.length > 0 && (
+        <Dropdown
+          className={styles.dropdown}
+          multiselect
+          placeholder="Any genre"
+          value={value.genres.join(', ')}
+          selectedOptions={value.genres}
+          onOptionSelect={(_, data) => update({ genres: data.selectedOptions })}
+        >
+          {genres.map(([genre, count]) => (
+            <Option key={genre} value={genre} text={genre}>
+              {`${genre} (${count})`}
+            </Option>
+          ))}
+        </Dropdown>
+      )}
+      <Dropdown
+        className={styles.dropdown}
+        value={PLAYER_MODES.find((mode) => mode.value === value.playerMode)?.label}
+        selectedOptions={[value.playerMode]}
+        onOptionSelect={(_, data) =>
+          data.optionValue && update({ playerMode: data.optionValue as PlayerModeFacet })
+        }
+      >
+        {PLAYER_MODES.map((mode) => (
+          <Option key={mode.value} value={mode.value}>
+            {mode.label}
+          </Option>
+        ))}
+      </Dropdown>
+      <Dropdown
+        className={styles.dropdown}
+        value={SIZE_LIMITS.find((limit) => limit.value === value.maxSizeMb)?.label}
+        selectedOptions={[String(value.maxSizeMb)]}
+        onOptionSelect={(_, data) =>
+          update({ maxSizeMb: data.optionValue === 'null' ? null : Number(data.optionValue) })
+        }
+      >
+        {SIZE_LIMITS.map((limit) => (
+          <Option key={String(limit.value)} value={String(limit.value)}>
+            {limit.label}
+          </Option>
+        ))}
+      </Dropdown>
+      {hasRatings && (
+        <Dropdown
+          className={styles.dropdown}
+          value={RATING_LIMITS.find((limit) => limit.value === value.minRating)?.label}
+          selectedOptions={[String(value.minRating)]}
+          onOptionSelect={(_, data) =>
+            update({ minRating: data.optionValue === 'null' ? null : Number(data.optionValue) })
+          }
+        >
+          {RATING_LIMITS.map((limit) => (
+            <Option key={String(limit.value)} value={String(limit.value)}>
+              {limit.label}
+            </Option>
+          ))}
+        </Dropdown>
+      )}
+      <ToggleButton
+        icon={<HandRightRegular />}
+        checked={value.handTracking}
+        onClick={() => update({ handTracking: !value.handTracking })}
+      >
+        Hand tracking
+      </ToggleButton>
+      {hasActiveFacets(value) && (
+        <Button
+          appearance="subtle"
+          icon={<DismissRegular />}
+          onClick={() => onChange(EMPTY_GAME_FACETS)}
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export default GameFacetsBar
@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Row } from '@tanstack/react-table'
+import { useVirtualizer } from '@tanstack/react-virtual'
+import { Badge, ProgressBar, Text, makeStyles, tokens } from '@fluentui/react-components'
+import { GameInfo } from '@shared/types'
+import { getThumbnailUrl } from '@shared/thumbnails'
+import placeholderImage from '../assets/images/game-placeholder.png'
+
+const CARD_WIDTH = 180
+const CARD_HEIGHT = 270
+const CARD_GAP = 12
+
+// Download states that show a progress bar on the card
+const ACTIVE_STATUSES = ['Downloading', 'Verifying', 'Extracting', 'Installing']
+
+const useStyles = makeStyles({
+  container: {
+    overflowY: 'auto',
+    flexGrow: 1,
+    marginTop: tokens.spacingVerticalS,
+    position: 'relative'
+  },
+  gridRow: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    width: '100%',
+    display: 'flex',
+    gap: `${CARD_GAP}px`,
+    paddingLeft: `${CARD_GAP}px`,
+    boxSizing: 'border-box'
+  },
+  card: {
+    width: `${CARD_WIDTH}px`,
+    height: `${CARD_HEIGHT - CARD_GAP}px`,
+    display: 'flex',
+    flexDirection: 'column',
+    borderRadius: tokens.borderRadiusMedium,
+    overflow: 'hidden',
+    cursor: 'pointer',
+    backgroundColor: tokens.colorNeutralBackground2,
+    boxShadow: tokens.shadow4,
+    ':hover': {
+      boxShadow: tokens.shadow16
+    }
+  },
+  cover: {
+    position: 'relative',
+    width: '100%',
+    height: `${CARD_WIDTH}px`,
+    flexShrink: 0
+  },
+  coverImage: {
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover',
+    display: 'block'
+  },
+  badges: {
+    position: 'absolute',
+    top: tokens.spacingVerticalXS,
+    left: tokens.spacingHorizontalXS,
+    right: tokens.spacingHorizontalXS,
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalXXS
+  },
+  progress: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0
+  },
+  details: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXXS,
+    padding: tokens.spacingHorizontalS,
+    minWidth: 0
+  },
+  name: {
+    overflow: 'hidden',
+    display: '-webkit-box',
+    WebkitLineClamp: 2,
+    WebkitBoxOrient: 'vertical'
+  },
+  meta: {
+    color: tokens.colorNeutralForeground3
+  }
+})
+
+interface GamesGridProps {
+  rows: Row<GameInfo>[]
+  downloadStatusMap: Map<string, { status: string; progress: number }>
+  onSelect: (game: GameInfo) => void
+}
+
+const GamesGrid: React.FC<GamesGridProps> = ({ rows, downloadStatusMap, onSelect }) => {
+  const styles = useStyles()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [columnCount, setColumnCount] = useState(1)
+
+  // Cards per row follow the width of the view
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    const updateColumns = (): void => {
+      const width = container.clientWidth - CARD_GAP
+      setColumnCount(Math.max(1, Math.floor(width / (CARD_WIDTH + CARD_GAP))))
+    }
+    updateColumns()
+    const resizeObserver = new ResizeObserver(() => window.requestAnimationFrame(updateColumns))
+    resizeObserver.observe(container)
+    return () => resizeObserver.disconnect()
+  }, [])
+
+  const rowCount = Math.ceil(rows.length / columnCount)
+  const rowVirtualizer = useVirtualizer({
+    count: rowCount,
+    getScrollElement: () => containerRef.current,
+    estimateSize: () => CARD_HEIGHT,
+    overscan: 2
+  })
+
+  const renderBadges = (game: GameInfo): React.ReactNode => {
+    const status = game.releaseName ? downloadStatusMap.get(game.releaseName)?.status : undefined
+    return (
+      <div className={styles.badges}>
+        {game.isInstalled && (
+          <Badge shape="rounded" color="success" appearance="filled">
+            Installed
+          </Badge>
+        )}
+        {game.hasUpdate && (
+          <Badge shape="rounded" color="warning" appearance="filled">
+            Update
+          </Badge>
+        )}
+        {status === 'Completed' && !game.isInstalled && (
+          <Badge shape="rounded" color="informative" appearance="filled">
+            Ready to install
+          </Badge>
+        )}
+        {status === 'Queued' && (
+          <Badge shape="rounded" color="informative" appearance="filled">
+            Queued
+          </Badge>
+        )}
+        {status && ACTIVE_STATUSES.includes(status) && (
+          <Badge shape="rounded" color="brand" appearance="filled">
+            {status}
+          </Badge>
+        )}
+        {status === 'InstallError' && (
+          <Badge shape="rounded" color="danger" appearance="filled">
+            Install Error
+          </Badge>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.container} ref={containerRef}>
+      <div style={{ height: `${rowVirtualizer.getTotalSize()}px`, position: 'relative' }}>
+        {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+          const start = virtualRow.index * columnCount
+          return (
+            <div
+              key={virtualRow.key}
+              className={styles.gridRow}
+              style={{
+                height: `${virtualRow.size}px`,
+                transform: `translateY(${virtualRow.start + CARD_GAP}px)`
+              }}
+            >
+              {rows.slice(start, start + columnCount).map((row) => {
+                const game = row.original
+                const downloadInfo = game.releaseName
+                  ? downloadStatusMap.get(game.releaseName)
+                  : undefined
+                return (
+                  <div
+                    key={row.id}
+                    className={styles.card}
+                    onClick={() => onSelect(game)}
+                    title={game.releaseName || game.name}
+                  >
+                    <div className={styles.cover}>
+                      <img
+                        src={
+                          game.thumbnailPath
+                            ? getThumbnailUrl(game.thumbnailPath, CARD_WIDTH * 2)
+                            : placeholderImage
+                        }
+                        alt={`${game.name} cover`}
+                        className={styles.coverImage}
+                        loading="lazy"
+                        decoding="async"
+                      />
+                      {renderBadges(game)}
+                      {downloadInfo && ACTIVE_STATUSES.includes(downloadInfo.status) && (
+                        <ProgressBar
+                          className={styles.progress}
+                          value={downloadInfo.progress}
+                          max={100}
+                          thickness="large"
+                          aria-label={`${downloadInfo.status} progress`}
+                        />
+                      )}
+                    </div>
+                    <div className={styles.details}>
+                      <Text weight="semibold" className={styles.name}>
+                        {game.name}
+                      </Text>
+                      <Text size={200} className={styles.meta}>
+                        {[game.version ? `v${game.version}` : '', game.size]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </Text>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default GamesGrid
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react'
+import React, { useState, useMemo, useEffect, useRef, useCallback, useDeferredValue } from 'react'
 import {
   useReactTable,
   getCoreRowModel,
@@ -16,7 +16,16 @@ import { useVirtualizer } from '@tanstack/react-virtual'
 import { useAdb } from '../hooks/useAdb'
 import { useGames } from '../hooks/useGames'
 import { useDownload } from '../hooks/useDownload'
-import { GameInfo } from '@shared/types'
+import { GameFacetFilters, GameInfo } from '@shared/types'
+import { EMPTY_GAME_FACETS, hasActiveFacets, matchesGameFacets } from '@shared/game-facets'
+import {
+  GameQueryField,
+  GameQueryTerm,
+  matchesGameQueryTerm,
+  parseGameQuery
+} from '@shared/game-query'
+import { buildGameSearchIndex, searchGames } from '@shared/game-search'
+import { getThumbnailUrl } from '@shared/thumbnails'
 import placeholderImage from '../assets/images/game-placeholder.png'
 import {
   Button,
@@ -39,7 +48,9 @@ import {
   DialogBody,
   DialogTitle,
   DialogContent,
-  DialogActions
+  DialogActions,
+  Dropdown,
+  Option
 } from '@fluentui/react-components'
 import { Tooltip } from '@fluentui/react-components'
 import {
@@ -58,12 +69,22 @@ import {
   FolderAddRegular,
   DocumentRegular,
   ChevronDownRegular,
-  CopyRegular
+  CopyRegular,
+  StarFilled,
+  ArrowSyncRegular,
+  GridRegular,
+  TableRegular,
+  CloudOffRegular
 } from '@fluentui/react-icons'
 import { ArrowLeftRegular } from '@fluentui/react-icons'
 import GameDetailsDialog from './GameDetailsDialog'
+import GamesGrid from './GamesGrid'
 import { useGameDialog } from '@renderer/hooks/useGameDialog'
+import { useSettings } from '@renderer/hooks/useSettings'
 import MirrorSelector from './MirrorSelector'
+import CatalogueChangesPanel from './CatalogueChangesPanel'
+import GameFacetsBar from './GameFacetsBar'
+import SavedQueriesMenu from './SavedQueriesMenu'
 
 // Column width constants
 const COLUMN_WIDTHS = {
@@ -85,25 +106,68 @@ const FIXED_COLUMNS_WIDTH =
   COLUMN_WIDTHS.SIZE +
   COLUMN_WIDTHS.LAST_UPDATED
 
-type FilterType = 'all' | 'installed' | 'downloaded' | 'update'
-
-const filterGameNameAndPackage: FilterFn<GameInfo> = (row, _columnId, filterValue) => {
-  const searchStr = String(filterValue).toLowerCase()
-  const gameName = String(row.original.name ?? '').toLowerCase()
-  const packageName = String(row.original.packageName ?? '').toLowerCase()
-  const releaseName = String(row.original.releaseName ?? '').toLowerCase()
-  return (
-    gameName.includes(searchStr) ||
-    packageName.includes(searchStr) ||
-    releaseName.includes(searchStr)
-  )
+type FilterType = 'all' | 'installed' | 'downloaded' | 'update' | 'watched'
+
+// Column each search field is filtered on. Installed and update status get a hidden column of
+// their own, the status columns are driven by the filter buttons.
+const QUERY_FIELD_COLUMNS: Record<GameQueryField, string> = {
+  name: 'name',
+  pkg: 'name',
+  release: 'name',
+  genre: 'name',
+  size: 'size',
+  downloads: 'downloads',
+  version: 'version',
+  updated: 'lastUpdated',
+  installed: 'queryStatus',
+  update: 'queryStatus'
+}
+const QUERY_COLUMN_IDS = new Set(Object.values(QUERY_FIELD_COLUMNS))
+
+const SEARCH_SYNTAX_HELP =
+  'Words match name, package or release and tolerate typos. Fields: name:, pkg:, release:, genre:, size:<2GB, ' +
+  'downloads:>50, version:>=100, updated:>2024-01-01, installed:yes, update:yes. ' +
+  'Use * as a wildcard, "quotes" for exact phrases and a leading - to exclude.'
+
+// The grid has no column headers, its sort order is picked from a list instead
+const GRID_SORT_OPTIONS: { value: string; label: string; sorting: SortingState }[] = [
+  { value: 'name-asc', label: 'Name (A-Z)', sorting: [{ id: 'name', desc: false }] },
+  { value: 'name-desc', label: 'Name (Z-A)', sorting: [{ id: 'name', desc: true }] },
+  { value: 'downloads-desc', label: 'Most popular', sorting: [{ id: 'downloads', desc: true }] },
+  {
+    value: 'lastUpdated-desc',
+    label: 'Recently updated',
+    sorting: [{ id: 'lastUpdated', desc: true }]
+  },
+  { value: 'size-asc', label: 'Smallest first', sorting: [{ id: 'size', desc: false }] },
+  { value: 'size-desc', label: 'Largest first', sorting: [{ id: 'size', desc: true }] }
+]
+
+// Without a sort picked by the user, search results are ranked by relevance
+const RELEVANCE_SORTING: SortingState = [{ id: 'relevance', desc: true }]
+
+interface GameSearchFilter {
+  // Free text matched as written: quoted phrases, wildcards and exclusions
+  terms: GameQueryTerm[]
+  // Ranked fuzzy matches of the remaining words, null when there are none
+  scores: Map<GameInfo, number> | null
 }
 
+const gameQueryFilter: FilterFn<GameInfo> = (row, _columnId, terms: GameQueryTerm[]) =>
+  terms.every((term) => matchesGameQueryTerm(row.original, term))
+
+const gameSearchFilter: FilterFn<GameInfo> = (row, _columnId, filterValue: GameSearchFilter) =>
+  (!filterValue.scores || filterValue.scores.has(row.original)) &&
+  filterValue.terms.every((term) => matchesGameQueryTerm(row.original, term))
+
 const booleanEqualsFilter: FilterFn<GameInfo> = (row, columnId, filterValue) => {
   if (filterValue === undefined) return true
   return row.getValue(columnId) === filterValue
 }
 
+const gameFacetsFilter: FilterFn<GameInfo> = (row, _columnId, filterValue: GameFacetFilters) =>
+  matchesGameFacets(row.original, filterValue)
+
 const renderPopularityStars = (value: number): React.ReactNode => {
   const normalized = Math.max(0, Math.min(100, value))
   const rating = (normalized / 100) * 5
@@ -141,7 +205,10 @@ const renderPopularityStars = (value: number): React.ReactNode => {
 
 declare module '@tanstack/react-table' {
   interface FilterFns {
-    gameNameAndPackageFilter: FilterFn<GameInfo>
+    booleanEquals: FilterFn<GameInfo>
+    gameFacets: FilterFn<GameInfo>
+    gameQuery: FilterFn<GameInfo>
+    gameSearch: FilterFn<GameInfo>
   }
 }
 
@@ -292,8 +359,11 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
     isLoading: loadingGames,
     error: gamesError,
     lastSyncTime,
-    downloadProgress,
-    extractProgress,
+    catalogueChanges,
+    catalogueStatus,
+    watchlist,
+    isSyncing,
+    syncProgress,
     refreshGames,
     getNote
   } = useGames()
@@ -304,12 +374,31 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
     retryDownload,
     deleteFiles
   } = useDownload()
+  const { gamesViewMode, setGamesViewMode } = useSettings()
 
   const styles = useStyles()
 
   const [globalFilter, setGlobalFilter] = useState('')
   const [sorting, setSorting] = useState<SortingState>([])
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
+  const [facetFilters, setFacetFilters] = useState<GameFacetFilters>(EMPTY_GAME_FACETS)
+  // Filtering thousands of rows trails the input so typing stays responsive
+  const deferredQuery = useDeferredValue(globalFilter)
+  const parsedQuery = useMemo(() => parseGameQuery(deferredQuery), [deferredQuery])
+  // Built once per game list, bare words are looked up in it with typo tolerance
+  const searchIndex = useMemo(() => buildGameSearchIndex(games), [games])
+  const searchFilter = useMemo<GameSearchFilter | undefined>(() => {
+    const textTerms = parsedQuery.terms.filter((term) => term.field === null)
+    const isFuzzy = (term: GameQueryTerm): boolean =>
+      !term.quoted && !term.negated && !term.value.includes('*')
+    const fuzzyText = textTerms
+      .filter(isFuzzy)
+      .map((term) => term.value)
+      .join(' ')
+    const terms = textTerms.filter((term) => !isFuzzy(term))
+    if (!fuzzyText && terms.length === 0) return undefined
+    return { terms, scores: fuzzyText ? searchGames(searchIndex, fuzzyText) : null }
+  }, [parsedQuery, searchIndex])
   const [activeFilter, setActiveFilter] = useState<FilterType>('all')
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [dialogGame, setDialogGame] = useGameDialog()
@@ -320,6 +409,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
   const [isEditingUserName, setIsEditingUserName] = useState<boolean>(false)
   const [editUserNameValue, setEditUserNameValue] = useState<string>('')
   const [isManualInstalling, setIsManualInstalling] = useState<boolean>(false)
+  const [isUpdatingAll, setIsUpdatingAll] = useState<boolean>(false)
   const [installStatusMessage, setInstallStatusMessage] = useState<string>('')
   const [showInstallDialog, setShowInstallDialog] = useState<boolean>(false)
   const [installSuccess, setInstallSuccess] = useState<boolean | null>(null)
@@ -331,7 +421,11 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
     downloadQueue.forEach((item) => {
       if (item.releaseName) {
         const progress =
-          item.status === 'Extracting' ? (item.extractProgress ?? 0) : (item.progress ?? 0)
+          item.status === 'Extracting'
+            ? (item.extractProgress ?? 0)
+            : item.status === 'Verifying'
+              ? (item.verifyProgress ?? 0)
+              : (item.progress ?? 0)
         map.set(item.releaseName, {
           status: item.status,
           progress: progress
@@ -341,6 +435,11 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
     return map
   }, [downloadQueue])
 
+  const watchlistMap = useMemo(
+    () => new Map(watchlist.map((entry) => [entry.packageName, entry])),
+    [watchlist]
+  )
+
   const counts = useMemo(() => {
     const total = games.length
     const installed = games.filter((g) => g.isInstalled).length
@@ -349,13 +448,18 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       if (!g.releaseName || g.isInstalled) return false
       return downloadStatusMap.get(g.releaseName)?.status === 'Completed'
     }).length
-    return { total, installed, downloaded, updates }
-  }, [games, downloadStatusMap])
+    const watched = games.filter((g) => watchlistMap.has(g.packageName)).length
+    return { total, installed, downloaded, updates, watched }
+  }, [games, downloadStatusMap, watchlistMap])
 
   useEffect(() => {
     setColumnFilters((prev) => {
       const otherFilters = prev.filter(
-        (f) => f.id !== 'isInstalled' && f.id !== 'hasUpdate' && f.id !== 'isDownloaded'
+        (f) =>
+          f.id !== 'isInstalled' &&
+          f.id !== 'hasUpdate' &&
+          f.id !== 'isDownloaded' &&
+          f.id !== 'isWatched'
       )
       switch (activeFilter) {
         case 'installed':
@@ -372,6 +476,8 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
             { id: 'isInstalled', value: true },
             { id: 'hasUpdate', value: true }
           ]
+        case 'watched':
+          return [...otherFilters, { id: 'isWatched', value: true }]
         case 'all':
         default:
           return otherFilters
@@ -379,6 +485,32 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
     })
   }, [activeFilter])
 
+  // Field terms of the search query become column filters, grouped by column
+  useEffect(() => {
+    setColumnFilters((prev) => {
+      const otherFilters = prev.filter((f) => !QUERY_COLUMN_IDS.has(f.id))
+      const termsByColumn = new Map<string, GameQueryTerm[]>()
+      for (const term of parsedQuery.terms) {
+        if (!term.field) continue
+        const columnId = QUERY_FIELD_COLUMNS[term.field]
+        termsByColumn.set(columnId, [...(termsByColumn.get(columnId) ?? []), term])
+      }
+      return [
+        ...otherFilters,
+        ...[...termsByColumn].map(([columnId, terms]) => ({ id: columnId, value: terms }))
+      ]
+    })
+  }, [parsedQuery])
+
+  useEffect(() => {
+    setColumnFilters((prev) => {
+      const otherFilters = prev.filter((f) => f.id !== 'facets')
+      return hasActiveFacets(facetFilters)
+        ? [...otherFilters, { id: 'facets', value: facetFilters }]
+        : otherFilters
+    })
+  }, [facetFilters])
+
   useEffect(() => {
     const unsubscribe = window.api.adb.onInstallationCompleted((deviceId) => {
       console.log(`[GamesView] Received installation-completed event for device: ${deviceId}`)
@@ -434,7 +566,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       resizeObserver.unobserve(currentRef)
       window.removeEventListener('resize', handleResize)
     }
-  }, [])
+  }, [gamesViewMode])
 
   const columns = useMemo<ColumnDef<GameInfo>[]>(() => {
     // Calculate dynamic width for name column, with a minimum width
@@ -507,9 +639,15 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
           return (
             <div className="game-thumbnail-cell">
               <img
-                src={imagePath ? `file://${imagePath}` : placeholderImage}
+                src={
+                  imagePath
+                    ? getThumbnailUrl(imagePath, COLUMN_WIDTHS.THUMBNAIL * 2)
+                    : placeholderImage
+                }
                 alt="Thumbnail"
                 className="game-thumbnail-img"
+                loading="lazy"
+                decoding="async"
               />
             </div>
           )
@@ -518,6 +656,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       },
       {
         accessorKey: 'name',
+        filterFn: 'gameQuery',
         header: 'Name / Package',
         size: nameColumnWidth > 0 ? nameColumnWidth : COLUMN_WIDTHS.MIN_NAME_PACKAGE,
         cell: ({ row }) => {
@@ -526,10 +665,12 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
             ? downloadStatusMap.get(game.releaseName)
             : undefined
           const isDownloading = downloadInfo?.status === 'Downloading'
+          const isVerifying = downloadInfo?.status === 'Verifying'
           const isExtracting = downloadInfo?.status === 'Extracting'
           const isQueued = downloadInfo?.status === 'Queued'
           const isInstalling = downloadInfo?.status === 'Installing'
           const isInstallError = downloadInfo?.status === 'InstallError'
+          const watchlistEntry = watchlistMap.get(game.packageName)
 
           return (
             <div
@@ -544,19 +685,40 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
             >
               <div style={{ marginBottom: tokens.spacingVerticalXS }}>
                 {' '}
-                <div className="game-name-main">{game.name}</div>
+                <div
+                  style={{ display: 'flex', alignItems: 'center', gap: tokens.spacingHorizontalXS }}
+                >
+                  <div className="game-name-main">{game.name}</div>
+                  {watchlistEntry && (
+                    <Tooltip content="Watched for new releases" relationship="label">
+                      <StarFilled fontSize={14} color={tokens.colorPaletteYellowForeground2} />
+                    </Tooltip>
+                  )}
+                </div>
                 <div className="game-package-sub">{game.releaseName}</div>
                 <div className="game-package-sub">{game.packageName}</div>
               </div>
               <div
                 style={{ display: 'flex', alignItems: 'center', gap: tokens.spacingHorizontalXS }}
               >
+                {watchlistEntry?.newRelease?.releaseName === game.releaseName && (
+                  <Badge shape="rounded" color="important" appearance="filled">
+                    New release
+                  </Badge>
+                )}
+                {game.localApkPath && (
+                  <Tooltip content={game.localApkPath} relationship="description">
+                    <Badge shape="rounded" color="subtle" appearance="outline">
+                      Local
+                    </Badge>
+                  </Tooltip>
+                )}
                 {isQueued && (
                   <Badge shape="rounded" color="informative" appearance="outline">
                     Queued
                   </Badge>
                 )}
-                {(isDownloading || isExtracting || isInstalling) && (
+                {(isDownloading || isVerifying || isExtracting || isInstalling) && (
                   <div
                     style={{
                       display: 'flex',
@@ -576,14 +738,20 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
                   </Badge>
                 )}
               </div>
-              {(isDownloading || isExtracting || isInstalling) && downloadInfo && (
+              {(isDownloading || isVerifying || isExtracting || isInstalling) && downloadInfo && (
                 <ProgressBar
                   value={downloadInfo.progress}
                   max={100}
                   shape="rounded"
                   thickness="medium"
                   className={styles.progressBarAcrossRow}
-                  aria-label={isDownloading ? 'Download progress' : 'Extraction progress'}
+                  aria-label={
+                    isDownloading
+                      ? 'Download progress'
+                      : isVerifying
+                        ? 'Verification progress'
+                        : 'Extraction progress'
+                  }
                 />
               )}
             </div>
@@ -593,6 +761,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       },
       {
         accessorKey: 'version',
+        filterFn: 'gameQuery',
         header: 'Version',
         size: COLUMN_WIDTHS.VERSION,
         cell: ({ row }) => {
@@ -615,6 +784,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       },
       {
         accessorKey: 'downloads',
+        filterFn: 'gameQuery',
         header: 'Popularity',
         size: COLUMN_WIDTHS.POPULARITY,
         cell: (info) => {
@@ -625,6 +795,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       },
       {
         accessorKey: 'size',
+        filterFn: 'gameQuery',
         header: 'Size',
         size: COLUMN_WIDTHS.SIZE,
         cell: (info) => info.getValue() || '-',
@@ -632,6 +803,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       },
       {
         accessorKey: 'lastUpdated',
+        filterFn: 'gameQuery',
         header: 'Last Updated',
         size: COLUMN_WIDTHS.LAST_UPDATED,
         cell: (info) => info.getValue() || '-',
@@ -658,36 +830,79 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
         },
         enableResizing: false,
         filterFn: 'booleanEquals'
+      },
+      {
+        id: 'isWatched',
+        header: 'Watched Status',
+        accessorFn: (row) => watchlistMap.has(row.packageName),
+        enableResizing: false,
+        filterFn: 'booleanEquals'
+      },
+      {
+        id: 'queryStatus',
+        header: 'Search Status',
+        accessorFn: (row) => row.isInstalled,
+        enableResizing: false,
+        enableSorting: false,
+        filterFn: 'gameQuery'
+      },
+      {
+        id: 'facets',
+        header: 'Facets',
+        accessorFn: (row) => row.metadata,
+        enableResizing: false,
+        enableSorting: false,
+        filterFn: 'gameFacets'
+      },
+      {
+        id: 'relevance',
+        header: 'Relevance',
+        accessorFn: (row) => searchFilter?.scores?.get(row) ?? 0,
+        enableResizing: false,
+        sortDescFirst: true
       }
     ]
-  }, [downloadStatusMap, styles, tableWidth])
+  }, [downloadStatusMap, watchlistMap, searchFilter, styles, tableWidth])
 
   const table = useReactTable({
     data: games,
     columns,
     columnResizeMode: 'onChange',
     filterFns: {
-      gameNameAndPackageFilter: filterGameNameAndPackage,
-      booleanEquals: booleanEqualsFilter
+      booleanEquals: booleanEqualsFilter,
+      gameFacets: gameFacetsFilter,
+      gameQuery: gameQueryFilter,
+      gameSearch: gameSearchFilter
     },
     state: {
-      sorting,
-      globalFilter,
+      sorting: sorting.length === 0 && searchFilter?.scores ? RELEVANCE_SORTING : sorting,
+      globalFilter: searchFilter,
       columnFilters,
-      columnVisibility: { isInstalled: false, hasUpdate: false, isDownloaded: false },
+      columnVisibility: {
+        isInstalled: false,
+        hasUpdate: false,
+        isDownloaded: false,
+        isWatched: false,
+        queryStatus: false,
+        facets: false,
+        relevance: false
+      },
       columnSizing
     },
     onSortingChange: setSorting,
-    onGlobalFilterChange: setGlobalFilter,
     onColumnFiltersChange: setColumnFilters,
     onColumnSizingChange: setColumnSizing,
-    globalFilterFn: 'gameNameAndPackageFilter',
+    globalFilterFn: 'gameSearch',
     getCoreRowModel: getCoreRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
     getSortedRowModel: getSortedRowModel()
   })
 
   const { rows } = table.getRowModel()
+  const gridSortOption = GRID_SORT_OPTIONS.find(
+    (option) =>
+      option.sorting[0].id === sorting[0]?.id && option.sorting[0].desc === sorting[0]?.desc
+  )
   const rowVirtualizer = useVirtualizer({
     count: rows.length,
     getScrollElement: () => tableContainerRef.current,
@@ -706,24 +921,20 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
     }).format(date)
   }
 
-  const getProcessMessage = (): string => {
-    if (downloadProgress > 0 && downloadProgress < 100) {
-      return `Downloading game data... ${downloadProgress}%`
-    } else if (extractProgress > 0 && extractProgress < 100) {
-      return `Extracting game data... ${extractProgress}%`
-    } else if (loadingGames) {
-      return 'Preparing game library...'
+  const getSyncMessage = (): string => {
+    const percent = syncProgress?.progress != null ? ` ${syncProgress.progress}%` : ''
+    switch (syncProgress?.stage) {
+      case 'downloading':
+        return `Downloading game data...${percent}`
+      case 'extracting':
+        return syncProgress.changedFiles !== undefined
+          ? `Updating ${syncProgress.changedFiles} changed files...${percent}`
+          : `Extracting game data...${percent}`
+      case 'loading':
+        return 'Preparing game library...'
+      default:
+        return 'Checking for catalogue changes...'
     }
-    return ''
-  }
-
-  const getCurrentProgress = (): number => {
-    if (downloadProgress > 0 && downloadProgress < 100) {
-      return downloadProgress
-    } else if (extractProgress > 0 && extractProgress < 100) {
-      return extractProgress
-    }
-    return 0
   }
 
   const handleRowClick = (
@@ -1048,6 +1259,67 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
     [isConnected, selectedDevice, loadPackages]
   )
 
+  const handleUpdateAll = useCallback(async () => {
+    if (!isConnected || !selectedDevice) return
+
+    setIsUpdatingAll(true)
+    try {
+      const result = await window.api.gameUpdates.updateAll(selectedDevice)
+      if (!result) {
+        window.alert('Failed to update games. Please check the logs for more details.')
+        return
+      }
+      const lines = [
+        result.queued.length > 0 && `${result.queued.length} added to downloads`,
+        result.installing.length > 0 && `${result.installing.length} installing now`,
+        result.alreadyQueued.length > 0 && `${result.alreadyQueued.length} already in downloads`,
+        result.blacklisted.length > 0 && `${result.blacklisted.length} skipped (blacklisted)`,
+        result.failed.length > 0 && `${result.failed.length} could not be queued`
+      ].filter(Boolean)
+      window.alert(lines.length > 0 ? lines.join('\n') : 'All installed games are up to date.')
+    } catch (error) {
+      console.error('Error updating all games:', error)
+      window.alert('An error occurred while updating games.')
+    } finally {
+      setIsUpdatingAll(false)
+    }
+  }, [isConnected, selectedDevice])
+
+  const performObbCopy = useCallback(
+    async (folderPath: string) => {
+      if (!selectedDevice) return
+
+      const folderName = folderPath.split(/[/\\]/).pop() || folderPath
+
+      // Show the installation dialog
+      setShowInstallDialog(true)
+      setIsManualInstalling(true)
+      setInstallStatusMessage(`Copying OBB folder: ${folderName}...`)
+      setInstallSuccess(null)
+
+      try {
+        const success = await window.api.downloads.copyObbFolder(folderPath, selectedDevice)
+
+        setInstallSuccess(success)
+
+        if (success) {
+          console.log(`OBB folder copy successful for: ${folderPath}`)
+          setInstallStatusMessage(`✅ "${folderName}" copied to OBB directory successfully!`)
+        } else {
+          console.error(`OBB folder copy failed for: ${folderPath}`)
+          setInstallStatusMessage(`❌ Failed to copy "${folderName}" to OBB directory`)
+        }
+      } catch (error) {
+        console.error(`Error during OBB folder copy:`, error)
+        setInstallStatusMessage('❌ OBB copy error occurred')
+        setInstallSuccess(false)
+      } finally {
+        setIsManualInstalling(false)
+      }
+    },
+    [selectedDevice]
+  )
+
   const handleCopyObbFolder = useCallback(async () => {
     if (!isConnected || !selectedDevice) {
       window.alert('Please connect to a device first.')
@@ -1099,42 +1371,7 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       setShowInstallDialog(true)
       setIsManualInstalling(false)
     }
-  }, [isConnected, selectedDevice])
-
-  const performObbCopy = useCallback(
-    async (folderPath: string) => {
-      if (!selectedDevice) return
-
-      const folderName = folderPath.split(/[/\\]/).pop() || folderPath
-
-      // Show the installation dialog
-      setShowInstallDialog(true)
-      setIsManualInstalling(true)
-      setInstallStatusMessage(`Copying OBB folder: ${folderName}...`)
-      setInstallSuccess(null)
-
-      try {
-        const success = await window.api.downloads.copyObbFolder(folderPath, selectedDevice)
-
-        setInstallSuccess(success)
-
-        if (success) {
-          console.log(`OBB folder copy successful for: ${folderPath}`)
-          setInstallStatusMessage(`✅ "${folderName}" copied to OBB directory successfully!`)
-        } else {
-          console.error(`OBB folder copy failed for: ${folderPath}`)
-          setInstallStatusMessage(`❌ Failed to copy "${folderName}" to OBB directory`)
-        }
-      } catch (error) {
-        console.error(`Error during OBB folder copy:`, error)
-        setInstallStatusMessage('❌ OBB copy error occurred')
-        setInstallSuccess(false)
-      } finally {
-        setIsManualInstalling(false)
-      }
-    },
-    [selectedDevice]
-  )
+  }, [isConnected, selectedDevice, performObbCopy])
 
   const handleObbConfirmCopy = useCallback(async () => {
     if (!obbFolderToConfirm) return
@@ -1302,8 +1539,12 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
       <div className={styles.tableContainer}>
         <div className="games-toolbar">
           <div className="games-toolbar-left">
-            <Button icon={<ArrowClockwiseRegular />} onClick={refreshGames} disabled={isBusy}>
-              {isBusy ? 'Working...' : 'Refresh Games'}
+            <Button
+              icon={<ArrowClockwiseRegular />}
+              onClick={refreshGames}
+              disabled={isBusy || isSyncing}
+            >
+              {isSyncing ? 'Syncing...' : isBusy ? 'Working...' : 'Refresh Games'}
             </Button>
             <Button
               icon={<ArrowClockwiseRegular />}
@@ -1359,7 +1600,32 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
                 </MenuList>
               </MenuPopover>
             </Menu>
+            <Button
+              icon={<ArrowSyncRegular />}
+              onClick={handleUpdateAll}
+              disabled={isBusy || !isConnected || isUpdatingAll || counts.updates === 0}
+              title={
+                !isConnected
+                  ? 'Connect a device to update its games'
+                  : 'Download and install every available update on the device'
+              }
+            >
+              {isUpdatingAll ? 'Updating...' : `Update All (${counts.updates})`}
+            </Button>
             <span className="last-synced">Last synced: {formatDate(lastSyncTime)}</span>
+            {catalogueStatus?.offline && (
+              <Tooltip
+                content={`The server could not be reached: ${catalogueStatus.error}. Downloaded games can still be installed.`}
+                relationship="description"
+              >
+                <Badge color="warning" appearance="tint" icon={<CloudOffRegular />}>
+                  Offline – catalogue from{' '}
+                  {catalogueStatus.catalogueDate
+                    ? formatDate(new Date(catalogueStatus.catalogueDate))
+                    : 'an unknown date'}
+                </Badge>
+              </Tooltip>
+            )}
             {isConnected && (
               <div className="filter-buttons">
                 <button
@@ -1432,31 +1698,75 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
                 >
                   Updates ({counts.updates})
                 </button>
+                <button
+                  onClick={() => setActiveFilter('watched')}
+                  className={activeFilter === 'watched' ? 'active' : ''}
+                  disabled={counts.watched === 0}
+                >
+                  Watched ({counts.watched})
+                </button>
               </div>
             )}
           </div>
         </div>
         <div className="games-toolbar-right">
           <span className="game-count">{table.getFilteredRowModel().rows.length} displayed</span>
-          <Input
-            value={globalFilter ?? ''}
-            onChange={(e) => setGlobalFilter(String(e.target.value))}
-            placeholder="Search name/package..."
-            type="search"
+          {gamesViewMode === 'grid' && (
+            <Dropdown
+              placeholder={searchFilter?.scores ? 'Best match' : 'Default order'}
+              value={gridSortOption?.label ?? ''}
+              selectedOptions={gridSortOption ? [gridSortOption.value] : []}
+              onOptionSelect={(_, data) => {
+                const option = GRID_SORT_OPTIONS.find((o) => o.value === data.optionValue)
+                if (option) setSorting(option.sorting)
+              }}
+              style={{ minWidth: '160px' }}
+            >
+              {GRID_SORT_OPTIONS.map((option) => (
+                <Option key={option.value} value={option.value}>
+                  {option.label}
+                </Option>
+              ))}
+            </Dropdown>
+          )}
+          <Button
+            icon={gamesViewMode === 'grid' ? <TableRegular /> : <GridRegular />}
+            onClick={() => setGamesViewMode(gamesViewMode === 'grid' ? 'table' : 'grid')}
+            title={gamesViewMode === 'grid' ? 'Show as table' : 'Show as cover grid'}
           />
+          {parsedQuery.errors.length > 0 && (
+            <Text size={200} style={{ color: tokens.colorPaletteRedForeground1 }}>
+              {parsedQuery.errors.join(', ')}
+            </Text>
+          )}
+          <Tooltip content={SEARCH_SYNTAX_HELP} relationship="description">
+            <Input
+              value={globalFilter ?? ''}
+              onChange={(e) => setGlobalFilter(String(e.target.value))}
+              placeholder="Search, e.g. size:<2GB installed:yes"
+              type="search"
+              style={{ minWidth: '280px' }}
+            />
+          </Tooltip>
+          <SavedQueriesMenu currentQuery={globalFilter} onApply={setGlobalFilter} />
         </div>
-        {isBusy && !loadingGames && !downloadProgress && !extractProgress && (
-          <div className="loading-indicator">Processing...</div>
-        )}
+        <GameFacetsBar games={games} value={facetFilters} onChange={setFacetFilters} />
+        <CatalogueChangesPanel
+          catalogueChanges={catalogueChanges}
+          onSelect={(name) => setGlobalFilter(`name:"${name}"`)}
+        />
+        {isBusy && !loadingGames && <div className="loading-indicator">Processing...</div>}
 
         {installStatusMessage && <div className="loading-indicator">{installStatusMessage}</div>}
 
-        {loadingGames && (downloadProgress > 0 || extractProgress > 0) && (
+        {isSyncing && (
           <div className="download-progress">
-            <div className="progress-bar">
-              <div className="progress-bar-fill" style={{ width: `${getCurrentProgress()}%` }} />
-            </div>
-            <div className="progress-text">{getProcessMessage()}</div>
+            <ProgressBar
+              value={syncProgress?.progress != null ? syncProgress.progress / 100 : undefined}
+              thickness="large"
+              aria-label="Catalogue sync progress"
+            />
+            <div className="progress-text">{getSyncMessage()}</div>
           </div>
         )}
 
@@ -1470,95 +1780,106 @@ const GamesView: React.FC<GamesViewProps> = ({ onBackToDevices }) => {
           </div>
         ) : (
           <>
-            <div className="table-wrapper" ref={tableContainerRef}>
-              <table className="games-table" style={{ width: table.getTotalSize() }}>
-                <thead
-                  style={{
-                    display: 'grid',
-                    position: 'sticky',
-                    top: 0,
-                    zIndex: 1
-                  }}
-                >
-                  {table.getHeaderGroups().map((headerGroup) => (
-                    <tr key={headerGroup.id}>
-                      {headerGroup.headers.map((header) => (
-                        <th
-                          key={header.id}
-                          colSpan={header.colSpan}
-                          style={{ width: header.getSize(), position: 'relative' }}
-                        >
-                          {header.isPlaceholder ? null : (
-                            <div
-                              {...{
-                                className: header.column.getCanSort()
-                                  ? 'cursor-pointer select-none'
-                                  : '',
-                                onClick: header.column.getToggleSortingHandler()
-                              }}
-                            >
-                              {flexRender(header.column.columnDef.header, header.getContext())}
-                              {{
-                                asc: ' 🔼',
-                                desc: ' 🔽'
-                              }[header.column.getIsSorted() as string] ?? null}
-                            </div>
-                          )}
-                          {header.column.getCanResize() && (
-                            <div
-                              onMouseDown={header.getResizeHandler()}
-                              onTouchStart={header.getResizeHandler()}
-                              className={`${styles.resizer} ${header.column.getIsResizing() ? styles.isResizing : ''}`}
-                            />
-                          )}
-                        </th>
-                      ))}
-                    </tr>
-                  ))}
-                </thead>
-                <tbody
-                  style={{ height: `${rowVirtualizer.getTotalSize()}px`, position: 'relative' }}
-                >
-                  {rowVirtualizer.getVirtualItems().map((virtualRow) => {
-                    const row = rows[virtualRow.index] as Row<GameInfo>
-                    const rowClasses = [
-                      row.original.isInstalled ? 'row-installed' : 'row-not-installed',
-                      row.original.hasUpdate ? 'row-update-available' : ''
-                    ]
-                      .filter(Boolean)
-                      .join(' ')
-
-                    return (
-                      <tr
-                        key={row.id}
-                        className={rowClasses}
-                        style={{
-                          position: 'absolute',
-                          top: 0,
-                          left: 0,
-                          width: '100%',
-                          height: `${virtualRow.size}px`,
-                          transform: `translateY(${virtualRow.start}px)`
-                        }}
-                        onClick={(e) => handleRowClick(e, row)}
-                      >
-                        {row.getVisibleCells().map((cell) => (
-                          <td
-                            key={cell.id}
-                            style={{
-                              width: cell.column.getSize(),
-                              maxWidth: cell.column.getSize()
-                            }}
+            {gamesViewMode === 'grid' ? (
+              <GamesGrid
+                rows={rows}
+                downloadStatusMap={downloadStatusMap}
+                onSelect={(game) => {
+                  setDialogGame(game)
+                  setIsDialogOpen(true)
+                }}
+              />
+            ) : (
+              <div className="table-wrapper" ref={tableContainerRef}>
+                <table className="games-table" style={{ width: table.getTotalSize() }}>
+                  <thead
+                    style={{
+                      display: 'grid',
+                      position: 'sticky',
+                      top: 0,
+                      zIndex: 1
+                    }}
+                  >
+                    {table.getHeaderGroups().map((headerGroup) => (
+                      <tr key={headerGroup.id}>
+                        {headerGroup.headers.map((header) => (
+                          <th
+                            key={header.id}
+                            colSpan={header.colSpan}
+                            style={{ width: header.getSize(), position: 'relative' }}
                           >
-                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                          </td>
+                            {header.isPlaceholder ? null : (
+                              <div
+                                {...{
+                                  className: header.column.getCanSort()
+                                    ? 'cursor-pointer select-none'
+                                    : '',
+                                  onClick: header.column.getToggleSortingHandler()
+                                }}
+                              >
+                                {flexRender(header.column.columnDef.header, header.getContext())}
+                                {{
+                                  asc: ' 🔼',
+                                  desc: ' 🔽'
+                                }[header.column.getIsSorted() as string] ?? null}
+                              </div>
+                            )}
+                            {header.column.getCanResize() && (
+                              <div
+                                onMouseDown={header.getResizeHandler()}
+                                onTouchStart={header.getResizeHandler()}
+                                className={`${styles.resizer} ${header.column.getIsResizing() ? styles.isResizing : ''}`}
+                              />
+                            )}
+                          </th>
                         ))}
                       </tr>
-                    )
-                  })}
-                </tbody>
-              </table>
-            </div>
+                    ))}
+                  </thead>
+                  <tbody
+                    style={{ height: `${rowVirtualizer.getTotalSize()}px`, position: 'relative' }}
+                  >
+                    {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+                      const row = rows[virtualRow.index] as Row<GameInfo>
+                      const rowClasses = [
+                        row.original.isInstalled ? 'row-installed' : 'row-not-installed',
+                        row.original.hasUpdate ? 'row-update-available' : ''
+                      ]
+                        .filter(Boolean)
+                        .join(' ')
+
+                      return (
+                        <tr
+                          key={row.id}
+                          className={rowClasses}
+                          style={{
+                            position: 'absolute',
+                            top: 0,
+                            left: 0,
+                            width: '100%',
+                            height: `${virtualRow.size}px`,
+                            transform: `translateY(${virtualRow.start}px)`
+                          }}
+                          onClick={(e) => handleRowClick(e, row)}
+                        >
+                          {row.getVisibleCells().map((cell) => (
+                            <td
+                              key={cell.id}
+                              style={{
+                                width: cell.column.getSize(),
+                                maxWidth: cell.column.getSize()
+                              }}
+                            >
+                              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                            </td>
+                          ))}
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
 
             {dialogGame && (
               <GameDetailsDialog
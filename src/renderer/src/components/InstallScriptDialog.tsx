@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogSurface,
+  DialogBody,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  DialogTrigger,
+  Button,
+  Badge,
+  Spinner,
+  Table,
+  TableHeader,
+  TableHeaderCell,
+  TableBody,
+  TableRow,
+  TableCell,
+  Text,
+  makeStyles,
+  tokens
+} from '@fluentui/react-components'
+import { DownloadItem, InstallScriptCommandResult, InstallScriptPlan } from '@shared/types'
+
+interface InstallScriptDialogProps {
+  item: DownloadItem | null
+  canInstall: boolean
+  onInstall: (releaseName: string) => void
+  onClose: () => void
+}
+
+const useStyles = makeStyles({
+  surface: {
+    maxWidth: '900px',
+    width: '90vw'
+  },
+  table: {
+    marginTop: tokens.spacingVerticalM
+  },
+  lineCell: {
+    width: '56px'
+  },
+  kindCell: {
+    width: '110px'
+  },
+  resultCell: {
+    width: '220px'
+  },
+  muted: {
+    color: tokens.colorNeutralForeground3
+  },
+  errorText: {
+    color: tokens.colorPaletteRedForeground1
+  }
+})
+
+const resultBadge = (result: InstallScriptCommandResult): React.ReactNode => {
+  switch (result.status) {
+    case 'success':
+      return (
+        <Badge appearance="tint" color="success">
+          Done
+        </Badge>
+      )
+    case 'failed':
+      return (
+        <Badge appearance="tint" color="danger">
+          Failed
+        </Badge>
+      )
+    default:
+      return (
+        <Badge appearance="tint" color="subtle">
+          Skipped
+        </Badge>
+      )
+  }
+}
+
+const InstallScriptDialog: React.FC<InstallScriptDialogProps> = ({
+  item,
+  canInstall,
+  onInstall,
+  onClose
+}) => {
+  const styles = useStyles()
+  const [plan, setPlan] = useState<InstallScriptPlan | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const releaseName = item?.releaseName
+
+  useEffect(() => {
+    if (!releaseName) return
+    setIsLoading(true)
+    window.api.downloads
+      .previewInstallScript(releaseName)
+      .then(setPlan)
+      .catch((err) => {
+        console.error(`Error previewing install script for ${releaseName}:`, err)
+        setPlan(null)
+      })
+      .finally(() => setIsLoading(false))
+  }, [releaseName])
+
+  if (!item) return null
+
+  const results = new Map((item.installScriptResults ?? []).map((result) => [result.line, result]))
+
+  const renderContent = (): React.ReactNode => {
+    if (isLoading) return <Spinner size="small" label="Reading install script..." />
+    if (!plan) {
+      return <Text className={styles.errorText}>The downloaded files could not be read.</Text>
+    }
+    if (!plan.scriptName) {
+      return (
+        <Text>
+          This release has no install script. Installing copies every APK and the OBB folder to the
+          device.
+        </Text>
+      )
+    }
+    return (
+      <>
+        <Text>
+          Dry run of <b>{plan.scriptName}</b>. Critical commands stop the install when they fail.
+        </Text>
+        <Table size="small" className={styles.table}>
+          <TableHeader>
+            <TableRow>
+              <TableHeaderCell className={styles.lineCell}>Line</TableHeaderCell>
+              <TableHeaderCell className={styles.kindCell}>Action</TableHeaderCell>
+              <TableHeaderCell>Details</TableHeaderCell>
+              <TableHeaderCell className={styles.resultCell}>Last Run</TableHeaderCell>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plan.actions.map((action) => {
+              const result = results.get(action.line)
+              return (
+                <TableRow key={action.line}>
+                  <TableCell className={styles.lineCell}>{action.line}</TableCell>
+                  <TableCell className={styles.kindCell}>
+                    <Badge
+                      appearance="outline"
+                      color={action.kind === 'unsupported' ? 'warning' : 'informative'}
+                    >
+                      {action.kind}
+                    </Badge>
+                  </TableCell>
+                  <TableCell title={action.raw}>
+                    <Text
+                      className={
+                        action.kind === 'ignored' || action.kind === 'set'
+                          ? styles.muted
+                          : undefined
+                      }
+                    >
+                      {action.description}
+                      {action.critical ? ' (critical)' : ''}
+                    </Text>
+                  </TableCell>
+                  <TableCell className={styles.resultCell}>
+                    {result && (
+                      <div title={result.message}>
+                        {resultBadge(result)}{' '}
+                        {result.status === 'failed' && result.message && (
+                          <Text size={200} className={styles.errorText}>
+                            {result.message.substring(0, 40)}
+                            {result.message.length > 40 ? '...' : ''}
+                          </Text>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </>
+    )
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(_, data) => !data.open && onClose()}>
+      <DialogSurface mountNode={document.getElementById('portal')} className={styles.surface}>
+        <DialogBody>
+          <DialogTitle>Install Script: {item.gameName}</DialogTitle>
+          <DialogContent>{renderContent()}</DialogContent>
+          <DialogActions>
+            <DialogTrigger disableButtonEnhancement>
+              <Button appearance="secondary">Close</Button>
+            </DialogTrigger>
+            <Button
+              appearance="primary"
+              onClick={() => onInstall(item.releaseName)}
+              disabled={!canInstall || item.status !== 'Completed' || isLoading || !plan}
+            >
+              {item.status === 'Installing' ? 'Installing...' : 'Run Install'}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  )
+}
+
+export default InstallScriptDialog
@@ -0,0 +1,202 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogSurface,
+  DialogBody,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  DialogTrigger,
+  Button,
+  Checkbox,
+  ProgressBar,
+  Badge,
+  Text,
+  makeStyles,
+  tokens
+} from '@fluentui/react-components'
+import { DeviceInstallState, DownloadItem } from '@shared/types'
+import { useAdb } from '@renderer/hooks/useAdb'
+
+interface InstallToDevicesDialogProps {
+  item: DownloadItem | null
+  onClose: () => void
+}
+
+const useStyles = makeStyles({
+  deviceList: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalS,
+    marginTop: tokens.spacingVerticalM
+  },
+  deviceRow: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 160px',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalM
+  },
+  deviceResult: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXXS
+  },
+  errorText: {
+    color: tokens.colorPaletteRedForeground1
+  }
+})
+
+const statusBadge = (state: DeviceInstallState): React.ReactNode => {
+  switch (state.status) {
+    case 'Completed':
+      return (
+        <Badge appearance="tint" color="success">
+          Installed
+        </Badge>
+      )
+    case 'InstallError':
+      return (
+        <Badge appearance="tint" color="danger">
+          Failed
+        </Badge>
+      )
+    case 'Pending':
+      return (
+        <Badge appearance="tint" color="informative">
+          Waiting
+        </Badge>
+      )
+    default:
+      return <ProgressBar value={state.progress / 100} />
+  }
+}
+
+const InstallToDevicesDialog: React.FC<InstallToDevicesDialogProps> = ({ item, onClose }) => {
+  const styles = useStyles()
+  const { devices } = useAdb()
+  const [selectedDevices, setSelectedDevices] = useState<Record<string, boolean>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  // Only devices authorized over ADB can take an install
+  const connectedDevices = useMemo(
+    () => devices.filter((device) => device.type === 'device'),
+    [devices]
+  )
+  const releaseName = item?.releaseName
+
+  useEffect(() => {
+    if (!releaseName) return
+    setSelectedDevices(
+      connectedDevices.reduce(
+        (acc, device) => {
+          acc[device.id] = true
+          return acc
+        },
+        {} as Record<string, boolean>
+      )
+    )
+    setError(null)
+    // Reset the selection only when the dialog opens for another release
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [releaseName])
+
+  if (!item) return null
+
+  const isInstalling = item.status === 'Installing'
+  const deviceInstalls = item.deviceInstalls ?? {}
+  const selectedIds = connectedDevices
+    .filter((device) => selectedDevices[device.id])
+    .map((device) => device.id)
+  // Devices from the last run that have since disconnected still show their result
+  const rows = [
+    ...connectedDevices.map((device) => ({
+      id: device.id,
+      name: device.friendlyModelName || device.model || device.id,
+      connected: true
+    })),
+    ...Object.keys(deviceInstalls)
+      .filter((deviceId) => !connectedDevices.some((device) => device.id === deviceId))
+      .map((deviceId) => ({ id: deviceId, name: deviceId, connected: false }))
+  ]
+
+  const handleInstall = async (): Promise<void> => {
+    setError(null)
+    try {
+      await window.api.downloads.installToDevices(item.releaseName, selectedIds)
+    } catch (err) {
+      console.error(`Error installing ${item.releaseName} on multiple devices:`, err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  return (
+    <Dialog open={true} onOpenChange={(_, data) => !data.open && onClose()}>
+      <DialogSurface mountNode={document.getElementById('portal')}>
+        <DialogBody>
+          <DialogTitle>Install {item.gameName} to…</DialogTitle>
+          <DialogContent>
+            <Text>
+              Select the connected devices to install this release on. Installs run in parallel.
+            </Text>
+            {rows.length === 0 && (
+              <Text block style={{ marginTop: tokens.spacingVerticalM }}>
+                No connected devices found.
+              </Text>
+            )}
+            <div className={styles.deviceList}>
+              {rows.map((row) => {
+                const state = deviceInstalls[row.id]
+                return (
+                  <div key={row.id} className={styles.deviceRow}>
+                    <Checkbox
+                      label={row.name === row.id ? row.id : `${row.name} (${row.id})`}
+                      checked={row.connected && !!selectedDevices[row.id]}
+                      disabled={!row.connected || isInstalling}
+                      onChange={(_, data) =>
+                        setSelectedDevices((prev) => ({ ...prev, [row.id]: !!data.checked }))
+                      }
+                    />
+                    <div className={styles.deviceResult}>
+                      {state && statusBadge(state)}
+                      {state?.error && (
+                        <Text size={200} className={styles.errorText} title={state.error}>
+                          {state.error.substring(0, 40)}
+                          {state.error.length > 40 ? '...' : ''}
+                        </Text>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            {error && (
+              <Text
+                block
+                className={styles.errorText}
+                style={{ marginTop: tokens.spacingVerticalM }}
+              >
+                {error}
+              </Text>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <DialogTrigger disableButtonEnhancement>
+              <Button appearance="secondary">Close</Button>
+            </DialogTrigger>
+            <Button
+              appearance="primary"
+              onClick={handleInstall}
+              disabled={isInstalling || selectedIds.length === 0}
+            >
+              {isInstalling
+                ? 'Installing...'
+                : `Install to ${selectedIds.length} device${selectedIds.length === 1 ? '' : 's'}`}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  )
+}
+
+export default InstallToDevicesDialog
@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react'
+import {
+  Badge,
+  Button,
+  Dropdown,
+  Option,
+  Spinner,
+  Text,
+  Title2,
+  makeStyles,
+  tokens
+} from '@fluentui/react-components'
+import { FullScreenMaximizeRegular, PlayRegular, StopRegular } from '@fluentui/react-icons'
+import { useAdb } from '../hooks/useAdb'
+import { useScreenMirror } from '../hooks/useScreenMirror'
+
+const QUALITIES = [
+  { label: 'Low (2 Mbit/s)', value: 2_000_000 },
+  { label: 'Medium (4 Mbit/s)', value: 4_000_000 },
+  { label: 'High (8 Mbit/s)', value: 8_000_000 }
+]
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL,
+    position: 'relative',
+    height: 'calc(100vh - 90px)', // Account for header height
+    overflowY: 'auto',
+    padding: tokens.spacingVerticalXL,
+    backgroundColor: tokens.colorNeutralBackground1
+  },
+  contentContainer: {
+    maxWidth: '1200px',
+    width: '100%',
+    margin: '0 auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalM
+  },
+  headerSubtitle: {
+    color: tokens.colorNeutralForeground2,
+    display: 'block'
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS
+  },
+  toolbarSpacer: {
+    flexGrow: 1
+  },
+  dropdown: {
+    minWidth: '180px'
+  },
+  stage: {
+    position: 'relative',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: '360px',
+    aspectRatio: '16 / 9',
+    overflow: 'hidden',
+    borderRadius: tokens.borderRadiusMedium,
+    backgroundColor: tokens.colorNeutralBackgroundStatic
+  },
+  canvas: {
+    maxWidth: '100%',
+    maxHeight: '100%',
+    objectFit: 'contain'
+  },
+  stageOverlay: {
+    position: 'absolute',
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    gap: tokens.spacingVerticalS,
+    color: tokens.colorNeutralForegroundStaticInverted
+  },
+  muted: {
+    color: tokens.colorNeutralForeground2
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1
+  }
+})
+
+const LiveView: React.FC = () => {
+  const styles = useStyles()
+  const { selectedDevice } = useAdb()
+  const { canvasRef, status, fps, decodeError, start, stop } = useScreenMirror(selectedDevice)
+  const stageRef = useRef<HTMLDivElement>(null)
+  const [bitRate, setBitRate] = useState<number>(QUALITIES[1].value)
+
+  const isActive = status.state === 'starting' || status.state === 'streaming'
+
+  const handleQualityChange = (value: number): void => {
+    setBitRate(value)
+    // The bit rate is fixed for a recording, a running one starts over with the new one
+    if (isActive) start(value)
+  }
+
+  if (!selectedDevice) {
+    return (
+      <div className={styles.root}>
+        <div className={styles.contentContainer}>
+          <Title2>Live View</Title2>
+          <Text className={styles.muted}>Connect a device to see what is on its screen.</Text>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.contentContainer}>
+        <div>
+          <Title2>Live View</Title2>
+          <Text className={styles.headerSubtitle}>
+            Mirror the display of {selectedDevice} over ADB. The headset has to be awake, the stream
+            stops when you leave this tab.
+          </Text>
+        </div>
+
+        <div className={styles.toolbar}>
+          {isActive ? (
+            <Button icon={<StopRegular />} onClick={stop}>
+              Stop
+            </Button>
+          ) : (
+            <Button appearance="primary" icon={<PlayRegular />} onClick={() => start(bitRate)}>
+              Start
+            </Button>
+          )}
+          <Dropdown
+            className={styles.dropdown}
+            value={QUALITIES.find((quality) => quality.value === bitRate)?.label}
+            selectedOptions={[String(bitRate)]}
+            onOptionSelect={(_, data) =>
+              data.optionValue && handleQualityChange(Number(data.optionValue))
+            }
+          >
+            {QUALITIES.map((quality) => (
+              <Option key={quality.value} value={String(quality.value)}>
+                {quality.label}
+              </Option>
+            ))}
+          </Dropdown>
+          <Button
+            icon={<FullScreenMaximizeRegular />}
+            onClick={() => stageRef.current?.requestFullscreen()}
+            disabled={status.state !== 'streaming'}
+          >
+            Full Screen
+          </Button>
+          <div className={styles.toolbarSpacer} />
+          {status.state === 'streaming' && (
+            <Badge appearance="tint" color="success">
+              Live · {fps} fps
+            </Badge>
+          )}
+        </div>
+
+        {status.state === 'error' && status.error && (
+          <Text className={styles.error}>{status.error}</Text>
+        )}
+        {decodeError && (
+          <Text className={styles.error}>The stream could not be decoded: {decodeError}</Text>
+        )}
+
+        <div ref={stageRef} className={styles.stage}>
+          <canvas ref={canvasRef} className={styles.canvas} />
+          {status.state === 'starting' && (
+            <div className={styles.stageOverlay}>
+              <Spinner size="small" />
+              <Text>Waiting for the headset...</Text>
+            </div>
+          )}
+          {status.state !== 'starting' && status.state !== 'streaming' && (
+            <div className={styles.stageOverlay}>
+              <Text>Press Start to mirror the headset display</Text>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default LiveView
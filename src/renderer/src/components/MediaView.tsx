@@ -0,0 +1,356 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Button,
+  Card,
+  Checkbox,
+  ProgressBar,
+  Spinner,
+  Switch,
+  Tab,
+  TabList,
+  Text,
+  Title2,
+  makeStyles,
+  mergeClasses,
+  shorthands,
+  tokens
+} from '@fluentui/react-components'
+import {
+  ArrowClockwiseRegular,
+  ArrowExportRegular,
+  ImageRegular,
+  VideoRegular
+} from '@fluentui/react-icons'
+import { DeviceMediaItem } from '@shared/types'
+import { getThumbnailUrl } from '@shared/thumbnails'
+import { useAdb } from '../hooks/useAdb'
+import { useDeviceMedia } from '../hooks/useDeviceMedia'
+
+type MediaFilter = 'all' | DeviceMediaItem['kind']
+
+const PREVIEW_WIDTH = 320
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL,
+    position: 'relative',
+    height: 'calc(100vh - 90px)', // Account for header height
+    overflowY: 'auto',
+    padding: tokens.spacingVerticalXL,
+    backgroundColor: tokens.colorNeutralBackground1
+  },
+  contentContainer: {
+    maxWidth: '1200px',
+    width: '100%',
+    margin: '0 auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalM
+  },
+  headerSubtitle: {
+    color: tokens.colorNeutralForeground2,
+    display: 'block'
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS
+  },
+  toolbarSpacer: {
+    flexGrow: 1
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))',
+    gap: tokens.spacingHorizontalM
+  },
+  card: {
+    position: 'relative',
+    ...shorthands.padding(tokens.spacingVerticalS)
+  },
+  cardSelected: {
+    ...shorthands.outline(tokens.strokeWidthThick, 'solid', tokens.colorBrandStroke1)
+  },
+  cardCheckbox: {
+    position: 'absolute',
+    top: tokens.spacingVerticalS,
+    left: tokens.spacingHorizontalS,
+    zIndex: 1,
+    backgroundColor: tokens.colorNeutralBackground1,
+    borderRadius: tokens.borderRadiusMedium
+  },
+  preview: {
+    width: '100%',
+    aspectRatio: '16 / 9',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXS,
+    overflow: 'hidden',
+    borderRadius: tokens.borderRadiusMedium,
+    backgroundColor: tokens.colorNeutralBackground3,
+    color: tokens.colorNeutralForeground3,
+    fontSize: '32px'
+  },
+  previewMedia: {
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover'
+  },
+  cardName: {
+    display: 'block',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  progress: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXS
+  },
+  muted: {
+    color: tokens.colorNeutralForeground2
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1
+  }
+})
+
+const formatSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} B`
+}
+
+const MediaView: React.FC = () => {
+  const styles = useStyles()
+  const { selectedDevice } = useAdb()
+  const {
+    items,
+    previews,
+    loadingPreviews,
+    isLoading,
+    error,
+    progress,
+    isExporting,
+    loadMedia,
+    loadPreview,
+    exportMedia
+  } = useDeviceMedia(selectedDevice)
+
+  const [filter, setFilter] = useState<MediaFilter>('all')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [deleteAfterExport, setDeleteAfterExport] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const visibleItems = useMemo(
+    () => (filter === 'all' ? items : items.filter((item) => item.kind === filter)),
+    [items, filter]
+  )
+  const selectedItems = visibleItems.filter((item) => selected.has(item.path))
+  const allSelected = visibleItems.length > 0 && selectedItems.length === visibleItems.length
+
+  useEffect(() => {
+    setSelected(new Set())
+    setMessage(null)
+  }, [selectedDevice, filter])
+
+  const toggleSelected = (path: string): void => {
+    setSelected((previous) => {
+      const next = new Set(previous)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+  }
+
+  const handleExport = async (): Promise<void> => {
+    if (
+      deleteAfterExport &&
+      !window.confirm(
+        `Delete ${selectedItems.length} file(s) from the headset once they have been exported?`
+      )
+    ) {
+      return
+    }
+    setMessage(null)
+    const result = await exportMedia(
+      selectedItems.map((item) => item.path),
+      deleteAfterExport
+    )
+    if (!result?.exported) return
+    setMessage(
+      result.deleted
+        ? `Exported and deleted ${selectedItems.length} file(s)`
+        : `Exported ${selectedItems.length} file(s)`
+    )
+    setSelected(new Set())
+  }
+
+  const renderPreview = (item: DeviceMediaItem): React.ReactNode => {
+    const previewPath = previews.get(item.path)
+    if (previewPath && item.kind === 'screenshot') {
+      return (
+        <img
+          src={getThumbnailUrl(previewPath, PREVIEW_WIDTH)}
+          alt={item.name}
+          className={styles.previewMedia}
+          loading="lazy"
+        />
+      )
+    }
+    if (previewPath) {
+      return (
+        <video
+          src={`file://${previewPath}`}
+          className={styles.previewMedia}
+          preload="metadata"
+          controls
+        />
+      )
+    }
+    if (loadingPreviews.has(item.path)) {
+      return <Spinner size="small" />
+    }
+    if (item.kind === 'screenshot') {
+      return <ImageRegular />
+    }
+    // Recordings can be large, they are only pulled when asked for
+    return (
+      <>
+        <VideoRegular />
+        <Button size="small" onClick={() => loadPreview(item.path)}>
+          Load preview ({formatSize(item.size)})
+        </Button>
+      </>
+    )
+  }
+
+  if (!selectedDevice) {
+    return (
+      <div className={styles.root}>
+        <div className={styles.contentContainer}>
+          <Title2>Media</Title2>
+          <Text className={styles.muted}>Connect a device to see its screenshots and videos.</Text>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.contentContainer}>
+        <div>
+          <Title2>Media</Title2>
+          <Text className={styles.headerSubtitle}>
+            Screenshots and recordings captured on {selectedDevice}. Select the ones to copy to your
+            computer.
+          </Text>
+        </div>
+
+        <div className={styles.toolbar}>
+          <TabList
+            size="small"
+            selectedValue={filter}
+            onTabSelect={(_, data) => setFilter(data.value as MediaFilter)}
+          >
+            <Tab value="all">All ({items.length})</Tab>
+            <Tab value="screenshot">
+              Screenshots ({items.filter((item) => item.kind === 'screenshot').length})
+            </Tab>
+            <Tab value="video">Videos ({items.filter((item) => item.kind === 'video').length})</Tab>
+          </TabList>
+          <div className={styles.toolbarSpacer} />
+          <Button icon={<ArrowClockwiseRegular />} onClick={loadMedia} disabled={isLoading}>
+            Refresh
+          </Button>
+        </div>
+
+        <div className={styles.toolbar}>
+          <Checkbox
+            label={`Select all (${selectedItems.length} selected)`}
+            checked={allSelected ? true : selectedItems.length > 0 ? 'mixed' : false}
+            onChange={() =>
+              setSelected(allSelected ? new Set() : new Set(visibleItems.map((item) => item.path)))
+            }
+            disabled={visibleItems.length === 0}
+          />
+          <div className={styles.toolbarSpacer} />
+          <Switch
+            label="Delete from headset after export"
+            checked={deleteAfterExport}
+            onChange={(_, data) => setDeleteAfterExport(data.checked)}
+          />
+          <Button
+            appearance="primary"
+            icon={<ArrowExportRegular />}
+            onClick={handleExport}
+            disabled={isExporting || selectedItems.length === 0}
+          >
+            Export
+          </Button>
+        </div>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+        {message && <Text>{message}</Text>}
+        {isExporting && (
+          <div className={styles.progress}>
+            <Text size={200}>
+              {progress
+                ? `Exporting ${progress.fileName} (${progress.completedFiles + 1} of ${progress.totalFiles}), ${formatSize(progress.transferredBytes)} of ${formatSize(progress.totalBytes)}`
+                : 'Preparing export...'}
+            </Text>
+            <ProgressBar
+              value={
+                progress && progress.totalBytes > 0
+                  ? progress.transferredBytes / progress.totalBytes
+                  : undefined
+              }
+            />
+          </div>
+        )}
+
+        {isLoading && items.length === 0 ? (
+          <Spinner size="small" label="Reading media folders..." />
+        ) : visibleItems.length === 0 ? (
+          <Text className={styles.muted}>No captures found on the headset.</Text>
+        ) : (
+          <div className={styles.grid}>
+            {visibleItems.map((item) => (
+              <Card
+                key={item.path}
+                className={mergeClasses(
+                  styles.card,
+                  selected.has(item.path) && styles.cardSelected
+                )}
+              >
+                <Checkbox
+                  className={styles.cardCheckbox}
+                  checked={selected.has(item.path)}
+                  onChange={() => toggleSelected(item.path)}
+                  aria-label={`Select ${item.name}`}
+                />
+                <div className={styles.preview}>{renderPreview(item)}</div>
+                <div>
+                  <Text weight="semibold" className={styles.cardName} title={item.name}>
+                    {item.name}
+                  </Text>
+                  <Text size={200} className={styles.muted}>
+                    {new Date(item.modifiedAt).toLocaleString()} · {formatSize(item.size)}
+                  </Text>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MediaView
@@ -0,0 +1,520 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Card,
+  CardHeader,
+  Text,
+  Button,
+  Input,
+  makeStyles,
+  tokens,
+  Title2,
+  Subtitle1,
+  Dropdown,
+  Option,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+  Switch,
+  Spinner,
+  mergeClasses
+} from '@fluentui/react-components'
+import {
+  AddRegular,
+  DeleteRegular,
+  PhoneLaptopRegular,
+  SaveRegular,
+  ArrowSyncRegular
+} from '@fluentui/react-icons'
+import { DeviceProfileApp, ProfileApplyResult, ProfileDiff, ProfileDiffEntry } from '@shared/types'
+import { useDeviceProfiles } from '../hooks/useDeviceProfiles'
+import { useAdb } from '../hooks/useAdb'
+import { useGames } from '../hooks/useGames'
+
+const useStyles = makeStyles({
+  root: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL,
+    position: 'relative',
+    height: 'calc(100vh - 90px)', // Account for header height
+    overflowY: 'auto',
+    padding: tokens.spacingVerticalXL,
+    backgroundColor: tokens.colorNeutralBackground1
+  },
+  contentContainer: {
+    maxWidth: '1200px',
+    width: '100%',
+    margin: '0 auto',
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalL
+  },
+  headerSubtitle: {
+    color: tokens.colorNeutralForeground2,
+    display: 'block'
+  },
+  card: {
+    width: '100%',
+    boxShadow: tokens.shadow4,
+    borderRadius: tokens.borderRadiusMedium
+  },
+  cardContent: {
+    padding: tokens.spacingHorizontalL,
+    paddingBottom: tokens.spacingVerticalXL
+  },
+  formRow: {
+    display: 'flex',
+    alignItems: 'center',
+    marginTop: tokens.spacingVerticalM,
+    gap: tokens.spacingHorizontalM,
+    width: '100%',
+    maxWidth: '800px'
+  },
+  input: {
+    flexGrow: 1
+  },
+  versionInput: {
+    width: '140px'
+  },
+  profileRow: {
+    cursor: 'pointer'
+  },
+  selectedRow: {
+    backgroundColor: tokens.colorNeutralBackground1Selected
+  },
+  diffSection: {
+    marginTop: tokens.spacingVerticalM,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXS
+  },
+  muted: {
+    color: tokens.colorNeutralForeground2
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1,
+    marginTop: tokens.spacingVerticalXS
+  },
+  success: {
+    color: tokens.colorPaletteGreenForeground1,
+    marginTop: tokens.spacingVerticalXS
+  }
+})
+
+const describeEntry = (entry: ProfileDiffEntry): string => {
+  const name = entry.gameName ? `${entry.gameName} (${entry.packageName})` : entry.packageName
+  const versions: string[] = []
+  if (entry.installedVersionCode !== undefined) {
+    versions.push(`installed ${entry.installedVersionCode}`)
+  }
+  if (entry.minVersionCode) versions.push(`needs ${entry.minVersionCode}`)
+  versions.push(
+    entry.availableVersionCode !== undefined
+      ? `available ${entry.availableVersionCode}`
+      : 'not in catalogue'
+  )
+  return `${name}: ${versions.join(', ')}`
+}
+
+const describeResult = (result: ProfileApplyResult): string => {
+  const parts = [
+    `${result.queued.length} queued for download`,
+    `${result.installing.length} installing`,
+    `${result.alreadyQueued.length} already in the queue`
+  ]
+  if (result.uninstalled.length > 0) parts.push(`${result.uninstalled.length} uninstalled`)
+  if (result.unavailable.length > 0) {
+    parts.push(`${result.unavailable.length} unavailable (${result.unavailable.join(', ')})`)
+  }
+  if (result.failed.length > 0) {
+    parts.push(`${result.failed.length} failed (${result.failed.join(', ')})`)
+  }
+  return parts.join(', ')
+}
+
+const ProfilesView: React.FC = () => {
+  const styles = useStyles()
+  const {
+    profiles,
+    isLoading,
+    error,
+    addProfile,
+    updateProfile,
+    removeProfile,
+    captureFromDevice,
+    getDiff,
+    applyProfile
+  } = useDeviceProfiles()
+  const { devices, selectedDevice } = useAdb()
+  const { games } = useGames()
+
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null)
+  const [newProfileName, setNewProfileName] = useState('')
+  const [draftName, setDraftName] = useState('')
+  const [draftApps, setDraftApps] = useState<DeviceProfileApp[]>([])
+  const [newPackageName, setNewPackageName] = useState('')
+  const [targetDevice, setTargetDevice] = useState<string | null>(null)
+  const [diff, setDiff] = useState<ProfileDiff | null>(null)
+  const [uninstallExtra, setUninstallExtra] = useState(false)
+  const [applyResult, setApplyResult] = useState<ProfileApplyResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId) ?? null
+  const connectedDevices = useMemo(
+    () => devices.filter((device) => device.type === 'device'),
+    [devices]
+  )
+  const gameNames = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const game of games) {
+      if (game.packageName) names.set(game.packageName, game.name)
+    }
+    return names
+  }, [games])
+
+  // Start editing a fresh copy whenever another profile is picked
+  useEffect(() => {
+    setDraftName(selectedProfile?.name ?? '')
+    setDraftApps(selectedProfile?.apps ?? [])
+    setDiff(null)
+    setApplyResult(null)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedProfileId, profiles])
+
+  useEffect(() => {
+    if (!targetDevice && selectedDevice) setTargetDevice(selectedDevice)
+  }, [selectedDevice, targetDevice])
+
+  const handleCreate = async (fromDevice: boolean): Promise<void> => {
+    if (!newProfileName.trim()) return
+    setIsBusy(true)
+    const profile =
+      fromDevice && selectedDevice
+        ? await captureFromDevice(newProfileName, selectedDevice)
+        : await addProfile(newProfileName, [])
+    setIsBusy(false)
+    if (profile) {
+      setNewProfileName('')
+      setSelectedProfileId(profile.id)
+    }
+  }
+
+  const handleAddApp = (): void => {
+    const packageName = newPackageName.trim()
+    if (!packageName || draftApps.some((a) => a.packageName === packageName)) return
+    setDraftApps([...draftApps, { packageName }])
+    setNewPackageName('')
+  }
+
+  const handleMinVersionChange = (packageName: string, value: string): void => {
+    const minVersionCode = parseInt(value, 10)
+    setDraftApps(
+      draftApps.map((a) =>
+        a.packageName === packageName
+          ? { packageName, minVersionCode: minVersionCode > 0 ? minVersionCode : undefined }
+          : a
+      )
+    )
+  }
+
+  const handleSave = async (): Promise<void> => {
+    if (!selectedProfile) return
+    setIsBusy(true)
+    await updateProfile(selectedProfile.id, draftName, draftApps)
+    setIsBusy(false)
+  }
+
+  const handleDelete = async (): Promise<void> => {
+    if (!selectedProfile) return
+    if (!window.confirm(`Delete the profile "${selectedProfile.name}"?`)) return
+    if (await removeProfile(selectedProfile.id)) {
+      setSelectedProfileId(null)
+    }
+  }
+
+  const handleCompare = async (): Promise<void> => {
+    if (!selectedProfile || !targetDevice) return
+    setIsBusy(true)
+    setApplyResult(null)
+    setDiff(await getDiff(selectedProfile.id, targetDevice))
+    setIsBusy(false)
+  }
+
+  const handleApply = async (): Promise<void> => {
+    if (!selectedProfile || !targetDevice) return
+    if (
+      uninstallExtra &&
+      diff &&
+      diff.extra.length > 0 &&
+      !window.confirm(`Uninstall ${diff.extra.length} app(s) that are not in this profile?`)
+    ) {
+      return
+    }
+    setIsBusy(true)
+    const result = await applyProfile(selectedProfile.id, targetDevice, { uninstallExtra })
+    setApplyResult(result)
+    setDiff(await getDiff(selectedProfile.id, targetDevice))
+    setIsBusy(false)
+  }
+
+  return (
+    <div className={styles.root}>
+      <div className={styles.contentContainer}>
+        <div>
+          <Title2>Device Profiles</Title2>
+          <Text className={styles.headerSubtitle}>
+            Keep headsets identical by describing which apps they should have, then syncing a device
+            to that list.
+          </Text>
+        </div>
+
+        <Card className={styles.card}>
+          <CardHeader header={<Subtitle1>Profiles</Subtitle1>} />
+          <div className={styles.cardContent}>
+            <div className={styles.formRow}>
+              <Input
+                className={styles.input}
+                placeholder="New profile name"
+                value={newProfileName}
+                onChange={(_, data) => setNewProfileName(data.value)}
+              />
+              <Button
+                icon={<AddRegular />}
+                onClick={() => handleCreate(false)}
+                disabled={!newProfileName.trim() || isBusy}
+              >
+                Create Empty
+              </Button>
+              <Button
+                icon={<PhoneLaptopRegular />}
+                onClick={() => handleCreate(true)}
+                disabled={!newProfileName.trim() || !selectedDevice || isBusy}
+                title={
+                  selectedDevice
+                    ? 'Create a profile from the apps on the connected device'
+                    : 'Connect a device to capture its apps'
+                }
+              >
+                Capture From Device
+              </Button>
+            </div>
+            {isLoading ? (
+              <Spinner size="small" style={{ marginTop: tokens.spacingVerticalM }} />
+            ) : profiles.length === 0 ? (
+              <Text block className={styles.muted} style={{ marginTop: tokens.spacingVerticalM }}>
+                No profiles yet.
+              </Text>
+            ) : (
+              <Table size="small" style={{ marginTop: tokens.spacingVerticalM }}>
+                <TableHeader>
+                  <TableRow>
+                    <TableHeaderCell>Name</TableHeaderCell>
+                    <TableHeaderCell>Apps</TableHeaderCell>
+                    <TableHeaderCell>Last Changed</TableHeaderCell>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profiles.map((profile) => (
+                    <TableRow
+                      key={profile.id}
+                      className={mergeClasses(
+                        styles.profileRow,
+                        profile.id === selectedProfileId && styles.selectedRow
+                      )}
+                      onClick={() => setSelectedProfileId(profile.id)}
+                    >
+                      <TableCell>{profile.name}</TableCell>
+                      <TableCell>{profile.apps.length}</TableCell>
+                      <TableCell>
+                        {new Date(profile.dateModified ?? profile.dateAdded).toLocaleString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {error && <Text className={styles.error}>{error}</Text>}
+          </div>
+        </Card>
+
+        {selectedProfile && (
+          <Card className={styles.card}>
+            <CardHeader header={<Subtitle1>Edit Profile</Subtitle1>} />
+            <div className={styles.cardContent}>
+              <div className={styles.formRow}>
+                <Input
+                  className={styles.input}
+                  value={draftName}
+                  onChange={(_, data) => setDraftName(data.value)}
+                />
+                <Button
+                  appearance="primary"
+                  icon={<SaveRegular />}
+                  onClick={handleSave}
+                  disabled={isBusy}
+                >
+                  Save
+                </Button>
+                <Button icon={<DeleteRegular />} onClick={handleDelete} disabled={isBusy}>
+                  Delete
+                </Button>
+              </div>
+              <Table size="small" style={{ marginTop: tokens.spacingVerticalM }}>
+                <TableHeader>
+                  <TableRow>
+                    <TableHeaderCell>Package</TableHeaderCell>
+                    <TableHeaderCell>Game</TableHeaderCell>
+                    <TableHeaderCell>Minimum Version</TableHeaderCell>
+                    <TableHeaderCell />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {draftApps.map((profileApp) => (
+                    <TableRow key={profileApp.packageName}>
+                      <TableCell>{profileApp.packageName}</TableCell>
+                      <TableCell>{gameNames.get(profileApp.packageName) ?? '-'}</TableCell>
+                      <TableCell>
+                        <Input
+                          className={styles.versionInput}
+                          type="number"
+                          placeholder="Any"
+                          value={profileApp.minVersionCode?.toString() ?? ''}
+                          onChange={(_, data) =>
+                            handleMinVersionChange(profileApp.packageName, data.value)
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          icon={<DeleteRegular />}
+                          appearance="subtle"
+                          aria-label="Remove app"
+                          onClick={() =>
+                            setDraftApps(
+                              draftApps.filter((a) => a.packageName !== profileApp.packageName)
+                            )
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className={styles.formRow}>
+                <Input
+                  className={styles.input}
+                  placeholder="Package name, e.g. com.beatgames.beatsaber"
+                  value={newPackageName}
+                  onChange={(_, data) => setNewPackageName(data.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddApp()}
+                />
+                <Button icon={<AddRegular />} onClick={handleAddApp}>
+                  Add App
+                </Button>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {selectedProfile && (
+          <Card className={styles.card}>
+            <CardHeader header={<Subtitle1>Sync Device</Subtitle1>} />
+            <div className={styles.cardContent}>
+              <Text className={styles.muted}>
+                Compare a connected device with the saved profile, then queue what is missing or
+                outdated. Save your edits first, syncing uses the saved profile.
+              </Text>
+              <div className={styles.formRow}>
+                <Dropdown
+                  className={styles.input}
+                  placeholder="Select a device"
+                  value={
+                    connectedDevices.find((device) => device.id === targetDevice)
+                      ?.friendlyModelName ??
+                    targetDevice ??
+                    ''
+                  }
+                  selectedOptions={targetDevice ? [targetDevice] : []}
+                  onOptionSelect={(_, data) => {
+                    setTargetDevice(data.optionValue ?? null)
+                    setDiff(null)
+                    setApplyResult(null)
+                  }}
+                >
+                  {connectedDevices.map((device) => (
+                    <Option key={device.id} value={device.id}>
+                      {device.friendlyModelName
+                        ? `${device.friendlyModelName} (${device.id})`
+                        : device.id}
+                    </Option>
+                  ))}
+                </Dropdown>
+                <Button
+                  icon={<ArrowSyncRegular />}
+                  onClick={handleCompare}
+                  disabled={!targetDevice || isBusy}
+                >
+                  Compare
+                </Button>
+              </div>
+
+              {diff && (
+                <div className={styles.diffSection}>
+                  <Text weight="semibold">
+                    {diff.upToDate} up to date, {diff.missing.length} missing,{' '}
+                    {diff.outdated.length} outdated, {diff.extra.length} not in profile
+                  </Text>
+                  {diff.missing.map((entry) => (
+                    <Text key={`missing-${entry.packageName}`} size={200}>
+                      Missing: {describeEntry(entry)}
+                    </Text>
+                  ))}
+                  {diff.outdated.map((entry) => (
+                    <Text key={`outdated-${entry.packageName}`} size={200}>
+                      Outdated: {describeEntry(entry)}
+                    </Text>
+                  ))}
+                  {diff.extra.map((pkg) => (
+                    <Text key={`extra-${pkg.packageName}`} size={200} className={styles.muted}>
+                      Not in profile: {gameNames.get(pkg.packageName) ?? pkg.packageName} (
+                      {pkg.versionCode})
+                    </Text>
+                  ))}
+                  <div className={styles.formRow}>
+                    <Switch
+                      label="Uninstall apps that are not in the profile"
+                      checked={uninstallExtra}
+                      onChange={(_, data) => setUninstallExtra(data.checked)}
+                    />
+                    <Button
+                      appearance="primary"
+                      onClick={handleApply}
+                      disabled={
+                        isBusy ||
+                        (diff.missing.length === 0 &&
+                          diff.outdated.length === 0 &&
+                          (!uninstallExtra || diff.extra.length === 0))
+                      }
+                    >
+                      Apply Profile
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {applyResult && (
+                <Text block className={styles.success}>
+                  {describeResult(applyResult)}
+                </Text>
+              )}
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ProfilesView
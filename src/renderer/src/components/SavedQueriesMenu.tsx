@@ -0,0 +1,154 @@
+import React, { useState } from 'react'
+import {
+  Button,
+  Input,
+  Link,
+  Popover,
+  PopoverSurface,
+  PopoverTrigger,
+  Text,
+  makeStyles,
+  tokens
+} from '@fluentui/react-components'
+import { BookmarkRegular, DeleteRegular, SaveRegular } from '@fluentui/react-icons'
+import { useSettings } from '../hooks/useSettings'
+
+const useStyles = makeStyles({
+  surface: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalS,
+    width: '320px'
+  },
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXXS,
+    maxHeight: '240px',
+    overflowY: 'auto'
+  },
+  row: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS
+  },
+  query: {
+    flexGrow: 1,
+    minWidth: 0,
+    display: 'flex',
+    flexDirection: 'column'
+  },
+  queryText: {
+    color: tokens.colorNeutralForeground3,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap'
+  },
+  error: {
+    color: tokens.colorPaletteRedForeground1
+  }
+})
+
+interface SavedQueriesMenuProps {
+  currentQuery: string
+  onApply: (query: string) => void
+}
+
+const SavedQueriesMenu: React.FC<SavedQueriesMenuProps> = ({ currentQuery, onApply }) => {
+  const styles = useStyles()
+  const { savedGameQueries, setSavedGameQueries } = useSettings()
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  // Saving under an existing name replaces that query
+  const handleSave = async (): Promise<void> => {
+    const trimmedName = name.trim()
+    if (!trimmedName || !currentQuery.trim()) return
+    const existing = savedGameQueries.find((saved) => saved.name === trimmedName)
+    try {
+      setError(null)
+      await setSavedGameQueries([
+        ...savedGameQueries.filter((saved) => saved !== existing),
+        { id: existing?.id ?? crypto.randomUUID(), name: trimmedName, query: currentQuery.trim() }
+      ])
+      setName('')
+    } catch (err) {
+      console.error('Error saving search:', err)
+      setError('Failed to save the search')
+    }
+  }
+
+  const handleRemove = async (id: string): Promise<void> => {
+    try {
+      setError(null)
+      await setSavedGameQueries(savedGameQueries.filter((saved) => saved.id !== id))
+    } catch (err) {
+      console.error('Error removing saved search:', err)
+      setError('Failed to remove the search')
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={(_, data) => setOpen(data.open)} positioning="below-end">
+      <PopoverTrigger disableButtonEnhancement>
+        <Button icon={<BookmarkRegular />} title="Saved searches">
+          Saved
+        </Button>
+      </PopoverTrigger>
+      <PopoverSurface className={styles.surface}>
+        <Text weight="semibold">Saved searches</Text>
+        {savedGameQueries.length === 0 ? (
+          <Text className={styles.queryText}>No saved searches yet</Text>
+        ) : (
+          <div className={styles.list}>
+            {savedGameQueries.map((saved) => (
+              <div key={saved.id} className={styles.row}>
+                <div className={styles.query}>
+                  <Link
+                    onClick={() => {
+                      onApply(saved.query)
+                      setOpen(false)
+                    }}
+                  >
+                    {saved.name}
+                  </Link>
+                  <Text size={200} className={styles.queryText} title={saved.query}>
+                    {saved.query}
+                  </Text>
+                </div>
+                <Button
+                  appearance="subtle"
+                  size="small"
+                  icon={<DeleteRegular />}
+                  onClick={() => handleRemove(saved.id)}
+                  title="Remove saved search"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        <div className={styles.row}>
+          <Input
+            value={name}
+            onChange={(_, data) => setName(data.value)}
+            placeholder="Name for the current search"
+            disabled={!currentQuery.trim()}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            style={{ flexGrow: 1 }}
+          />
+          <Button
+            icon={<SaveRegular />}
+            onClick={handleSave}
+            disabled={!name.trim() || !currentQuery.trim()}
+          >
+            Save
+          </Button>
+        </div>
+        {error && <Text className={styles.error}>{error}</Text>}
+      </PopoverSurface>
+    </Popover>
+  )
+}
+
+export default SavedQueriesMenu
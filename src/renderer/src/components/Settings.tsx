@@ -18,18 +18,25 @@ import {
   TableHeaderCell,
   TableBody,
   TableCell,
-  TableCellLayout
+  TableCellLayout,
+  Switch,
+  ToggleButton
 } from '@fluentui/react-components'
 import {
   FolderOpenRegular,
   CheckmarkCircleRegular,
   InfoRegular,
   DeleteRegular,
-  ShareRegular
+  ShareRegular,
+  AddRegular,
+  ArrowSyncRegular
 } from '@fluentui/react-icons'
 import { useSettings } from '../hooks/useSettings'
 import { useGames } from '../hooks/useGames'
 import { useLogs } from '../hooks/useLogs'
+import { useLocalLibrary } from '../hooks/useLocalLibrary'
+import { BandwidthScheduleRule, PipelineConcurrency, SaveDataPreservation } from '@shared/types'
+import { parseTimeOfDay } from '@shared/bandwidth-schedule'
 
 // Supported speed units with conversion factors to KB/s
 const SPEED_UNITS = [
@@ -144,9 +151,503 @@ const useStyles = makeStyles({
   },
   actionButton: {
     minWidth: 'auto'
+  },
+  scheduleRule: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS,
+    marginTop: tokens.spacingVerticalM,
+    width: '100%',
+    maxWidth: '800px'
+  },
+  dayToggle: {
+    minWidth: '36px'
+  },
+  timeInput: {
+    width: '110px'
+  },
+  concurrencyFormRow: {
+    display: 'grid',
+    gridTemplateColumns: '1fr 1fr 1fr',
+    gap: tokens.spacingHorizontalM,
+    marginTop: tokens.spacingVerticalM,
+    width: '100%',
+    maxWidth: '800px'
   }
 })
 
+const PIPELINE_STAGES = [
+  { key: 'downloads', label: 'Parallel Downloads' },
+  { key: 'extractions', label: 'Parallel Extractions' },
+  { key: 'installations', label: 'Parallel Installations' }
+] as const
+
+const SAVE_DATA_MODES: { value: SaveDataPreservation; label: string }[] = [
+  { value: 'always', label: 'Always keep save data' },
+  { value: 'ask', label: 'Ask every time' },
+  { value: 'never', label: 'Never keep save data' }
+]
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const BandwidthScheduleSettings: React.FC = () => {
+  const styles = useStyles()
+  const { bandwidthSchedule, setBandwidthSchedule } = useSettings()
+  const [enabled, setEnabled] = useState(bandwidthSchedule.enabled)
+  const [rules, setRules] = useState<BandwidthScheduleRule[]>(bandwidthSchedule.rules)
+  const [error, setError] = useState<string | null>(null)
+  const [saveSuccess, setSaveSuccess] = useState(false)
+
+  useEffect(() => {
+    setEnabled(bandwidthSchedule.enabled)
+    setRules(bandwidthSchedule.rules)
+  }, [bandwidthSchedule])
+
+  const updateRule = (id: string, updates: Partial<BandwidthScheduleRule>): void => {
+    setRules((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)))
+  }
+
+  const toggleDay = (rule: BandwidthScheduleRule, day: number): void => {
+    const days = rule.days.includes(day)
+      ? rule.days.filter((d) => d !== day)
+      : [...rule.days, day].sort()
+    updateRule(rule.id, { days })
+  }
+
+  const handleAddRule = (): void => {
+    setRules((prev) => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        days: [1, 2, 3, 4, 5],
+        startTime: '09:00',
+        endTime: '18:00',
+        speedLimit: 0
+      }
+    ])
+  }
+
+  const handleSave = async (): Promise<void> => {
+    const invalidRule = rules.find(
+      (rule) =>
+        rule.days.length === 0 ||
+        parseTimeOfDay(rule.startTime) === null ||
+        parseTimeOfDay(rule.endTime) === null ||
+        isNaN(rule.speedLimit) ||
+        rule.speedLimit < 0
+    )
+    if (invalidRule) {
+      setError('Each rule needs at least one day, valid times and a speed limit of 0 or more')
+      return
+    }
+
+    try {
+      setError(null)
+      await setBandwidthSchedule({ enabled, rules })
+      setSaveSuccess(true)
+
+      setTimeout(() => {
+        setSaveSuccess(false)
+      }, 3000)
+    } catch (err) {
+      console.error('Error saving bandwidth schedule:', err)
+      setError('Failed to save bandwidth schedule')
+    }
+  }
+
+  return (
+    <Card className={styles.card}>
+      <CardHeader description={<Subtitle1>Bandwidth Schedule</Subtitle1>} />
+      <div className={styles.cardContent}>
+        <Text>
+          Limit or pause downloads during set hours. Outside of these ranges the download speed
+          limit above applies.
+        </Text>
+
+        <div className={styles.formRow}>
+          <Switch
+            checked={enabled}
+            onChange={(_, data) => setEnabled(data.checked)}
+            label="Use bandwidth schedule"
+          />
+        </div>
+
+        {rules.map((rule) => (
+          <div key={rule.id} className={styles.scheduleRule}>
+            {WEEKDAYS.map((label, day) => (
+              <ToggleButton
+                key={label}
+                size="small"
+                className={styles.dayToggle}
+                checked={rule.days.includes(day)}
+                onClick={() => toggleDay(rule, day)}
+              >
+                {label}
+              </ToggleButton>
+            ))}
+            <Input
+              type="time"
+              className={styles.timeInput}
+              value={rule.startTime}
+              onChange={(_, data) => updateRule(rule.id, { startTime: data.value })}
+              aria-label="Start time"
+            />
+            <Text>to</Text>
+            <Input
+              type="time"
+              className={styles.timeInput}
+              value={rule.endTime}
+              onChange={(_, data) => updateRule(rule.id, { endTime: data.value })}
+              aria-label="End time"
+            />
+            <Input
+              className={styles.timeInput}
+              value={String(rule.speedLimit)}
+              onChange={(_, data) =>
+                updateRule(rule.id, { speedLimit: Number(data.value.replace(/[^0-9]/g, '')) })
+              }
+              contentAfter={<Text size={200}>KB/s</Text>}
+              aria-label="Speed limit"
+            />
+            <Button
+              icon={<DeleteRegular />}
+              appearance="subtle"
+              className={styles.actionButton}
+              onClick={() => setRules((prev) => prev.filter((r) => r.id !== rule.id))}
+              aria-label="Remove rule"
+            />
+          </div>
+        ))}
+
+        <Text className={styles.hint}>
+          <InfoRegular />A limit of 0 pauses downloads; queued games wait for the next window.
+          Ranges ending before they start continue past midnight.
+        </Text>
+
+        <div
+          className={styles.formRow}
+          style={{ justifyContent: 'flex-end', marginTop: tokens.spacingVerticalM }}
+        >
+          <Button onClick={handleAddRule} icon={<AddRegular />} size="large">
+            Add Time Range
+          </Button>
+          <Button onClick={handleSave} appearance="primary" size="large">
+            Save Schedule
+          </Button>
+        </div>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+        {saveSuccess && (
+          <Text className={styles.success}>
+            <CheckmarkCircleRegular />
+            Bandwidth schedule saved successfully
+          </Text>
+        )}
+      </div>
+    </Card>
+  )
+}
+
+const PipelineSettings: React.FC = () => {
+  const styles = useStyles()
+  const { pipelineConcurrency, setPipelineConcurrency } = useSettings()
+  const [inputs, setInputs] = useState<Record<keyof PipelineConcurrency, string>>({
+    downloads: String(pipelineConcurrency.downloads),
+    extractions: String(pipelineConcurrency.extractions),
+    installations: String(pipelineConcurrency.installations)
+  })
+  const [error, setError] = useState<string | null>(null)
+  const [saveSuccess, setSaveSuccess] = useState(false)
+
+  useEffect(() => {
+    setInputs({
+      downloads: String(pipelineConcurrency.downloads),
+      extractions: String(pipelineConcurrency.extractions),
+      installations: String(pipelineConcurrency.installations)
+    })
+  }, [pipelineConcurrency])
+
+  const handleSave = async (): Promise<void> => {
+    const parsed = {
+      downloads: parseInt(inputs.downloads, 10),
+      extractions: parseInt(inputs.extractions, 10),
+      installations: parseInt(inputs.installations, 10)
+    }
+    if (Object.values(parsed).some((value) => isNaN(value) || value < 1)) {
+      setError('Each stage needs a whole number of at least 1')
+      return
+    }
+
+    try {
+      setError(null)
+      await setPipelineConcurrency(parsed)
+      setSaveSuccess(true)
+
+      setTimeout(() => {
+        setSaveSuccess(false)
+      }, 3000)
+    } catch (err) {
+      console.error('Error saving pipeline concurrency:', err)
+      setError('Failed to save pipeline settings')
+    }
+  }
+
+  return (
+    <Card className={styles.card}>
+      <CardHeader description={<Subtitle1>Download Pipeline</Subtitle1>} />
+      <div className={styles.cardContent}>
+        <Text>Choose how many queued games can download, extract and install at the same time</Text>
+
+        <div className={styles.concurrencyFormRow}>
+          {PIPELINE_STAGES.map((stage) => (
+            <div key={stage.key} className={styles.speedControl}>
+              <Text>{stage.label}</Text>
+              <Input
+                type="number"
+                min={1}
+                value={inputs[stage.key]}
+                onChange={(_, data) =>
+                  setInputs((prev) => ({ ...prev, [stage.key]: data.value.replace(/[^0-9]/g, '') }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+
+        <Text className={styles.hint}>
+          <InfoRegular />
+          Installations on the same headset share its USB or Wi-Fi link, so one is usually enough
+        </Text>
+
+        <div
+          className={styles.formRow}
+          style={{ justifyContent: 'flex-end', marginTop: tokens.spacingVerticalM }}
+        >
+          <Button onClick={handleSave} appearance="primary" size="large">
+            Save Pipeline Settings
+          </Button>
+        </div>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+        {saveSuccess && (
+          <Text className={styles.success}>
+            <CheckmarkCircleRegular />
+            Pipeline settings saved successfully
+          </Text>
+        )}
+      </div>
+    </Card>
+  )
+}
+
+const SaveDataSettings: React.FC = () => {
+  const styles = useStyles()
+  const { saveDataPreservation, setSaveDataPreservation } = useSettings()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = async (mode: SaveDataPreservation): Promise<void> => {
+    try {
+      setError(null)
+      await setSaveDataPreservation(mode)
+    } catch (err) {
+      console.error('Error saving save data preservation:', err)
+      setError('Failed to save the save data setting')
+    }
+  }
+
+  return (
+    <Card className={styles.card}>
+      <CardHeader description={<Subtitle1>Save Data</Subtitle1>} />
+      <div className={styles.cardContent}>
+        <Text>
+          An update signed differently than the installed game can only be installed after
+          uninstalling it, which deletes its save data
+        </Text>
+
+        <div className={styles.formRow}>
+          <Dropdown
+            value={SAVE_DATA_MODES.find((mode) => mode.value === saveDataPreservation)?.label}
+            selectedOptions={[saveDataPreservation]}
+            onOptionSelect={(_, data) =>
+              data.optionValue && handleChange(data.optionValue as SaveDataPreservation)
+            }
+          >
+            {SAVE_DATA_MODES.map((mode) => (
+              <Option key={mode.value} value={mode.value}>
+                {mode.label}
+              </Option>
+            ))}
+          </Dropdown>
+        </div>
+
+        <Text className={styles.hint}>
+          <InfoRegular />
+          Kept save data is copied off the headset and put back once the new version is installed
+        </Text>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+      </div>
+    </Card>
+  )
+}
+
+const LocalLibrarySettings: React.FC = () => {
+  const styles = useStyles()
+  const { folders, isScanning, error, addFolder, removeFolder, rescan } = useLocalLibrary()
+
+  const handleAddFolder = async (): Promise<void> => {
+    const selectedPath = await window.api.dialog.showDirectoryPicker()
+    if (selectedPath) await addFolder(selectedPath)
+  }
+
+  return (
+    <Card className={styles.card}>
+      <CardHeader description={<Subtitle1>Local Library</Subtitle1>} />
+      <div className={styles.cardContent}>
+        <Text>
+          APKs in these folders show up in the games list and install like catalogue games
+        </Text>
+
+        {folders.length === 0 ? (
+          <div className={styles.emptyState}>
+            <Text>No library folders added</Text>
+          </div>
+        ) : (
+          <Table className={styles.blacklistTable}>
+            <TableHeader>
+              <TableRow>
+                <TableHeaderCell>Folder</TableHeaderCell>
+                <TableHeaderCell style={{ width: '100px' }}>Actions</TableHeaderCell>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {folders.map((folder) => (
+                <TableRow key={folder}>
+                  <TableCell>
+                    <TableCellLayout>{folder}</TableCellLayout>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      icon={<DeleteRegular />}
+                      appearance="subtle"
+                      className={styles.actionButton}
+                      onClick={() => removeFolder(folder)}
+                      aria-label="Remove from library"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className={styles.formRow}>
+          <Button icon={<AddRegular />} onClick={handleAddFolder} disabled={isScanning}>
+            Add Folder
+          </Button>
+          <Button
+            icon={isScanning ? <Spinner size="tiny" /> : <ArrowSyncRegular />}
+            onClick={rescan}
+            disabled={isScanning || folders.length === 0}
+          >
+            Rescan
+          </Button>
+        </div>
+
+        <Text className={styles.hint}>
+          <InfoRegular />
+          OBB files are picked up from a folder named after the package next to the APK
+        </Text>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+      </div>
+    </Card>
+  )
+}
+
+const WatchlistSettings: React.FC = () => {
+  const styles = useStyles()
+  const { autoDownloadWatchlist, setAutoDownloadWatchlist } = useSettings()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = async (enabled: boolean): Promise<void> => {
+    try {
+      setError(null)
+      await setAutoDownloadWatchlist(enabled)
+    } catch (err) {
+      console.error('Error saving watchlist auto-download:', err)
+      setError('Failed to save the watchlist setting')
+    }
+  }
+
+  return (
+    <Card className={styles.card}>
+      <CardHeader description={<Subtitle1>Watchlist</Subtitle1>} />
+      <div className={styles.cardContent}>
+        <Text>
+          Games starred in the game details are checked after every sync, a new release shows a
+          notification
+        </Text>
+
+        <div className={styles.formRow}>
+          <Switch
+            checked={autoDownloadWatchlist}
+            onChange={(_, data) => handleChange(data.checked)}
+            label="Download new releases of watched games automatically"
+          />
+        </div>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+      </div>
+    </Card>
+  )
+}
+
+const GameUpdatesSettings: React.FC = () => {
+  const styles = useStyles()
+  const { autoUpdateOnConnect, setAutoUpdateOnConnect } = useSettings()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleChange = async (enabled: boolean): Promise<void> => {
+    try {
+      setError(null)
+      await setAutoUpdateOnConnect(enabled)
+    } catch (err) {
+      console.error('Error saving auto-update on connect:', err)
+      setError('Failed to save the game updates setting')
+    }
+  }
+
+  return (
+    <Card className={styles.card}>
+      <CardHeader description={<Subtitle1>Game Updates</Subtitle1>} />
+      <div className={styles.cardContent}>
+        <Text>
+          Installed games with a newer release in the catalogue can be updated all at once from the
+          games list
+        </Text>
+
+        <div className={styles.formRow}>
+          <Switch
+            checked={autoUpdateOnConnect}
+            onChange={(_, data) => handleChange(data.checked)}
+            label="Update outdated games when a device connects"
+          />
+        </div>
+
+        <Text className={styles.hint}>
+          <InfoRegular />
+          Updates are installed on the device as soon as they are extracted, blacklisted games are
+          skipped
+        </Text>
+
+        {error && <Text className={styles.error}>{error}</Text>}
+      </div>
+    </Card>
+  )
+}
+
 const BlacklistSettings: React.FC = () => {
   const styles = useStyles()
   const { getBlacklistGames, removeGameFromBlacklist } = useGames()
@@ -803,6 +1304,18 @@ const Settings: React.FC = () => {
           </div>
         </Card>
 
+        <BandwidthScheduleSettings />
+
+        <PipelineSettings />
+
+        <SaveDataSettings />
+
+        <LocalLibrarySettings />
+
+        <WatchlistSettings />
+
+        <GameUpdatesSettings />
+
         <BlacklistSettings />
       </div>
     </div>
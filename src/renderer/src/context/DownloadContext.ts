@@ -1,5 +1,5 @@
 import { createContext } from 'react'
-import { DownloadItem, GameInfo } from '@shared/types'
+import { DownloadItem, DownloadPriority, GameInfo } from '@shared/types'
 
 export interface DownloadContextType {
   queue: DownloadItem[]
@@ -12,6 +12,8 @@ export interface DownloadContextType {
   pauseDownload: (releaseName: string) => void
   resumeDownload: (releaseName: string) => void
   deleteFiles: (releaseName: string) => Promise<boolean>
+  moveItem: (releaseName: string, toIndex: number) => Promise<void>
+  setPriority: (releaseName: string, priority: DownloadPriority) => Promise<void>
 }
 
 export const DownloadContext = createContext<DownloadContextType | undefined>(undefined)
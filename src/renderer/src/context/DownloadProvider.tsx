@@ -1,6 +1,6 @@
 import React, { ReactNode, useEffect, useState, useCallback } from 'react'
 import { DownloadContext, DownloadContextType } from './DownloadContext'
-import { DownloadItem, GameInfo } from '@shared/types'
+import { DownloadItem, DownloadPriority, GameInfo } from '@shared/types'
 
 interface DownloadProviderProps {
   children: ReactNode
@@ -132,6 +132,35 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({ children })
     }
   }, [])
 
+  const moveItem = useCallback(async (releaseName: string, toIndex: number): Promise<void> => {
+    console.log(`Context: Moving ${releaseName} to queue position ${toIndex}...`)
+    try {
+      const success = await window.api.downloads.moveItem(releaseName, toIndex)
+      if (!success) {
+        console.warn(`Context: Failed to move ${releaseName} (not found in queue).`)
+      }
+    } catch (err) {
+      console.error('Error moving queue item via IPC:', err)
+      setError('Failed to reorder the download queue.')
+    }
+  }, [])
+
+  const setPriority = useCallback(
+    async (releaseName: string, priority: DownloadPriority): Promise<void> => {
+      console.log(`Context: Setting priority of ${releaseName} to ${priority}...`)
+      try {
+        const success = await window.api.downloads.setPriority(releaseName, priority)
+        if (!success) {
+          console.warn(`Context: Failed to set priority for ${releaseName} (not found in queue).`)
+        }
+      } catch (err) {
+        console.error('Error setting download priority via IPC:', err)
+        setError('Failed to change download priority.')
+      }
+    },
+    []
+  )
+
   const value: DownloadContextType = {
     queue,
     isLoading,
@@ -142,7 +171,9 @@ export const DownloadProvider: React.FC<DownloadProviderProps> = ({ children })
     retryDownload,
     pauseDownload,
     resumeDownload,
-    deleteFiles
+    deleteFiles,
+    moveItem,
+    setPriority
   }
 
   return <DownloadContext.Provider value={value}>{children}</DownloadContext.Provider>
@@ -1,5 +1,13 @@
 import { createContext } from 'react'
-import { BlacklistEntry, GameInfo, UploadCandidate } from '@shared/types'
+import {
+  BlacklistEntry,
+  CatalogueChanges,
+  CatalogueStatus,
+  CatalogueSyncProgress,
+  GameInfo,
+  UploadCandidate,
+  WatchlistEntry
+} from '@shared/types'
 
 export interface GamesContextType {
   games: GameInfo[]
@@ -8,8 +16,11 @@ export interface GamesContextType {
   isLoading: boolean
   error: string | null
   lastSyncTime: Date | null
-  downloadProgress: number
-  extractProgress: number
+  catalogueChanges: CatalogueChanges | null
+  catalogueStatus: CatalogueStatus | null
+  watchlist: WatchlistEntry[]
+  isSyncing: boolean
+  syncProgress: CatalogueSyncProgress | null
   refreshGames: () => Promise<void>
   loadGames: () => Promise<void>
   getNote: (releaseName: string) => Promise<string>
@@ -18,6 +29,8 @@ export interface GamesContextType {
   addGameToBlacklist: (packageName: string, version?: number | 'any') => Promise<void>
   getBlacklistGames: () => Promise<BlacklistEntry[]>
   removeGameFromBlacklist: (packageName: string) => Promise<void>
+  toggleWatchlist: (packageName: string) => Promise<void>
+  dismissWatchlistRelease: (packageName: string) => Promise<void>
 }
 
 export const GamesContext = createContext<GamesContextType | undefined>(undefined)
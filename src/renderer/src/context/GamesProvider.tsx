@@ -1,5 +1,14 @@
 import React, { ReactNode, useEffect, useState, useCallback, useMemo } from 'react'
-import { BlacklistEntry, GameInfo, UploadCandidate } from '@shared/types'
+import {
+  BlacklistEntry,
+  CatalogueChanges,
+  CatalogueStatus,
+  CatalogueSyncProgress,
+  GameInfo,
+  LocalLibraryEntry,
+  UploadCandidate,
+  WatchlistEntry
+} from '@shared/types'
 import { GamesContext } from './GamesContext'
 import { useAdb } from '../hooks/useAdb'
 import { useDependency } from '../hooks/useDependency'
@@ -22,13 +31,41 @@ const parseVersion = (versionString: string): number | null => {
   }
 }
 
+const formatModifiedAt = (timestamp: number): string =>
+  `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`
+
+// Local library APKs are listed like catalogue releases, borrowing the catalogue name and
+// thumbnail of the same package when there is one
+const toLibraryGame = (entry: LocalLibraryEntry, catalogueGame?: GameInfo): GameInfo => {
+  const name = entry.label || catalogueGame?.name || entry.packageName
+  return {
+    id: `local:${entry.apkPath}`,
+    name,
+    packageName: entry.packageName,
+    version: String(entry.versionCode),
+    size: `${Math.round(entry.size / (1024 * 1024))} MB`,
+    lastUpdated: formatModifiedAt(entry.modifiedAt),
+    releaseName: `${name} v${entry.versionCode} (Local)`,
+    downloads: 0,
+    thumbnailPath: catalogueGame?.thumbnailPath ?? '',
+    notePath: '',
+    isInstalled: false,
+    localApkPath: entry.apkPath,
+    metadata: catalogueGame?.metadata
+  }
+}
+
 export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
   const [rawGames, setRawGames] = useState<GameInfo[]>([])
+  const [libraryEntries, setLibraryEntries] = useState<LocalLibraryEntry[]>([])
   const [isLoading, setIsLoading] = useState<boolean>(false)
   const [error, setError] = useState<string | null>(null)
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null)
-  const [downloadProgress, setDownloadProgress] = useState<number>(0)
-  const [extractProgress, setExtractProgress] = useState<number>(0)
+  const [catalogueChanges, setCatalogueChanges] = useState<CatalogueChanges | null>(null)
+  const [catalogueStatus, setCatalogueStatus] = useState<CatalogueStatus | null>(null)
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>([])
+  const [isSyncing, setIsSyncing] = useState<boolean>(false)
+  const [syncProgress, setSyncProgress] = useState<CatalogueSyncProgress | null>(null)
   const [isInitialLoadComplete, setIsInitialLoadComplete] = useState<boolean>(false)
   const [uploadCandidates, setUploadCandidates] = useState<UploadCandidate[]>([])
   const [missingGames] = useState<GameInfo[]>([])
@@ -61,6 +98,21 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
     await window.api.games.removeFromBlacklist(packageName)
   }, [])
 
+  const toggleWatchlist = useCallback(
+    async (packageName: string): Promise<void> => {
+      if (watchlist.some((entry) => entry.packageName === packageName)) {
+        await window.api.games.removeFromWatchlist(packageName)
+      } else {
+        await window.api.games.addToWatchlist(packageName)
+      }
+    },
+    [watchlist]
+  )
+
+  const dismissWatchlistRelease = useCallback(async (packageName: string): Promise<void> => {
+    await window.api.games.dismissWatchlistRelease(packageName)
+  }, [])
+
   // Check for installed games that are missing from the database or newer than store versions
   const checkForUploadCandidates = useCallback(() => {
     if (!isDeviceConnected || installedPackages.length === 0 || rawGames.length === 0) {
@@ -154,10 +206,21 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
     }
   }, [isDeviceConnected])
 
+  const catalogueAndLibraryGames = useMemo((): GameInfo[] => {
+    if (libraryEntries.length === 0) return rawGames
+    const catalogueByPackage = new Map(rawGames.map((game) => [game.packageName, game]))
+    return [
+      ...rawGames,
+      ...libraryEntries.map((entry) =>
+        toLibraryGame(entry, catalogueByPackage.get(entry.packageName))
+      )
+    ]
+  }, [rawGames, libraryEntries])
+
   // enrich the games with the installed packages and the device version codes
   const games = useMemo((): GameInfo[] => {
     if (!isDeviceConnected) {
-      return rawGames.map((game) => ({
+      return catalogueAndLibraryGames.map((game) => ({
         ...game,
         isInstalled: false,
         deviceVersionCode: undefined,
@@ -167,7 +230,7 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
 
     const installedSet = new Set(installedPackages.map((pkg) => pkg.packageName))
 
-    return rawGames.map((game) => {
+    return catalogueAndLibraryGames.map((game) => {
       const isInstalled = game.packageName ? installedSet.has(game.packageName) : false
       let deviceVersionCode: number | undefined = undefined
       let hasUpdate = false
@@ -194,7 +257,7 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
         hasUpdate
       }
     })
-  }, [rawGames, installedPackages, isDeviceConnected])
+  }, [catalogueAndLibraryGames, installedPackages, isDeviceConnected])
 
   const localGames = useMemo((): GameInfo[] => {
     return installedPackages.map((game) => ({
@@ -223,6 +286,9 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
 
       const syncTime = await window.api.games.getLastSyncTime()
       setLastSyncTime(syncTime ? new Date(syncTime) : null)
+      setCatalogueChanges(await window.api.games.getCatalogueChanges())
+      setCatalogueStatus(await window.api.games.getCatalogueStatus())
+      setWatchlist(await window.api.games.getWatchlist())
     } catch (err) {
       console.error('Error loading games:', err)
       setError('Failed to load games')
@@ -238,39 +304,49 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
     return await window.api.games.getTrailerVideoId(gameName)
   }, [])
 
+  // The current list stays usable while syncing, progress arrives through onSyncProgress
   const refreshGames = useCallback(async (): Promise<void> => {
     try {
-      setIsLoading(true)
+      setIsSyncing(true)
       setError(null)
-      setDownloadProgress(0)
-      setExtractProgress(0)
+      setSyncProgress(null)
 
       const gamesList = await window.api.games.forceSync()
       const syncTime = await window.api.games.getLastSyncTime()
 
       setRawGames(gamesList)
       setLastSyncTime(syncTime ? new Date(syncTime) : null)
+      setCatalogueChanges(await window.api.games.getCatalogueChanges())
+      setCatalogueStatus(await window.api.games.getCatalogueStatus())
     } catch (err) {
       console.error('Error refreshing games:', err)
       setError('Failed to refresh games')
     } finally {
-      setIsLoading(false)
-      setDownloadProgress(0)
-      setExtractProgress(0)
+      setIsSyncing(false)
+      setSyncProgress(null)
     }
   }, [])
 
+  // The main process sends the whole watchlist after every change, including sync results
   useEffect(() => {
-    const removeDownloadProgressListener = window.api.games.onDownloadProgress((progress) => {
-      if (progress.stage === 'extract') {
-        setExtractProgress(progress.progress)
-      } else {
-        setDownloadProgress(progress.progress)
-      }
-    })
+    const removeWatchlistListener = window.api.games.onWatchlistUpdated(setWatchlist)
+    return removeWatchlistListener
+  }, [])
+
+  useEffect(() => {
+    window.api.localLibrary
+      .getEntries()
+      .then(setLibraryEntries)
+      .catch((err) => console.error('Error loading local library:', err))
+    const removeLibraryListener = window.api.localLibrary.onUpdated(setLibraryEntries)
+    return removeLibraryListener
+  }, [])
+
+  useEffect(() => {
+    const removeSyncProgressListener = window.api.games.onSyncProgress(setSyncProgress)
 
     return () => {
-      removeDownloadProgressListener()
+      removeSyncProgressListener()
     }
   }, [])
 
@@ -302,8 +378,11 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
     isLoading,
     error,
     lastSyncTime,
-    downloadProgress,
-    extractProgress,
+    catalogueChanges,
+    catalogueStatus,
+    watchlist,
+    isSyncing,
+    syncProgress,
     refreshGames,
     loadGames,
     getNote,
@@ -314,7 +393,9 @@ export const GamesProvider: React.FC<GamesProviderProps> = ({ children }) => {
     getTrailerVideoId,
     addGameToBlacklist,
     getBlacklistGames,
-    removeGameFromBlacklist
+    removeGameFromBlacklist,
+    toggleWatchlist,
+    dismissWatchlistRelease
   }
 
   return <GamesContext.Provider value={value}>{children}</GamesContext.Provider>
@@ -1,16 +1,37 @@
 import { createContext } from 'react'
+import {
+  BandwidthSchedule,
+  GamesViewMode,
+  PipelineConcurrency,
+  SaveDataPreservation,
+  SavedGameQuery
+} from '@shared/types'
 
 export interface SettingsContextType {
   downloadPath: string
   downloadSpeedLimit: number
   uploadSpeedLimit: number
   colorScheme: 'light' | 'dark'
+  pipelineConcurrency: PipelineConcurrency
+  bandwidthSchedule: BandwidthSchedule
+  saveDataPreservation: SaveDataPreservation
+  autoDownloadWatchlist: boolean
+  autoUpdateOnConnect: boolean
+  savedGameQueries: SavedGameQuery[]
+  gamesViewMode: GamesViewMode
   isLoading: boolean
   error: string | null
   setDownloadPath: (path: string) => Promise<void>
   setDownloadSpeedLimit: (limit: number) => Promise<void>
   setUploadSpeedLimit: (limit: number) => Promise<void>
   setColorScheme: (scheme: 'light' | 'dark') => Promise<void>
+  setPipelineConcurrency: (concurrency: PipelineConcurrency) => Promise<void>
+  setBandwidthSchedule: (schedule: BandwidthSchedule) => Promise<void>
+  setSaveDataPreservation: (mode: SaveDataPreservation) => Promise<void>
+  setAutoDownloadWatchlist: (enabled: boolean) => Promise<void>
+  setAutoUpdateOnConnect: (enabled: boolean) => Promise<void>
+  setSavedGameQueries: (queries: SavedGameQuery[]) => Promise<void>
+  setGamesViewMode: (mode: GamesViewMode) => Promise<void>
 }
 
 export const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
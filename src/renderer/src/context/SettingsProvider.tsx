@@ -1,5 +1,12 @@
 import React, { ReactNode, useEffect, useState, useCallback } from 'react'
 import { SettingsContext, SettingsContextType } from './SettingsContext'
+import {
+  BandwidthSchedule,
+  GamesViewMode,
+  PipelineConcurrency,
+  SaveDataPreservation,
+  SavedGameQuery
+} from '@shared/types'
 
 interface SettingsProviderProps {
   children: ReactNode
@@ -12,6 +19,21 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
   const [colorScheme, setColorSchemeState] = useState<'light' | 'dark'>(
     window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light'
   )
+  const [pipelineConcurrency, setPipelineConcurrencyState] = useState<PipelineConcurrency>({
+    downloads: 2,
+    extractions: 1,
+    installations: 1
+  })
+  const [bandwidthSchedule, setBandwidthScheduleState] = useState<BandwidthSchedule>({
+    enabled: false,
+    rules: []
+  })
+  const [saveDataPreservation, setSaveDataPreservationState] =
+    useState<SaveDataPreservation>('always')
+  const [autoDownloadWatchlist, setAutoDownloadWatchlistState] = useState<boolean>(false)
+  const [autoUpdateOnConnect, setAutoUpdateOnConnectState] = useState<boolean>(false)
+  const [savedGameQueries, setSavedGameQueriesState] = useState<SavedGameQuery[]>([])
+  const [gamesViewMode, setGamesViewModeState] = useState<GamesViewMode>('table')
   const [isLoading, setIsLoading] = useState<boolean>(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -21,11 +43,30 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
 
     const loadSettings = async (): Promise<void> => {
       try {
-        const [path, downloadLimit, uploadLimit, colorScheme] = await Promise.all([
+        const [
+          path,
+          downloadLimit,
+          uploadLimit,
+          colorScheme,
+          concurrency,
+          schedule,
+          saveDataMode,
+          autoDownloadWatched,
+          autoUpdate,
+          savedQueries,
+          viewMode
+        ] = await Promise.all([
           window.api.settings.getDownloadPath(),
           window.api.settings.getDownloadSpeedLimit(),
           window.api.settings.getUploadSpeedLimit(),
-          window.api.settings.getColorScheme()
+          window.api.settings.getColorScheme(),
+          window.api.settings.getPipelineConcurrency(),
+          window.api.settings.getBandwidthSchedule(),
+          window.api.settings.getSaveDataPreservation(),
+          window.api.settings.getAutoDownloadWatchlist(),
+          window.api.settings.getAutoUpdateOnConnect(),
+          window.api.settings.getSavedGameQueries(),
+          window.api.settings.getGamesViewMode()
         ])
 
         if (isMounted) {
@@ -36,6 +77,13 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
           setDownloadSpeedLimitState(downloadLimit)
           setUploadSpeedLimitState(uploadLimit)
           setColorSchemeState(colorScheme)
+          setPipelineConcurrencyState(concurrency)
+          setBandwidthScheduleState(schedule)
+          setSaveDataPreservationState(saveDataMode)
+          setAutoDownloadWatchlistState(autoDownloadWatched)
+          setAutoUpdateOnConnectState(autoUpdate)
+          setSavedGameQueriesState(savedQueries)
+          setGamesViewModeState(viewMode)
         }
       } catch (err) {
         console.error('Error fetching settings:', err)
@@ -119,17 +167,139 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
     }
   }, [])
 
+  const setPipelineConcurrency = useCallback(
+    async (concurrency: PipelineConcurrency): Promise<void> => {
+      try {
+        setIsLoading(true)
+        await window.api.settings.setPipelineConcurrency(concurrency)
+        setPipelineConcurrencyState(await window.api.settings.getPipelineConcurrency())
+        setError(null)
+      } catch (err) {
+        console.error('Error setting pipeline concurrency:', err)
+        setError('Failed to update pipeline concurrency')
+        throw err
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    []
+  )
+
+  const setBandwidthSchedule = useCallback(async (schedule: BandwidthSchedule): Promise<void> => {
+    try {
+      setIsLoading(true)
+      await window.api.settings.setBandwidthSchedule(schedule)
+      setBandwidthScheduleState(await window.api.settings.getBandwidthSchedule())
+      setError(null)
+    } catch (err) {
+      console.error('Error setting bandwidth schedule:', err)
+      setError('Failed to update bandwidth schedule')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const setSaveDataPreservation = useCallback(async (mode: SaveDataPreservation): Promise<void> => {
+    try {
+      setIsLoading(true)
+      await window.api.settings.setSaveDataPreservation(mode)
+      setSaveDataPreservationState(mode)
+      setError(null)
+    } catch (err) {
+      console.error('Error setting save data preservation:', err)
+      setError('Failed to update save data preservation')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const setAutoDownloadWatchlist = useCallback(async (enabled: boolean): Promise<void> => {
+    try {
+      setIsLoading(true)
+      await window.api.settings.setAutoDownloadWatchlist(enabled)
+      setAutoDownloadWatchlistState(enabled)
+      setError(null)
+    } catch (err) {
+      console.error('Error setting watchlist auto-download:', err)
+      setError('Failed to update watchlist auto-download')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const setAutoUpdateOnConnect = useCallback(async (enabled: boolean): Promise<void> => {
+    try {
+      setIsLoading(true)
+      await window.api.settings.setAutoUpdateOnConnect(enabled)
+      setAutoUpdateOnConnectState(enabled)
+      setError(null)
+    } catch (err) {
+      console.error('Error setting auto-update on connect:', err)
+      setError('Failed to update auto-update on connect')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const setSavedGameQueries = useCallback(async (queries: SavedGameQuery[]): Promise<void> => {
+    try {
+      setIsLoading(true)
+      await window.api.settings.setSavedGameQueries(queries)
+      setSavedGameQueriesState(queries)
+      setError(null)
+    } catch (err) {
+      console.error('Error setting saved game queries:', err)
+      setError('Failed to update saved searches')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  const setGamesViewMode = useCallback(async (mode: GamesViewMode): Promise<void> => {
+    try {
+      setIsLoading(true)
+      await window.api.settings.setGamesViewMode(mode)
+      setGamesViewModeState(mode)
+      setError(null)
+    } catch (err) {
+      console.error('Error setting games view mode:', err)
+      setError('Failed to update games view mode')
+      throw err
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
   const value: SettingsContextType = {
     downloadPath,
     downloadSpeedLimit,
     uploadSpeedLimit,
     colorScheme,
+    pipelineConcurrency,
+    bandwidthSchedule,
+    saveDataPreservation,
+    autoDownloadWatchlist,
+    autoUpdateOnConnect,
+    savedGameQueries,
+    gamesViewMode,
     isLoading,
     error,
     setDownloadPath,
     setDownloadSpeedLimit,
     setUploadSpeedLimit,
-    setColorScheme
+    setColorScheme,
+    setPipelineConcurrency,
+    setBandwidthSchedule,
+    setSaveDataPreservation,
+    setAutoDownloadWatchlist,
+    setAutoUpdateOnConnect,
+    setSavedGameQueries,
+    setGamesViewMode
   }
 
   return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>
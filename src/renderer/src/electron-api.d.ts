@@ -10,7 +10,14 @@ import {
   DependencyAPIRenderer,
   LogsAPIRenderer,
   MirrorAPIRenderer,
-  WiFiBookmark
+  WiFiBookmark,
+  DeviceProfilesAPIRenderer,
+  GameUpdatesAPIRenderer,
+  BackupsAPIRenderer,
+  LocalLibraryAPIRenderer,
+  DeviceFilesAPIRenderer,
+  MediaAPIRenderer,
+  ScreenMirrorAPIRenderer
 } from '@shared/types'
 
 declare global {
@@ -33,7 +40,10 @@ declare global {
         }) => Promise<string | null>
         showManualInstallPicker: () => Promise<string | null>
         showApkFilePicker: () => Promise<string | null>
-        showFolderPicker: () => Promise<string | null>
+        showFolderPicker: (options?: {
+          title?: string
+          createDirectory?: boolean
+        }) => Promise<string | null>
       }
       wifiBookmarks: {
         getAll: () => Promise<WiFiBookmark[]>
@@ -41,6 +51,13 @@ declare global {
         remove: (id: string) => Promise<boolean>
         updateLastConnected: (id: string) => Promise<void>
       }
+      profiles: DeviceProfilesAPIRenderer
+      gameUpdates: GameUpdatesAPIRenderer
+      backups: BackupsAPIRenderer
+      localLibrary: LocalLibraryAPIRenderer
+      deviceFiles: DeviceFilesAPIRenderer
+      media: MediaAPIRenderer
+      screenMirror: ScreenMirrorAPIRenderer
       onDependencyProgress: (
         callback: (status: DependencyStatus, progress: { name: string; percentage: number }) => void
       ) => () => void
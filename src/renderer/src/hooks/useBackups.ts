@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react'
+import { BackupContents, BackupEntry, BackupProgress } from '@shared/types'
+
+interface UseBackupsReturn {
+  backups: BackupEntry[]
+  isLoading: boolean
+  error: string | null
+  progress: BackupProgress | null
+  createBackup: (deviceId: string, packageName: string) => Promise<BackupEntry | null>
+  restoreBackup: (id: string, deviceId: string, parts: BackupContents) => Promise<boolean>
+  removeBackup: (id: string) => Promise<boolean>
+  clearError: () => void
+}
+
+export const useBackups = (): UseBackupsReturn => {
+  const [backups, setBackups] = useState<BackupEntry[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<BackupProgress | null>(null)
+
+  const loadBackups = useCallback(async (): Promise<void> => {
+    try {
+      setIsLoading(true)
+      setBackups(await window.api.backups.getAll())
+    } catch (err) {
+      console.error('Error loading backups:', err)
+      setError('Failed to load backups')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Load backups on mount
+  useEffect(() => {
+    loadBackups()
+  }, [loadBackups])
+
+  useEffect(() => {
+    const removeListener = window.api.backups.onProgress((update) => {
+      setProgress(update.stage === 'Complete' || update.stage === 'Error' ? null : update)
+    })
+    return removeListener
+  }, [])
+
+  const createBackup = useCallback(
+    async (deviceId: string, packageName: string): Promise<BackupEntry | null> => {
+      try {
+        setError(null)
+        const backup = await window.api.backups.create(deviceId, packageName)
+        if (!backup) {
+          setError(`Failed to back up ${packageName}`)
+          return null
+        }
+        await loadBackups()
+        return backup
+      } catch (err) {
+        console.error('Error creating backup:', err)
+        setError(`Failed to back up ${packageName}`)
+        return null
+      }
+    },
+    [loadBackups]
+  )
+
+  const restoreBackup = useCallback(
+    async (id: string, deviceId: string, parts: BackupContents): Promise<boolean> => {
+      try {
+        setError(null)
+        const success = await window.api.backups.restore(id, deviceId, parts)
+        if (!success) setError('Failed to restore backup')
+        return success
+      } catch (err) {
+        console.error('Error restoring backup:', err)
+        setError('Failed to restore backup')
+        return false
+      }
+    },
+    []
+  )
+
+  const removeBackup = useCallback(
+    async (id: string): Promise<boolean> => {
+      try {
+        setError(null)
+        const success = await window.api.backups.remove(id)
+        if (!success) {
+          setError('Failed to delete backup')
+          return false
+        }
+        await loadBackups()
+        return true
+      } catch (err) {
+        console.error('Error removing backup:', err)
+        setError('Failed to delete backup')
+        return false
+      }
+    },
+    [loadBackups]
+  )
+
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  return {
+    backups,
+    isLoading,
+    error,
+    progress,
+    createBackup,
+    restoreBackup,
+    removeBackup,
+    clearError
+  }
+}
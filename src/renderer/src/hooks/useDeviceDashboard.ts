@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react'
+import { DeviceTelemetry, PackageStorageUsage } from '@shared/types'
+
+// How often battery, temperature and free space are read while the dashboard is open
+const TELEMETRY_POLL_INTERVAL = 5000
+
+interface UseDeviceDashboardReturn {
+  telemetry: DeviceTelemetry | null
+  error: string | null
+  storageUsage: PackageStorageUsage[] | null
+  isMeasuringStorage: boolean
+  measureStorage: () => Promise<void>
+}
+
+export const useDeviceDashboard = (serial: string | null): UseDeviceDashboardReturn => {
+  const [telemetry, setTelemetry] = useState<DeviceTelemetry | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [storageUsage, setStorageUsage] = useState<PackageStorageUsage[] | null>(null)
+  const [isMeasuringStorage, setIsMeasuringStorage] = useState<boolean>(false)
+
+  // Readings of the previous device are dropped when another one is selected
+  useEffect(() => {
+    setTelemetry(null)
+    setStorageUsage(null)
+    setError(null)
+    if (!serial) return
+
+    let cancelled = false
+    const poll = async (): Promise<void> => {
+      try {
+        const reading = await window.api.adb.getDeviceTelemetry(serial)
+        if (cancelled) return
+        if (reading) {
+          setTelemetry(reading)
+          setError(null)
+        } else {
+          setError('Could not read the device status')
+        }
+      } catch (err) {
+        console.error('Error polling device telemetry:', err)
+        if (!cancelled) setError('Could not read the device status')
+      }
+    }
+
+    poll()
+    const interval = setInterval(poll, TELEMETRY_POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [serial])
+
+  // du walks every app folder, so the breakdown is only measured on request
+  const measureStorage = useCallback(async (): Promise<void> => {
+    if (!serial) return
+    try {
+      setIsMeasuringStorage(true)
+      setStorageUsage(await window.api.adb.getStorageBreakdown(serial))
+    } catch (err) {
+      console.error('Error measuring storage:', err)
+      setError('Failed to measure storage per app')
+    } finally {
+      setIsMeasuringStorage(false)
+    }
+  }, [serial])
+
+  return { telemetry, error, storageUsage, isMeasuringStorage, measureStorage }
+}
@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { DeviceFileEntry, FileTransferProgress } from '@shared/types'
+
+export const DEVICE_FILES_ROOT = '/sdcard'
+
+interface UseDeviceFilesReturn {
+  currentPath: string
+  entries: DeviceFileEntry[]
+  isLoading: boolean
+  error: string | null
+  progress: FileTransferProgress | null
+  isTransferring: boolean
+  openFolder: (path: string) => void
+  refresh: () => Promise<void>
+  upload: (localPaths: string[]) => Promise<boolean>
+  download: (remotePaths: string[]) => Promise<boolean>
+  // Entries pulled to the computer by prepareDrag, only these can be dragged out of the window
+  preparedPaths: string[]
+  prepareDrag: (remotePaths: string[]) => Promise<boolean>
+  // Starts the OS drag of the prepared entries, call it from dragstart
+  dragOut: () => void
+  rename: (path: string, newName: string) => Promise<boolean>
+  remove: (paths: string[]) => Promise<boolean>
+  createFolder: (name: string) => Promise<boolean>
+}
+
+export const useDeviceFiles = (serial: string | null): UseDeviceFilesReturn => {
+  const [currentPath, setCurrentPath] = useState<string>(DEVICE_FILES_ROOT)
+  const [entries, setEntries] = useState<DeviceFileEntry[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<FileTransferProgress | null>(null)
+  const [isTransferring, setIsTransferring] = useState<boolean>(false)
+  const [preparedPaths, setPreparedPaths] = useState<string[]>([])
+  // Local copies of the last drag out, dropping them back onto the window is not an upload
+  const draggedPathsRef = useRef<Set<string>>(new Set())
+
+  const loadEntries = useCallback(
+    async (path: string): Promise<void> => {
+      if (!serial) return
+      try {
+        setIsLoading(true)
+        setError(null)
+        const listing = await window.api.deviceFiles.list(serial, path)
+        if (listing) {
+          setEntries(listing)
+        } else {
+          setEntries([])
+          setError(`Could not open ${path}`)
+        }
+      } catch (err) {
+        console.error('Error listing device files:', err)
+        setError(`Could not open ${path}`)
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [serial]
+  )
+
+  // Another device starts at the root again
+  useEffect(() => {
+    setCurrentPath(DEVICE_FILES_ROOT)
+  }, [serial])
+
+  useEffect(() => {
+    loadEntries(currentPath)
+  }, [currentPath, loadEntries])
+
+  // Prepared copies belong to the folder they were picked in
+  useEffect(() => {
+    setPreparedPaths([])
+  }, [currentPath, serial])
+
+  useEffect(() => {
+    const removeListener = window.api.deviceFiles.onProgress(setProgress)
+    return removeListener
+  }, [])
+
+  const refresh = useCallback(() => loadEntries(currentPath), [loadEntries, currentPath])
+
+  const runTransfer = useCallback(
+    async (transfer: () => Promise<boolean>, failure: string): Promise<boolean> => {
+      try {
+        setIsTransferring(true)
+        setError(null)
+        const success = await transfer()
+        if (!success) setError(failure)
+        return success
+      } catch (err) {
+        console.error(failure, err)
+        setError(failure)
+        return false
+      } finally {
+        setIsTransferring(false)
+        setProgress(null)
+      }
+    },
+    []
+  )
+
+  const upload = useCallback(
+    async (localPaths: string[]): Promise<boolean> => {
+      const paths = localPaths.filter((localPath) => !draggedPathsRef.current.has(localPath))
+      if (!serial || paths.length === 0) return false
+      const success = await runTransfer(
+        () => window.api.deviceFiles.upload(serial, paths, currentPath),
+        'Upload failed'
+      )
+      await refresh()
+      return success
+    },
+    [serial, currentPath, runTransfer, refresh]
+  )
+
+  const download = useCallback(
+    async (remotePaths: string[]): Promise<boolean> => {
+      if (!serial || remotePaths.length === 0) return false
+      const localDir = await window.api.dialog.showFolderPicker({
+        title: 'Select where to save the files',
+        createDirectory: true
+      })
+      if (!localDir) return false
+      return runTransfer(
+        () => window.api.deviceFiles.download(serial, remotePaths, localDir),
+        'Download failed'
+      )
+    },
+    [serial, runTransfer]
+  )
+
+  const prepareDrag = useCallback(
+    async (remotePaths: string[]): Promise<boolean> => {
+      if (!serial || remotePaths.length === 0) return false
+      setPreparedPaths([])
+      return runTransfer(async () => {
+        const localPaths = await window.api.deviceFiles.prepareDrag(serial, remotePaths)
+        draggedPathsRef.current = new Set(localPaths)
+        if (localPaths) setPreparedPaths(remotePaths)
+        return localPaths !== null
+      }, 'Could not copy the files to drag them')
+    },
+    [serial, runTransfer]
+  )
+
+  const dragOut = useCallback(() => window.api.deviceFiles.startDrag(), [])
+
+  const rename = useCallback(
+    async (path: string, newName: string): Promise<boolean> => {
+      if (!serial) return false
+      const success = await window.api.deviceFiles.rename(serial, path, newName)
+      if (!success) setError(`Could not rename to ${newName}, the name may already be taken`)
+      await refresh()
+      return success
+    },
+    [serial, refresh]
+  )
+
+  const remove = useCallback(
+    async (paths: string[]): Promise<boolean> => {
+      if (!serial) return false
+      const success = await window.api.deviceFiles.remove(serial, paths)
+      if (!success) setError('Delete failed')
+      await refresh()
+      return success
+    },
+    [serial, refresh]
+  )
+
+  const createFolder = useCallback(
+    async (name: string): Promise<boolean> => {
+      if (!serial) return false
+      const success = await window.api.deviceFiles.createFolder(serial, currentPath, name)
+      if (!success) setError(`Could not create folder ${name}`)
+      await refresh()
+      return success
+    },
+    [serial, currentPath, refresh]
+  )
+
+  return {
+    currentPath,
+    entries,
+    isLoading,
+    error,
+    progress,
+    isTransferring,
+    openFolder: setCurrentPath,
+    refresh,
+    upload,
+    download,
+    preparedPaths,
+    prepareDrag,
+    dragOut,
+    rename,
+    remove,
+    createFolder
+  }
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useCallback } from 'react'
+import { DeviceMediaItem, FileTransferProgress } from '@shared/types'
+
+export interface MediaExportResult {
+  exported: boolean
+  deleted: boolean
+}
+
+interface UseDeviceMediaReturn {
+  items: DeviceMediaItem[]
+  // Local copies by device path, screenshots are pulled automatically and videos on request
+  previews: Map<string, string>
+  loadingPreviews: Set<string>
+  isLoading: boolean
+  error: string | null
+  progress: FileTransferProgress | null
+  isExporting: boolean
+  loadMedia: () => Promise<void>
+  loadPreview: (path: string) => Promise<void>
+  exportMedia: (paths: string[], deleteAfterExport: boolean) => Promise<MediaExportResult | null>
+}
+
+export const useDeviceMedia = (serial: string | null): UseDeviceMediaReturn => {
+  const [items, setItems] = useState<DeviceMediaItem[]>([])
+  const [previews, setPreviews] = useState<Map<string, string>>(new Map())
+  const [loadingPreviews, setLoadingPreviews] = useState<Set<string>>(new Set())
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<FileTransferProgress | null>(null)
+  const [isExporting, setIsExporting] = useState<boolean>(false)
+
+  const loadMedia = useCallback(async (): Promise<void> => {
+    if (!serial) return
+    try {
+      setIsLoading(true)
+      setError(null)
+      const media = await window.api.media.list(serial)
+      if (media) {
+        setItems(media)
+      } else {
+        setItems([])
+        setError('Could not read the media folders of the headset')
+      }
+    } catch (err) {
+      console.error('Error loading headset media:', err)
+      setError('Failed to load headset media')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [serial])
+
+  useEffect(() => {
+    setItems([])
+    setPreviews(new Map())
+    loadMedia()
+  }, [loadMedia])
+
+  // A headset that reconnects may have new captures
+  useEffect(() => {
+    const removeListener = window.api.adb.onDeviceAdded((device) => {
+      if (device.id === serial) loadMedia()
+    })
+    return removeListener
+  }, [serial, loadMedia])
+
+  useEffect(() => {
+    const removeListener = window.api.deviceFiles.onProgress(setProgress)
+    return removeListener
+  }, [])
+
+  const loadPreview = useCallback(
+    async (path: string): Promise<void> => {
+      if (!serial) return
+      setLoadingPreviews((previous) => new Set(previous).add(path))
+      try {
+        const previewPath = await window.api.media.getPreviewPath(serial, path)
+        if (previewPath) {
+          setPreviews((previous) => new Map(previous).set(path, previewPath))
+        }
+      } catch (err) {
+        console.error(`Error loading a preview of ${path}:`, err)
+      } finally {
+        setLoadingPreviews((previous) => {
+          const next = new Set(previous)
+          next.delete(path)
+          return next
+        })
+      }
+    },
+    [serial]
+  )
+
+  // Screenshots are small enough to pull one after the other as soon as they are listed
+  useEffect(() => {
+    const missing = items.filter((item) => item.kind === 'screenshot' && !previews.has(item.path))
+    if (missing.length === 0) return
+
+    let cancelled = false
+    const load = async (): Promise<void> => {
+      for (const item of missing) {
+        if (cancelled) return
+        await loadPreview(item.path)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+    // previews is left out, every preview that arrives would restart the pulls
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items, loadPreview])
+
+  const exportMedia = useCallback(
+    async (paths: string[], deleteAfterExport: boolean): Promise<MediaExportResult | null> => {
+      if (!serial || paths.length === 0) return null
+      const localDir = await window.api.dialog.showFolderPicker({
+        title: 'Select where to save the files',
+        createDirectory: true
+      })
+      if (!localDir) return null
+
+      const result: MediaExportResult = { exported: false, deleted: false }
+      try {
+        setIsExporting(true)
+        setError(null)
+        result.exported = await window.api.deviceFiles.download(serial, paths, localDir)
+        if (!result.exported) {
+          setError('Export failed, nothing has been deleted from the headset')
+          return result
+        }
+        // Only deleted once every file has been copied
+        if (deleteAfterExport) {
+          result.deleted = await window.api.deviceFiles.remove(serial, paths)
+          if (!result.deleted) setError('Exported, but the files could not be deleted')
+          await loadMedia()
+        }
+        return result
+      } catch (err) {
+        console.error('Error exporting headset media:', err)
+        setError('Export failed')
+        return result
+      } finally {
+        setIsExporting(false)
+        setProgress(null)
+      }
+    },
+    [serial, loadMedia]
+  )
+
+  return {
+    items,
+    previews,
+    loadingPreviews,
+    isLoading,
+    error,
+    progress,
+    isExporting,
+    loadMedia,
+    loadPreview,
+    exportMedia
+  }
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect, useCallback } from 'react'
+import {
+  DeviceProfile,
+  DeviceProfileApp,
+  ProfileApplyOptions,
+  ProfileApplyResult,
+  ProfileDiff
+} from '@shared/types'
+
+interface UseDeviceProfilesReturn {
+  profiles: DeviceProfile[]
+  isLoading: boolean
+  error: string | null
+  addProfile: (name: string, apps: DeviceProfileApp[]) => Promise<DeviceProfile | null>
+  updateProfile: (id: string, name: string, apps: DeviceProfileApp[]) => Promise<boolean>
+  removeProfile: (id: string) => Promise<boolean>
+  captureFromDevice: (name: string, deviceId: string) => Promise<DeviceProfile | null>
+  getDiff: (id: string, deviceId: string) => Promise<ProfileDiff | null>
+  applyProfile: (
+    id: string,
+    deviceId: string,
+    options: ProfileApplyOptions
+  ) => Promise<ProfileApplyResult | null>
+  clearError: () => void
+}
+
+export const useDeviceProfiles = (): UseDeviceProfilesReturn => {
+  const [profiles, setProfiles] = useState<DeviceProfile[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadProfiles = useCallback(async (): Promise<void> => {
+    try {
+      setIsLoading(true)
+      setProfiles(await window.api.profiles.getAll())
+    } catch (err) {
+      console.error('Error loading device profiles:', err)
+      setError('Failed to load device profiles')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Load profiles on mount
+  useEffect(() => {
+    loadProfiles()
+  }, [loadProfiles])
+
+  const addProfile = useCallback(
+    async (name: string, apps: DeviceProfileApp[]): Promise<DeviceProfile | null> => {
+      try {
+        setError(null)
+        const profile = await window.api.profiles.add(name, apps)
+        if (!profile) {
+          setError('Failed to create profile')
+          return null
+        }
+        await loadProfiles()
+        return profile
+      } catch (err) {
+        console.error('Error adding device profile:', err)
+        setError('Failed to create profile')
+        return null
+      }
+    },
+    [loadProfiles]
+  )
+
+  const updateProfile = useCallback(
+    async (id: string, name: string, apps: DeviceProfileApp[]): Promise<boolean> => {
+      try {
+        setError(null)
+        const success = await window.api.profiles.update(id, name, apps)
+        if (!success) {
+          setError('Failed to save profile')
+          return false
+        }
+        await loadProfiles()
+        return true
+      } catch (err) {
+        console.error('Error updating device profile:', err)
+        setError('Failed to save profile')
+        return false
+      }
+    },
+    [loadProfiles]
+  )
+
+  const removeProfile = useCallback(
+    async (id: string): Promise<boolean> => {
+      try {
+        setError(null)
+        const success = await window.api.profiles.remove(id)
+        if (!success) {
+          setError('Failed to delete profile')
+          return false
+        }
+        await loadProfiles()
+        return true
+      } catch (err) {
+        console.error('Error removing device profile:', err)
+        setError('Failed to delete profile')
+        return false
+      }
+    },
+    [loadProfiles]
+  )
+
+  const captureFromDevice = useCallback(
+    async (name: string, deviceId: string): Promise<DeviceProfile | null> => {
+      try {
+        setError(null)
+        const profile = await window.api.profiles.captureFromDevice(name, deviceId)
+        if (!profile) {
+          setError('Failed to capture profile from device')
+          return null
+        }
+        await loadProfiles()
+        return profile
+      } catch (err) {
+        console.error('Error capturing device profile:', err)
+        setError('Failed to capture profile from device')
+        return null
+      }
+    },
+    [loadProfiles]
+  )
+
+  const getDiff = useCallback(async (id: string, deviceId: string): Promise<ProfileDiff | null> => {
+    try {
+      setError(null)
+      const diff = await window.api.profiles.getDiff(id, deviceId)
+      if (!diff) setError('Failed to compare profile with device')
+      return diff
+    } catch (err) {
+      console.error('Error comparing device profile:', err)
+      setError('Failed to compare profile with device')
+      return null
+    }
+  }, [])
+
+  const applyProfile = useCallback(
+    async (
+      id: string,
+      deviceId: string,
+      options: ProfileApplyOptions
+    ): Promise<ProfileApplyResult | null> => {
+      try {
+        setError(null)
+        const result = await window.api.profiles.apply(id, deviceId, options)
+        if (!result) setError('Failed to apply profile')
+        return result
+      } catch (err) {
+        console.error('Error applying device profile:', err)
+        setError('Failed to apply profile')
+        return null
+      }
+    },
+    []
+  )
+
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  return {
+    profiles,
+    isLoading,
+    error,
+    addProfile,
+    updateProfile,
+    removeProfile,
+    captureFromDevice,
+    getDiff,
+    applyProfile,
+    clearError
+  }
+}
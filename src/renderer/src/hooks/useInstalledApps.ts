@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from 'react'
+import { InstalledApp } from '@shared/types'
+
+export type AppAction = 'launch' | 'force-stop' | 'clear-data' | 'backup' | 'uninstall'
+
+export interface AppActionResult {
+  action: AppAction
+  succeeded: string[]
+  failed: string[]
+}
+
+interface UseInstalledAppsReturn {
+  apps: InstalledApp[]
+  labels: Map<string, string>
+  // APK, OBB and data folders together, measured after the list has loaded
+  sizes: Map<string, number>
+  isLoading: boolean
+  isMeasuringSizes: boolean
+  error: string | null
+  // Package the running bulk action is working on
+  busyPackage: string | null
+  loadApps: () => Promise<void>
+  runAction: (action: AppAction, packageNames: string[]) => Promise<AppActionResult>
+}
+
+const runSingleAction = async (
+  serial: string,
+  action: AppAction,
+  packageName: string
+): Promise<boolean> => {
+  switch (action) {
+    case 'launch':
+      return window.api.adb.launchApp(serial, packageName)
+    case 'force-stop':
+      return window.api.adb.forceStopApp(serial, packageName)
+    case 'clear-data':
+      return window.api.adb.clearAppData(serial, packageName)
+    case 'backup':
+      return (await window.api.backups.create(serial, packageName)) !== null
+    case 'uninstall':
+      return window.api.adb.uninstallPackage(serial, packageName)
+  }
+}
+
+// Apps in namedPackages already have a catalogue name and get no label lookup
+export const useInstalledApps = (
+  serial: string | null,
+  namedPackages: Set<string>
+): UseInstalledAppsReturn => {
+  const [apps, setApps] = useState<InstalledApp[]>([])
+  const [labels, setLabels] = useState<Map<string, string>>(new Map())
+  const [sizes, setSizes] = useState<Map<string, number>>(new Map())
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [isMeasuringSizes, setIsMeasuringSizes] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  const [busyPackage, setBusyPackage] = useState<string | null>(null)
+
+  const loadApps = useCallback(async (): Promise<void> => {
+    if (!serial) return
+    try {
+      setIsLoading(true)
+      setError(null)
+      setApps(await window.api.adb.getInstalledApps(serial))
+    } catch (err) {
+      console.error('Error loading installed apps:', err)
+      setError('Failed to load installed apps')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [serial])
+
+  useEffect(() => {
+    setApps([])
+    setLabels(new Map())
+    setSizes(new Map())
+    loadApps()
+  }, [loadApps])
+
+  // Measuring walks the OBB and data folders of every app, so the list is shown before it
+  useEffect(() => {
+    if (!serial || apps.length === 0) return
+
+    let cancelled = false
+    setIsMeasuringSizes(true)
+    window.api.adb
+      .getStorageBreakdown(serial)
+      .then((usage) => {
+        if (!cancelled) {
+          setSizes(new Map(usage.map((entry) => [entry.packageName, entry.totalBytes])))
+        }
+      })
+      .catch((err) => console.error('Error measuring app sizes:', err))
+      .finally(() => {
+        if (!cancelled) setIsMeasuringSizes(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [serial, apps])
+
+  // Labels are read with aapt one APK at a time, so they are only asked for the apps that
+  // have no catalogue name and filled in as they arrive
+  useEffect(() => {
+    if (!serial) return
+    const missing = apps
+      .map((app) => app.packageName)
+      .filter((packageName) => !namedPackages.has(packageName) && !labels.has(packageName))
+    if (missing.length === 0) return
+
+    let cancelled = false
+    const load = async (): Promise<void> => {
+      for (const packageName of missing) {
+        if (cancelled) return
+        const label = await window.api.adb.getApplicationLabel(serial, packageName)
+        if (!cancelled) {
+          // An empty label marks a package that has been looked up without result
+          setLabels((previous) => new Map(previous).set(packageName, label ?? ''))
+        }
+      }
+    }
+    load().catch((err) => console.error('Error loading app labels:', err))
+    return () => {
+      cancelled = true
+    }
+    // labels is left out, every label that arrives would restart the lookup
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [serial, apps, namedPackages])
+
+  // Runs one package at a time, adb handles parallel installs and uninstalls poorly
+  const runAction = useCallback(
+    async (action: AppAction, packageNames: string[]): Promise<AppActionResult> => {
+      const result: AppActionResult = { action, succeeded: [], failed: [] }
+      if (!serial) return result
+      setError(null)
+      for (const packageName of packageNames) {
+        setBusyPackage(packageName)
+        try {
+          const success = await runSingleAction(serial, action, packageName)
+          result[success ? 'succeeded' : 'failed'].push(packageName)
+        } catch (err) {
+          console.error(`Error running ${action} on ${packageName}:`, err)
+          result.failed.push(packageName)
+        }
+      }
+      setBusyPackage(null)
+      if (action === 'uninstall' || action === 'clear-data') {
+        await loadApps()
+      }
+      return result
+    },
+    [serial, loadApps]
+  )
+
+  return {
+    apps,
+    labels,
+    sizes,
+    isLoading,
+    isMeasuringSizes,
+    error,
+    busyPackage,
+    loadApps,
+    runAction
+  }
+}
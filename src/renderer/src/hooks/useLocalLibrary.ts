@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react'
+
+interface UseLocalLibraryReturn {
+  folders: string[]
+  isScanning: boolean
+  error: string | null
+  addFolder: (folderPath: string) => Promise<boolean>
+  removeFolder: (folderPath: string) => Promise<boolean>
+  rescan: () => Promise<void>
+  clearError: () => void
+}
+
+export const useLocalLibrary = (): UseLocalLibraryReturn => {
+  const [folders, setFolders] = useState<string[]>([])
+  const [isScanning, setIsScanning] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadFolders = useCallback(async (): Promise<void> => {
+    try {
+      setFolders(await window.api.localLibrary.getFolders())
+    } catch (err) {
+      console.error('Error loading local library folders:', err)
+      setError('Failed to load library folders')
+    }
+  }, [])
+
+  // Load folders on mount
+  useEffect(() => {
+    loadFolders()
+  }, [loadFolders])
+
+  const addFolder = useCallback(
+    async (folderPath: string): Promise<boolean> => {
+      try {
+        setError(null)
+        setIsScanning(true)
+        const success = await window.api.localLibrary.addFolder(folderPath)
+        if (!success) {
+          setError(`Could not add ${folderPath}, it may already be in the library`)
+          return false
+        }
+        await loadFolders()
+        return true
+      } catch (err) {
+        console.error('Error adding local library folder:', err)
+        setError('Failed to add library folder')
+        return false
+      } finally {
+        setIsScanning(false)
+      }
+    },
+    [loadFolders]
+  )
+
+  const removeFolder = useCallback(
+    async (folderPath: string): Promise<boolean> => {
+      try {
+        setError(null)
+        const success = await window.api.localLibrary.removeFolder(folderPath)
+        if (!success) {
+          setError('Failed to remove library folder')
+          return false
+        }
+        await loadFolders()
+        return true
+      } catch (err) {
+        console.error('Error removing local library folder:', err)
+        setError('Failed to remove library folder')
+        return false
+      }
+    },
+    [loadFolders]
+  )
+
+  const rescan = useCallback(async (): Promise<void> => {
+    try {
+      setError(null)
+      setIsScanning(true)
+      await window.api.localLibrary.rescan()
+    } catch (err) {
+      console.error('Error rescanning local library:', err)
+      setError('Failed to rescan library folders')
+    } finally {
+      setIsScanning(false)
+    }
+  }, [])
+
+  const clearError = useCallback(() => {
+    setError(null)
+  }, [])
+
+  return {
+    folders,
+    isScanning,
+    error,
+    addFolder,
+    removeFolder,
+    rescan,
+    clearError
+  }
+}
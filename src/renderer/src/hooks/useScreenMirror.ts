@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useRef, RefObject } from 'react'
+import { ScreenMirrorFrame, ScreenMirrorStatus } from '@shared/types'
+
+interface UseScreenMirrorReturn {
+  canvasRef: RefObject<HTMLCanvasElement | null>
+  status: ScreenMirrorStatus
+  // Frames drawn during the last second
+  fps: number
+  decodeError: string | null
+  start: (bitRate: number) => Promise<boolean>
+  stop: () => Promise<void>
+}
+
+const IDLE_STATUS: ScreenMirrorStatus = { state: 'idle', serial: null, error: null }
+
+// Decodes the mirrored frames with WebCodecs and draws them onto canvasRef
+export const useScreenMirror = (serial: string | null): UseScreenMirrorReturn => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const decoderRef = useRef<VideoDecoder | null>(null)
+  const codecRef = useRef<string | null>(null)
+  const drawnFramesRef = useRef(0)
+  const [status, setStatus] = useState<ScreenMirrorStatus>(IDLE_STATUS)
+  const [fps, setFps] = useState<number>(0)
+  const [decodeError, setDecodeError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const closeDecoder = (): void => {
+      if (decoderRef.current && decoderRef.current.state !== 'closed') {
+        decoderRef.current.close()
+      }
+      decoderRef.current = null
+      codecRef.current = null
+    }
+
+    const drawFrame = (frame: VideoFrame): void => {
+      const canvas = canvasRef.current
+      const context = canvas?.getContext('2d')
+      if (canvas && context) {
+        if (canvas.width !== frame.displayWidth || canvas.height !== frame.displayHeight) {
+          canvas.width = frame.displayWidth
+          canvas.height = frame.displayHeight
+        }
+        context.drawImage(frame, 0, 0)
+        drawnFramesRef.current++
+      }
+      frame.close()
+    }
+
+    const handleFrame = (frame: ScreenMirrorFrame): void => {
+      // Decoding can only begin at a key frame, which also carries the codec of the stream
+      if (frame.isKey && frame.codec && frame.codec !== codecRef.current) {
+        closeDecoder()
+        const decoder = new VideoDecoder({
+          output: drawFrame,
+          error: (error) => {
+            console.error('Error decoding the mirrored screen:', error)
+            setDecodeError(error.message)
+            // Picked up again with a new decoder at the next key frame
+            decoderRef.current = null
+            codecRef.current = null
+          }
+        })
+        decoder.configure({ codec: frame.codec, optimizeForLatency: true })
+        decoderRef.current = decoder
+        codecRef.current = frame.codec
+        setDecodeError(null)
+      }
+      const decoder = decoderRef.current
+      if (!decoder || decoder.state !== 'configured') return
+      decoder.decode(
+        new EncodedVideoChunk({
+          type: frame.isKey ? 'key' : 'delta',
+          timestamp: frame.timestamp,
+          data: frame.data
+        })
+      )
+    }
+
+    const removeFrameListener = window.api.screenMirror.onFrame(handleFrame)
+    const removeStatusListener = window.api.screenMirror.onStatus(setStatus)
+    const fpsInterval = setInterval(() => {
+      setFps(drawnFramesRef.current)
+      drawnFramesRef.current = 0
+    }, 1000)
+    return () => {
+      removeFrameListener()
+      removeStatusListener()
+      clearInterval(fpsInterval)
+      closeDecoder()
+    }
+  }, [])
+
+  // Nobody is watching once the view is left or another device is picked
+  useEffect(() => {
+    return () => {
+      window.api.screenMirror.stop()
+    }
+  }, [serial])
+
+  const start = useCallback(
+    async (bitRate: number): Promise<boolean> => {
+      if (!serial) return false
+      setDecodeError(null)
+      return window.api.screenMirror.start(serial, { bitRate })
+    },
+    [serial]
+  )
+
+  const stop = useCallback(() => window.api.screenMirror.stop(), [])
+
+  return { canvasRef, status, fps, decodeError, start, stop }
+}
@@ -0,0 +1,87 @@
+import { BandwidthSchedule, BandwidthScheduleRule } from './types'
+
+const MINUTES_PER_DAY = 24 * 60
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY
+
+// Parses 'HH:MM' into minutes since midnight, null when the value is malformed
+export function parseTimeOfDay(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/)
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+// Rules whose end is not after their start run past midnight into the following day
+export function isRuleActive(rule: BandwidthScheduleRule, date: Date): boolean {
+  const start = parseTimeOfDay(rule.startTime)
+  const end = parseTimeOfDay(rule.endTime)
+  if (start === null || end === null) return false
+
+  const day = date.getDay()
+  const minutes = date.getHours() * 60 + date.getMinutes()
+
+  if (start === end) {
+    return rule.days.includes(day)
+  }
+  if (start < end) {
+    return rule.days.includes(day) && minutes >= start && minutes < end
+  }
+  return (
+    (rule.days.includes(day) && minutes >= start) ||
+    (rule.days.includes((day + 6) % 7) && minutes < end)
+  )
+}
+
+// When rules overlap the most restrictive one wins, a paused rule beats any speed limit
+export function getActiveScheduleRule(
+  schedule: BandwidthSchedule,
+  date: Date
+): BandwidthScheduleRule | null {
+  if (!schedule.enabled) return null
+
+  let active: BandwidthScheduleRule | null = null
+  for (const rule of schedule.rules) {
+    if (!isRuleActive(rule, date)) continue
+    if (!active || rule.speedLimit < active.speedLimit) {
+      active = rule
+    }
+  }
+  return active
+}
+
+export function isDownloadPausedBySchedule(schedule: BandwidthSchedule, date: Date): boolean {
+  return getActiveScheduleRule(schedule, date)?.speedLimit === 0
+}
+
+// Returns the next minute at which the active rule changes, null if it never changes
+export function getNextScheduleChange(schedule: BandwidthSchedule, from: Date): Date | null {
+  if (!schedule.enabled || schedule.rules.length === 0) return null
+
+  const current = getActiveScheduleRule(schedule, from)
+  const cursor = new Date(from)
+  cursor.setSeconds(0, 0)
+  for (let i = 0; i < MINUTES_PER_WEEK; i++) {
+    cursor.setMinutes(cursor.getMinutes() + 1)
+    if (getActiveScheduleRule(schedule, cursor) !== current) {
+      return new Date(cursor)
+    }
+  }
+  return null
+}
+
+// Returns when downloads may next run: `from` itself if they are allowed now, null if never
+export function getNextDownloadWindow(schedule: BandwidthSchedule, from: Date): Date | null {
+  if (!isDownloadPausedBySchedule(schedule, from)) return from
+
+  const cursor = new Date(from)
+  cursor.setSeconds(0, 0)
+  for (let i = 0; i < MINUTES_PER_WEEK; i++) {
+    cursor.setMinutes(cursor.getMinutes() + 1)
+    if (!isDownloadPausedBySchedule(schedule, cursor)) {
+      return new Date(cursor)
+    }
+  }
+  return null
+}
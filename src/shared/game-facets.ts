@@ -0,0 +1,55 @@
+import { GameFacetFilters, GameInfo } from './types'
+
+export const EMPTY_GAME_FACETS: GameFacetFilters = {
+  genres: [],
+  playerMode: 'any',
+  handTracking: false,
+  maxSizeMb: null,
+  minRating: null
+}
+
+const SIZE_UNITS_MB: Record<string, number> = {
+  KB: 1 / 1024,
+  MB: 1,
+  GB: 1024,
+  TB: 1024 * 1024
+}
+
+// Sizes are kept as display text, '1234 MB' in the game list. A bare number counts as MB.
+export function getGameSizeMb(game: GameInfo): number | null {
+  const match = game.size?.trim().match(/^([\d.]+)\s*(KB|MB|GB|TB)?$/i)
+  if (!match) return null
+  const value = parseFloat(match[1])
+  if (Number.isNaN(value)) return null
+  return value * SIZE_UNITS_MB[(match[2] ?? 'MB').toUpperCase()]
+}
+
+export function hasActiveFacets(filters: GameFacetFilters): boolean {
+  return (
+    filters.genres.length > 0 ||
+    filters.playerMode !== 'any' ||
+    filters.handTracking ||
+    filters.maxSizeMb !== null ||
+    filters.minRating !== null
+  )
+}
+
+// Games without metadata only pass facets that do not need it. Unknown player modes count as
+// single player, most games list multiplayer support when they have it.
+export function matchesGameFacets(game: GameInfo, filters: GameFacetFilters): boolean {
+  const metadata = game.metadata
+
+  if (filters.genres.length > 0) {
+    const genres = new Set(metadata?.genres.map((genre) => genre.toLowerCase()) ?? [])
+    if (!filters.genres.some((genre) => genres.has(genre.toLowerCase()))) return false
+  }
+  if (filters.playerMode === 'multi' && metadata?.multiplayer !== true) return false
+  if (filters.playerMode === 'single' && metadata?.multiplayer === true) return false
+  if (filters.handTracking && metadata?.handTracking !== true) return false
+  if (filters.minRating !== null && (metadata?.rating ?? -1) < filters.minRating) return false
+  if (filters.maxSizeMb !== null) {
+    const sizeMb = getGameSizeMb(game)
+    if (sizeMb === null || sizeMb > filters.maxSizeMb) return false
+  }
+  return true
+}
@@ -0,0 +1,224 @@
+import { GameInfo } from './types'
+import { getGameSizeMb } from './game-facets'
+
+export type GameQueryField =
+  | 'name'
+  | 'pkg'
+  | 'release'
+  | 'genre'
+  | 'size'
+  | 'downloads'
+  | 'version'
+  | 'updated'
+  | 'installed'
+  | 'update'
+
+export type GameQueryOperator = '=' | '<' | '<=' | '>' | '>='
+
+export interface GameQueryTerm {
+  // Null for free text, which is matched against name, package and release name
+  field: GameQueryField | null
+  operator: GameQueryOperator
+  value: string
+  negated: boolean
+  // Quoted phrases match as written, bare words may be matched fuzzily
+  quoted: boolean
+}
+
+export interface ParsedGameQuery {
+  terms: GameQueryTerm[]
+  // Terms that could not be read, they are left out of the filter
+  errors: string[]
+}
+
+const FIELD_ALIASES: Record<string, GameQueryField> = {
+  name: 'name',
+  pkg: 'pkg',
+  package: 'pkg',
+  release: 'release',
+  genre: 'genre',
+  size: 'size',
+  downloads: 'downloads',
+  popularity: 'downloads',
+  version: 'version',
+  ver: 'version',
+  updated: 'updated',
+  date: 'updated',
+  installed: 'installed',
+  update: 'update',
+  updates: 'update'
+}
+
+const NUMERIC_FIELDS: GameQueryField[] = ['size', 'downloads', 'version', 'updated']
+const BOOLEAN_FIELDS: GameQueryField[] = ['installed', 'update']
+
+const SIZE_UNITS_MB: Record<string, number> = { KB: 1 / 1024, MB: 1, GB: 1024, TB: 1024 * 1024 }
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// An optional '-', an optional 'field:', then a quoted phrase or a bare word
+const TOKEN_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g
+const OPERATOR_PATTERN = /^(<=|>=|<|>|=)?(.*)$/
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.toLowerCase()
+  if (['yes', 'y', 'true', '1'].includes(normalized)) return true
+  if (['no', 'n', 'false', '0'].includes(normalized)) return false
+  return null
+}
+
+function parseSizeMb(value: string): number | null {
+  const match = value.match(/^([\d.]+)\s*(KB|MB|GB|TB)?$/i)
+  if (!match) return null
+  const size = parseFloat(match[1])
+  return Number.isNaN(size) ? null : size * SIZE_UNITS_MB[(match[2] ?? 'MB').toUpperCase()]
+}
+
+// Start of the given day in UTC, dates are written as YYYY-MM-DD
+function parseDay(value: string): number | null {
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(value)) return null
+  const time = Date.parse(value.length === 7 ? `${value}-01` : value)
+  return Number.isNaN(time) ? null : time
+}
+
+function validateTerm(term: GameQueryTerm): string | null {
+  if (!term.field) return null
+  if (!term.value) return `${term.field}: needs a value`
+  if (BOOLEAN_FIELDS.includes(term.field)) {
+    return parseBoolean(term.value) === null ? `${term.field}: expects yes or no` : null
+  }
+  if (term.field === 'size') {
+    return parseSizeMb(term.value) === null ? `size: expects a size like 2GB` : null
+  }
+  if (term.field === 'updated') {
+    return parseDay(term.value) === null ? `updated: expects a date like 2024-01-31` : null
+  }
+  if (NUMERIC_FIELDS.includes(term.field)) {
+    return Number.isNaN(parseFloat(term.value)) ? `${term.field}: expects a number` : null
+  }
+  return term.operator === '=' ? null : `${term.field}: does not support comparisons`
+}
+
+export function parseGameQuery(query: string): ParsedGameQuery {
+  const result: ParsedGameQuery = { terms: [], errors: [] }
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [token, negation, fieldName, quoted, bare] = match
+    const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined
+    // Unknown fields are searched as text, game names can contain a colon
+    if (fieldName && !field) {
+      const text = (negation ? token.slice(1) : token).replace(/"/g, '')
+      result.terms.push({
+        field: null,
+        operator: '=',
+        value: text,
+        negated: !!negation,
+        quoted: false
+      })
+      continue
+    }
+
+    let operator: GameQueryOperator = '='
+    let value = quoted ?? bare ?? ''
+    if (field && quoted === undefined) {
+      const [, op, rest] = value.match(OPERATOR_PATTERN)!
+      operator = (op as GameQueryOperator | undefined) ?? '='
+      value = rest
+    }
+    if (!field && !value) continue
+
+    const term: GameQueryTerm = {
+      field: field ?? null,
+      operator,
+      value,
+      negated: !!negation,
+      quoted: quoted !== undefined
+    }
+    const error = validateTerm(term)
+    if (error) {
+      result.errors.push(error)
+    } else {
+      result.terms.push(term)
+    }
+  }
+  return result
+}
+
+function compare(actual: number, operator: GameQueryOperator, expected: number): boolean {
+  switch (operator) {
+    case '<':
+      return actual < expected
+    case '<=':
+      return actual <= expected
+    case '>':
+      return actual > expected
+    case '>=':
+      return actual >= expected
+    default:
+      return actual === expected
+  }
+}
+
+// Without a '*' the value may appear anywhere, with one it has to match the whole text
+function matchesText(text: string | undefined, pattern: string): boolean {
+  const haystack = (text ?? '').toLowerCase()
+  const needle = pattern.toLowerCase()
+  if (!needle.includes('*')) return haystack.includes(needle)
+  const escaped = needle.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`^${escaped.join('.*')}$`).test(haystack)
+}
+
+function matchesField(game: GameInfo, term: GameQueryTerm): boolean {
+  switch (term.field) {
+    case null:
+      return (
+        matchesText(game.name, term.value) ||
+        matchesText(game.packageName, term.value) ||
+        matchesText(game.releaseName, term.value)
+      )
+    case 'name':
+      return matchesText(game.name, term.value)
+    case 'pkg':
+      return matchesText(game.packageName, term.value)
+    case 'release':
+      return matchesText(game.releaseName, term.value)
+    case 'genre':
+      return (game.metadata?.genres ?? []).some((genre) => matchesText(genre, term.value))
+    case 'installed':
+      return game.isInstalled === parseBoolean(term.value)
+    case 'update':
+      return !!game.hasUpdate === parseBoolean(term.value)
+    case 'size': {
+      const sizeMb = getGameSizeMb(game)
+      return sizeMb !== null && compare(sizeMb, term.operator, parseSizeMb(term.value)!)
+    }
+    case 'downloads':
+      return compare(game.downloads, term.operator, parseFloat(term.value))
+    case 'version': {
+      const version = parseInt(game.version, 10)
+      return !Number.isNaN(version) && compare(version, term.operator, parseFloat(term.value))
+    }
+    case 'updated': {
+      const updated = Date.parse(game.lastUpdated)
+      if (Number.isNaN(updated)) return false
+      // Dates compare by whole days, '>2024-01-01' starts on January 2nd
+      const dayStart = parseDay(term.value)!
+      const dayEnd = dayStart + DAY_MS
+      switch (term.operator) {
+        case '<':
+          return updated < dayStart
+        case '<=':
+          return updated < dayEnd
+        case '>':
+          return updated >= dayEnd
+        case '>=':
+          return updated >= dayStart
+        default:
+          return updated >= dayStart && updated < dayEnd
+      }
+    }
+  }
+}
+
+export function matchesGameQueryTerm(game: GameInfo, term: GameQueryTerm): boolean {
+  return matchesField(game, term) !== term.negated
+}
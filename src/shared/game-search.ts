@@ -0,0 +1,198 @@
+import { GameInfo } from './types'
+
+// Text a game can be found by. Words are compared one by one, the compact form (no spaces or
+// punctuation) lets 'beatsaber' find 'Beat Saber'.
+interface SearchKey {
+  words: string[]
+  compact: string
+}
+
+interface SearchDocument {
+  game: GameInfo
+  keys: SearchKey[]
+}
+
+export interface GameSearchIndex {
+  documents: SearchDocument[]
+  // Documents holding each trigram of their compact keys, used to narrow down candidates
+  trigrams: Map<string, number[]>
+  maxDownloads: number
+}
+
+// Share of the query trigrams a game needs before it is scored at all
+const MIN_TRIGRAM_OVERLAP = 0.3
+// How much popularity adds on top of relevance when ranking, relevance is between 0 and 1
+const POPULARITY_WEIGHT = 0.1
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function toSearchKey(text: string): SearchKey | null {
+  const normalized = normalize(text)
+  if (!normalized) return null
+  return { words: normalized.split(' '), compact: normalized.replace(/ /g, '') }
+}
+
+// Release names carry the version and uploader, 'Beat Saber v1.35.0+1.28 -VRP'. The part before
+// the version often differs from the display name and is kept as an alias.
+function releaseAlias(releaseName: string): string {
+  return releaseName
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, ' ')
+    .replace(/\s+v?\d+(\.\d+)+.*$/i, '')
+    .replace(/\s+-\S+$/, '')
+}
+
+function trigramsOf(compact: string): Set<string> {
+  const grams = new Set<string>()
+  for (let i = 0; i + 3 <= compact.length; i++) {
+    grams.add(compact.slice(i, i + 3))
+  }
+  return grams
+}
+
+// Typos allowed for a word of the given length
+function maxTypos(length: number): number {
+  if (length < 4) return 0
+  return length < 8 ? 1 : 2
+}
+
+// Optimal string alignment distance, a swap of two neighbouring letters counts as one typo.
+// Returns max + 1 as soon as the distance is known to be larger than max.
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let previous2: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1)
+      }
+      current[j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) return max + 1
+    previous2 = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Score of one query word against one word of a game, 0 when they do not match
+function scoreWord(query: string, word: string): number {
+  if (word === query) return 1
+  if (word.startsWith(query)) return 0.9
+  if (query.length >= 3 && word.includes(query)) return 0.75
+  const allowed = maxTypos(query.length)
+  if (allowed === 0) return 0
+  const distance = Math.min(
+    editDistance(query, word, allowed),
+    editDistance(query, word.slice(0, query.length), allowed) + 0.5
+  )
+  return distance <= allowed ? 0.85 - 0.15 * distance : 0
+}
+
+// Score of the whole query against the compact form of a key, catches missing spaces
+function scoreCompact(query: string, key: SearchKey): number {
+  if (key.compact === query) return 1
+  if (key.compact.startsWith(query)) return 0.95
+  if (key.compact.includes(query)) return 0.85
+  const allowed = maxTypos(query.length)
+  if (allowed === 0) return 0
+  const distance = Math.min(
+    editDistance(query, key.compact, allowed),
+    editDistance(query, key.compact.slice(0, query.length), allowed) + 0.5
+  )
+  return distance <= allowed ? 0.8 - 0.15 * distance : 0
+}
+
+function scoreDocument(document: SearchDocument, words: string[], compact: string): number {
+  let best = 0
+  for (const key of document.keys) {
+    best = Math.max(best, scoreCompact(compact, key))
+  }
+  if (best === 1) return best
+
+  // Every query word has to match some word of the game, in any of its keys
+  let total = 0
+  for (const query of words) {
+    let wordBest = 0
+    for (const key of document.keys) {
+      for (const word of key.words) {
+        wordBest = Math.max(wordBest, scoreWord(query, word))
+      }
+    }
+    if (wordBest === 0) return best
+    total += wordBest
+  }
+  return Math.max(best, (total / words.length) * 0.95)
+}
+
+export function buildGameSearchIndex(games: GameInfo[]): GameSearchIndex {
+  const index: GameSearchIndex = { documents: [], trigrams: new Map(), maxDownloads: 0 }
+
+  games.forEach((game, documentIndex) => {
+    const texts = [game.name, game.packageName]
+    if (game.releaseName) texts.push(game.releaseName, releaseAlias(game.releaseName))
+    const keys = texts
+      .map(toSearchKey)
+      .filter((key): key is SearchKey => key !== null)
+      .filter((key, i, all) => all.findIndex((other) => other.compact === key.compact) === i)
+    index.documents.push({ game, keys })
+    index.maxDownloads = Math.max(index.maxDownloads, game.downloads || 0)
+
+    const grams = new Set(keys.flatMap((key) => [...trigramsOf(key.compact)]))
+    for (const gram of grams) {
+      const postings = index.trigrams.get(gram)
+      if (postings) {
+        postings.push(documentIndex)
+      } else {
+        index.trigrams.set(gram, [documentIndex])
+      }
+    }
+  })
+  return index
+}
+
+// Ranks the games matching the query, typos included. Scores combine relevance with the
+// download count, higher is better. Games that do not match are left out of the map.
+export function searchGames(index: GameSearchIndex, query: string): Map<GameInfo, number> {
+  const results = new Map<GameInfo, number>()
+  const key = toSearchKey(query)
+  if (!key) return results
+
+  // Short queries have no trigrams, every game is a candidate then
+  const queryGrams = trigramsOf(key.compact)
+  let candidates: number[]
+  if (queryGrams.size === 0) {
+    candidates = index.documents.map((_, i) => i)
+  } else {
+    const overlap = new Map<number, number>()
+    for (const gram of queryGrams) {
+      for (const documentIndex of index.trigrams.get(gram) ?? []) {
+        overlap.set(documentIndex, (overlap.get(documentIndex) ?? 0) + 1)
+      }
+    }
+    const required = Math.max(1, Math.ceil(queryGrams.size * MIN_TRIGRAM_OVERLAP))
+    candidates = [...overlap].filter(([, count]) => count >= required).map(([i]) => i)
+  }
+
+  for (const documentIndex of candidates) {
+    const document = index.documents[documentIndex]
+    const relevance = scoreDocument(document, key.words, key.compact)
+    if (relevance === 0) continue
+    const popularity =
+      index.maxDownloads > 0 ? (document.game.downloads || 0) / index.maxDownloads : 0
+    results.set(document.game, relevance + popularity * POPULARITY_WEIGHT)
+  }
+  return results
+}
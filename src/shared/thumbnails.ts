@@ -0,0 +1,17 @@
+// Downscaled thumbnails are served by the main process on a scheme of their own. The first
+// request for a size generates the variant, later ones read it from the cache.
+export const THUMBNAIL_SCHEME = 'thumb'
+
+// Widths variants are generated at, requests are rounded up to the next one
+export const THUMBNAIL_WIDTHS = [96, 160, 320] as const
+
+export function getThumbnailWidth(width: number): number {
+  return (
+    THUMBNAIL_WIDTHS.find((size) => size >= width) ?? THUMBNAIL_WIDTHS[THUMBNAIL_WIDTHS.length - 1]
+  )
+}
+
+export function getThumbnailUrl(imagePath: string, width: number): string {
+  const params = new URLSearchParams({ path: imagePath, width: String(getThumbnailWidth(width)) })
+  return `${THUMBNAIL_SCHEME}://image/?${params}`
+}
@@ -54,12 +54,52 @@ export function isTcpDevice(device: ExtendedDeviceInfo): boolean {
   return device.id.includes(':')
 }
 
+export type ChargingSource = 'ac' | 'usb' | 'wireless'
+
+export interface ControllerInfo {
+  side: 'left' | 'right' | 'unknown'
+  batteryLevel: number | null
+}
+
+// Live readings of a device, polled by the device dashboard
+export interface DeviceTelemetry {
+  batteryLevel: number | null
+  isCharging: boolean
+  chargingSource: ChargingSource | null
+  // Battery temperature in °C
+  temperature: number | null
+  storageTotalBytes: number | null
+  storageFreeBytes: number | null
+  model: string | null
+  osBuild: string | null
+  androidVersion: string | null
+  controllers: ControllerInfo[]
+  updatedAt: number
+}
+
+// Space a package takes on the device, from du on its APK, OBB and data folders
+export interface PackageStorageUsage {
+  packageName: string
+  apkBytes: number
+  obbBytes: number
+  dataBytes: number
+  totalBytes: number
+}
+
 export interface PackageInfo {
   packageName: string
   versionCode: number
   // More metadata fields will be added in the future
 }
 
+// Third-party package as listed by the installed apps manager
+export interface InstalledApp extends PackageInfo {
+  versionName: string | null
+  // Times reported by the package manager, in milliseconds
+  firstInstallTime: number | null
+  lastUpdateTime: number | null
+}
+
 // Game types
 export interface GameInfo {
   id: string
@@ -75,6 +115,85 @@ export interface GameInfo {
   isInstalled: boolean
   deviceVersionCode?: number
   hasUpdate?: boolean
+  // Set for games indexed from a local library folder, installed straight from this APK
+  localApkPath?: string
+  metadata?: GameMetadata
+}
+
+// Details beyond the fixed catalogue columns. Merged from the game list columns, the release note
+// and the local metadata cache, in that order of precedence.
+export interface GameMetadata {
+  genres: string[]
+  description?: string
+  releaseDate?: string
+  // 0 to 100
+  rating?: number
+  multiplayer?: boolean
+  handTracking?: boolean
+  // Game list columns without a field of their own, keyed by their header
+  columns: Record<string, string>
+}
+
+// A search box query kept under a name in the settings
+export interface SavedGameQuery {
+  id: string
+  name: string
+  query: string
+}
+
+export type GamesViewMode = 'table' | 'grid'
+
+export type PlayerModeFacet = 'any' | 'single' | 'multi'
+
+// Facet selection in the games list, games must match every facet that is set
+export interface GameFacetFilters {
+  genres: string[]
+  playerMode: PlayerModeFacet
+  handTracking: boolean
+  maxSizeMb: number | null
+  minRating: number | null
+}
+
+export type CatalogueChangeType = 'added' | 'removed' | 'updated'
+
+export interface CatalogueChange {
+  type: CatalogueChangeType
+  packageName: string
+  name: string
+  releaseName: string
+  version: string
+  // Newest release of the package in the previous snapshot, set for updated games
+  previousReleaseName?: string
+  previousVersion?: string
+}
+
+// Difference between the game lists of the last two syncs
+export interface CatalogueChanges {
+  // Null until a second snapshot exists to compare against
+  previousSyncedAt: number | null
+  syncedAt: number | null
+  changes: CatalogueChange[]
+}
+
+// Offline when the last sync could not reach the server and the catalogue shown is the one
+// cached on disk from an earlier sync
+export interface CatalogueStatus {
+  offline: boolean
+  // When the cached catalogue was synced, null if that is not known
+  catalogueDate: Date | null
+  error?: string
+}
+
+// A game followed for new releases, whether or not it is installed anywhere
+export interface WatchlistEntry {
+  packageName: string
+  addedAt: number
+  // Release found by a sync and not yet looked at, cleared from the game's details
+  newRelease?: {
+    releaseName: string
+    version: string
+    detectedAt: number
+  }
 }
 
 export interface UploadCandidate {
@@ -93,12 +212,7 @@ export interface UploadPreparationProgress {
 }
 
 export type UploadStatus =
-  | 'Queued'
-  | 'Preparing'
-  | 'Uploading'
-  | 'Completed'
-  | 'Error'
-  | 'Cancelled'
+  'Queued' | 'Preparing' | 'Uploading' | 'Completed' | 'Error' | 'Cancelled'
 
 export interface UploadItem {
   packageName: string
@@ -117,6 +231,7 @@ export interface UploadItem {
 export type DownloadStatus =
   | 'Queued'
   | 'Downloading'
+  | 'Verifying'
   | 'Paused'
   | 'Completed'
   | 'Error'
@@ -125,6 +240,9 @@ export type DownloadStatus =
   | 'Installing'
   | 'InstallError'
 
+// Queued items with a higher priority are picked first, regardless of their position
+export type DownloadPriority = 'high' | 'normal' | 'low'
+
 export interface DownloadItem {
   gameId: string
   releaseName: string
@@ -140,16 +258,101 @@ export interface DownloadItem {
   speed?: string
   eta?: string
   extractProgress?: number
+  verifyProgress?: number
+  // False when no checksums could be found to check the download against
+  verified?: boolean
   size?: string
+  position?: number
+  priority?: DownloadPriority
+  deviceInstalls?: Record<string, DeviceInstallState>
+  // Device to install on once extracted, instead of the app's selected device
+  targetDeviceId?: string
+  installScriptResults?: InstallScriptCommandResult[]
+  saveDataReports?: SaveDataReport[]
+  // Local library APK to install, its folder is never deleted with the item
+  localApkPath?: string
 }
 
-export interface DownloadProgress {
-  packageName: string
-  stage: 'download' | 'extract' | 'copy' | 'install'
+export type DeviceInstallStatus = 'Pending' | 'Installing' | 'Completed' | 'InstallError'
+
+// Progress of one device in a multi-device install, keyed by device id on the DownloadItem
+export interface DeviceInstallState {
+  deviceId: string
+  status: DeviceInstallStatus
   progress: number
+  error?: string
+}
+
+export type CatalogueSyncStage = 'checking' | 'downloading' | 'extracting' | 'loading' | 'done'
+
+export interface CatalogueSyncProgress {
+  stage: CatalogueSyncStage
+  // Percent while downloading and extracting, null for stages without measurable progress
+  progress: number | null
+  // Files written by a delta update, unset when the whole archive is extracted
+  changedFiles?: number
+  // Set when done if the remote archive had not changed since the last sync
+  unchanged?: boolean
+}
+
+// Install script types
+export type InstallScriptActionKind =
+  | 'install'
+  | 'uninstall'
+  | 'push'
+  | 'pull'
+  | 'grant'
+  | 'setting'
+  | 'shell'
+  | 'set'
+  | 'ignored'
+  | 'unsupported'
+
+// One line of an install script with variables and %~dp0 already resolved
+export interface InstallScriptAction {
+  line: number
+  raw: string
+  kind: InstallScriptActionKind
+  args: string[]
+  description: string
+  // A failing critical action aborts the rest of the script
+  critical: boolean
+}
+
+export interface InstallScriptPlan {
+  releaseName: string
+  // null when the release has no script and gets the standard APK + OBB install
+  scriptName: string | null
+  actions: InstallScriptAction[]
+}
+
+export interface InstallScriptCommandResult {
+  line: number
+  raw: string
+  kind: InstallScriptActionKind
+  status: 'success' | 'failed' | 'skipped'
+  message?: string
 }
 
 // Update types
+// How save data is treated when an incompatible update forces an uninstall
+export type SaveDataPreservation = 'always' | 'ask' | 'never'
+
+export type SaveDataOutcome = 'preserved' | 'discarded' | 'not-found' | 'failed'
+
+export interface SaveDataReport {
+  deviceId: string
+  packageName: string
+  outcome: SaveDataOutcome
+  fileCount: number
+  message: string
+  // Local copy that is kept when the data could not be put back on the device
+  localPath?: string
+  // Version of the app the save data was copied from
+  versionCode?: number
+  timestamp: number
+}
+
 export interface CommitInfo {
   sha: string
   message: string
@@ -214,6 +417,12 @@ export interface AdbAPI {
   getUserName: (serial: string) => Promise<string>
   setUserName: (serial: string, name: string) => Promise<void>
   pingDevice: (ipAddress: string) => Promise<{ reachable: boolean; responseTime?: number }>
+  getDeviceTelemetry: (serial: string) => Promise<DeviceTelemetry | null>
+  getStorageBreakdown: (serial: string) => Promise<PackageStorageUsage[]>
+  getInstalledApps: (serial: string) => Promise<InstalledApp[]>
+  clearAppData: (serial: string, packageName: string) => Promise<boolean>
+  forceStopApp: (serial: string, packageName: string) => Promise<boolean>
+  launchApp: (serial: string, packageName: string) => Promise<boolean>
 }
 
 export interface DependencyAPI {
@@ -237,19 +446,25 @@ export interface GamesAPI {
   getNote: (releaseName: string) => Promise<string>
   getBlacklistGames: () => Promise<BlacklistEntry[]>
   getTrailerVideoId: (gameName: string) => Promise<string | null>
+  getCatalogueChanges: () => Promise<CatalogueChanges>
+  getCatalogueStatus: () => Promise<CatalogueStatus>
+  getWatchlist: () => Promise<WatchlistEntry[]>
+  addToWatchlist: (packageName: string) => Promise<boolean>
+  removeFromWatchlist: (packageName: string) => Promise<boolean>
+  dismissWatchlistRelease: (packageName: string) => Promise<boolean>
   addToBlacklist: (packageName: string, version?: number | 'any') => Promise<boolean>
   removeFromBlacklist: (packageName: string) => Promise<boolean>
   isGameBlacklisted: (packageName: string, version?: number) => boolean
 }
 
-export interface GameAPIRenderer
-  extends Modify<
-    GamesAPI,
-    {
-      isGameBlacklisted: (packageName: string, version?: number) => Promise<boolean>
-    }
-  > {
-  onDownloadProgress: (callback: (progress: DownloadProgress) => void) => () => void
+export interface GameAPIRenderer extends Modify<
+  GamesAPI,
+  {
+    isGameBlacklisted: (packageName: string, version?: number) => Promise<boolean>
+  }
+> {
+  onSyncProgress: (callback: (progress: CatalogueSyncProgress) => void) => () => void
+  onWatchlistUpdated: (callback: (watchlist: WatchlistEntry[]) => void) => () => void
 }
 
 export interface DownloadAPI {
@@ -263,11 +478,15 @@ export interface DownloadAPI {
   deleteDownloadedFiles: (releaseName: string) => Promise<boolean>
   setDownloadPath: (path: string) => void
   setAppConnectionState: (selectedDevice: string | null, isConnected: boolean) => void
+  moveItem: (releaseName: string, toIndex: number) => Promise<boolean>
+  setPriority: (releaseName: string, priority: DownloadPriority) => Promise<boolean>
 }
 
 export interface DownloadAPIRenderer extends DownloadAPI {
   onQueueUpdated: (callback: (queue: DownloadItem[]) => void) => () => void
   installFromCompleted: (releaseName: string, deviceId: string) => Promise<void>
+  installToDevices: (releaseName: string, deviceIds: string[]) => Promise<DeviceInstallState[]>
+  previewInstallScript: (releaseName: string) => Promise<InstallScriptPlan | null>
   installManualFile: (filePath: string, deviceId: string) => Promise<boolean>
   copyObbFolder: (folderPath: string, deviceId: string) => Promise<boolean>
 }
@@ -309,12 +528,40 @@ export interface UpdateAPIRenderer extends UpdateAPI {
   onUpdateError: (callback: (error: Error) => void) => () => void
 }
 
+// Number of queue items allowed in each pipeline stage at the same time
+export interface PipelineConcurrency {
+  downloads: number
+  extractions: number
+  installations: number
+}
+
+// A recurring weekly time range with its own download speed limit
+export interface BandwidthScheduleRule {
+  id: string
+  days: number[] // 0 = Sunday ... 6 = Saturday, as returned by Date.getDay()
+  startTime: string // 'HH:MM'
+  endTime: string // 'HH:MM', at or before startTime for ranges that cross midnight
+  speedLimit: number // KB/s, 0 pauses downloads
+}
+
+export interface BandwidthSchedule {
+  enabled: boolean
+  rules: BandwidthScheduleRule[]
+}
+
 export interface Settings {
   downloadPath: string
   downloadSpeedLimit: number
   uploadSpeedLimit: number
   hideAdultContent: boolean
   colorScheme: 'light' | 'dark'
+  pipelineConcurrency: PipelineConcurrency
+  bandwidthSchedule: BandwidthSchedule
+  saveDataPreservation: SaveDataPreservation
+  autoDownloadWatchlist: boolean
+  autoUpdateOnConnect: boolean
+  savedGameQueries: SavedGameQuery[]
+  gamesViewMode: GamesViewMode
 }
 
 export interface SettingsAPI {
@@ -326,22 +573,49 @@ export interface SettingsAPI {
   setUploadSpeedLimit: (limit: number) => void
   getColorScheme: () => 'light' | 'dark'
   setColorScheme: (scheme: 'light' | 'dark') => void
-}
-
-export interface SettingsAPIRenderer
-  extends Modify<
-    SettingsAPI,
-    {
-      getDownloadPath: () => Promise<string>
-      setDownloadPath: (path: string) => Promise<void>
-      getDownloadSpeedLimit: () => Promise<number>
-      setDownloadSpeedLimit: (limit: number) => Promise<void>
-      getUploadSpeedLimit: () => Promise<number>
-      setUploadSpeedLimit: (limit: number) => Promise<void>
-      getColorScheme: () => Promise<'light' | 'dark'>
-      setColorScheme: (scheme: 'light' | 'dark') => Promise<void>
-    }
-  > {}
+  getPipelineConcurrency: () => PipelineConcurrency
+  setPipelineConcurrency: (concurrency: PipelineConcurrency) => void
+  getBandwidthSchedule: () => BandwidthSchedule
+  setBandwidthSchedule: (schedule: BandwidthSchedule) => void
+  getSaveDataPreservation: () => SaveDataPreservation
+  setSaveDataPreservation: (mode: SaveDataPreservation) => void
+  getAutoDownloadWatchlist: () => boolean
+  setAutoDownloadWatchlist: (enabled: boolean) => void
+  getAutoUpdateOnConnect: () => boolean
+  setAutoUpdateOnConnect: (enabled: boolean) => void
+  getSavedGameQueries: () => SavedGameQuery[]
+  setSavedGameQueries: (queries: SavedGameQuery[]) => void
+  getGamesViewMode: () => GamesViewMode
+  setGamesViewMode: (mode: GamesViewMode) => void
+}
+
+export interface SettingsAPIRenderer extends Modify<
+  SettingsAPI,
+  {
+    getDownloadPath: () => Promise<string>
+    setDownloadPath: (path: string) => Promise<void>
+    getDownloadSpeedLimit: () => Promise<number>
+    setDownloadSpeedLimit: (limit: number) => Promise<void>
+    getUploadSpeedLimit: () => Promise<number>
+    setUploadSpeedLimit: (limit: number) => Promise<void>
+    getColorScheme: () => Promise<'light' | 'dark'>
+    setColorScheme: (scheme: 'light' | 'dark') => Promise<void>
+    getPipelineConcurrency: () => Promise<PipelineConcurrency>
+    setPipelineConcurrency: (concurrency: PipelineConcurrency) => Promise<void>
+    getBandwidthSchedule: () => Promise<BandwidthSchedule>
+    setBandwidthSchedule: (schedule: BandwidthSchedule) => Promise<void>
+    getSaveDataPreservation: () => Promise<SaveDataPreservation>
+    setSaveDataPreservation: (mode: SaveDataPreservation) => Promise<void>
+    getAutoDownloadWatchlist: () => Promise<boolean>
+    setAutoDownloadWatchlist: (enabled: boolean) => Promise<void>
+    getAutoUpdateOnConnect: () => Promise<boolean>
+    setAutoUpdateOnConnect: (enabled: boolean) => Promise<void>
+    getSavedGameQueries: () => Promise<SavedGameQuery[]>
+    setSavedGameQueries: (queries: SavedGameQuery[]) => Promise<void>
+    getGamesViewMode: () => Promise<GamesViewMode>
+    setGamesViewMode: (mode: GamesViewMode) => Promise<void>
+  }
+> {}
 
 // Logs API
 export interface LogsAPI {
@@ -406,3 +680,247 @@ export interface MirrorAPIRenderer extends MirrorAPI {
   onMirrorsUpdated: (callback: (mirrors: Mirror[]) => void) => () => void
   importFromFile: () => Promise<string | null>
 }
+
+// Device profile types
+export interface DeviceProfileApp {
+  packageName: string
+  // Installed versions below this count as outdated, any version satisfies the profile when unset
+  minVersionCode?: number
+}
+
+export interface DeviceProfile {
+  id: string
+  name: string
+  apps: DeviceProfileApp[]
+  dateAdded: Date
+  dateModified?: Date
+}
+
+export interface ProfileDiffEntry {
+  packageName: string
+  gameName?: string
+  minVersionCode?: number
+  installedVersionCode?: number
+  // Newest release of the package in the catalogue
+  releaseName?: string
+  availableVersionCode?: number
+}
+
+export interface ProfileDiff {
+  profileId: string
+  deviceId: string
+  missing: ProfileDiffEntry[]
+  outdated: ProfileDiffEntry[]
+  extra: PackageInfo[]
+  upToDate: number
+}
+
+export interface ProfileApplyOptions {
+  uninstallExtra: boolean
+}
+
+// Package names grouped by what applying the profile did with them
+export interface ProfileApplyResult {
+  queued: string[]
+  installing: string[]
+  alreadyQueued: string[]
+  unavailable: string[]
+  uninstalled: string[]
+  failed: string[]
+}
+
+// Device profiles API
+export interface DeviceProfilesAPI {
+  getAll: () => Promise<DeviceProfile[]>
+  add: (name: string, apps: DeviceProfileApp[]) => Promise<DeviceProfile | null>
+  update: (id: string, name: string, apps: DeviceProfileApp[]) => Promise<boolean>
+  remove: (id: string) => Promise<boolean>
+  captureFromDevice: (name: string, deviceId: string) => Promise<DeviceProfile | null>
+  getDiff: (id: string, deviceId: string) => Promise<ProfileDiff | null>
+  apply: (
+    id: string,
+    deviceId: string,
+    options: ProfileApplyOptions
+  ) => Promise<ProfileApplyResult | null>
+}
+
+export interface DeviceProfilesAPIRenderer extends DeviceProfilesAPI {}
+
+// Package names grouped by what updating a device did with them
+export interface GameUpdatesResult {
+  deviceId: string
+  queued: string[]
+  installing: string[]
+  alreadyQueued: string[]
+  blacklisted: string[]
+  failed: string[]
+}
+
+// Game updates API
+export interface GameUpdatesAPI {
+  updateAll: (deviceId: string) => Promise<GameUpdatesResult | null>
+}
+
+export interface GameUpdatesAPIRenderer extends GameUpdatesAPI {}
+
+// Backup types
+export interface BackupContents {
+  apk: boolean
+  obb: boolean
+  data: boolean
+}
+
+export interface BackupEntry {
+  // Archive file name without extension, unique across all backups
+  id: string
+  packageName: string
+  gameName: string
+  versionCode: number
+  sourceDeviceId: string
+  sourceDeviceName?: string
+  createdAt: number
+  size: number
+  contents: BackupContents
+}
+
+export interface BackupProgress {
+  packageName: string
+  operation: 'backup' | 'restore'
+  stage: string
+  progress: number
+}
+
+// Backups API
+export interface BackupsAPI {
+  getAll: () => Promise<BackupEntry[]>
+  create: (deviceId: string, packageName: string) => Promise<BackupEntry | null>
+  restore: (id: string, deviceId: string, parts: BackupContents) => Promise<boolean>
+  remove: (id: string) => Promise<boolean>
+}
+
+export interface BackupsAPIRenderer extends BackupsAPI {
+  onProgress: (callback: (progress: BackupProgress) => void) => () => void
+}
+
+// Local library types
+export interface LocalLibraryEntry {
+  apkPath: string
+  // Sibling folder named after the package, pushed to /sdcard/Android/obb on install
+  obbPath?: string
+  packageName: string
+  versionCode: number
+  versionName: string
+  // Empty when the manifest only references a string resource
+  label: string
+  // Bytes of the APK plus its OBB folder
+  size: number
+  modifiedAt: number
+}
+
+// Local Library API
+export interface LocalLibraryAPI {
+  getFolders: () => Promise<string[]>
+  addFolder: (folderPath: string) => Promise<boolean>
+  removeFolder: (folderPath: string) => Promise<boolean>
+  getEntries: () => Promise<LocalLibraryEntry[]>
+  rescan: () => Promise<LocalLibraryEntry[]>
+}
+
+export interface LocalLibraryAPIRenderer extends LocalLibraryAPI {
+  onUpdated: (callback: (entries: LocalLibraryEntry[]) => void) => () => void
+}
+
+// Device file browser types
+export interface DeviceFileEntry {
+  name: string
+  path: string
+  isDirectory: boolean
+  // Bytes, 0 for folders
+  size: number
+  modifiedAt: number
+}
+
+export interface FileTransferProgress {
+  operation: 'upload' | 'download'
+  // File being transferred, relative to the folder it is copied into
+  fileName: string
+  transferredBytes: number
+  totalBytes: number
+  completedFiles: number
+  totalFiles: number
+}
+
+// Device Files API, paths are limited to /sdcard
+export interface DeviceFilesAPI {
+  // Null when the folder cannot be read
+  list: (serial: string, path: string) => Promise<DeviceFileEntry[] | null>
+  upload: (serial: string, localPaths: string[], remoteDir: string) => Promise<boolean>
+  download: (serial: string, remotePaths: string[], localDir: string) => Promise<boolean>
+  rename: (serial: string, path: string, newName: string) => Promise<boolean>
+  remove: (serial: string, paths: string[]) => Promise<boolean>
+  createFolder: (serial: string, parentPath: string, name: string) => Promise<boolean>
+}
+
+export interface DeviceFilesAPIRenderer extends DeviceFilesAPI {
+  // Pulls local copies of the files for a later drag, null when they could not be pulled
+  prepareDrag: (serial: string, paths: string[]) => Promise<string[] | null>
+  // Hands the prepared copies to an OS drag, has to be called from a dragstart handler
+  startDrag: () => void
+  onProgress: (callback: (progress: FileTransferProgress) => void) => () => void
+  // Local path of a file dropped onto the window
+  getPathForFile: (file: File) => string
+}
+
+// Headset media types, screenshots and recordings made on the device
+export interface DeviceMediaItem {
+  name: string
+  path: string
+  kind: 'screenshot' | 'video'
+  size: number
+  modifiedAt: number
+}
+
+// Media API, exporting and deleting goes through the Device Files API
+export interface MediaAPI {
+  // Newest first, null when the media folders cannot be read
+  list: (serial: string) => Promise<DeviceMediaItem[] | null>
+  // Local copy of a media file to preview, pulled once and then served from the cache
+  getPreviewPath: (serial: string, path: string) => Promise<string | null>
+}
+
+export interface MediaAPIRenderer extends MediaAPI {}
+
+// Screen mirroring types
+export interface ScreenMirrorOptions {
+  // Bits per second the headset encodes the stream at
+  bitRate: number
+}
+
+export type ScreenMirrorState = 'idle' | 'starting' | 'streaming' | 'error'
+
+export interface ScreenMirrorStatus {
+  state: ScreenMirrorState
+  serial: string | null
+  error: string | null
+}
+
+// One H.264 encoded frame, Annex B formatted
+export interface ScreenMirrorFrame {
+  data: Uint8Array
+  isKey: boolean
+  // WebCodecs codec string, e.g. 'avc1.640028'
+  codec: string | null
+  // Microseconds since mirroring started
+  timestamp: number
+}
+
+// Screen Mirror API, one headset is mirrored at a time
+export interface ScreenMirrorAPI {
+  start: (serial: string, options: ScreenMirrorOptions) => Promise<boolean>
+  stop: () => Promise<void>
+}
+
+export interface ScreenMirrorAPIRenderer extends ScreenMirrorAPI {
+  onStatus: (callback: (status: ScreenMirrorStatus) => void) => () => void
+  onFrame: (callback: (frame: ScreenMirrorFrame) => void) => () => void
+}
@@ -1,8 +1,10 @@
 import {
   DeviceInfo,
+  DeviceTelemetry,
+  PackageStorageUsage,
+  InstalledApp,
   GameInfo,
   DownloadItem,
-  DownloadProgress,
   DependencyStatus,
   PackageInfo,
   UploadItem,
@@ -12,7 +14,35 @@ import {
   BlacklistEntry,
   Mirror,
   MirrorTestResult,
-  WiFiBookmark
+  WiFiBookmark,
+  PipelineConcurrency,
+  DownloadPriority,
+  BandwidthSchedule,
+  DeviceInstallState,
+  InstallScriptPlan,
+  DeviceProfile,
+  DeviceProfileApp,
+  ProfileDiff,
+  ProfileApplyOptions,
+  ProfileApplyResult,
+  BackupEntry,
+  BackupContents,
+  BackupProgress,
+  SaveDataPreservation,
+  LocalLibraryEntry,
+  DeviceFileEntry,
+  FileTransferProgress,
+  DeviceMediaItem,
+  ScreenMirrorOptions,
+  ScreenMirrorStatus,
+  ScreenMirrorFrame,
+  CatalogueChanges,
+  CatalogueStatus,
+  CatalogueSyncProgress,
+  WatchlistEntry,
+  GameUpdatesResult,
+  SavedGameQuery,
+  GamesViewMode
 } from './index'
 
 // Define types for all IPC channels between renderer and main
@@ -48,6 +78,12 @@ export interface IPCChannels {
     [ipAddress: string],
     { reachable: boolean; responseTime?: number }
   >
+  'adb:get-device-telemetry': DefineChannel<[serial: string], DeviceTelemetry | null>
+  'adb:get-storage-breakdown': DefineChannel<[serial: string], PackageStorageUsage[]>
+  'adb:get-installed-apps': DefineChannel<[serial: string], InstalledApp[]>
+  'adb:clear-app-data': DefineChannel<[serial: string, packageName: string], boolean>
+  'adb:force-stop-app': DefineChannel<[serial: string, packageName: string], boolean>
+  'adb:launch-app': DefineChannel<[serial: string, packageName: string], boolean>
 
   // Game related channels
   'games:get-games': DefineChannel<[], GameInfo[]>
@@ -59,6 +95,12 @@ export interface IPCChannels {
   'games:force-sync-games': DefineChannel<[], GameInfo[]>
   'games:get-note': DefineChannel<[releaseName: string], string>
   'games:get-trailer-video-id': DefineChannel<[gameName: string], string | null>
+  'games:get-catalogue-changes': DefineChannel<[], CatalogueChanges>
+  'games:get-catalogue-status': DefineChannel<[], CatalogueStatus>
+  'games:get-watchlist': DefineChannel<[], WatchlistEntry[]>
+  'games:add-to-watchlist': DefineChannel<[packageName: string], boolean>
+  'games:remove-from-watchlist': DefineChannel<[packageName: string], boolean>
+  'games:dismiss-watchlist-release': DefineChannel<[packageName: string], boolean>
 
   // Download related channels
   'download:get-queue': DefineChannel<[], DownloadItem[]>
@@ -66,6 +108,13 @@ export interface IPCChannels {
   'download:remove': DefineChannel<[releaseName: string], void>
   'download:delete-files': DefineChannel<[releaseName: string], boolean>
   'download:install-from-completed': DefineChannel<[releaseName: string, deviceId: string], void>
+  'download:install-to-devices': DefineChannel<
+    [releaseName: string, deviceIds: string[]],
+    DeviceInstallState[]
+  >
+  'download:preview-install-script': DefineChannel<[releaseName: string], InstallScriptPlan | null>
+  'download:move': DefineChannel<[releaseName: string, toIndex: number], boolean>
+  'download:set-priority': DefineChannel<[releaseName: string, priority: DownloadPriority], boolean>
 
   // Upload related channels
   'upload:prepare': DefineChannel<
@@ -90,6 +139,20 @@ export interface IPCChannels {
   'settings:set-upload-speed-limit': DefineChannel<[limit: number], void>
   'settings:get-color-scheme': DefineChannel<[], 'light' | 'dark'>
   'settings:set-color-scheme': DefineChannel<[scheme: 'light' | 'dark'], void>
+  'settings:get-pipeline-concurrency': DefineChannel<[], PipelineConcurrency>
+  'settings:set-pipeline-concurrency': DefineChannel<[concurrency: PipelineConcurrency], void>
+  'settings:get-bandwidth-schedule': DefineChannel<[], BandwidthSchedule>
+  'settings:set-bandwidth-schedule': DefineChannel<[schedule: BandwidthSchedule], void>
+  'settings:get-save-data-preservation': DefineChannel<[], SaveDataPreservation>
+  'settings:set-save-data-preservation': DefineChannel<[mode: SaveDataPreservation], void>
+  'settings:get-auto-download-watchlist': DefineChannel<[], boolean>
+  'settings:set-auto-download-watchlist': DefineChannel<[enabled: boolean], void>
+  'settings:get-auto-update-on-connect': DefineChannel<[], boolean>
+  'settings:set-auto-update-on-connect': DefineChannel<[enabled: boolean], void>
+  'settings:get-saved-game-queries': DefineChannel<[], SavedGameQuery[]>
+  'settings:set-saved-game-queries': DefineChannel<[queries: SavedGameQuery[]], void>
+  'settings:get-games-view-mode': DefineChannel<[], GamesViewMode>
+  'settings:set-games-view-mode': DefineChannel<[mode: GamesViewMode], void>
 
   // Log upload related channels
   'logs:upload-current': DefineChannel<[], { url: string; password: string } | null>
@@ -111,6 +174,63 @@ export interface IPCChannels {
   'wifi-bookmarks:remove': DefineChannel<[id: string], boolean>
   'wifi-bookmarks:update-last-connected': DefineChannel<[id: string], void>
 
+  // Device profile related channels
+  'profiles:get-all': DefineChannel<[], DeviceProfile[]>
+  'profiles:add': DefineChannel<[name: string, apps: DeviceProfileApp[]], DeviceProfile | null>
+  'profiles:update': DefineChannel<[id: string, name: string, apps: DeviceProfileApp[]], boolean>
+  'profiles:remove': DefineChannel<[id: string], boolean>
+  'profiles:capture-from-device': DefineChannel<
+    [name: string, deviceId: string],
+    DeviceProfile | null
+  >
+  'profiles:get-diff': DefineChannel<[id: string, deviceId: string], ProfileDiff | null>
+  'profiles:apply': DefineChannel<
+    [id: string, deviceId: string, options: ProfileApplyOptions],
+    ProfileApplyResult | null
+  >
+
+  // Game update related channels
+  'game-updates:update-all': DefineChannel<[deviceId: string], GameUpdatesResult | null>
+
+  // Backup related channels
+  'backups:get-all': DefineChannel<[], BackupEntry[]>
+  'backups:create': DefineChannel<[deviceId: string, packageName: string], BackupEntry | null>
+  'backups:restore': DefineChannel<[id: string, deviceId: string, parts: BackupContents], boolean>
+  'backups:remove': DefineChannel<[id: string], boolean>
+
+  // Local library related channels
+  'local-library:get-folders': DefineChannel<[], string[]>
+  'local-library:add-folder': DefineChannel<[folderPath: string], boolean>
+  'local-library:remove-folder': DefineChannel<[folderPath: string], boolean>
+  'local-library:get-entries': DefineChannel<[], LocalLibraryEntry[]>
+  'local-library:rescan': DefineChannel<[], LocalLibraryEntry[]>
+
+  // Device file browser channels
+  'device-files:list': DefineChannel<[serial: string, path: string], DeviceFileEntry[] | null>
+  'device-files:upload': DefineChannel<
+    [serial: string, localPaths: string[], remoteDir: string],
+    boolean
+  >
+  'device-files:download': DefineChannel<
+    [serial: string, remotePaths: string[], localDir: string],
+    boolean
+  >
+  'device-files:rename': DefineChannel<[serial: string, path: string, newName: string], boolean>
+  'device-files:remove': DefineChannel<[serial: string, paths: string[]], boolean>
+  'device-files:create-folder': DefineChannel<
+    [serial: string, parentPath: string, name: string],
+    boolean
+  >
+  'device-files:prepare-drag': DefineChannel<[serial: string, paths: string[]], string[] | null>
+
+  // Headset media channels
+  'media:list': DefineChannel<[serial: string], DeviceMediaItem[] | null>
+  'media:get-preview-path': DefineChannel<[serial: string, path: string], string | null>
+
+  // Screen mirroring channels
+  'screen-mirror:start': DefineChannel<[serial: string, options: ScreenMirrorOptions], boolean>
+  'screen-mirror:stop': DefineChannel<[], void>
+
   // Dialog related channels
   'dialog:show-directory-picker': DefineChannel<[], string | null>
   'dialog:show-file-picker': DefineChannel<
@@ -119,7 +239,10 @@ export interface IPCChannels {
   >
   'dialog:show-manual-install-picker': DefineChannel<[], string | null>
   'dialog:show-apk-file-picker': DefineChannel<[], string | null>
-  'dialog:show-folder-picker': DefineChannel<[], string | null>
+  'dialog:show-folder-picker': DefineChannel<
+    [options?: { title?: string; createDirectory?: boolean }],
+    string | null
+  >
 
   // Manual installation channels
   'downloads:install-manual': DefineChannel<[filePath: string, deviceId: string], boolean>
@@ -140,6 +263,7 @@ export interface IPCSendChannels {
   'update:download': string
   'update:open-releases': void
   'update:open-repository': void
+  'device-files:start-drag': void
 }
 
 // Types for events emitted from main to renderer
@@ -152,7 +276,8 @@ export interface IPCEvents {
   'adb:device-changed': [device: DeviceInfo]
   'adb:device-tracker-error': [error: string]
   'adb:installation-completed': [deviceId: string]
-  'games:download-progress': [progress: DownloadProgress]
+  'games:sync-progress': [progress: CatalogueSyncProgress]
+  'games:watchlist-updated': [watchlist: WatchlistEntry[]]
   'download:queue-updated': [queue: DownloadItem[]]
   'upload:progress': [progress: UploadPreparationProgress]
   'upload:queue-updated': [queue: UploadItem[]]
@@ -165,4 +290,9 @@ export interface IPCEvents {
   'update:update-downloaded': [updateInfo: UpdateInfo]
   'mirrors:test-progress': [id: string, status: 'testing' | 'success' | 'failed', error?: string]
   'mirrors:mirrors-updated': [mirrors: Mirror[]]
+  'backups:progress': [progress: BackupProgress]
+  'local-library:updated': [entries: LocalLibraryEntry[]]
+  'device-files:progress': [progress: FileTransferProgress]
+  'screen-mirror:status': [status: ScreenMirrorStatus]
+  'screen-mirror:frame': [frame: ScreenMirrorFrame]
 }